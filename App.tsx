@@ -1,76 +1,93 @@
 import React, { useState, useEffect, useMemo, useRef } from 'react';
-import { analyzeProposal } from './services/geminiService';
-import { useGoogleLogin } from '@react-oauth/google';
-
-// --- Types ---
-interface User {
-  id: string;
-  name: string;
-  role: 'student' | 'admin';
-  class?: string;
-  email?: string;
-}
-
-interface Signature {
-  userId: string;
-  userName: string;
-  timestamp: string;
-}
-
-interface Proposal {
-  id: number;
-  title: string;
-  content: string;
-  category: string;
-  status: '受付中' | '検討中' | '先生と調整中' | '対応済';
-  adminResponse: string;
-  timestamp: string;
-  signatures: Signature[];
-}
-
-interface NewsItem {
-  id: number;
-  title: string;
-  content: string;
-  timestamp: string;
-  author: string;
-}
-
-// --- Constants ---
-const STATUS_STEPS = ['受付中', '検討中', '先生と調整中', '対応済'];
-const CATEGORIES = ['校則', '設備・環境', '授業', 'その他'];
+import * as api from './services/api';
+import { GoogleLogin, type CredentialResponse } from '@react-oauth/google';
+import type { AIAnalysisResult, Appeal, NewsItem, Proposal, RuleReference, SchoolInfo, SearchResponse, SignatureVisibility, SimilarProposal, StatusColor, User, VoteStance, Workflow } from './types';
+import { ROLE_LABELS, SIGNATURE_VISIBILITY_LABELS, STATUS_COLOR_CLASSES, VOTE_LABELS } from './constants';
+import { can } from './permissions';
+import NotificationBell from './components/NotificationBell';
+import ModerationView from './components/ModerationView';
+import AnalyticsView from './components/AnalyticsView';
+import RosterView from './components/RosterView';
+import UsersView from './components/UsersView';
+import ProposalTimeline from './components/ProposalTimeline';
+import ReportButton from './components/ReportButton';
+import QuestionThread from './components/QuestionThread';
+import BallotPanel from './components/BallotPanel';
+import CommentThread from './components/CommentThread';
+import Highlight from './components/Highlight';
+import SearchFacets, { type SearchState } from './components/SearchFacets';
+import VoteBreakdown from './components/VoteBreakdown';
+import RulesView from './components/RulesView';
+import StatusProgress from './components/StatusProgress';
+import WorkflowView from './components/WorkflowView';
 
 // --- Helper Components ---
 
-const StatusBadge: React.FC<{ status: string }> = ({ status }) => {
-  const colors: Record<string, string> = {
-    '受付中': 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-100',
-    '検討中': 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-100',
-    '先生と調整中': 'bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-100',
-    '対応済': 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-100',
-  };
-  return (
-    <span className={`px-2 py-1 rounded text-xs font-bold ${colors[status] || 'bg-gray-100 text-gray-800'}`}>
-      {status}
-    </span>
-  );
-};
+const StatusBadge: React.FC<{ status: string; color?: StatusColor }> = ({ status, color }) => (
+  <span className={`px-2 py-1 rounded text-xs font-bold ${color ? STATUS_COLOR_CLASSES[color] : 'bg-gray-100 text-gray-800'}`}>
+    {status}
+  </span>
+);
+
+// --- Vote ordering ---
+
+// Signature visibility settings, from the most open to the strictest
+const VISIBILITIES = Object.keys(SIGNATURE_VISIBILITY_LABELS) as SignatureVisibility[];
+
+const netSupport = (p: Proposal) => p.votes.support - p.votes.oppose;
+
+// Highest when many students are on both sides: the smaller side decides how split it is.
+const controversy = (p: Proposal) => Math.min(p.votes.support, p.votes.oppose);
+
+// --- Shareable search URLs ---
+
+const SEARCH_KEYS = ['q', 'category', 'status', 'tag', 'from', 'to'] as const;
+const EMPTY_SEARCH: SearchState = { q: '', category: '', status: '', tag: '', from: '', to: '' };
+const SORT_ORDERS = ['relevance', 'newest', 'signatures', 'net', 'controversy'] as const;
+type SortOrder = (typeof SORT_ORDERS)[number];
+
+// Search state lives in the query string (?q=制服&status=検討中), so a filtered list can be shared as a link.
+const initialUrl = new URLSearchParams(window.location.search);
+const searchFromUrl = (): SearchState =>
+  Object.fromEntries(SEARCH_KEYS.map(key => [key, initialUrl.get(key) ?? ''])) as unknown as SearchState;
+const isSearching = (search: SearchState) => SEARCH_KEYS.some(key => search[key].trim());
 
 // --- Main Component ---
 
-const App: React.FC = () => {
+// `school` is the school this address belongs to (loaded before the app starts).
+const App: React.FC<{ school: SchoolInfo }> = ({ school }) => {
   // State
   const [user, setUser] = useState<User | null>(null);
+  // Other schools on this deployment, for switching on a shared address
+  const [otherSchools, setOtherSchools] = useState<{ id: string; name: string }[]>([]);
   // view state expanded to include 'proposals' and 'status'
-  const [view, setView] = useState<'home' | 'proposals' | 'status' | 'login' | 'register'>('home');
+  const [view, setView] = useState<'home' | 'proposals' | 'mine' | 'status' | 'rules' | 'workflow' | 'moderation' | 'analytics' | 'roster' | 'users' | 'login' | 'register'>(() =>
+    isSearching(searchFromUrl()) ? 'proposals' : 'home'
+  );
   const [proposals, setProposals] = useState<Proposal[]>([]);
+  // Statuses and allowed transitions, as defined by admins
+  const [workflow, setWorkflow] = useState<Workflow | null>(null);
+  // IDs of proposals the signed-in user follows (posted, signed or followed by hand)
+  const [subscriptions, setSubscriptions] = useState<number[]>([]);
+  // The signed-in user's vote per proposal ID
+  const [myVotes, setMyVotes] = useState<Record<number, VoteStance>>({});
+  // The signed-in user's own proposals, including withdrawn ones (only they can see this)
+  const [myProposals, setMyProposals] = useState<Proposal[]>([]);
+  // Set while the post modal revises one of the user's proposals
+  const [editingProposalId, setEditingProposalId] = useState<number | null>(null);
   const [news, setNews] = useState<NewsItem[]>([]);
   const [theme, setTheme] = useState<'light' | 'dark'>('light');
   
   // Filters & Search
-  const [categoryFilter, setCategoryFilter] = useState<string>('all');
-  const [searchTerm, setSearchTerm] = useState<string>('');
-  const [sortOrder, setSortOrder] = useState<'newest' | 'signatures'>('newest');
+  const [search, setSearch] = useState<SearchState>(searchFromUrl);
+  // Server-side matches for `search` (null while nothing is being searched)
+  const [searchResult, setSearchResult] = useState<SearchResponse | null>(null);
+  // School-rule section number, e.g. 4 for 頭髪 (proposals citing that rule)
+  const [ruleFilter, setRuleFilter] = useState<number | null>(null);
+  const [sortOrder, setSortOrder] = useState<SortOrder>(() => {
+    const sort = initialUrl.get('sort') as SortOrder;
+    return SORT_ORDERS.includes(sort) ? sort : 'newest';
+  });
 
   // Modals
   const [isPostModalOpen, setIsPostModalOpen] = useState(false);
@@ -79,11 +96,13 @@ const App: React.FC = () => {
 
   // Forms
   const [loginForm, setLoginForm] = useState({ email: '', password: '' });
-  const [registerForm, setRegisterForm] = useState({ name: '', email: '', password: '', class: '' });
+  const [registerForm, setRegisterForm] = useState({ name: '', email: '', password: '' });
   
   // Post Form State
   // Removed explicit category selection from user input, default to empty, filled by AI
   const [postForm, setPostForm] = useState({ title: '', content: '', category: '' });
+  // Who will see the names of people who support a new post
+  const [postVisibility, setPostVisibility] = useState<SignatureVisibility>('public');
   
   // Enhanced AI Analysis State
   const [aiAnalysis, setAiAnalysis] = useState<{ 
@@ -91,67 +110,99 @@ const App: React.FC = () => {
       loading: boolean;
       detectedCategory?: string;
       detectedTags?: string[];
+      detectedRuleRefs?: RuleReference[];
+      verdict?: string;
+      // Set when the AI rejected the draft; lets the student ask an admin to review it
+      rejection?: string;
   } | null>(null);
+  const [appealNote, setAppealNote] = useState('');
+  // The signed-in user's review requests for rejected drafts
+  const [myAppeals, setMyAppeals] = useState<Appeal[]>([]);
   const [isAIApproved, setIsAIApproved] = useState(false); 
 
+  // Existing proposals resembling the draft, so students can sign instead of posting a duplicate
+  const [similarProposals, setSimilarProposals] = useState<SimilarProposal[]>([]);
+
+  // Admin: proposal to merge the open one into
+  const [mergeTargetId, setMergeTargetId] = useState<number | null>(null);
+
+  // Admin: unsaved edit of the open proposal's response (null = no edit in progress)
+  const [responseDraft, setResponseDraft] = useState<string | null>(null);
+
+  // Admin: date range for the history CSV export
+  const [historyRange, setHistoryRange] = useState({ from: '', to: '' });
+  // Period of the printable monthly report; empty means the current month
+  const [reportRange, setReportRange] = useState({ from: '', to: '' });
+
   const [newsForm, setNewsForm] = useState({ title: '', content: '' });
 
+  const reloadProposals = () =>
+    api.fetchProposals()
+      .then(setProposals)
+      .catch(error => console.error('Failed to load proposals:', error));
+
   // Init Data
   useEffect(() => {
-    const savedProposals = localStorage.getItem('schoolProposals');
-    if (savedProposals) setProposals(JSON.parse(savedProposals));
-    else {
-      // Seed data if empty
-      const seeds: Proposal[] = [
-        {
-          id: 1,
-          title: '靴下の色にグレーを追加して欲しい',
-          content: '靴下の色は黒・白・紺のみですが、友達の学校ではグレーも良いそうです。なぜグレーがダメなのかわかりません。グレーの追加をお願いします。 #靴下',
-          category: '校則',
-          status: '先生と調整中',
-          adminResponse: '生徒総会での議論を経て、職員会議に提案中です。',
-          timestamp: new Date().toISOString(),
-          signatures: []
-        },
-        {
-          id: 2,
-          title: '食堂のメニューに麺類を追加してほしい',
-          content: '今はパンとおにぎりしかありません。温かい麺類（うどんやラーメン）が食べたいです。 #食堂 #ランチ #改善希望',
-          category: '設備・環境',
-          status: '受付中',
-          adminResponse: '',
-          timestamp: new Date(Date.now() - 86400000).toISOString(),
-          signatures: [{ userId: 'demo', userName: 'デモ太郎', timestamp: new Date().toISOString() }]
-        },
-        {
-          id: 3,
-          title: '図書室の開館時間を延長してください',
-          content: '放課後、部活の前にもう少し勉強したいのですが、すぐに閉まってしまいます。あと30分延長できませんか？',
-          category: '設備・環境',
-          status: '対応済',
-          adminResponse: '試験期間中のみ、18:00まで延長することが決定しました。',
-          timestamp: new Date(Date.now() - 172800000).toISOString(),
-          signatures: []
-        }
-      ];
-      setProposals(seeds);
-      localStorage.setItem('schoolProposals', JSON.stringify(seeds));
+    reloadProposals();
+    api.fetchNews()
+      .then(setNews)
+      .catch(error => console.error('Failed to load news:', error));
+    api.fetchWorkflow()
+      .then(setWorkflow)
+      .catch(error => console.error('Failed to load workflow:', error));
+    // Opened from a sign-up confirmation mail: finish the registration and sign in
+    const verifyToken = initialUrl.get('verify');
+    if (verifyToken) {
+      window.history.replaceState(null, '', window.location.pathname);
+      api.confirmRegistration(verifyToken)
+        .then(setUser)
+        .catch(error => alert(error instanceof Error ? error.message : String(error)));
+    } else {
+      api.fetchCurrentUser()
+        .then(setUser)
+        .catch(error => console.error('Failed to restore session:', error));
     }
-
-    const savedNews = localStorage.getItem('schoolNews');
-    if (savedNews) setNews(JSON.parse(savedNews));
-    else {
-        const seedNews: NewsItem[] = [
-            { id: 1, title: 'アプリ「ProPoSal」運用開始！', content: '新しいデジタル目安箱がスタートしました。', timestamp: '2025-11-22T10:00:00.000Z', author: '生徒会' }
-        ];
-        setNews(seedNews);
-        localStorage.setItem('schoolNews', JSON.stringify(seedNews));
+    if (!school.pinned) {
+      api.fetchSchools()
+        .then(schools => setOtherSchools(schools.filter(s => s.id !== school.id)))
+        .catch(error => console.error('Failed to load schools:', error));
     }
 
     const savedTheme = localStorage.getItem('theme') as 'light' | 'dark';
     if (savedTheme) setTheme(savedTheme);
   }, []);
 
+  useEffect(() => {
+    if (!user) {
+      setSubscriptions([]);
+      setMyProposals([]);
+      setMyVotes({});
+      setMyAppeals([]);
+      return;
+    }
+    api.fetchMyAppeals()
+      .then(setMyAppeals)
+      .catch(error => console.error('Failed to load appeals:', error));
+    api.fetchMyVotes()
+      .then(setMyVotes)
+      .catch(error => console.error('Failed to load votes:', error));
+    api.fetchSubscriptions()
+      .then(setSubscriptions)
+      .catch(error => console.error('Failed to load subscriptions:', error));
+    api.fetchMyProposals()
+      .then(setMyProposals)
+      .catch(error => console.error('Failed to load own proposals:', error));
+  }, [user?.id]);
+
+  // Closing the modal ends an edit without keeping the half-edited text around
+  useEffect(() => {
+    if (isPostModalOpen || editingProposalId === null) return;
+    setEditingProposalId(null);
+    setPostForm({ title: '', content: '', category: '' });
+    setAiAnalysis(null);
+    setIsAIApproved(false);
+  }, [isPostModalOpen]);
+
   useEffect(() => {
     if (theme === 'dark') {
       document.documentElement.classList.add('dark');
@@ -161,24 +212,26 @@ const App: React.FC = () => {
     localStorage.setItem('theme', theme);
   }, [theme]);
 
+  // Look up similar proposals while the student types (debounced)
+  useEffect(() => {
+    if (!isPostModalOpen || (postForm.title + postForm.content).trim().length < 5) {
+      setSimilarProposals([]);
+      return;
+    }
+    const timer = setTimeout(() => {
+      api.findSimilarProposals(postForm.title, postForm.content)
+        .then(list => setSimilarProposals(list.filter(s => s.proposal.id !== editingProposalId)))
+        .catch(error => console.error('Similar proposal lookup failed:', error));
+    }, 600);
+    return () => clearTimeout(timer);
+  }, [isPostModalOpen, postForm.title, postForm.content]);
+
   // Google Login Logic
-  const handleGoogleLoginSuccess = async (tokenResponse: any) => {
+  // The ID token is verified by the server, which also decides the role.
+  const handleGoogleLoginSuccess = async (credentialResponse: CredentialResponse) => {
+    if (!credentialResponse.credential) return;
     try {
-      // Fetch user details from Google UserInfo endpoint
-      const res = await fetch('https://www.googleapis.com/oauth2/v3/userinfo', {
-        headers: {
-          Authorization: `Bearer ${tokenResponse.access_token}`,
-        },
-      });
-      const userInfo = await res.json();
-      
-      setUser({
-        id: userInfo.email, // Use email as ID per request
-        email: userInfo.email,
-        name: userInfo.name, // Use Google account name
-        role: 'student', // Default role
-        class: '未設定',
-      });
+      setUser(await api.loginWithGoogleCredential(credentialResponse.credential));
       setView('home');
     } catch (error) {
       console.error('Google Login Error:', error);
@@ -186,43 +239,40 @@ const App: React.FC = () => {
     }
   };
 
-  const loginWithGoogle = useGoogleLogin({
-    onSuccess: handleGoogleLoginSuccess,
-    onError: (errorResponse) => {
-        console.error('Google Login Failed:', errorResponse);
-        alert(`Googleログインに失敗しました。\n\n【開発者の方へ】\nGoogle Cloud Consoleの「承認済みの JavaScript オリジン」に、現在のURL (${window.location.origin}) が登録されているか確認してください。`);
-    },
-  });
+  const handleGoogleLoginError = () => {
+    console.error('Google Login Failed');
+    alert(`Googleログインに失敗しました。\n\n【開発者の方へ】\nGoogle Cloud Consoleの「承認済みの JavaScript オリジン」に、現在のURL (${window.location.origin}) が登録されているか確認してください。`);
+  };
 
   // Handlers
   const toggleTheme = () => setTheme(prev => prev === 'light' ? 'dark' : 'light');
 
-  const handleLogin = (e: React.FormEvent) => {
+  const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
-    // Simulation
-    if (loginForm.email) {
-      const isAdmin = loginForm.email.includes('admin') || loginForm.email === 'student-council';
-      setUser({
-        id: loginForm.email,
-        email: loginForm.email,
-        name: isAdmin ? '生徒会' : '山田 太郎', // Demo name
-        role: isAdmin ? 'admin' : 'student',
-        class: '3-A'
-      });
+    try {
+      setUser(await api.login(loginForm.email, loginForm.password));
+      setLoginForm({ email: '', password: '' });
       setView('home');
+    } catch (error) {
+      alert(error instanceof Error ? error.message : String(error));
     }
   };
 
-  const handleRegister = (e: React.FormEvent) => {
+  const handleRegister = async (e: React.FormEvent) => {
     e.preventDefault();
-    setUser({
-        id: registerForm.email,
-        email: registerForm.email,
-        name: registerForm.name,
-        role: 'student',
-        class: registerForm.class
-    });
-    setView('home');
+    try {
+      const { email } = await api.register(registerForm);
+      setRegisterForm({ name: '', email: '', password: '' });
+      alert(`${email} に確認メールを送信しました。メール内のリンクを開くと登録が完了します。`);
+      setView('login');
+    } catch (error) {
+      alert(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const handleLogout = async () => {
+    await api.logout().catch(error => console.error('Logout failed:', error));
+    setUser(null);
   };
 
   const handleInputChange = (field: keyof typeof postForm, value: string) => {
@@ -232,28 +282,76 @@ const App: React.FC = () => {
       setAiAnalysis(null);
   };
 
-  const handlePostSubmit = (e: React.FormEvent) => {
+  const replaceProposal = (updated: Proposal) => {
+    setProposals(prev => prev.map(p => p.id === updated.id ? updated : p));
+    setMyProposals(prev => prev.map(p => p.id === updated.id ? updated : p));
+  };
+
+  const isMine = (proposalId: number) => myProposals.some(p => p.id === proposalId);
+
+  const reportError = (message: string, error: unknown) => {
+    console.error(message, error);
+    alert(`${message}\n${error instanceof Error ? error.message : String(error)}`);
+  };
+
+  const changeSignatureVisibility = async (proposal: Proposal, visibility: SignatureVisibility) => {
+    try {
+      replaceProposal(await api.setSignatureVisibility(proposal.id, visibility));
+    } catch (error) {
+      reportError('公開範囲を変更できませんでした。', error);
+    }
+  };
+
+  // Checks a petition file handed back, e.g. by a teacher before the staff meeting.
+  const handleVerifyPetition = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const { valid, petition, sha256 } = await api.verifyPetition(JSON.parse(await file.text()));
+      alert(
+        valid && petition
+          ? [
+              '✅ 出力後に変更されていません。',
+              `「${petition.proposal.title}」賛同 ${petition.total}人（名簿で確認済み ${petition.verified}人）`,
+              `出力: ${new Date(petition.exportedAt).toLocaleString('ja-JP')} ${petition.exportedBy}`,
+              `SHA-256: ${sha256}`,
+            ].join('\n')
+          : '⚠️ 署名が一致しません。出力後に内容が変更されたか、このサーバーで出力したファイルではありません。'
+      );
+    } catch (error) {
+      reportError('ファイルを読み込めませんでした。', error);
+    }
+  };
+
+  const handlePostSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!isAIApproved) return;
-
-    // Use AI detected category if available, otherwise default to "その他"
-    const finalCategory = postForm.category || aiAnalysis?.detectedCategory || "その他";
-
-    const newId = proposals.length > 0 ? Math.max(...proposals.map(p => p.id)) + 1 : 1;
-    const newProposal: Proposal = {
-      id: newId,
-      title: postForm.title,
-      content: postForm.content,
-      category: finalCategory,
-      status: '受付中',
-      adminResponse: '',
-      timestamp: new Date().toISOString(),
-      signatures: []
-    };
-    const updated = [newProposal, ...proposals];
-    setProposals(updated);
-    localStorage.setItem('schoolProposals', JSON.stringify(updated));
+    if (!isAIApproved || !aiAnalysis?.verdict) return;
+
+    const input = { title: postForm.title, content: postForm.content, verdict: aiAnalysis.verdict };
+    if (editingProposalId !== null) {
+      try {
+        replaceProposal(await api.editProposal(editingProposalId, input));
+      } catch (error) {
+        reportError('編集の保存に失敗しました。', error);
+        return;
+      }
+      setIsPostModalOpen(false);
+      return;
+    }
+
+    let newProposal: Proposal;
+    try {
+      // The server assigns the ID and takes the category from the signed verdict.
+      newProposal = await api.createProposal({ ...input, signatureVisibility: postVisibility });
+    } catch (error) {
+      reportError('投稿に失敗しました。', error);
+      return;
+    }
+    setProposals(prev => [newProposal, ...prev]);
+    setMyProposals(prev => [newProposal, ...prev]);
     setPostForm({ title: '', content: '', category: '' });
+    setPostVisibility('public');
     setAiAnalysis(null);
     setIsAIApproved(false);
     setIsPostModalOpen(false);
@@ -264,11 +362,29 @@ const App: React.FC = () => {
         alert("タイトルと内容を入力してからAIチェックを実行してください。");
         return;
     }
+    if (!user) {
+        if (confirm('AIチェックと投稿にはログインが必要です（投稿者名は公開されません）。ログイン画面に移動しますか？')) {
+            setIsPostModalOpen(false);
+            setView('login');
+        }
+        return;
+    }
     setAiAnalysis({ advice: '', loading: true });
     setIsAIApproved(false);
 
-    // AI analyzes without user-provided category
-    const result = await analyzeProposal(postForm.title, postForm.content);
+    // AI analyzes without user-provided category; the check runs on the server
+    let result: AIAnalysisResult;
+    let verdict: string | null;
+    let rejection: string | null;
+    try {
+        ({ result, verdict, rejection } = await api.analyzeProposal(postForm.title, postForm.content));
+    } catch (error) {
+        setAiAnalysis({
+            advice: error instanceof Error ? error.message : 'AIチェックに失敗しました。',
+            loading: false
+        });
+        return;
+    }
     
     let displayAdvice = result.advice;
     if (!displayAdvice) {
@@ -281,11 +397,15 @@ const App: React.FC = () => {
         advice: displayAdvice, 
         loading: false,
         detectedCategory: result.category,
-        detectedTags: result.tags
+        detectedTags: result.tags,
+        detectedRuleRefs: result.ruleRefs,
+        verdict: verdict ?? undefined,
+        rejection: rejection ?? undefined
     });
-    setIsAIApproved(result.isAppropriate);
+    setAppealNote('');
+    setIsAIApproved(result.isAppropriate && !!verdict);
 
-    if (result.isAppropriate) {
+    if (result.isAppropriate && verdict) {
         // Auto-update form with refined content and set category
         setPostForm(prev => ({ 
             ...prev, 
@@ -296,78 +416,223 @@ const App: React.FC = () => {
     }
   };
 
-  const handleNewsSubmit = (e: React.FormEvent) => {
+  // Sends the rejected draft and the AI's verdict to the admins' moderation queue.
+  const handleRequestReview = async () => {
+    if (!aiAnalysis?.rejection) return;
+    let appeal: Appeal;
+    try {
+      appeal = await api.requestReview({
+        title: postForm.title,
+        content: postForm.content,
+        rejection: aiAnalysis.rejection,
+        note: appealNote || undefined,
+        signatureVisibility: postVisibility,
+      });
+    } catch (error) {
+      reportError('確認の依頼に失敗しました。', error);
+      return;
+    }
+    setMyAppeals(prev => [appeal, ...prev]);
+    setPostForm({ title: '', content: '', category: '' });
+    setPostVisibility('public');
+    setAiAnalysis(null);
+    setIsPostModalOpen(false);
+    alert('生徒会に確認を依頼しました。結果は通知でお知らせします。');
+  };
+
+  const handleNewsSubmit = async (e: React.FormEvent) => {
       e.preventDefault();
-      const newId = news.length > 0 ? Math.max(...news.map(n => n.id)) + 1 : 1;
-      const newItem: NewsItem = {
-          id: newId,
-          title: newsForm.title,
-          content: newsForm.content,
-          timestamp: new Date().toISOString(),
-          author: user?.name || 'Admin'
-      };
-      const updated = [newItem, ...news];
-      setNews(updated);
-      localStorage.setItem('schoolNews', JSON.stringify(updated));
+      let newItem: NewsItem;
+      try {
+          newItem = await api.createNews({ title: newsForm.title, content: newsForm.content });
+      } catch (error) {
+          reportError('お知らせの投稿に失敗しました。', error);
+          return;
+      }
+      setNews(prev => [newItem, ...prev]);
       setNewsForm({ title: '', content: '' });
       setIsNewsModalOpen(false);
   }
 
-  const toggleSignature = (proposalId: number) => {
+  // Choosing the current stance again withdraws the vote.
+  const toggleVote = async (proposalId: number, stance: VoteStance) => {
     if (!user) {
-      if(confirm('賛同するにはログインが必要です。ログイン画面に移動しますか？')) {
+      if(confirm('投票するにはログインが必要です。ログイン画面に移動しますか？')) {
         setView('login');
       }
       return;
     }
 
-    const updated = proposals.map(p => {
-      if (p.id === proposalId) {
-        const signedIndex = p.signatures.findIndex(s => s.userId === user.id);
-        if (signedIndex >= 0) {
-          // Unsign
-          const newSigs = [...p.signatures];
-          newSigs.splice(signedIndex, 1);
-          return { ...p, signatures: newSigs };
-        } else {
-          // Sign
-          return { ...p, signatures: [...p.signatures, { userId: user.id, userName: user.name, timestamp: new Date().toISOString() }] };
-        }
+    const withdrawing = myVotes[proposalId] === stance;
+    try {
+      replaceProposal(withdrawing
+        ? await api.withdrawVote(proposalId)
+        : await api.voteOnProposal(proposalId, stance));
+      setMyVotes(prev => {
+        const next = { ...prev };
+        if (withdrawing) delete next[proposalId];
+        else next[proposalId] = stance;
+        return next;
+      });
+      if (!withdrawing && !subscriptions.includes(proposalId)) setSubscriptions(prev => [...prev, proposalId]);
+    } catch (error) {
+      reportError('投票の更新に失敗しました。', error);
+    }
+  };
+
+  const toggleFollow = async (proposalId: number) => {
+    const isFollowing = subscriptions.includes(proposalId);
+    try {
+      if (isFollowing) {
+        await api.unfollowProposal(proposalId);
+        setSubscriptions(prev => prev.filter(id => id !== proposalId));
+      } else {
+        await api.followProposal(proposalId);
+        setSubscriptions(prev => [...prev, proposalId]);
       }
-      return p;
-    });
-    setProposals(updated);
-    localStorage.setItem('schoolProposals', JSON.stringify(updated));
+    } catch (error) {
+      reportError('通知設定の更新に失敗しました。', error);
+    }
   };
 
-  const updateAdminStatus = (proposalId: number, newStatus: Proposal['status'], response: string) => {
-      const updated = proposals.map(p => {
-          if (p.id === proposalId) {
-              return { ...p, status: newStatus, adminResponse: response };
-          }
-          return p;
-      });
-      setProposals(updated);
-      localStorage.setItem('schoolProposals', JSON.stringify(updated));
+  const startEdit = (proposal: Proposal) => {
+    setSelectedProposalId(null);
+    setPostForm({ title: proposal.title, content: proposal.content, category: proposal.category });
+    setAiAnalysis(null);
+    setIsAIApproved(false);
+    setEditingProposalId(proposal.id);
+    setIsPostModalOpen(true);
+  };
+
+  const handleWithdraw = async (proposal: Proposal) => {
+    const reason = prompt(`「${proposal.title}」を取り下げますか？\n取り下げた意見は一覧に表示されなくなり、元に戻せません。\n理由があれば入力してください（任意）。`);
+    if (reason === null) return;
+    try {
+      const withdrawn = await api.withdrawProposal(proposal.id, reason);
+      setProposals(prev => prev.filter(p => p.id !== proposal.id));
+      setMyProposals(prev => prev.map(p => p.id === withdrawn.id ? withdrawn : p));
+    } catch (error) {
+      reportError('取り下げに失敗しました。', error);
+    }
+  };
+
+  const openSimilarProposal = (proposalId: number) => {
+      setIsPostModalOpen(false);
+      setSelectedProposalId(proposalId);
+  };
+
+  const handleMerge = async (sourceId: number, targetId: number) => {
+      const target = proposals.find(p => p.id === targetId);
+      if (!confirm(`この意見を「${target?.title}」に統合しますか？\n賛同は重複を除いて統合先に移ります。`)) return;
+      try {
+          const merged = await api.mergeProposal(sourceId, targetId);
+          setProposals(prev => prev.filter(p => p.id !== sourceId).map(p => p.id === merged.id ? merged : p));
+          setMergeTargetId(null);
+          setResponseDraft(null);
+          setSelectedProposalId(merged.id);
+      } catch (error) {
+          reportError('統合に失敗しました。', error);
+      }
+  };
+
+  // Every saved change becomes a history entry, so the response is only sent when the admin
+  // presses 保存 rather than on each keystroke.
+  const updateAdminProposal = async (
+      proposalId: number,
+      changes: { status?: Proposal['status']; reason?: string; adminResponse?: string }
+  ) => {
+      try {
+          replaceProposal(await api.updateProposal(proposalId, changes));
+          if (changes.adminResponse !== undefined) setResponseDraft(null);
+      } catch (error) {
+          reportError('ステータスの更新に失敗しました。', error);
+      }
+  };
+
+  const changeStatus = (proposalId: number, status: Proposal['status']) => {
+      let reason: string | undefined;
+      if (workflow?.statuses.find(s => s.name === status)?.requiresReason) {
+          reason = prompt(`「${status}」にする理由を入力してください。生徒にも表示されます。`)?.trim();
+          if (!reason) return;
+      }
+      updateAdminProposal(proposalId, { status, reason });
   };
 
   // Derived Data
-  const filteredProposals = useMemo(() => {
-    let res = [...proposals];
-    if (categoryFilter !== 'all') {
-      res = res.filter(p => p.category === categoryFilter);
+  // Keep the URL in step with the search and ask the server once typing pauses
+  useEffect(() => {
+    const params = new URLSearchParams(SEARCH_KEYS.filter(key => search[key].trim()).map(key => [key, search[key].trim()]));
+    if (params.size > 0 && sortOrder !== 'newest') params.set('sort', sortOrder);
+    window.history.replaceState(null, '', params.size > 0 ? `?${params}` : window.location.pathname);
+
+    if (!isSearching(search)) {
+      setSearchResult(null);
+      return;
     }
-    if (searchTerm) {
-      const lower = searchTerm.toLowerCase();
-      res = res.filter(p => p.title.toLowerCase().includes(lower) || p.content.toLowerCase().includes(lower));
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      api.searchProposals({ ...search })
+        .then(result => !cancelled && setSearchResult(result))
+        .catch(error => console.error('Search failed:', error));
+    }, 250);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [search, sortOrder]);
+
+  const updateSearch = (patch: Partial<SearchState>) => {
+    // A new keyword search starts out ranked by relevance
+    if (patch.q && !search.q.trim()) setSortOrder('relevance');
+    setSearch(prev => ({ ...prev, ...patch }));
+    if (view !== 'proposals') setView('proposals');
+  };
+
+  const shareSearch = () =>
+    navigator.clipboard.writeText(window.location.href)
+      .then(() => alert('この検索条件のリンクをコピーしました。'))
+      .catch(() => prompt('このリンクをコピーしてください', window.location.href));
+
+  const filteredProposals = useMemo(() => {
+    // Search hits come in ranked order; take the live copies so vote counts stay current
+    let res = isSearching(search)
+      ? (searchResult?.hits ?? []).map(h => proposals.find(p => p.id === h.proposal.id) ?? h.proposal)
+      : [...proposals];
+    if (ruleFilter !== null) {
+      res = res.filter(p => p.ruleRefs.some(r => r.section === ruleFilter));
     }
-    if (sortOrder === 'newest') {
+    const order = sortOrder === 'relevance' && !search.q.trim() ? 'newest' : sortOrder;
+    if (order === 'newest') {
       res.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
-    } else {
+    } else if (order === 'net') {
+      res.sort((a, b) => netSupport(b) - netSupport(a));
+    } else if (order === 'controversy') {
+      res.sort((a, b) => controversy(b) - controversy(a) || b.votes.support + b.votes.oppose - a.votes.support - a.votes.oppose);
+    } else if (order === 'signatures') {
       res.sort((a, b) => b.signatures.length - a.signatures.length);
     }
     return res;
-  }, [proposals, categoryFilter, searchTerm, sortOrder]);
+  }, [proposals, search, searchResult, ruleFilter, sortOrder]);
+
+  // Keyword matches per proposal, for marking them in the cards
+  const searchHighlights = useMemo(
+    () => new Map(search.q.trim() ? (searchResult?.hits ?? []).map(h => [h.proposal.id, h.highlights]) : []),
+    [search.q, searchResult]
+  );
+
+  const ruleProposalCounts = useMemo(() => {
+      const counts: Record<number, number> = {};
+      proposals.forEach(p => {
+          new Set<number>(p.ruleRefs.map(r => r.section)).forEach(section => counts[section] = (counts[section] || 0) + 1);
+      });
+      return counts;
+  }, [proposals]);
+
+  const showProposalsForRule = (section: number) => {
+      setRuleFilter(section);
+      setSelectedProposalId(null);
+      setView('proposals');
+  };
 
   const trendingTags = useMemo(() => {
       const counts: Record<string, number> = {};
@@ -380,19 +645,62 @@ const App: React.FC = () => {
       return Object.entries(counts).sort((a, b) => b[1] - a[1]).slice(0, 5);
   }, [proposals]);
 
+  // Withdrawn proposals are only in the author's own list
   const selectedProposal = useMemo(() => 
-    proposals.find(p => p.id === selectedProposalId), 
-    [proposals, selectedProposalId]
+    proposals.find(p => p.id === selectedProposalId) ?? myProposals.find(p => p.id === selectedProposalId), 
+    [proposals, myProposals, selectedProposalId]
   );
 
+  // Admin review queue: proposals that hit a signature threshold and still await an official response
+  const pendingReviews = useMemo(() =>
+    proposals
+      .filter(p => p.review && !p.review.resolvedAt)
+      .sort((a, b) => a.review!.dueAt.localeCompare(b.review!.dueAt)),
+    [proposals]
+  );
+
+  const statusColor = (status: string) => workflow?.statuses.find(s => s.name === status)?.color;
+
+  // Statuses the signed-in user may move the proposal to
+  const nextStatuses = (proposal: Proposal) =>
+    user && workflow && can(user, 'changeStatus', proposal.category)
+      ? workflow.transitions.filter(t => t.from === proposal.status && t.roles.includes(user.role)).map(t => t.to)
+      : [];
+
+  // Visitors are asked to sign in when they try; parents only read.
+  const mayTakePart = !user || can(user, 'participate');
+
+  // Each school has its own accounts and data, so the app starts over in the other school.
+  const handleSwitchSchool = async (id: string) => {
+    try {
+      await api.selectSchool(id);
+      window.location.href = '/';
+    } catch (error) {
+      alert(error instanceof Error ? error.message : String(error));
+    }
+  };
+
   // --- Render Sections ---
 
   const renderSidebar = () => (
     <aside className="bg-primary-dark text-white p-5 flex flex-col h-screen sticky top-0 z-50 shadow-xl overflow-y-auto">
       <div className="flex items-center gap-3 mb-10">
         <span className="material-icons-round text-accent text-4xl">school</span>
-        <h1 className="text-2xl font-extrabold tracking-wide">ProPoSal</h1>
+        <div className="min-w-0">
+          <h1 className="text-2xl font-extrabold tracking-wide">ProPoSal</h1>
+          {school.name !== 'ProPoSal' && <div className="text-xs text-white/70 truncate">{school.name}</div>}
+        </div>
       </div>
+      {otherSchools.length > 0 && (
+        <select
+          className="-mt-6 mb-6 w-full p-1 rounded bg-white/10 text-white text-xs"
+          value={school.id}
+          onChange={e => handleSwitchSchool(e.target.value)}
+        >
+          <option value={school.id} className="text-gray-800">{school.name}</option>
+          {otherSchools.map(s => <option key={s.id} value={s.id} className="text-gray-800">{s.name}</option>)}
+        </select>
+      )}
 
       <nav className="flex flex-col gap-2">
         <button 
@@ -409,6 +717,15 @@ const App: React.FC = () => {
           <span className="material-icons-round">campaign</span>
           意見ボックス
         </button>
+        {user && (
+          <button 
+            onClick={() => setView('mine')} 
+            className={`flex items-center gap-4 px-4 py-3 rounded-lg font-bold transition-all ${view === 'mine' ? 'bg-white/20 border-l-4 border-accent' : 'text-white/70 hover:bg-white/10 hover:text-white'}`}
+          >
+            <span className="material-icons-round">inbox</span>
+            わたしの意見
+          </button>
+        )}
         <button 
           onClick={() => setView('status')} 
           className={`flex items-center gap-4 px-4 py-3 rounded-lg font-bold transition-all ${view === 'status' ? 'bg-white/20 border-l-4 border-accent' : 'text-white/70 hover:bg-white/10 hover:text-white'}`}
@@ -416,6 +733,58 @@ const App: React.FC = () => {
           <span className="material-icons-round">trending_up</span>
           進捗・ステータス
         </button>
+        <button 
+          onClick={() => setView('rules')} 
+          className={`flex items-center gap-4 px-4 py-3 rounded-lg font-bold transition-all ${view === 'rules' ? 'bg-white/20 border-l-4 border-accent' : 'text-white/70 hover:bg-white/10 hover:text-white'}`}
+        >
+          <span className="material-icons-round">menu_book</span>
+          校則
+        </button>
+        {can(user, 'manage') && (
+          <button 
+            onClick={() => setView('workflow')} 
+            className={`flex items-center gap-4 px-4 py-3 rounded-lg font-bold transition-all ${view === 'workflow' ? 'bg-white/20 border-l-4 border-accent' : 'text-white/70 hover:bg-white/10 hover:text-white'}`}
+          >
+            <span className="material-icons-round">account_tree</span>
+            ワークフロー
+          </button>
+        )}
+        {can(user, 'moderate') && (
+          <button 
+            onClick={() => setView('moderation')} 
+            className={`flex items-center gap-4 px-4 py-3 rounded-lg font-bold transition-all ${view === 'moderation' ? 'bg-white/20 border-l-4 border-accent' : 'text-white/70 hover:bg-white/10 hover:text-white'}`}
+          >
+            <span className="material-icons-round">gavel</span>
+            モデレーション
+          </button>
+        )}
+        {can(user, 'viewAnalytics') && (
+          <button 
+            onClick={() => setView('analytics')} 
+            className={`flex items-center gap-4 px-4 py-3 rounded-lg font-bold transition-all ${view === 'analytics' ? 'bg-white/20 border-l-4 border-accent' : 'text-white/70 hover:bg-white/10 hover:text-white'}`}
+          >
+            <span className="material-icons-round">insights</span>
+            分析
+          </button>
+        )}
+        {can(user, 'manage') && (
+          <button 
+            onClick={() => setView('roster')} 
+            className={`flex items-center gap-4 px-4 py-3 rounded-lg font-bold transition-all ${view === 'roster' ? 'bg-white/20 border-l-4 border-accent' : 'text-white/70 hover:bg-white/10 hover:text-white'}`}
+          >
+            <span className="material-icons-round">badge</span>
+            名簿
+          </button>
+        )}
+        {can(user, 'manage') && (
+          <button 
+            onClick={() => setView('users')} 
+            className={`flex items-center gap-4 px-4 py-3 rounded-lg font-bold transition-all ${view === 'users' ? 'bg-white/20 border-l-4 border-accent' : 'text-white/70 hover:bg-white/10 hover:text-white'}`}
+          >
+            <span className="material-icons-round">admin_panel_settings</span>
+            権限
+          </button>
+        )}
         <button 
           onClick={toggleTheme} 
           className="flex items-center gap-4 px-4 py-3 rounded-lg hover:bg-white/10 text-white/70 hover:text-white font-bold transition-all"
@@ -435,6 +804,7 @@ const App: React.FC = () => {
             <span className="material-icons-round">arrow_forward</span>
         </button>
 
+        {mayTakePart && (
         <button 
             onClick={() => setIsPostModalOpen(true)}
             className="w-full bg-white text-primary-dark font-bold py-3 rounded-lg shadow-lg flex items-center justify-center gap-2 hover:-translate-y-1 transition-transform border-2 border-accent"
@@ -442,6 +812,7 @@ const App: React.FC = () => {
             <span>意見を投稿する</span>
             <span className="material-icons-round">edit</span>
         </button>
+        )}
       </div>
 
       <div className="mt-auto pt-6 border-t border-white/20">
@@ -452,20 +823,23 @@ const App: React.FC = () => {
              </div>
              <div className="flex-1 min-w-0">
                <div className="font-bold truncate">{user.name}</div>
-               <div className="text-xs text-white/70 truncate">{user.class || '管理者'}</div>
+               <div className="text-xs text-white/70 truncate">
+                 {[user.class, user.role !== 'student' && ROLE_LABELS[user.role]].filter(Boolean).join(' · ')}
+               </div>
              </div>
-             <button onClick={() => setUser(null)} className="text-white/70 hover:text-white">
+             <button onClick={handleLogout} className="text-white/70 hover:text-white">
                <span className="material-icons-round">logout</span>
              </button>
            </div>
         ) : (
-          <button 
-            onClick={() => loginWithGoogle()}
-            className="w-full border border-white/30 bg-white/10 rounded-lg py-2 flex items-center justify-center gap-2 hover:bg-white/20 transition-colors text-white font-bold shadow-sm"
-          >
-            <span className="material-icons-round">login</span>
-            Googleアカウントでログイン
-          </button>
+          <div className="flex justify-center">
+            <GoogleLogin
+              onSuccess={handleGoogleLoginSuccess}
+              onError={handleGoogleLoginError}
+              text="signin_with"
+              shape="pill"
+            />
+          </div>
         )}
       </div>
     </aside>
@@ -522,12 +896,30 @@ const App: React.FC = () => {
       <div className="flex justify-between items-center mb-6">
          <h2 className="text-xl font-bold dark:text-white flex items-center gap-2">
             <span className="material-icons-round text-primary">campaign</span> みんなの意見
+            {ruleFilter !== null && (
+              <button 
+                onClick={() => setRuleFilter(null)}
+                className="ml-2 bg-primary-bg text-primary-dark text-xs font-bold px-3 py-1 rounded-full flex items-center gap-1"
+              >
+                <span className="material-icons-round text-sm">menu_book</span>
+                校則 {ruleFilter}. に関する意見
+                <span className="material-icons-round text-sm">close</span>
+              </button>
+            )}
          </h2>
          <div className="flex gap-2 items-center">
            <div className="flex gap-1 mr-4">
+             {search.q.trim() && (
+               <button 
+                onClick={() => setSortOrder('relevance')}
+                className={`px-3 py-1 rounded-full text-xs font-bold transition-colors ${sortOrder === 'relevance' ? 'bg-primary text-white' : 'bg-gray-200 dark:bg-gray-700 text-gray-600 dark:text-gray-300'}`}
+               >
+                 関連度順
+               </button>
+             )}
              <button 
               onClick={() => setSortOrder('newest')}
-              className={`px-3 py-1 rounded-full text-xs font-bold transition-colors ${sortOrder === 'newest' ? 'bg-primary text-white' : 'bg-gray-200 dark:bg-gray-700 text-gray-600 dark:text-gray-300'}`}
+              className={`px-3 py-1 rounded-full text-xs font-bold transition-colors ${sortOrder === 'newest' || (sortOrder === 'relevance' && !search.q.trim()) ? 'bg-primary text-white' : 'bg-gray-200 dark:bg-gray-700 text-gray-600 dark:text-gray-300'}`}
              >
                新着順
              </button>
@@ -537,8 +929,21 @@ const App: React.FC = () => {
              >
                賛同数順
              </button>
+             <button 
+              onClick={() => setSortOrder('net')}
+              className={`px-3 py-1 rounded-full text-xs font-bold transition-colors ${sortOrder === 'net' ? 'bg-primary text-white' : 'bg-gray-200 dark:bg-gray-700 text-gray-600 dark:text-gray-300'}`}
+             >
+               賛成−反対順
+             </button>
+             <button 
+              onClick={() => setSortOrder('controversy')}
+              className={`px-3 py-1 rounded-full text-xs font-bold transition-colors ${sortOrder === 'controversy' ? 'bg-primary text-white' : 'bg-gray-200 dark:bg-gray-700 text-gray-600 dark:text-gray-300'}`}
+             >
+               賛否が割れている順
+             </button>
            </div>
            
+           {mayTakePart && (
            <button 
             onClick={() => setIsPostModalOpen(true)}
             className="hidden md:flex bg-accent text-primary-dark px-6 py-3 rounded-full font-extrabold shadow-md items-center gap-2 hover:scale-105 transition-transform"
@@ -546,13 +951,24 @@ const App: React.FC = () => {
              <span className="material-icons-round">edit</span>
              意見を投稿する
            </button>
+           )}
          </div>
       </div>
 
+      {isSearching(search) && (
+        <SearchFacets
+          search={search}
+          result={searchResult}
+          onChange={updateSearch}
+          onClear={() => setSearch(EMPTY_SEARCH)}
+          onShare={shareSearch}
+        />
+      )}
+
       {/* Cards */}
       <div className="space-y-4">
         {filteredProposals.length === 0 ? (
-            <div className="text-center py-10 text-gray-400">意見がまだありません</div>
+            <div className="text-center py-10 text-gray-400">{isSearching(search) ? '条件に合う意見がありません' : '意見がまだありません'}</div>
         ) : (
             filteredProposals.map(proposal => (
                 <div 
@@ -562,20 +978,29 @@ const App: React.FC = () => {
                 >
                     <div className="flex justify-between items-start mb-2">
                         <div>
-                            <h3 className="text-lg font-bold text-gray-800 dark:text-white mb-1 group-hover:text-primary transition-colors">{proposal.title}</h3>
+                            <h3 className="text-lg font-bold text-gray-800 dark:text-white mb-1 group-hover:text-primary transition-colors">
+                              <Highlight text={proposal.title} ranges={searchHighlights.get(proposal.id)?.title} />
+                            </h3>
                             <div className="text-xs text-gray-500">
                                 {new Date(proposal.timestamp).toLocaleDateString('ja-JP')} · {proposal.category}
                             </div>
                         </div>
-                        <StatusBadge status={proposal.status} />
+                        <StatusBadge status={proposal.status} color={statusColor(proposal.status)} />
                     </div>
                     <p className="text-gray-700 dark:text-gray-300 line-clamp-2 mb-4 whitespace-pre-wrap leading-relaxed">
-                        {proposal.content}
+                        <Highlight text={proposal.content} ranges={searchHighlights.get(proposal.id)?.content} excerpt={200} />
                     </p>
+                    {searchHighlights.get(proposal.id)?.adminResponse && (
+                        <p className="text-sm text-gray-600 dark:text-gray-400 bg-primary-bg/50 dark:bg-white/5 rounded p-2 mb-4 line-clamp-2">
+                            <span className="font-bold text-primary">生徒会の回答: </span>
+                            <Highlight text={proposal.adminResponse} ranges={searchHighlights.get(proposal.id)?.adminResponse} excerpt={120} />
+                        </p>
+                    )}
                     <div className="flex justify-between items-center pt-3 border-t dark:border-gray-700">
                         <div className={`flex items-center gap-2 px-3 py-1 rounded-full text-sm font-bold border ${proposal.signatures.length > 0 ? 'bg-pink-50 text-pink-500 border-pink-200' : 'bg-gray-50 text-gray-500 border-gray-200'} dark:bg-transparent`}>
                             <span className="material-icons-round text-sm">thumb_up</span>
                             {proposal.signatures.length} 賛同
+                            {proposal.votes.oppose > 0 && <span className="text-blue-400 font-normal">· {proposal.votes.oppose} 反対</span>}
                         </div>
                         <span className="material-icons-round text-gray-300 group-hover:translate-x-1 transition-transform">arrow_forward_ios</span>
                     </div>
@@ -585,12 +1010,55 @@ const App: React.FC = () => {
       </div>
 
       {/* Mobile FAB */}
+      {mayTakePart && (
       <button 
         onClick={() => setIsPostModalOpen(true)}
         className="md:hidden fixed bottom-6 right-6 w-14 h-14 bg-accent text-primary-dark rounded-full shadow-xl flex items-center justify-center z-50 hover:scale-110 transition-transform"
       >
         <span className="material-icons-round text-2xl">edit</span>
       </button>
+      )}
+    </div>
+  );
+
+  const renderMyProposalsView = () => (
+    <div className="p-6">
+      <div className="mb-6">
+        <h2 className="text-xl font-bold dark:text-white flex items-center gap-2">
+          <span className="material-icons-round text-primary">inbox</span> わたしの意見
+        </h2>
+        <p className="text-sm text-gray-500">あなたが投稿した意見です。この一覧はあなたにしか表示されず、生徒会や先生にも投稿者は分かりません。</p>
+      </div>
+      <div className="space-y-3">
+        {myProposals.length === 0 && myAppeals.length === 0 && <div className="text-center py-10 text-gray-400">まだ投稿していません</div>}
+        {myAppeals.filter(a => a.status !== 'approved').map(a => (
+          <div key={`appeal-${a.id}`} className="bg-bg-card dark:bg-bg-cardDark p-4 rounded-xl shadow-sm flex items-center gap-4 opacity-80">
+            <div className="flex-1 min-w-0">
+              <h3 className="font-bold text-gray-800 dark:text-white truncate">{a.title}</h3>
+              <div className="text-xs text-gray-500">
+                {new Date(a.timestamp).toLocaleDateString('ja-JP')} · {a.status === 'pending' ? '生徒会が確認中です' : `掲載されませんでした: ${a.decisionReason}`}
+              </div>
+            </div>
+            <span className={`px-2 py-1 rounded text-xs font-bold ${a.status === 'pending' ? 'bg-yellow-100 text-yellow-800' : 'bg-gray-200 text-gray-700'}`}>
+              {a.status === 'pending' ? '確認待ち' : '不掲載'}
+            </span>
+          </div>
+        ))}
+        {myProposals.map(p => (
+          <div key={p.id} className={`bg-bg-card dark:bg-bg-cardDark p-4 rounded-xl shadow-sm flex items-center gap-4 ${p.withdrawnAt || p.mergedInto || p.removedAt ? 'opacity-60' : ''}`}>
+            <button onClick={() => setSelectedProposalId(p.id)} className="flex-1 min-w-0 text-left">
+              <h3 className="font-bold text-gray-800 dark:text-white truncate hover:text-primary">{p.title}</h3>
+              <div className="text-xs text-gray-500">
+                {new Date(p.timestamp).toLocaleDateString('ja-JP')} · 賛同 {p.signatures.length}人
+                {p.withdrawnAt && ' · 取り下げ済み'}
+                {p.mergedInto && ` · #${p.mergedInto} に統合`}
+                {p.removedAt ? ' · 削除済み' : p.hiddenAt && ' · 通報により確認中'}
+              </div>
+            </button>
+            <StatusBadge status={p.status} color={statusColor(p.status)} />
+          </div>
+        ))}
+      </div>
     </div>
   );
 
@@ -601,16 +1069,85 @@ const App: React.FC = () => {
             <span className="material-icons-round text-primary">trending_up</span> 進捗・ステータス
           </h2>
           <p className="text-sm text-gray-500">みんなの意見がどのように実現に向かっているかを確認できます。</p>
+          {can(user, 'viewAnalytics') && (
+             <div className="flex flex-wrap items-center gap-2 mt-3 text-sm">
+                <span className="text-gray-500">対応履歴（議事録用）:</span>
+                <input
+                  type="date"
+                  className="p-1 rounded border bg-white dark:bg-gray-700 dark:text-white"
+                  value={historyRange.from}
+                  onChange={e => setHistoryRange({ ...historyRange, from: e.target.value })}
+                />
+                <span className="text-gray-500">〜</span>
+                <input
+                  type="date"
+                  className="p-1 rounded border bg-white dark:bg-gray-700 dark:text-white"
+                  value={historyRange.to}
+                  onChange={e => setHistoryRange({ ...historyRange, to: e.target.value })}
+                />
+                <a
+                  href={api.historyExportUrl(historyRange)}
+                  className="flex items-center gap-1 px-3 py-1 rounded bg-gray-700 text-white font-bold"
+                >
+                   <span className="material-icons-round text-sm">download</span> CSV
+                </a>
+             </div>
+          )}
+          {can(user, 'respond') && (
+             <div className="flex flex-wrap items-center gap-2 mt-3 text-sm">
+                <span className="text-gray-500">月次報告（職員会議用）:</span>
+                <input
+                  type="date"
+                  className="p-1 rounded border bg-white dark:bg-gray-700 dark:text-white"
+                  value={reportRange.from}
+                  onChange={e => setReportRange({ ...reportRange, from: e.target.value })}
+                />
+                <span className="text-gray-500">〜</span>
+                <input
+                  type="date"
+                  className="p-1 rounded border bg-white dark:bg-gray-700 dark:text-white"
+                  value={reportRange.to}
+                  onChange={e => setReportRange({ ...reportRange, to: e.target.value })}
+                />
+                <a
+                  href={api.monthlyReportUrl(reportRange)}
+                  className="flex items-center gap-1 px-3 py-1 rounded bg-gray-700 text-white font-bold"
+                >
+                   <span className="material-icons-round text-sm">picture_as_pdf</span> PDF
+                </a>
+                <span className="text-xs text-gray-400">期間を空欄にすると今月分です</span>
+             </div>
+          )}
+          {can(user, 'respond') && pendingReviews.length > 0 && (
+             <div className="mt-4 bg-white dark:bg-bg-cardDark rounded-xl p-4 shadow-sm border-l-8 border-accent">
+                <h3 className="font-bold text-sm text-gray-700 dark:text-gray-200 mb-2 flex items-center gap-1">
+                   <span className="material-icons-round text-sm text-primary">pending_actions</span> 回答待ち（賛同数が基準に達した意見）
+                </h3>
+                <ul className="space-y-1">
+                   {pendingReviews.map(p => {
+                      const overdue = new Date(p.review!.dueAt).getTime() < Date.now();
+                      return (
+                         <li key={p.id} className="flex justify-between items-center gap-3 text-sm">
+                            <button onClick={() => setSelectedProposalId(p.id)} className="text-left truncate hover:text-primary dark:text-gray-300">#{p.id} {p.title}</button>
+                            <span className={`shrink-0 text-xs font-bold ${overdue ? 'text-red-500' : 'text-gray-500'}`}>
+                               回答期限 {new Date(p.review!.dueAt).toLocaleDateString('ja-JP')}{overdue && '（期限切れ）'}
+                            </span>
+                         </li>
+                      );
+                   })}
+                </ul>
+             </div>
+          )}
        </div>
        
        <div className="flex-1 overflow-x-auto pb-4">
          <div className="flex gap-4 h-full min-w-max">
-            {STATUS_STEPS.map(status => {
+            {workflow?.statuses.map(({ name: status, color }) => {
                const items = proposals.filter(p => p.status === status);
                return (
                  <div key={status} className="w-80 bg-gray-300 dark:bg-white/10 rounded-xl p-3 flex flex-col h-full shadow-inner">
                     <div className="flex items-center justify-between mb-3 px-2">
-                       <StatusBadge status={status} />
+                       <StatusBadge status={status} color={color} />
                        <span className="text-xs font-bold text-gray-700 dark:text-gray-300">{items.length}件</span>
                     </div>
                     
@@ -680,13 +1217,14 @@ const App: React.FC = () => {
                 </div>
                 
                 {/* Google Login Button */}
-                <button 
-                  onClick={() => loginWithGoogle()}
-                  className="w-full bg-white text-gray-700 font-bold py-3 rounded-lg border border-gray-300 shadow-sm hover:bg-gray-50 transition-colors flex items-center justify-center gap-3"
-                >
-                  <img src="https://www.svgrepo.com/show/475656/google-color.svg" className="w-5 h-5" alt="Google" />
-                  Googleアカウントでログイン
-                </button>
+                <div className="flex justify-center">
+                  <GoogleLogin
+                    onSuccess={handleGoogleLoginSuccess}
+                    onError={handleGoogleLoginError}
+                    text="signin_with"
+                    width="320"
+                  />
+                </div>
 
                 <div className="relative flex py-2 items-center">
                     <div className="flex-grow border-t border-gray-200"></div>
@@ -725,7 +1263,7 @@ const App: React.FC = () => {
               <form onSubmit={handleRegister} className="space-y-6">
                  <div>
                   <h2 className="text-xl font-bold mb-1">➜ 新規登録</h2>
-                  <p className="text-gray-500 text-sm mb-4">アカウント情報を入力してください</p>
+                  <p className="text-gray-500 text-sm mb-4">アカウント情報を入力してください。確認メールのリンクを開くと登録が完了します。クラスは学校の名簿から自動で設定されます。</p>
                 </div>
                 <div className="space-y-4">
                     <div>
@@ -749,17 +1287,6 @@ const App: React.FC = () => {
                             onChange={e => setRegisterForm({...registerForm, email: e.target.value})}
                             required
                         />
-                    </div>
-                     <div>
-                        <label className="block text-sm font-bold text-gray-700 mb-1">クラス</label>
-                        <input 
-                            type="text" 
-                            className="w-full bg-gray-100 border-none rounded-lg px-4 py-3 text-black focus:ring-2 focus:ring-primary outline-none"
-                            placeholder="3-A"
-                            value={registerForm.class}
-                            onChange={e => setRegisterForm({...registerForm, class: e.target.value})}
-                            required
-                        />
                     </div>
                     <div>
                         <label className="block text-sm font-bold text-gray-700 mb-1">パスワード</label>
@@ -803,13 +1330,28 @@ const App: React.FC = () => {
           <h2 className="text-2xl font-bold dark:text-white hidden md:block">
              {view === 'home' && 'ようこそ'}
              {view === 'proposals' && '意見ボックス'}
+             {view === 'mine' && 'わたしの意見'}
              {view === 'status' && '進捗状況'}
+             {view === 'rules' && '学校のきまり'}
+             {view === 'workflow' && 'ワークフロー設定'}
+             {view === 'moderation' && 'モデレーション'}
+             {view === 'analytics' && '分析'}
+             {view === 'roster' && '生徒名簿'}
+             {view === 'users' && '役割と権限'}
           </h2>
+          {user && <div className="ml-auto"><NotificationBell key={user.id} onOpenProposal={setSelectedProposalId} /></div>}
         </header>
 
         {view === 'home' && renderHomeView()}
         {view === 'proposals' && renderProposalsView()}
+        {view === 'mine' && renderMyProposalsView()}
         {view === 'status' && renderStatusView()}
+        {view === 'rules' && <RulesView user={user} proposalCounts={ruleProposalCounts} onShowProposals={showProposalsForRule} />}
+        {view === 'workflow' && <WorkflowView workflow={workflow} onSaved={setWorkflow} />}
+        {view === 'moderation' && <ModerationView categories={school.categories} onProposalPublished={reloadProposals} />}
+        {view === 'analytics' && <AnalyticsView onOpenProposal={setSelectedProposalId} />}
+        {view === 'roster' && <RosterView />}
+        {view === 'users' && user && <UsersView currentUser={user} categories={school.categories} />}
       </main>
 
       {/* Right Sidebar */}
@@ -821,8 +1363,8 @@ const App: React.FC = () => {
                 type="text" 
                 placeholder="キーワード・タグで検索..." 
                 className="bg-transparent outline-none w-full text-sm dark:text-white"
-                value={searchTerm}
-                onChange={e => setSearchTerm(e.target.value)}
+                value={search.q}
+                onChange={e => updateSearch({ q: e.target.value })}
             />
         </div>
 
@@ -830,7 +1372,7 @@ const App: React.FC = () => {
         <div className="bg-bg-card dark:bg-bg-cardDark rounded-xl p-5 shadow-sm mb-6">
             <div className="flex justify-between items-center border-b border-gray-100 dark:border-gray-700 pb-2 mb-4">
                 <h3 className="text-primary font-bold text-sm">📌 学校からのお知らせ</h3>
-                {user?.role === 'admin' && (
+                {can(user, 'postNews') && (
                     <button onClick={() => setIsNewsModalOpen(true)} className="text-xs text-primary hover:underline">＋追加</button>
                 )}
             </div>
@@ -851,10 +1393,7 @@ const App: React.FC = () => {
                 {trendingTags.length > 0 ? trendingTags.map(([tag, count]) => (
                     <button 
                         key={tag}
-                        onClick={() => {
-                            setSearchTerm(tag);
-                            if (view !== 'proposals') setView('proposals');
-                        }}
+                        onClick={() => updateSearch({ tag })}
                         className="bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 text-xs px-3 py-1 rounded-full text-gray-700 dark:text-gray-300 transition-colors"
                     >
                         {tag} <span className="text-gray-400">({count})</span>
@@ -868,22 +1407,16 @@ const App: React.FC = () => {
              <h3 className="text-primary font-bold text-sm border-b border-gray-100 dark:border-gray-700 pb-2 mb-4">📂 カテゴリー絞り込み</h3>
              <div className="flex flex-wrap gap-2">
                  <button 
-                    onClick={() => {
-                        setCategoryFilter('all');
-                        if (view !== 'proposals') setView('proposals');
-                    }} 
-                    className={`px-3 py-1 rounded-full text-xs font-bold border ${categoryFilter === 'all' ? 'bg-primary text-white border-primary' : 'bg-white text-gray-600 border-gray-200'}`}
+                    onClick={() => updateSearch({ category: '' })} 
+                    className={`px-3 py-1 rounded-full text-xs font-bold border ${!search.category ? 'bg-primary text-white border-primary' : 'bg-white text-gray-600 border-gray-200'}`}
                  >
                     全て
                  </button>
-                 {CATEGORIES.map(cat => (
+                 {school.categories.map(cat => (
                      <button 
                         key={cat} 
-                        onClick={() => {
-                            setCategoryFilter(cat);
-                            if (view !== 'proposals') setView('proposals');
-                        }}
-                        className={`px-3 py-1 rounded-full text-xs font-bold border ${categoryFilter === cat ? 'bg-primary text-white border-primary' : 'bg-white text-gray-600 border-gray-200'}`}
+                        onClick={() => updateSearch({ category: cat })}
+                        className={`px-3 py-1 rounded-full text-xs font-bold border ${search.category === cat ? 'bg-primary text-white border-primary' : 'bg-white text-gray-600 border-gray-200'}`}
                     >
                          {cat}
                      </button>
@@ -899,7 +1432,7 @@ const App: React.FC = () => {
         <div className="fixed inset-0 z-[100] bg-black/50 backdrop-blur-sm flex items-center justify-center p-4">
             <div className="bg-white dark:bg-bg-cardDark w-full max-w-2xl rounded-2xl shadow-2xl flex flex-col max-h-[90vh]">
                 <div className="bg-primary text-white p-4 rounded-t-2xl flex justify-between items-center">
-                    <h2 className="font-bold text-lg flex items-center gap-2"><span className="material-icons-round">edit</span> 意見を投稿する</h2>
+                    <h2 className="font-bold text-lg flex items-center gap-2"><span className="material-icons-round">edit</span> {editingProposalId === null ? '意見を投稿する' : '意見を編集する'}</h2>
                     <button onClick={() => setIsPostModalOpen(false)} className="text-white hover:bg-white/20 rounded-full p-1"><span className="material-icons-round">close</span></button>
                 </div>
                 <form onSubmit={handlePostSubmit} className="flex-1 overflow-y-auto p-6 flex flex-col gap-4">
@@ -929,6 +1462,35 @@ const App: React.FC = () => {
                         required
                     ></textarea>
 
+                    {/* Similar Proposals */}
+                    {similarProposals.length > 0 && (
+                        <div className="bg-purple-50 dark:bg-purple-900/20 border border-purple-200 dark:border-purple-800 rounded-lg p-4">
+                            <h4 className="font-bold text-primary dark:text-primary-light text-sm flex items-center gap-2 mb-1">
+                                <span className="material-icons-round text-base">content_copy</span> 似ている意見がすでにあります
+                            </h4>
+                            <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">同じ内容なら、新しく投稿するより賛同したほうが声が大きく届きます。</p>
+                            <div className="space-y-2">
+                                {similarProposals.map(({ proposal, score }) => (
+                                    <div key={proposal.id} className="bg-white dark:bg-bg-cardDark rounded-lg p-3 flex justify-between items-center gap-3">
+                                        <div className="min-w-0">
+                                            <div className="font-bold text-sm dark:text-white truncate">{proposal.title}</div>
+                                            <div className="text-xs text-gray-500">
+                                                {proposal.status} · 👍 {proposal.signatures.length} · 類似度 {Math.round(score * 100)}%
+                                            </div>
+                                        </div>
+                                        <button 
+                                            type="button"
+                                            onClick={() => openSimilarProposal(proposal.id)}
+                                            className="shrink-0 text-xs font-bold text-white bg-primary hover:bg-primary-light px-3 py-1.5 rounded-full"
+                                        >
+                                            見て賛同する
+                                        </button>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+
                     {/* AI Assistant Area - Enhanced */}
                     <div className={`p-5 rounded-xl border-2 transition-all duration-300 ${
                         isAIApproved 
@@ -991,6 +1553,11 @@ const App: React.FC = () => {
                                         {tag}
                                     </span>
                                 ))}
+                                {aiAnalysis.detectedRuleRefs?.map(ref => (
+                                    <span key={`${ref.section}-${ref.clause}`} className="bg-white dark:bg-black/20 text-purple-800 dark:text-purple-300 px-3 py-1 rounded text-xs font-bold border border-purple-200 dark:border-purple-800">
+                                        📘 {ref.section}．{ref.title}{ref.clause && ` / ${ref.clause}`}
+                                    </span>
+                                ))}
                             </div>
                         )}
                         
@@ -1010,6 +1577,25 @@ const App: React.FC = () => {
                                 </div>
                             </div>
                         )}
+
+                        {/* Appeal: the AI may be wrong (or down), so a human can take a look */}
+                        {aiAnalysis?.rejection && editingProposalId === null && (
+                            <div className="mt-3 p-4 rounded-lg border border-dashed border-gray-300 dark:border-gray-600 text-sm space-y-2">
+                                <div className="text-gray-600 dark:text-gray-300">
+                                    AIの判断が間違っていると思う場合は、生徒会に確認を依頼できます（名前は伝わりません）。
+                                </div>
+                                <input
+                                    type="text"
+                                    className="w-full p-2 rounded border bg-white dark:bg-gray-700 dark:text-white"
+                                    placeholder="補足（例: 窓ガラスが割れている件の報告です）"
+                                    value={appealNote}
+                                    onChange={e => setAppealNote(e.target.value)}
+                                />
+                                <button type="button" onClick={handleRequestReview} className="px-4 py-2 rounded bg-gray-700 text-white font-bold flex items-center gap-1">
+                                    <span className="material-icons-round text-sm">gavel</span> 人による確認を依頼する
+                                </button>
+                            </div>
+                        )}
                         
                         {!aiAnalysis && (
                             <div className="mt-2 ml-1 text-sm text-gray-600 dark:text-gray-400 pl-7 border-l-2 border-blue-200 dark:border-blue-800">
@@ -1018,10 +1604,24 @@ const App: React.FC = () => {
                         )}
                     </div>
 
+                    {editingProposalId === null && (
+                        <label className="text-sm text-gray-600 dark:text-gray-300 flex flex-wrap items-center gap-2">
+                            賛同した人の名前:
+                            <select
+                                className="p-1 rounded border bg-white dark:bg-gray-700 dark:text-white"
+                                value={postVisibility}
+                                onChange={e => setPostVisibility(e.target.value as SignatureVisibility)}
+                            >
+                                {VISIBILITIES.map(v => <option key={v} value={v}>{SIGNATURE_VISIBILITY_LABELS[v].label}</option>)}
+                            </select>
+                            <span className="text-xs text-gray-400">デリケートな内容なら、名前を出さない設定にすると賛同してもらいやすくなります。</span>
+                        </label>
+                    )}
+
                     <div className="flex justify-end pt-4 border-t dark:border-gray-700 min-h-[60px]">
                         {isAIApproved && (
                             <button type="submit" className="bg-primary hover:bg-primary-light text-white font-bold py-3 px-8 rounded-full shadow-lg transition-all hover:scale-105 animate-bounce">
-                                この内容で投稿する
+                                {editingProposalId === null ? 'この内容で投稿する' : 'この内容で更新する'}
                             </button>
                         )}
                     </div>
@@ -1036,37 +1636,82 @@ const App: React.FC = () => {
               <div className="bg-white dark:bg-bg-cardDark w-full max-w-2xl rounded-2xl shadow-2xl flex flex-col max-h-[90vh] overflow-hidden">
                   <div className="bg-primary text-white p-4 flex justify-between items-center">
                       <h2 className="font-bold text-lg truncate pr-4">{selectedProposal.title}</h2>
-                      <button onClick={() => setSelectedProposalId(null)} className="text-white hover:bg-white/20 rounded-full p-1"><span className="material-icons-round">close</span></button>
+                      {user && !isMine(selectedProposal.id) && (
+                          <button 
+                            onClick={() => toggleFollow(selectedProposal.id)}
+                            className="ml-auto mr-2 shrink-0 text-xs font-bold flex items-center gap-1 px-3 py-1 rounded-full bg-white/20 hover:bg-white/30"
+                          >
+                              <span className="material-icons-round text-sm">{subscriptions.includes(selectedProposal.id) ? 'notifications_active' : 'notifications_none'}</span>
+                              {subscriptions.includes(selectedProposal.id) ? 'フォロー中' : 'フォローする'}
+                          </button>
+                      )}
+                      <button onClick={() => { setSelectedProposalId(null); setMergeTargetId(null); setResponseDraft(null); }} className="text-white hover:bg-white/20 rounded-full p-1"><span className="material-icons-round">close</span></button>
                   </div>
                   
                   <div className="overflow-y-auto p-6">
-                      {/* Stepper */}
-                      <div className="relative flex justify-between items-center mb-8 px-4">
-                          <div className="absolute top-1/2 left-0 w-full h-1 bg-gray-200 dark:bg-gray-700 -z-10 -translate-y-1/2"></div>
-                          {STATUS_STEPS.map((step, idx) => {
-                              const currentIdx = STATUS_STEPS.indexOf(selectedProposal.status);
-                              const isActive = idx <= currentIdx;
-                              const isCurrent = idx === currentIdx;
-                              return (
-                                  <div key={step} className="flex flex-col items-center bg-white dark:bg-bg-cardDark px-2">
-                                      <div className={`w-8 h-8 rounded-full flex items-center justify-center font-bold text-sm mb-1 border-2 transition-colors ${isActive ? 'bg-primary border-primary text-white' : 'bg-gray-100 border-gray-300 text-gray-400'}`}>
-                                          {isActive ? <span className="material-icons-round text-sm">check</span> : idx + 1}
-                                      </div>
-                                      <span className={`text-[10px] font-bold ${isCurrent ? 'text-primary' : 'text-gray-400'}`}>{step}</span>
-                                  </div>
-                              );
-                          })}
-                      </div>
+                      {(selectedProposal.hiddenAt || selectedProposal.removedAt) && (
+                          <div className="mb-4 p-3 rounded-lg bg-red-50 text-red-700 dark:bg-red-900/30 dark:text-red-200 text-sm flex items-center gap-2">
+                              <span className="material-icons-round text-base">visibility_off</span>
+                              {selectedProposal.removedAt
+                                  ? 'この意見は管理者により削除されました。'
+                                  : 'この意見は通報を受けて確認中のため、一時的に非表示になっています。'}
+                          </div>
+                      )}
+                      {workflow && <StatusProgress workflow={workflow} proposal={selectedProposal} />}
 
                       <div className="flex gap-2 mb-4">
-                          <StatusBadge status={selectedProposal.status} />
+                          <StatusBadge status={selectedProposal.status} color={statusColor(selectedProposal.status)} />
                           <span className="text-sm text-gray-500 flex items-center gap-1"><span className="material-icons-round text-sm">folder</span> {selectedProposal.category}</span>
+                          {selectedProposal.rulesVersion && (
+                              <span className="text-sm text-gray-500 flex items-center gap-1"><span className="material-icons-round text-sm">menu_book</span> 校則 第{selectedProposal.rulesVersion}版でチェック済み</span>
+                          )}
+                          {selectedProposal.review && (
+                              <span className="text-sm text-gray-500 flex items-center gap-1">
+                                  <span className="material-icons-round text-sm">event</span>
+                                  {selectedProposal.review.resolvedAt
+                                      ? `生徒会が回答済み（${new Date(selectedProposal.review.resolvedAt).toLocaleDateString('ja-JP')}）`
+                                      : `生徒会の回答期限 ${new Date(selectedProposal.review.dueAt).toLocaleDateString('ja-JP')}`}
+                              </span>
+                          )}
+                          {user && !isMine(selectedProposal.id) && !selectedProposal.hiddenAt && !selectedProposal.removedAt && (
+                              <ReportButton targetType="proposal" targetId={selectedProposal.id} className="ml-auto" />
+                          )}
                       </div>
+                      {selectedProposal.redactedAt && (
+                          <p className="text-xs text-gray-400 -mt-2 mb-4">※ 一部の表現を管理者が編集しました。</p>
+                      )}
 
                       <div className="text-gray-800 dark:text-gray-200 whitespace-pre-wrap leading-relaxed mb-8 text-lg">
                           {selectedProposal.content}
                       </div>
 
+                      {/* Rule References */}
+                      {selectedProposal.ruleRefs.length > 0 && (
+                          <div className="mb-6">
+                              <h4 className="font-bold text-gray-500 text-sm mb-2 flex items-center gap-1">
+                                  <span className="material-icons-round text-sm">menu_book</span> この意見が変更を求めている校則
+                              </h4>
+                              <div className="space-y-2">
+                                  {selectedProposal.ruleRefs.map(ref => (
+                                      <div key={`${ref.section}-${ref.clause}`} className="border border-gray-200 dark:border-gray-700 rounded-lg p-3 flex justify-between items-start gap-3">
+                                          <div>
+                                              <div className="text-sm font-bold text-primary dark:text-primary-light">
+                                                  {ref.section}．{ref.title}{ref.clause && ` / ${ref.clause}`}
+                                              </div>
+                                              <blockquote className="text-sm text-gray-600 dark:text-gray-300 border-l-2 border-gray-300 pl-2 mt-1">{ref.quote}</blockquote>
+                                          </div>
+                                          <button 
+                                            onClick={() => showProposalsForRule(ref.section)}
+                                            className="shrink-0 text-xs text-primary hover:underline"
+                                          >
+                                              関連する意見を見る
+                                          </button>
+                                      </div>
+                                  ))}
+                              </div>
+                          </div>
+                      )}
+
                       {/* Admin Response */}
                       {selectedProposal.adminResponse && (
                           <div className="bg-purple-50 dark:bg-purple-900/20 border-l-4 border-primary p-4 rounded mb-6">
@@ -1077,53 +1722,189 @@ const App: React.FC = () => {
                           </div>
                       )}
 
-                      {/* Admin Controls */}
-                      {user?.role === 'admin' && (
+                      {/* History */}
+                      <div className="mb-6">
+                          <div className="flex justify-between items-center mb-3">
+                              <h4 className="font-bold text-gray-500 text-sm flex items-center gap-1">
+                                  <span className="material-icons-round text-sm">history</span> これまでの経過
+                              </h4>
+                              <a href={api.proposalDocumentUrl(selectedProposal.id)} className="ml-auto mr-3 text-xs text-primary hover:underline flex items-center gap-1">
+                                  <span className="material-icons-round text-sm">picture_as_pdf</span> 印刷用PDF
+                              </a>
+                              {can(user, 'viewAnalytics') && (
+                                  <a href={api.historyExportUrl({ proposalId: selectedProposal.id })} className="text-xs text-primary hover:underline flex items-center gap-1">
+                                      <span className="material-icons-round text-sm">download</span> CSVで出力
+                                  </a>
+                              )}
+                          </div>
+                          <ProposalTimeline events={selectedProposal.history} />
+                      </div>
+
+                      {/* Author Controls */}
+                      {isMine(selectedProposal.id) && (
+                          <div className="bg-gray-50 dark:bg-gray-800 border border-dashed border-gray-300 dark:border-gray-600 rounded-lg p-4 mb-6">
+                              <h4 className="font-bold text-gray-500 text-sm mb-1">✏️ あなたの意見</h4>
+                              <p className="text-xs text-gray-400 mb-3">投稿者として、この意見の更新は自動で通知されます。</p>
+                              {!selectedProposal.withdrawnAt && !selectedProposal.mergedInto && (
+                                  <div className="flex gap-2">
+                                      {selectedProposal.status === workflow?.initial && (
+                                          <button onClick={() => startEdit(selectedProposal)} className="px-4 py-2 rounded bg-primary text-white text-sm font-bold flex items-center gap-1">
+                                              <span className="material-icons-round text-sm">edit</span> 編集する
+                                          </button>
+                                      )}
+                                      <button onClick={() => handleWithdraw(selectedProposal)} className="px-4 py-2 rounded border border-red-300 text-red-500 text-sm font-bold flex items-center gap-1">
+                                          <span className="material-icons-round text-sm">undo</span> 取り下げる
+                                      </button>
+                                  </div>
+                              )}
+                          </div>
+                      )}
+
+                      {/* Private Q&A */}
+                      {isMine(selectedProposal.id) ? (
+                          <QuestionThread proposalId={selectedProposal.id} viewer="author" />
+                      ) : can(user, 'respond', selectedProposal.category) && (
+                          <QuestionThread proposalId={selectedProposal.id} viewer="council" />
+                      )}
+
+                      {/* Staff Controls: each part needs its own permission */}
+                      {(can(user, 'changeStatus', selectedProposal.category) ||
+                        can(user, 'respond', selectedProposal.category) ||
+                        can(user, 'moderate')) && (
                           <div className="bg-gray-50 dark:bg-gray-800 border border-dashed border-gray-300 dark:border-gray-600 rounded-lg p-4 mb-6">
-                              <h4 className="font-bold text-gray-500 text-sm mb-3">🔧 管理者メニュー</h4>
+                              <h4 className="font-bold text-gray-500 text-sm mb-3">🔧 担当者メニュー</h4>
                               <div className="flex flex-col gap-3">
+                                  {can(user, 'changeStatus', selectedProposal.category) && (
                                   <select 
                                     className="p-2 rounded border bg-white dark:bg-gray-700 dark:text-white"
                                     value={selectedProposal.status}
-                                    onChange={(e) => updateAdminStatus(selectedProposal.id, e.target.value as any, selectedProposal.adminResponse)}
+                                    onChange={(e) => changeStatus(selectedProposal.id, e.target.value)}
                                   >
-                                      {STATUS_STEPS.map(s => <option key={s} value={s}>{s}</option>)}
+                                      {[selectedProposal.status, ...nextStatuses(selectedProposal)].map(s => <option key={s} value={s}>{s}</option>)}
                                   </select>
+                                  )}
+                                  {can(user, 'respond', selectedProposal.category) && (
+                                  <>
                                   <textarea 
                                     className="p-2 rounded border bg-white dark:bg-gray-700 dark:text-white h-20"
                                     placeholder="生徒会からのコメントを入力..."
-                                    value={selectedProposal.adminResponse}
-                                    onChange={(e) => updateAdminStatus(selectedProposal.id, selectedProposal.status, e.target.value)}
+                                    value={responseDraft ?? selectedProposal.adminResponse}
+                                    onChange={(e) => setResponseDraft(e.target.value)}
                                   />
+                                  <button 
+                                    disabled={responseDraft === null || responseDraft === selectedProposal.adminResponse}
+                                    onClick={() => updateAdminProposal(selectedProposal.id, { adminResponse: responseDraft! })}
+                                    className="self-end px-4 py-2 rounded bg-primary text-white text-sm font-bold disabled:opacity-40"
+                                  >
+                                      コメントを保存
+                                  </button>
+                                  </>
+                                  )}
+                                  {can(user, 'moderate') && (
+                                  <div className="flex gap-2">
+                                      <select 
+                                        className="flex-1 min-w-0 p-2 rounded border bg-white dark:bg-gray-700 dark:text-white text-sm"
+                                        value={mergeTargetId ?? ''}
+                                        onChange={(e) => setMergeTargetId(e.target.value ? Number(e.target.value) : null)}
+                                      >
+                                          <option value="">統合先の意見を選択...</option>
+                                          {proposals.filter(p => p.id !== selectedProposal.id).map(p => (
+                                              <option key={p.id} value={p.id}>#{p.id} {p.title}</option>
+                                          ))}
+                                      </select>
+                                      <button 
+                                        disabled={mergeTargetId === null}
+                                        onClick={() => mergeTargetId !== null && handleMerge(selectedProposal.id, mergeTargetId)}
+                                        className="shrink-0 px-4 py-2 rounded bg-gray-700 text-white text-sm font-bold disabled:opacity-40"
+                                      >
+                                          統合する
+                                      </button>
+                                  </div>
+                                  )}
                               </div>
                           </div>
                       )}
 
                       <hr className="border-gray-100 dark:border-gray-800 mb-6" />
 
-                      {/* Signatures & Action */}
-                      <div className="flex justify-between items-center mb-4">
+                      {/* Votes & Action */}
+                      <div className="flex flex-wrap justify-between items-center gap-3 mb-4">
                         <div className="font-bold text-primary text-xl">
                             🎉 現在の賛同数: <span className="text-3xl">{selectedProposal.signatures.length}</span> 人
                         </div>
-                        <button 
-                            onClick={() => toggleSignature(selectedProposal.id)}
-                            className={`px-6 py-3 rounded-full font-bold shadow-md transition-all flex items-center gap-2 ${
-                                user && selectedProposal.signatures.some(s => s.userId === user.id)
-                                ? 'bg-pink-100 text-pink-600 border border-pink-300'
-                                : 'bg-primary text-white hover:bg-primary-light hover:scale-105'
-                            }`}
-                        >
-                             {user && selectedProposal.signatures.some(s => s.userId === user.id) ? (
-                                 <>✅ 賛同済み (取消)</>
-                             ) : (
-                                 <>👍 この意見に賛同する</>
-                             )}
-                        </button>
+                        {mayTakePart && (
+                        <div className="flex gap-2">
+                            {(Object.keys(VOTE_LABELS) as VoteStance[]).map(stance => (
+                                <button 
+                                    key={stance}
+                                    onClick={() => toggleVote(selectedProposal.id, stance)}
+                                    className={`px-4 py-2 rounded-full text-sm font-bold shadow-sm transition-all flex items-center gap-1 ${
+                                        myVotes[selectedProposal.id] === stance
+                                        ? 'bg-pink-100 text-pink-600 border border-pink-300'
+                                        : stance === 'support'
+                                        ? 'bg-primary text-white hover:bg-primary-light hover:scale-105'
+                                        : 'bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-200 hover:scale-105'
+                                    }`}
+                                >
+                                    <span className="material-icons-round text-sm">{VOTE_LABELS[stance].icon}</span>
+                                    {VOTE_LABELS[stance].label}
+                                    {myVotes[selectedProposal.id] === stance && ' (取消)'}
+                                </button>
+                            ))}
+                        </div>
+                        )}
                       </div>
+                      <p className="text-xs text-gray-400 mb-3">{SIGNATURE_VISIBILITY_LABELS[selectedProposal.signatureVisibility].description}「反対」「どちらでもない」は人数だけが表示されます。</p>
+
+                      <VoteBreakdown tally={selectedProposal.votes} />
 
-                      {/* Signature List */}
-                      {selectedProposal.signatures.length > 0 && (
+                      <BallotPanel
+                        key={`ballots-${selectedProposal.id}`}
+                        proposalId={selectedProposal.id}
+                        user={user}
+                        canCreate={can(user, 'runBallots') && !selectedProposal.mergedInto && !selectedProposal.withdrawnAt}
+                      />
+
+                      {/* Signature visibility (author or moderators) and the signed petition (staff) */}
+                      {(isMine(selectedProposal.id) || can(user, 'moderate') || can(user, 'respond', selectedProposal.category)) && (
+                          <div className="flex flex-wrap items-center gap-3 mb-3 text-sm text-gray-600 dark:text-gray-300">
+                              {(isMine(selectedProposal.id) || can(user, 'moderate')) && (
+                                  <label className="flex items-center gap-2">
+                                      賛同者の名前:
+                                      <select
+                                          className="p-1 rounded border bg-white dark:bg-gray-700 dark:text-white"
+                                          value={selectedProposal.signatureVisibility}
+                                          onChange={e => changeSignatureVisibility(selectedProposal, e.target.value as SignatureVisibility)}
+                                      >
+                                          {VISIBILITIES.map((v, i) => (
+                                              <option
+                                                  key={v}
+                                                  value={v}
+                                                  // Signers agreed under the current setting, so it can only get stricter
+                                                  disabled={selectedProposal.signatures.length > 0 && i < VISIBILITIES.indexOf(selectedProposal.signatureVisibility)}
+                                              >
+                                                  {SIGNATURE_VISIBILITY_LABELS[v].label}
+                                              </option>
+                                          ))}
+                                      </select>
+                                  </label>
+                              )}
+                              {can(user, 'respond', selectedProposal.category) && (
+                                  <>
+                                      <a href={api.petitionExportUrl(selectedProposal.id)} className="flex items-center gap-1 text-primary hover:underline">
+                                          <span className="material-icons-round text-sm">verified</span> 署名付き賛同者リストを出力
+                                      </a>
+                                      <label className="flex items-center gap-1 text-primary hover:underline cursor-pointer">
+                                          <span className="material-icons-round text-sm">fact_check</span> リストを検証
+                                          <input type="file" accept=".json,application/json" className="hidden" onChange={handleVerifyPetition} />
+                                      </label>
+                                  </>
+                              )}
+                          </div>
+                      )}
+
+                      {/* Signature List: names are blank for viewers who may not see them */}
+                      {selectedProposal.signatures.some(sig => sig.userName) && (
                           <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-4">
                               <h5 className="font-bold text-gray-500 text-sm mb-2">賛同した生徒</h5>
                               <div className="flex flex-wrap gap-2">
@@ -1135,6 +1916,16 @@ const App: React.FC = () => {
                               </div>
                           </div>
                       )}
+
+                      <hr className="border-gray-100 dark:border-gray-800 my-6" />
+
+                      {/* Discussion */}
+                      <CommentThread
+                        key={selectedProposal.id}
+                        proposalId={selectedProposal.id}
+                        user={user}
+                        readOnly={Boolean(selectedProposal.mergedInto || selectedProposal.withdrawnAt)}
+                      />
                   </div>
               </div>
           </div>
@@ -0,0 +1,182 @@
+import React, { useEffect, useState } from 'react';
+import * as api from '../services/api';
+import type { Analytics, DurationSummary, ParticipationRow } from '../types';
+
+const percent = (n: number, d: number) => (d === 0 ? '—' : `${Math.round((n / d) * 100)}%`);
+
+const days = (s: DurationSummary) => (s.count === 0 ? '—' : `${s.medianDays}日`);
+
+const Card: React.FC<{ title: string; icon: string; children: React.ReactNode }> = ({ title, icon, children }) => (
+  <section className="bg-bg-card dark:bg-bg-cardDark rounded-xl shadow-sm p-4">
+    <h3 className="font-bold dark:text-white flex items-center gap-2 mb-3">
+      <span className="material-icons-round text-primary text-base">{icon}</span> {title}
+    </h3>
+    {children}
+  </section>
+);
+
+// Horizontal bar with its value, scaled against the largest value of the chart.
+const Bar: React.FC<{ label: string; value: number; max: number; note?: string; color?: string }> = ({ label, value, max, note, color = 'bg-primary' }) => (
+  <div className="flex items-center gap-2 text-sm">
+    <span className="w-28 shrink-0 truncate text-gray-600 dark:text-gray-300" title={label}>{label}</span>
+    <div className="flex-1 h-3 bg-gray-100 dark:bg-gray-700 rounded">
+      <div className={`h-3 rounded ${color}`} style={{ width: `${max ? (value / max) * 100 : 0}%` }} />
+    </div>
+    <span className="w-24 shrink-0 text-right dark:text-gray-200">{value}{note && <span className="text-xs text-gray-400"> {note}</span>}</span>
+  </div>
+);
+
+const ParticipationTable: React.FC<{ rows: ParticipationRow[]; label: (group: string) => string }> = ({ rows, label }) => (
+  <div className="space-y-1">
+    {rows.length === 0 && <div className="text-sm text-gray-400">登録されている生徒がいません</div>}
+    {rows.map(r => (
+      <Bar key={r.group} label={label(r.group)} value={r.participants} max={r.students} note={`/ ${r.students}人 (${percent(r.participants, r.students)})`} color="bg-teal-500" />
+    ))}
+  </div>
+);
+
+// Admin dashboard for the student council and teachers: activity over time, how quickly proposals
+// move through the workflow and who takes part. Everything can be narrowed to a date range and
+// downloaded as CSV for reports.
+const AnalyticsView: React.FC<{ onOpenProposal: (id: number) => void }> = ({ onOpenProposal }) => {
+  const [range, setRange] = useState({ from: '', to: '' });
+  const [data, setData] = useState<Analytics | null>(null);
+
+  useEffect(() => {
+    api.fetchAnalytics(range)
+      .then(setData)
+      .catch(error => console.error('Failed to load analytics:', error));
+  }, [range]);
+
+  const peak = data ? Math.max(1, ...data.timeline.map(p => Math.max(p.proposals, p.signatures))) : 1;
+  const longestStay = data ? Math.max(0, ...data.stageDurations.map(s => s.medianDays)) : 0;
+  const largestCategory = data ? Math.max(0, ...data.categories.map(c => c.count)) : 0;
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <span className="text-gray-500">期間:</span>
+        <input
+          type="date"
+          className="p-1 rounded border bg-white dark:bg-gray-700 dark:text-white"
+          value={range.from}
+          onChange={e => setRange({ ...range, from: e.target.value })}
+        />
+        <span className="text-gray-500">〜</span>
+        <input
+          type="date"
+          className="p-1 rounded border bg-white dark:bg-gray-700 dark:text-white"
+          value={range.to}
+          onChange={e => setRange({ ...range, to: e.target.value })}
+        />
+        {(range.from || range.to) && (
+          <button onClick={() => setRange({ from: '', to: '' })} className="text-gray-500 hover:underline">全期間</button>
+        )}
+        <a
+          href={api.analyticsExportUrl(range)}
+          className="ml-auto flex items-center gap-1 px-3 py-1 rounded bg-gray-700 text-white font-bold"
+        >
+          <span className="material-icons-round text-sm">download</span> CSV
+        </a>
+      </div>
+
+      {!data ? (
+        <div className="text-center py-10 text-gray-400">読み込み中...</div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {[
+              ['投稿', `${data.timeline.reduce((n, p) => n + p.proposals, 0)}件`],
+              ['賛同', `${data.timeline.reduce((n, p) => n + p.signatures, 0)}件`],
+              ['解決率', percent(data.resolution.resolved, data.resolution.total)],
+              ['最初の回答まで（中央値）', days(data.firstResponse)],
+            ].map(([label, value]) => (
+              <div key={label} className="bg-bg-card dark:bg-bg-cardDark rounded-xl shadow-sm p-4">
+                <div className="text-xs text-gray-500">{label}</div>
+                <div className="text-2xl font-bold dark:text-white">{value}</div>
+              </div>
+            ))}
+          </div>
+
+          <Card title={data.bucket === 'day' ? '投稿・賛同の推移（日別）' : '投稿・賛同の推移（月別）'} icon="show_chart">
+            {data.timeline.length === 0 ? (
+              <div className="text-sm text-gray-400">まだデータがありません</div>
+            ) : (
+              <>
+                <div className="flex items-end gap-px h-40 overflow-x-auto">
+                  {data.timeline.map(p => (
+                    <div key={p.period} className="flex-1 min-w-[6px] h-full flex items-end gap-px" title={`${p.period}: 投稿 ${p.proposals} / 賛同 ${p.signatures}`}>
+                      <div className="flex-1 bg-primary rounded-t" style={{ height: `${(p.proposals / peak) * 100}%` }} />
+                      <div className="flex-1 bg-accent rounded-t" style={{ height: `${(p.signatures / peak) * 100}%` }} />
+                    </div>
+                  ))}
+                </div>
+                <div className="flex justify-between text-xs text-gray-400 mt-1">
+                  <span>{data.timeline[0].period}</span>
+                  <span className="flex gap-3">
+                    <span><span className="inline-block w-2 h-2 bg-primary rounded-sm" /> 投稿</span>
+                    <span><span className="inline-block w-2 h-2 bg-accent rounded-sm" /> 賛同</span>
+                  </span>
+                  <span>{data.timeline[data.timeline.length - 1].period}</span>
+                </div>
+              </>
+            )}
+          </Card>
+
+          <div className="grid md:grid-cols-2 gap-6">
+            <Card title="ステータスごとの滞在日数（中央値）" icon="hourglass_bottom">
+              <div className="space-y-1">
+                {data.stageDurations.length === 0 && <div className="text-sm text-gray-400">まだステータスが変わった意見がありません</div>}
+                {data.stageDurations.map(s => (
+                  <Bar key={s.status} label={s.status} value={s.medianDays} max={longestStay} note={`日 (${s.count}件)`} color="bg-purple-500" />
+                ))}
+              </div>
+              <p className="text-xs text-gray-400 mt-2">
+                最初の回答まで: 中央値 {days(data.firstResponse)} / 平均 {data.firstResponse.count ? `${data.firstResponse.averageDays}日` : '—'}（{data.firstResponse.count}件）
+              </p>
+            </Card>
+
+            <Card title="カテゴリ別の投稿数" icon="category">
+              <div className="space-y-1">
+                {data.categories.length === 0 && <div className="text-sm text-gray-400">まだデータがありません</div>}
+                {data.categories.map(c => <Bar key={c.category} label={c.category} value={c.count} max={largestCategory} />)}
+              </div>
+            </Card>
+
+            <Card title="解決率" icon="task_alt">
+              <div className="space-y-1">
+                <Bar label="完了した意見" value={data.resolution.resolved} max={data.resolution.total} note={percent(data.resolution.resolved, data.resolution.total)} color="bg-green-500" />
+                <Bar label="回答済みの意見" value={data.resolution.responded} max={data.resolution.total} note={percent(data.resolution.responded, data.resolution.total)} color="bg-blue-500" />
+              </div>
+              <p className="text-xs text-gray-400 mt-2">期間中に投稿された意見 {data.resolution.total}件（取り下げを除く）のうち。完了 = それ以上進めないステータスにある意見。</p>
+            </Card>
+
+            <Card title="参加状況（賛同・コメント・投票をした生徒）" icon="groups">
+              <h4 className="text-xs font-bold text-gray-500 mb-1">学年別</h4>
+              <ParticipationTable rows={data.participation.byGrade} label={g => (g ? `${g}年` : '学年なし')} />
+              <h4 className="text-xs font-bold text-gray-500 mt-3 mb-1">クラス別</h4>
+              <ParticipationTable rows={data.participation.byClass} label={c => c || 'クラスなし'} />
+            </Card>
+          </div>
+
+          <Card title="賛同の多い未解決の意見" icon="priority_high">
+            {data.topUnresolved.length === 0 && <div className="text-sm text-gray-400">未解決の意見はありません</div>}
+            <ol className="space-y-1 text-sm">
+              {data.topUnresolved.map(p => (
+                <li key={p.id} className="flex items-center gap-3">
+                  <button onClick={() => onOpenProposal(p.id)} className="flex-1 min-w-0 text-left truncate hover:text-primary dark:text-gray-200">
+                    #{p.id} {p.title}
+                  </button>
+                  <span className="text-xs text-gray-400 shrink-0">{p.status} · {new Date(p.timestamp).toLocaleDateString('ja-JP')}</span>
+                  <span className="font-bold text-primary shrink-0">賛同 {p.signatures}</span>
+                </li>
+              ))}
+            </ol>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default AnalyticsView;
@@ -0,0 +1,213 @@
+import React, { useEffect, useState } from 'react';
+import * as api from '../services/api';
+import { GRADES } from '../constants';
+import { can } from '../permissions';
+import type { Ballot, User } from '../types';
+
+const STATE_LABELS: Record<Ballot['state'], string> = {
+  scheduled: '開始前',
+  open: '投票受付中',
+  closed: '締切',
+};
+
+const electorateLabel = (ballot: Ballot) => {
+  const { grades, classes } = ballot.electorate;
+  if (grades.length === 0 && classes.length === 0) return '全校生徒';
+  return [...grades.map(g => `${g}年生`), ...classes].join('・');
+};
+
+// Admin form for opening a ballot on the proposal.
+const BallotForm: React.FC<{ proposalId: number; onCreated: (ballot: Ballot) => void; onCancel: () => void }> = ({
+  proposalId,
+  onCreated,
+  onCancel,
+}) => {
+  const [question, setQuestion] = useState('');
+  const [options, setOptions] = useState('賛成\n反対');
+  const [grades, setGrades] = useState<number[]>([]);
+  const [classes, setClasses] = useState('');
+  const [secret, setSecret] = useState(true);
+  const [closesAt, setClosesAt] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      onCreated(
+        await api.createBallot({
+          proposalId,
+          question,
+          options: options.split('\n').map(o => o.trim()).filter(Boolean),
+          electorate: { grades, classes: classes.split(/[,、\s]+/).filter(Boolean) },
+          secret,
+          closesAt: new Date(closesAt).toISOString(),
+        })
+      );
+    } catch (error) {
+      alert(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-col gap-2 text-sm border border-dashed border-gray-300 dark:border-gray-600 rounded-lg p-3 mb-3">
+      <input className="p-2 rounded border bg-white dark:bg-gray-700 dark:text-white" placeholder="投票の質問（例: この校則改正案に賛成ですか？）" value={question} onChange={e => setQuestion(e.target.value)} />
+      <textarea className="p-2 rounded border bg-white dark:bg-gray-700 dark:text-white h-20" placeholder="選択肢（1行に1つ）" value={options} onChange={e => setOptions(e.target.value)} />
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="text-gray-500">対象:</span>
+        {GRADES.map(g => (
+          <label key={g} className="flex items-center gap-1 dark:text-gray-200">
+            <input type="checkbox" checked={grades.includes(g)} onChange={e => setGrades(prev => (e.target.checked ? [...prev, g] : prev.filter(x => x !== g)))} />
+            {g}年生
+          </label>
+        ))}
+        <input className="flex-1 min-w-[8rem] p-1 rounded border bg-white dark:bg-gray-700 dark:text-white" placeholder="クラス（例: 2-1, 2-3）" value={classes} onChange={e => setClasses(e.target.value)} />
+      </div>
+      <p className="text-xs text-gray-400">学年もクラスも指定しない場合は全校生徒が対象です。</p>
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="flex items-center gap-1 dark:text-gray-200">
+          <input type="checkbox" checked={secret} onChange={e => setSecret(e.target.checked)} /> 無記名投票（誰が何に投票したかを記録しない）
+        </label>
+        <label className="flex items-center gap-1 text-gray-500">
+          締切 <input type="datetime-local" className="p-1 rounded border bg-white dark:bg-gray-700 dark:text-white" value={closesAt} onChange={e => setClosesAt(e.target.value)} />
+        </label>
+      </div>
+      <div className="flex justify-end gap-2">
+        <button type="button" onClick={onCancel} className="px-3 py-1.5 rounded text-gray-500">キャンセル</button>
+        <button type="submit" disabled={!question.trim() || !closesAt} className="px-4 py-1.5 rounded bg-primary text-white font-bold disabled:opacity-40">投票を開始</button>
+      </div>
+    </form>
+  );
+};
+
+const BallotCard: React.FC<{ ballot: Ballot; user: User | null; onChange: (ballot: Ballot) => void }> = ({ ballot, user, onChange }) => {
+  const [choice, setChoice] = useState<number | null>(null);
+  const [receipt, setReceipt] = useState<string | null>(null);
+
+  const handleVote = async () => {
+    if (choice === null || !confirm(`「${ballot.options[choice]}」に投票します。投票後は変更できません。よろしいですか？`)) return;
+    try {
+      const result = await api.castBallot(ballot.id, choice);
+      setReceipt(result.receipt);
+      onChange(result.ballot);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const handleClose = async () => {
+    if (!confirm('この投票を今すぐ締め切りますか？')) return;
+    try {
+      onChange(await api.closeBallot(ballot.id));
+    } catch (error) {
+      alert(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const results = ballot.results;
+  const totalVotes = results ? results.counts.reduce((sum, n) => sum + n, 0) : 0;
+
+  return (
+    <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-4 mb-3">
+      <div className="flex items-start justify-between gap-2 mb-1">
+        <h5 className="font-bold dark:text-white">{ballot.question}</h5>
+        <span className="shrink-0 px-2 py-0.5 rounded-full text-[10px] font-bold bg-primary/10 text-primary">{STATE_LABELS[ballot.state]}</span>
+      </div>
+      <p className="text-xs text-gray-400 mb-3">
+        対象: {electorateLabel(ballot)} · {ballot.secret ? '無記名' : '記名'} · {new Date(ballot.opensAt).toLocaleString('ja-JP')} 〜 {new Date(ballot.closesAt).toLocaleString('ja-JP')} · 投票済み {ballot.voterCount}人
+      </p>
+
+      {results ? (
+        <div className="space-y-2">
+          {ballot.options.map((option, i) => (
+            <div key={i}>
+              <div className="flex justify-between text-sm dark:text-gray-200">
+                <span>{option}</span>
+                <span className="font-bold">{results.counts[i]}票{totalVotes > 0 && `（${Math.round((results.counts[i] / totalVotes) * 100)}%）`}</span>
+              </div>
+              <div className="h-2 rounded bg-gray-200 dark:bg-gray-700 overflow-hidden">
+                <div className="h-full bg-primary" style={{ width: `${totalVotes ? (results.counts[i] / totalVotes) * 100 : 0}%` }} />
+              </div>
+              {results.voters && results.voters[i].length > 0 && <p className="text-[10px] text-gray-400 mt-0.5">{results.voters[i].join('、')}</p>}
+            </div>
+          ))}
+          <p className="text-xs text-gray-500">
+            投票率 {results.electorateSize > 0 ? Math.round((ballot.voterCount / results.electorateSize) * 100) : 0}%（{ballot.voterCount} / {results.electorateSize}人）
+          </p>
+          <a href={api.ballotTallyUrl(ballot.id)} className="inline-flex items-center gap-1 text-xs text-primary hover:underline">
+            <span className="material-icons-round text-sm">download</span> 集計データ（検証用）をダウンロード
+          </a>
+        </div>
+      ) : ballot.state === 'open' && ballot.eligible && !ballot.voted ? (
+        <div className="space-y-2">
+          {ballot.options.map((option, i) => (
+            <label key={i} className="flex items-center gap-2 text-sm dark:text-gray-200">
+              <input type="radio" name={`ballot-${ballot.id}`} checked={choice === i} onChange={() => setChoice(i)} /> {option}
+            </label>
+          ))}
+          <button onClick={handleVote} disabled={choice === null} className="px-4 py-2 rounded bg-primary text-white text-sm font-bold disabled:opacity-40">
+            投票する
+          </button>
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500">
+          {ballot.voted ? '✅ 投票済みです。' : ballot.state === 'open' && user && !ballot.eligible ? 'この投票の対象ではありません。' : ''}
+          結果は締切後に公開されます。
+        </p>
+      )}
+
+      {receipt && (
+        <p className="mt-2 text-xs bg-yellow-50 dark:bg-yellow-900/30 text-yellow-800 dark:text-yellow-100 rounded p-2">
+          投票番号: <span className="font-mono font-bold">{receipt}</span><br />
+          締切後の集計データにこの番号と投票先が載っているかを確認できます。この番号は再表示されないので控えておいてください。
+        </p>
+      )}
+
+      {can(user, 'runBallots') && ballot.state !== 'closed' && (
+        <button onClick={handleClose} className="mt-3 text-xs text-red-500 hover:underline">今すぐ締め切る</button>
+      )}
+    </div>
+  );
+};
+
+// Formal votes (e.g. at the 生徒総会) run on a proposal.
+const BallotPanel: React.FC<{ proposalId: number; user: User | null; canCreate: boolean }> = ({ proposalId, user, canCreate }) => {
+  const [ballots, setBallots] = useState<Ballot[]>([]);
+  const [creating, setCreating] = useState(false);
+
+  useEffect(() => {
+    api.fetchBallots(proposalId)
+      .then(setBallots)
+      .catch(error => console.error('Failed to load ballots:', error));
+  }, [proposalId]);
+
+  const replace = (updated: Ballot) => setBallots(prev => prev.map(b => (b.id === updated.id ? updated : b)));
+
+  if (ballots.length === 0 && !canCreate) return null;
+
+  return (
+    <div className="mb-6">
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="font-bold text-gray-500 text-sm flex items-center gap-1">
+          <span className="material-icons-round text-sm">how_to_vote</span> 投票
+        </h4>
+        {canCreate && !creating && (
+          <button onClick={() => setCreating(true)} className="text-xs text-primary font-bold hover:underline">＋ 投票を作成</button>
+        )}
+      </div>
+      {creating && (
+        <BallotForm
+          proposalId={proposalId}
+          onCreated={ballot => {
+            setBallots(prev => [ballot, ...prev]);
+            setCreating(false);
+          }}
+          onCancel={() => setCreating(false)}
+        />
+      )}
+      {ballots.map(ballot => (
+        <BallotCard key={ballot.id} ballot={ballot} user={user} onChange={replace} />
+      ))}
+    </div>
+  );
+};
+
+export default BallotPanel;
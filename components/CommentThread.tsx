@@ -0,0 +1,227 @@
+import React, { useEffect, useState } from 'react';
+import * as api from '../services/api';
+import { STANCE_LABELS } from '../constants';
+import { can } from '../permissions';
+import ReportButton from './ReportButton';
+import type { CommentStance, ProposalComment, User } from '../types';
+
+type CommentSort = 'helpful' | 'newest';
+
+const STANCES = Object.keys(STANCE_LABELS) as CommentStance[];
+
+const StanceBadge: React.FC<{ stance: CommentStance }> = ({ stance }) => (
+  <span className={`px-2 py-0.5 rounded-full text-[10px] font-bold ${STANCE_LABELS[stance].className}`}>
+    {STANCE_LABELS[stance].label}
+  </span>
+);
+
+// Form for a new comment or a reply. Moderation runs on the server, so a rejection comes back as
+// an error message explaining what to change.
+const CommentForm: React.FC<{
+  placeholder: string;
+  onSubmit: (body: string, stance: CommentStance) => Promise<void>;
+  onCancel?: () => void;
+}> = ({ placeholder, onSubmit, onCancel }) => {
+  const [body, setBody] = useState('');
+  const [stance, setStance] = useState<CommentStance>('neutral');
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!body.trim()) return;
+    setSending(true);
+    setError(null);
+    try {
+      await onSubmit(body, stance);
+      setBody('');
+      setStance('neutral');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-col gap-2">
+      <div className="flex gap-1">
+        {STANCES.map(s => (
+          <button
+            key={s}
+            type="button"
+            onClick={() => setStance(s)}
+            className={`px-3 py-1 rounded-full text-xs font-bold border ${stance === s ? STANCE_LABELS[s].className + ' border-transparent' : 'border-gray-300 text-gray-400'}`}
+          >
+            {STANCE_LABELS[s].label}
+          </button>
+        ))}
+      </div>
+      <textarea
+        className="p-2 rounded border bg-white dark:bg-gray-700 dark:text-white text-sm h-16"
+        placeholder={placeholder}
+        value={body}
+        onChange={e => setBody(e.target.value)}
+      />
+      {error && <p className="text-xs text-red-500">⚠️ {error}</p>}
+      <div className="flex justify-end gap-2">
+        {onCancel && (
+          <button type="button" onClick={onCancel} className="px-3 py-1.5 rounded text-sm text-gray-500">
+            キャンセル
+          </button>
+        )}
+        <button type="submit" disabled={sending || !body.trim()} className="px-4 py-1.5 rounded bg-primary text-white text-sm font-bold disabled:opacity-40">
+          {sending ? 'AIが確認中...' : '投稿'}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+// Public discussion on a proposal: one level of replies, pro/con stance per comment and
+// "参考になった" marks. Admins see hidden comments and can hide or restore them.
+const CommentThread: React.FC<{ proposalId: number; user: User | null; readOnly?: boolean }> = ({
+  proposalId,
+  user,
+  readOnly,
+}) => {
+  const [comments, setComments] = useState<ProposalComment[]>([]);
+  const [sort, setSort] = useState<CommentSort>('helpful');
+  const [replyTo, setReplyTo] = useState<number | null>(null);
+  const canModerate = can(user, 'moderate');
+  // Parents read along but do not take part
+  const canTakePart = can(user, 'participate');
+
+  useEffect(() => {
+    api.fetchComments(proposalId)
+      .then(setComments)
+      .catch(error => console.error('Failed to load comments:', error));
+  }, [proposalId]);
+
+  const replace = (updated: ProposalComment) => setComments(prev => prev.map(c => (c.id === updated.id ? updated : c)));
+
+  const handlePost = async (body: string, stance: CommentStance, parentId?: number) => {
+    const created = await api.postComment(proposalId, { body, stance, parentId });
+    setComments(prev => [...prev, created]);
+    setReplyTo(null);
+  };
+
+  const toggleHelpful = async (comment: ProposalComment) => {
+    try {
+      replace(await api.setCommentHelpful(proposalId, comment.id, !comment.markedHelpful));
+    } catch (error) {
+      alert(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const toggleHidden = async (comment: ProposalComment) => {
+    let reason: string | undefined;
+    if (!comment.hidden) {
+      reason = window.prompt('非表示にする理由を入力してください。')?.trim();
+      if (!reason) return;
+    }
+    try {
+      replace(await api.setCommentHidden(proposalId, comment.id, !comment.hidden, reason));
+    } catch (error) {
+      alert(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const roots = comments
+    .filter(c => c.parentId === undefined)
+    .sort((a, b) =>
+      sort === 'helpful' && b.helpful !== a.helpful ? b.helpful - a.helpful : b.timestamp.localeCompare(a.timestamp)
+    );
+  const repliesTo = (id: number) => comments.filter(c => c.parentId === id);
+  const counts = STANCES.map(s => ({ stance: s, count: comments.filter(c => c.stance === s && !c.hidden).length }));
+
+  const renderComment = (comment: ProposalComment, isReply: boolean) => (
+    <div key={comment.id} className={`${isReply ? 'ml-6 pl-3 border-l-2 border-gray-100 dark:border-gray-700' : ''} py-2`}>
+      <div className="flex items-center gap-2 text-xs text-gray-400 mb-1">
+        <StanceBadge stance={comment.stance} />
+        <span className="font-bold text-gray-600 dark:text-gray-300">{comment.userName}</span>
+        <span>{new Date(comment.timestamp).toLocaleString('ja-JP')}</span>
+        {comment.hidden && <span className="text-red-500 font-bold">{comment.removed ? '削除済み' : '非表示'}</span>}
+        {comment.redacted && <span>（一部を管理者が編集しました）</span>}
+      </div>
+      {comment.hidden && !canModerate ? (
+        <p className="text-sm text-gray-400 italic">
+          {comment.removed ? 'このコメントは削除されました。' : 'このコメントは非表示になっています。'}
+        </p>
+      ) : (
+        <p className={`text-sm whitespace-pre-wrap dark:text-gray-200 ${comment.hidden ? 'opacity-50' : ''}`}>{comment.body}</p>
+      )}
+      {comment.hidden && comment.hiddenReason && <p className="text-xs text-red-400 mt-1">理由: {comment.hiddenReason}</p>}
+      <div className="flex items-center gap-3 mt-1 text-xs">
+        <button
+          disabled={!canTakePart || comment.mine || comment.hidden}
+          onClick={() => toggleHelpful(comment)}
+          className={`flex items-center gap-1 disabled:opacity-50 ${comment.markedHelpful ? 'text-primary font-bold' : 'text-gray-400'}`}
+        >
+          <span className="material-icons-round text-sm">thumb_up</span> 参考になった {comment.helpful > 0 && comment.helpful}
+        </button>
+        {canTakePart && !readOnly && !isReply && (
+          <button onClick={() => setReplyTo(replyTo === comment.id ? null : comment.id)} className="text-gray-400 hover:text-primary">
+            返信
+          </button>
+        )}
+        {canModerate && !comment.removed && (
+          <button onClick={() => toggleHidden(comment)} className="text-gray-400 hover:text-red-500">
+            {comment.hidden ? '再表示' : '非表示にする'}
+          </button>
+        )}
+        {canTakePart && !comment.mine && !comment.hidden && <ReportButton targetType="comment" targetId={comment.id} className="ml-auto" />}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="mb-6">
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="font-bold text-gray-500 text-sm flex items-center gap-1">
+          <span className="material-icons-round text-sm">chat</span> みんなのコメント ({comments.length})
+        </h4>
+        <select className="text-xs p-1 rounded border bg-white dark:bg-gray-700 dark:text-white" value={sort} onChange={e => setSort(e.target.value as CommentSort)}>
+          <option value="helpful">参考になった順</option>
+          <option value="newest">新しい順</option>
+        </select>
+      </div>
+      {comments.length > 0 && (
+        <div className="flex gap-2 mb-3">
+          {counts.map(({ stance, count }) => (
+            <span key={stance} className={`px-2 py-0.5 rounded text-xs ${STANCE_LABELS[stance].className}`}>
+              {STANCE_LABELS[stance].label} {count}
+            </span>
+          ))}
+        </div>
+      )}
+      {canTakePart && !readOnly ? (
+        <div className="mb-3">
+          <CommentForm placeholder="意見へのコメントを書く（AIが内容を確認します）" onSubmit={(body, stance) => handlePost(body, stance)} />
+        </div>
+      ) : !user && (
+        <p className="text-xs text-gray-400 mb-3">コメントするにはログインしてください。</p>
+      )}
+      <div className="divide-y divide-gray-100 dark:divide-gray-800">
+        {roots.length === 0 && <p className="text-sm text-gray-400 py-2">まだコメントはありません。</p>}
+        {roots.map(root => (
+          <div key={root.id}>
+            {renderComment(root, false)}
+            {repliesTo(root.id).map(reply => renderComment(reply, true))}
+            {replyTo === root.id && (
+              <div className="ml-6 pl-3 pb-2">
+                <CommentForm
+                  placeholder={`${root.userName}さんへの返信`}
+                  onSubmit={(body, stance) => handlePost(body, stance, root.id)}
+                  onCancel={() => setReplyTo(null)}
+                />
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default CommentThread;
@@ -0,0 +1,291 @@
+import React, { useEffect, useState } from 'react';
+import { GoogleLogin } from '@react-oauth/google';
+import * as api from '../services/api';
+import type { DistrictAdmin, School, SchoolStats } from '../types';
+
+const percent = (n: number, d: number) => (d === 0 ? '—' : `${Math.round((n / d) * 100)}%`);
+
+const splitList = (text: string) => text.split(/[\s,、]+/).map(v => v.trim()).filter(Boolean);
+
+const EMPTY_SCHOOL: api.SchoolSettings = {
+  id: '',
+  name: '',
+  loginDomain: '',
+  adminEmails: [],
+  categories: ['校則', '設備・環境', '授業'],
+  theme: { primary: '#6a0dad', accent: '#ffd700' },
+  hosts: [],
+  googleClientId: '',
+};
+
+// Settings of one school. The ID is fixed once the school exists (it names the database file).
+const SchoolForm: React.FC<{ school?: School; onSaved: (school: School) => void; onCancel: () => void }> = ({ school, onSaved, onCancel }) => {
+  const initial = school ?? EMPTY_SCHOOL;
+  const [form, setForm] = useState({
+    id: initial.id,
+    name: initial.name,
+    loginDomain: initial.loginDomain,
+    adminEmails: initial.adminEmails.join('\n'),
+    categories: initial.categories.filter(c => c !== 'その他').join('、'),
+    primary: initial.theme.primary,
+    accent: initial.theme.accent,
+    hosts: initial.hosts.join('\n'),
+    googleClientId: initial.googleClientId,
+  });
+
+  const save = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const settings: api.SchoolSettings = {
+      id: form.id.trim(),
+      name: form.name,
+      loginDomain: form.loginDomain,
+      adminEmails: splitList(form.adminEmails),
+      categories: splitList(form.categories),
+      // Hand-picked shades only survive while the main colour is unchanged
+      theme: { ...(form.primary === initial.theme.primary ? initial.theme : {}), primary: form.primary, accent: form.accent },
+      hosts: splitList(form.hosts),
+      googleClientId: form.googleClientId,
+    };
+    try {
+      onSaved(school ? await api.updateSchool(school.id, settings) : await api.createSchool(settings));
+    } catch (error) {
+      alert(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const field = (label: string, key: keyof typeof form, props: React.InputHTMLAttributes<HTMLInputElement> = {}) => (
+    <label className="block text-sm">
+      <span className="text-gray-500 text-xs">{label}</span>
+      <input
+        className="w-full p-2 rounded border bg-white dark:bg-gray-700 dark:text-white"
+        value={form[key]}
+        onChange={e => setForm({ ...form, [key]: e.target.value })}
+        {...props}
+      />
+    </label>
+  );
+
+  const area = (label: string, key: keyof typeof form, placeholder: string) => (
+    <label className="block text-sm">
+      <span className="text-gray-500 text-xs">{label}</span>
+      <textarea
+        className="w-full p-2 rounded border bg-white dark:bg-gray-700 dark:text-white h-20 text-sm"
+        placeholder={placeholder}
+        value={form[key]}
+        onChange={e => setForm({ ...form, [key]: e.target.value })}
+      />
+    </label>
+  );
+
+  return (
+    <form onSubmit={save} className="bg-bg-card dark:bg-bg-cardDark rounded-xl shadow-sm p-4 space-y-3">
+      <div className="grid md:grid-cols-2 gap-3">
+        {field('学校ID（半角英小文字・数字・ハイフン。後から変更できません）', 'id', { disabled: !!school, required: true, placeholder: 'minami-jhs' })}
+        {field('学校名', 'name', { required: true, placeholder: '〇〇市立南中学校' })}
+        {field('ログインを許可するドメイン（空欄ならすべて）', 'loginDomain', { placeholder: 'minami-jhs.ed.jp' })}
+        {field('Google OAuth クライアントID（空欄なら共通のもの）', 'googleClientId')}
+      </div>
+      {area('管理者のメールアドレス（初回ログイン時に管理者になります）', 'adminEmails', 'teacher@minami-jhs.ed.jp')}
+      {area('カテゴリー（「その他」は自動で最後に追加されます）', 'categories', '校則、設備・環境、授業')}
+      {area('専用のホスト名（この名前で開くと常にこの学校になります）', 'hosts', 'minami.proposal.example.jp')}
+      <div className="flex flex-wrap gap-4 text-sm items-center">
+        <label className="flex items-center gap-2">
+          <span className="text-gray-500 text-xs">メインカラー</span>
+          <input type="color" value={form.primary} onChange={e => setForm({ ...form, primary: e.target.value })} />
+        </label>
+        <label className="flex items-center gap-2">
+          <span className="text-gray-500 text-xs">アクセントカラー</span>
+          <input type="color" value={form.accent} onChange={e => setForm({ ...form, accent: e.target.value })} />
+        </label>
+      </div>
+      <div className="flex justify-end gap-2">
+        <button type="button" onClick={onCancel} className="px-4 py-2 rounded border border-gray-300 text-gray-600 dark:text-gray-300 text-sm font-bold">
+          キャンセル
+        </button>
+        <button type="submit" className="px-4 py-2 rounded bg-primary text-white text-sm font-bold">
+          {school ? '保存' : '学校を追加'}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+// Board-of-education screen at /district: the schools on this deployment and how they compare.
+// Only totals are shown; proposals, comments and students stay inside each school.
+const DistrictView: React.FC<{ initialAdmin: DistrictAdmin | null }> = ({ initialAdmin }) => {
+  const [admin, setAdmin] = useState(initialAdmin);
+  const [tab, setTab] = useState<'stats' | 'schools'>('stats');
+  const [range, setRange] = useState({ from: '', to: '' });
+  const [stats, setStats] = useState<SchoolStats[]>([]);
+  const [schools, setSchools] = useState<School[]>([]);
+  // School being edited; 'new' for the add form
+  const [editing, setEditing] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!admin) return;
+    api.fetchDistrictSchools()
+      .then(setSchools)
+      .catch(error => console.error('Failed to load schools:', error));
+  }, [admin]);
+
+  useEffect(() => {
+    if (!admin) return;
+    api.fetchDistrictStats(range)
+      .then(setStats)
+      .catch(error => console.error('Failed to load district stats:', error));
+  }, [admin, range]);
+
+  if (!admin) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-6">
+        <div className="bg-bg-card dark:bg-bg-cardDark rounded-2xl shadow-lg p-8 text-center space-y-4 max-w-sm">
+          <span className="material-icons-round text-primary text-5xl">account_balance</span>
+          <h1 className="text-xl font-bold dark:text-white">ProPoSal 教育委員会管理画面</h1>
+          <p className="text-sm text-gray-500">登録された管理者のGoogleアカウントでログインしてください。</p>
+          <div className="flex justify-center">
+            <GoogleLogin
+              onSuccess={async response => {
+                if (!response.credential) return;
+                try {
+                  setAdmin(await api.loginDistrict(response.credential));
+                } catch (error) {
+                  alert(error instanceof Error ? error.message : String(error));
+                }
+              }}
+              onError={() => alert('Googleログインに失敗しました。')}
+            />
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const totals = stats.reduce(
+    (t, s) => ({
+      students: t.students + s.students,
+      participants: t.participants + s.participants,
+      proposals: t.proposals + s.proposals,
+      signatures: t.signatures + s.signatures,
+      resolved: t.resolved + s.resolved,
+      responded: t.responded + s.responded,
+    }),
+    { students: 0, participants: 0, proposals: 0, signatures: 0, resolved: 0, responded: 0 }
+  );
+
+  const handleSaved = (saved: School) => {
+    setSchools(prev => (prev.some(s => s.id === saved.id) ? prev.map(s => (s.id === saved.id ? saved : s)) : [...prev, saved]));
+    setEditing(null);
+  };
+
+  return (
+    <div className="max-w-6xl mx-auto p-6 space-y-6">
+      <header className="flex items-center gap-3">
+        <span className="material-icons-round text-primary text-3xl">account_balance</span>
+        <h1 className="text-2xl font-bold dark:text-white">教育委員会管理画面</h1>
+        <span className="ml-auto text-sm text-gray-500">{admin.name}</span>
+        <button
+          onClick={() => api.logoutDistrict().then(() => setAdmin(null))}
+          className="text-sm text-gray-500 hover:underline"
+        >
+          ログアウト
+        </button>
+      </header>
+
+      <div className="flex gap-2">
+        {([['stats', '学校別の集計'], ['schools', '学校の設定']] as const).map(([key, label]) => (
+          <button
+            key={key}
+            onClick={() => setTab(key)}
+            className={`px-4 py-1.5 rounded-full text-sm font-bold ${tab === key ? 'bg-primary text-white' : 'bg-gray-200 dark:bg-gray-700 text-gray-600 dark:text-gray-300'}`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {tab === 'stats' ? (
+        <section className="space-y-3">
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <span className="text-gray-500">期間:</span>
+            <input type="date" className="p-1 rounded border bg-white dark:bg-gray-700 dark:text-white" value={range.from} onChange={e => setRange({ ...range, from: e.target.value })} />
+            <span className="text-gray-500">〜</span>
+            <input type="date" className="p-1 rounded border bg-white dark:bg-gray-700 dark:text-white" value={range.to} onChange={e => setRange({ ...range, to: e.target.value })} />
+          </div>
+          <p className="text-xs text-gray-500">件数のみの集計です。各校の意見の内容や生徒の情報は表示されません。</p>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm bg-bg-card dark:bg-bg-cardDark rounded-xl overflow-hidden">
+              <thead className="bg-gray-50 dark:bg-gray-800 text-gray-500 text-xs">
+                <tr>
+                  <th className="text-left p-2">学校</th>
+                  <th className="text-right p-2">登録生徒</th>
+                  <th className="text-right p-2">参加率</th>
+                  <th className="text-right p-2">投稿</th>
+                  <th className="text-right p-2">賛同</th>
+                  <th className="text-right p-2">解決率</th>
+                  <th className="text-right p-2">回答率</th>
+                  <th className="text-right p-2">最初の回答まで</th>
+                  <th className="text-left p-2">カテゴリー別の投稿</th>
+                </tr>
+              </thead>
+              <tbody className="dark:text-gray-200">
+                {stats.map(s => (
+                  <tr key={s.schoolId} className="border-t dark:border-gray-700">
+                    <td className="p-2 font-bold">{s.name}</td>
+                    <td className="p-2 text-right">{s.students}</td>
+                    <td className="p-2 text-right">{percent(s.participants, s.students)}</td>
+                    <td className="p-2 text-right">{s.proposals}</td>
+                    <td className="p-2 text-right">{s.signatures}</td>
+                    <td className="p-2 text-right">{percent(s.resolved, s.proposals)}</td>
+                    <td className="p-2 text-right">{percent(s.responded, s.proposals)}</td>
+                    <td className="p-2 text-right">{s.proposals ? `${s.firstResponseMedianDays}日` : '—'}</td>
+                    <td className="p-2 text-xs text-gray-500">{s.categories.map(c => `${c.category} ${c.count}`).join(' / ')}</td>
+                  </tr>
+                ))}
+                <tr className="border-t-2 dark:border-gray-600 font-bold">
+                  <td className="p-2">合計</td>
+                  <td className="p-2 text-right">{totals.students}</td>
+                  <td className="p-2 text-right">{percent(totals.participants, totals.students)}</td>
+                  <td className="p-2 text-right">{totals.proposals}</td>
+                  <td className="p-2 text-right">{totals.signatures}</td>
+                  <td className="p-2 text-right">{percent(totals.resolved, totals.proposals)}</td>
+                  <td className="p-2 text-right">{percent(totals.responded, totals.proposals)}</td>
+                  <td className="p-2" />
+                  <td className="p-2" />
+                </tr>
+              </tbody>
+            </table>
+          </div>
+        </section>
+      ) : (
+        <section className="space-y-3">
+          {editing === 'new' ? (
+            <SchoolForm onSaved={handleSaved} onCancel={() => setEditing(null)} />
+          ) : (
+            <button onClick={() => setEditing('new')} className="px-4 py-2 rounded bg-primary text-white text-sm font-bold flex items-center gap-1">
+              <span className="material-icons-round text-sm">add</span> 学校を追加
+            </button>
+          )}
+          {schools.map(s =>
+            editing === s.id ? (
+              <SchoolForm key={s.id} school={s} onSaved={handleSaved} onCancel={() => setEditing(null)} />
+            ) : (
+              <div key={s.id} className="bg-bg-card dark:bg-bg-cardDark rounded-xl shadow-sm p-4 flex items-center gap-3 text-sm">
+                <span className="w-4 h-4 rounded-full shrink-0" style={{ background: s.theme.primary }} />
+                <div className="flex-1 min-w-0">
+                  <div className="font-bold dark:text-white">{s.name} <span className="text-xs text-gray-400">{s.id}</span></div>
+                  <div className="text-xs text-gray-500 truncate">
+                    {s.loginDomain ? `@${s.loginDomain}` : 'ドメイン制限なし'} · 管理者 {s.adminEmails.length}人 · {s.categories.join('、')}
+                    {s.hosts.length > 0 && ` · ${s.hosts.join(', ')}`}
+                  </div>
+                </div>
+                <button onClick={() => setEditing(s.id)} className="text-primary hover:underline text-xs">編集</button>
+              </div>
+            )
+          )}
+        </section>
+      )}
+    </div>
+  );
+};
+
+export default DistrictView;
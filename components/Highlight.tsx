@@ -0,0 +1,41 @@
+import React from 'react';
+
+// Characters of context kept before the first match when showing an excerpt.
+const EXCERPT_LEAD = 20;
+
+// Text with the search matches marked. With `excerpt`, long text is cut to a window that starts
+// just before the first match, so a hit deep in a long post is still visible in the card.
+const Highlight: React.FC<{ text: string; ranges?: [number, number][]; excerpt?: number }> = ({ text, ranges = [], excerpt }) => {
+  let offset = 0;
+  let shown = text;
+  if (excerpt !== undefined && text.length > excerpt) {
+    offset = ranges.length > 0 ? Math.max(0, ranges[0][0] - EXCERPT_LEAD) : 0;
+    shown = text.slice(offset, offset + excerpt);
+  }
+
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  ranges.forEach(([start, end], i) => {
+    const from = Math.max(start - offset, cursor);
+    const to = Math.min(end - offset, shown.length);
+    if (to <= from) return;
+    parts.push(shown.slice(cursor, from));
+    parts.push(
+      <mark key={i} className="bg-yellow-200 dark:bg-yellow-600/60 text-inherit rounded-sm px-0.5">
+        {shown.slice(from, to)}
+      </mark>
+    );
+    cursor = to;
+  });
+  parts.push(shown.slice(cursor));
+
+  return (
+    <>
+      {offset > 0 && '…'}
+      {parts}
+      {offset + shown.length < text.length && '…'}
+    </>
+  );
+};
+
+export default Highlight;
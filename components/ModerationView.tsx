@@ -0,0 +1,199 @@
+import React, { useEffect, useState } from 'react';
+import * as api from '../services/api';
+import ReportQueue from './ReportQueue';
+import type { Appeal, AppealStatus, ModerationStat } from '../types';
+
+const STATUS_LABELS: Record<AppealStatus, { label: string; className: string }> = {
+  pending: { label: '確認待ち', className: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-100' },
+  approved: { label: '掲載', className: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-100' },
+  rejected: { label: '不掲載', className: 'bg-gray-200 text-gray-700 dark:bg-gray-700 dark:text-gray-100' },
+};
+
+const percent = (n: number, d: number) => (d === 0 ? '—' : `${Math.round((n / d) * 100)}%`);
+
+// One pending appeal: the draft (editable before approval) next to the AI's verdict.
+const AppealCard: React.FC<{ appeal: Appeal; categories: string[]; onDecided: (appeal: Appeal) => void }> = ({ appeal, categories, onDecided }) => {
+  const [title, setTitle] = useState(appeal.title);
+  const [content, setContent] = useState(appeal.content);
+  const [category, setCategory] = useState(categories.includes(appeal.aiCategory) ? appeal.aiCategory : 'その他');
+  const [reason, setReason] = useState('');
+
+  const decide = async (approve: boolean) => {
+    if (!approve && !reason.trim()) {
+      alert('不掲載にする理由を入力してください。生徒に伝えられます。');
+      return;
+    }
+    try {
+      onDecided(
+        approve
+          ? await api.approveAppeal(appeal.id, { title, content, category, reason: reason || undefined })
+          : await api.rejectAppeal(appeal.id, reason)
+      );
+    } catch (error) {
+      alert(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  return (
+    <div className="bg-bg-card dark:bg-bg-cardDark rounded-xl shadow-sm p-4 space-y-3">
+      <div className="text-xs text-gray-400">#{appeal.id} · {new Date(appeal.timestamp).toLocaleString('ja-JP')}</div>
+      <div className="bg-red-50 dark:bg-red-900/30 text-red-800 dark:text-red-200 text-sm rounded p-3">
+        <div className="font-bold mb-1">
+          AIの判定: 不適切{appeal.aiUnavailable ? '（AIチェックの不具合）' : `（カテゴリ: ${appeal.aiCategory}）`}
+        </div>
+        {appeal.aiAdvice}
+      </div>
+      {appeal.note && (
+        <div className="text-sm bg-gray-50 dark:bg-gray-800 rounded p-3 dark:text-gray-200">
+          <span className="font-bold text-gray-500">投稿者のコメント: </span>{appeal.note}
+        </div>
+      )}
+      <input className="w-full p-2 rounded border bg-white dark:bg-gray-700 dark:text-white font-bold" value={title} onChange={e => setTitle(e.target.value)} />
+      <textarea className="w-full p-2 rounded border bg-white dark:bg-gray-700 dark:text-white h-28 text-sm" value={content} onChange={e => setContent(e.target.value)} />
+      <div className="flex flex-wrap gap-2 items-center">
+        <select className="p-2 rounded border bg-white dark:bg-gray-700 dark:text-white text-sm" value={category} onChange={e => setCategory(e.target.value)}>
+          {categories.map(c => <option key={c} value={c}>{c}</option>)}
+        </select>
+        <input
+          className="flex-1 min-w-[12rem] p-2 rounded border bg-white dark:bg-gray-700 dark:text-white text-sm"
+          placeholder="理由（不掲載の場合は必須。生徒に通知されます）"
+          value={reason}
+          onChange={e => setReason(e.target.value)}
+        />
+      </div>
+      <div className="flex justify-end gap-2">
+        <button onClick={() => decide(false)} className="px-4 py-2 rounded border border-gray-300 text-gray-600 dark:text-gray-300 text-sm font-bold">
+          不掲載にする
+        </button>
+        <button onClick={() => decide(true)} className="px-4 py-2 rounded bg-primary text-white text-sm font-bold">
+          {title !== appeal.title || content !== appeal.content ? '修正して掲載' : '掲載する'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+// Admin moderation screen. 確認依頼: AI-rejected posts that students asked a human to review, plus
+// how often the AI turns out to have been wrong per category. 通報: reported content and the audit log.
+const ModerationView: React.FC<{ categories: string[]; onProposalPublished: () => void }> = ({ categories, onProposalPublished }) => {
+  const [tab, setTab] = useState<'appeals' | 'reports'>('appeals');
+  const [appeals, setAppeals] = useState<Appeal[]>([]);
+  const [stats, setStats] = useState<ModerationStat[]>([]);
+
+  const loadStats = () =>
+    api.fetchModerationStats()
+      .then(setStats)
+      .catch(error => console.error('Failed to load moderation stats:', error));
+
+  useEffect(() => {
+    api.fetchAppeals()
+      .then(setAppeals)
+      .catch(error => console.error('Failed to load appeals:', error));
+    loadStats();
+  }, []);
+
+  const handleDecided = (decided: Appeal) => {
+    setAppeals(prev => prev.map(a => (a.id === decided.id ? decided : a)));
+    loadStats();
+    if (decided.status === 'approved') onProposalPublished();
+  };
+
+  const pending = appeals.filter(a => a.status === 'pending');
+  const decided = appeals.filter(a => a.status !== 'pending');
+
+  const tabs = (
+    <div className="flex gap-2">
+      {([['appeals', '確認依頼'], ['reports', '通報']] as const).map(([key, label]) => (
+        <button
+          key={key}
+          onClick={() => setTab(key)}
+          className={`px-4 py-1.5 rounded-full text-sm font-bold ${tab === key ? 'bg-primary text-white' : 'bg-gray-200 dark:bg-gray-700 text-gray-600 dark:text-gray-300'}`}
+        >
+          {label}
+        </button>
+      ))}
+    </div>
+  );
+
+  if (tab === 'reports') {
+    return (
+      <div className="p-6 space-y-6">
+        {tabs}
+        <ReportQueue />
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 space-y-8">
+      {tabs}
+      <section>
+        <h2 className="text-xl font-bold dark:text-white flex items-center gap-2 mb-1">
+          <span className="material-icons-round text-primary">gavel</span> 確認依頼（{pending.length}件）
+        </h2>
+        <p className="text-sm text-gray-500 mb-4">AIに投稿を止められた生徒からの確認依頼です。投稿者の名前は表示されません。</p>
+        <div className="space-y-4">
+          {pending.length === 0 && <div className="text-center py-6 text-gray-400">確認待ちの依頼はありません</div>}
+          {pending.map(a => <AppealCard key={a.id} appeal={a} categories={categories} onDecided={handleDecided} />)}
+        </div>
+      </section>
+
+      <section>
+        <h3 className="font-bold dark:text-white mb-2">カテゴリ別のAI誤判定率</h3>
+        <p className="text-xs text-gray-500 mb-2">誤判定率 = 確認の結果掲載した件数 ÷ AIが止めた件数。確認依頼されなかった誤判定は含まれないため、実際より低めに出ます。</p>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm bg-bg-card dark:bg-bg-cardDark rounded-xl overflow-hidden">
+            <thead className="bg-gray-50 dark:bg-gray-800 text-gray-500 text-xs">
+              <tr>
+                <th className="text-left p-2">カテゴリ</th>
+                <th className="text-right p-2">AIが止めた件数</th>
+                <th className="text-right p-2">確認依頼</th>
+                <th className="text-right p-2">掲載</th>
+                <th className="text-right p-2">不掲載</th>
+                <th className="text-right p-2">確認待ち</th>
+                <th className="text-right p-2">誤判定率</th>
+                <th className="text-right p-2">確認後の掲載率</th>
+              </tr>
+            </thead>
+            <tbody className="dark:text-gray-200">
+              {stats.length === 0 && (
+                <tr><td colSpan={8} className="p-4 text-center text-gray-400">まだデータがありません</td></tr>
+              )}
+              {stats.map(s => (
+                <tr key={s.category} className="border-t dark:border-gray-700">
+                  <td className="p-2">{s.category}</td>
+                  <td className="p-2 text-right">{s.rejections}</td>
+                  <td className="p-2 text-right">{s.appeals}</td>
+                  <td className="p-2 text-right">{s.approved}</td>
+                  <td className="p-2 text-right">{s.rejected}</td>
+                  <td className="p-2 text-right">{s.pending}</td>
+                  <td className="p-2 text-right font-bold">{percent(s.approved, s.rejections)}</td>
+                  <td className="p-2 text-right">{percent(s.approved, s.approved + s.rejected)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </section>
+
+      {decided.length > 0 && (
+        <section>
+          <h3 className="font-bold dark:text-white mb-2">判断済み</h3>
+          <div className="space-y-2">
+            {decided.map(a => (
+              <div key={a.id} className="bg-bg-card dark:bg-bg-cardDark rounded-lg p-3 text-sm flex items-center gap-3">
+                <span className={`px-2 py-0.5 rounded text-xs font-bold ${STATUS_LABELS[a.status].className}`}>{STATUS_LABELS[a.status].label}</span>
+                <span className="flex-1 min-w-0 truncate dark:text-white">{a.title}</span>
+                <span className="text-xs text-gray-400 shrink-0">
+                  {a.edited && '修正あり · '}{a.decisionReason && `${a.decisionReason} · `}{a.decidedBy} · {a.decidedAt && new Date(a.decidedAt).toLocaleDateString('ja-JP')}
+                </span>
+              </div>
+            ))}
+          </div>
+        </section>
+      )}
+    </div>
+  );
+};
+
+export default ModerationView;
@@ -0,0 +1,125 @@
+import React, { useEffect, useState } from 'react';
+import * as api from '../services/api';
+import type { AppNotification, DigestFrequency } from '../types';
+
+const POLL_INTERVAL_MS = 60 * 1000;
+
+const TYPE_ICONS: Record<AppNotification['type'], string> = {
+  status: 'flag',
+  response: 'chat',
+  milestone: 'celebration',
+  news: 'campaign',
+  edited: 'edit_note',
+  withdrawn: 'undo',
+  question: 'forum',
+  ballot: 'how_to_vote',
+  appeal: 'gavel',
+  report: 'flag',
+};
+
+const DIGEST_LABELS: Record<DigestFrequency, string> = {
+  off: '受け取らない',
+  daily: '毎日',
+  weekly: '毎週',
+};
+
+// Header bell with the signed-in user's inbox. Polls while mounted; the parent only renders it
+// for signed-in users.
+const NotificationBell: React.FC<{ onOpenProposal: (proposalId: number) => void }> = ({ onOpenProposal }) => {
+  const [inbox, setInbox] = useState<api.Inbox>({ items: [], unread: 0 });
+  const [isOpen, setIsOpen] = useState(false);
+  const [digest, setDigest] = useState<DigestFrequency | null>(null);
+
+  useEffect(() => {
+    const load = () =>
+      api.fetchNotifications()
+        .then(setInbox)
+        .catch(error => console.error('Failed to load notifications:', error));
+    load();
+    const timer = setInterval(load, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    if (!isOpen || digest) return;
+    api.fetchNotificationSettings()
+      .then(settings => setDigest(settings.digest))
+      .catch(error => console.error('Failed to load notification settings:', error));
+  }, [isOpen, digest]);
+
+  const markRead = (ids?: number[]) =>
+    api.markNotificationsRead(ids)
+      .then(setInbox)
+      .catch(error => console.error('Failed to mark notifications read:', error));
+
+  const openItem = (item: AppNotification) => {
+    if (!item.read) markRead([item.id]);
+    if (item.proposalId) {
+      setIsOpen(false);
+      onOpenProposal(item.proposalId);
+    }
+  };
+
+  const changeDigest = async (next: DigestFrequency) => {
+    try {
+      setDigest((await api.saveNotificationSettings({ digest: next })).digest);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button onClick={() => setIsOpen(!isOpen)} className="relative p-2 rounded-full text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-white/10">
+        <span className="material-icons-round">notifications</span>
+        {inbox.unread > 0 && (
+          <span className="absolute top-0 right-0 min-w-[18px] h-[18px] px-1 rounded-full bg-red-500 text-white text-[10px] font-bold flex items-center justify-center">
+            {inbox.unread > 99 ? '99+' : inbox.unread}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-80 max-h-[70vh] bg-white dark:bg-bg-cardDark rounded-xl shadow-2xl border border-gray-200 dark:border-gray-700 flex flex-col overflow-hidden">
+          <div className="flex justify-between items-center px-4 py-3 border-b border-gray-100 dark:border-gray-800">
+            <h4 className="font-bold text-gray-700 dark:text-gray-200">通知</h4>
+            {inbox.unread > 0 && (
+              <button onClick={() => markRead()} className="text-xs text-primary hover:underline">すべて既読にする</button>
+            )}
+          </div>
+          <ul className="flex-1 overflow-y-auto custom-scrollbar">
+            {inbox.items.length === 0 && <li className="p-6 text-center text-sm text-gray-400">通知はありません</li>}
+            {inbox.items.map(item => (
+              <li key={item.id}>
+                <button
+                  onClick={() => openItem(item)}
+                  className={`w-full text-left px-4 py-3 flex gap-3 hover:bg-gray-50 dark:hover:bg-white/5 ${item.read ? '' : 'bg-purple-50 dark:bg-purple-900/20'}`}
+                >
+                  <span className="material-icons-round text-primary text-base mt-0.5">{TYPE_ICONS[item.type]}</span>
+                  <div className="min-w-0">
+                    <div className="text-sm font-bold text-gray-800 dark:text-gray-100">{item.title}</div>
+                    {item.body && <div className="text-xs text-gray-500 line-clamp-2">{item.body}</div>}
+                    <div className="text-[10px] text-gray-400 mt-1">{new Date(item.timestamp).toLocaleString('ja-JP')}</div>
+                  </div>
+                </button>
+              </li>
+            ))}
+          </ul>
+          <div className="px-4 py-3 border-t border-gray-100 dark:border-gray-800 flex items-center justify-between text-xs text-gray-500">
+            <span>メールでまとめて受け取る</span>
+            <select
+              className="p-1 rounded border bg-white dark:bg-gray-700 dark:text-white"
+              value={digest ?? 'off'}
+              disabled={!digest}
+              onChange={e => changeDigest(e.target.value as DigestFrequency)}
+            >
+              {(Object.keys(DIGEST_LABELS) as DigestFrequency[]).map(f => <option key={f} value={f}>{DIGEST_LABELS[f]}</option>)}
+            </select>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NotificationBell;
@@ -0,0 +1,55 @@
+import React from 'react';
+import { SIGNATURE_VISIBILITY_LABELS } from '../constants';
+import type { ProposalEvent, SignatureVisibility } from '../types';
+
+const EVENT_ICONS: Record<ProposalEvent['type'], string> = {
+  created: 'edit_note',
+  status: 'flag',
+  response: 'chat',
+  merged: 'call_merge',
+  edited: 'edit',
+  withdrawn: 'undo',
+  visibility: 'visibility_off',
+};
+
+const describe = (event: ProposalEvent) => {
+  switch (event.type) {
+    case 'created':
+      return '意見が投稿されました';
+    case 'status':
+      return `ステータスを「${event.from}」から「${event.to}」に変更`;
+    case 'response':
+      return event.from ? '生徒会のコメントを更新' : '生徒会がコメントしました';
+    case 'merged':
+      return `#${event.from} を #${event.to} に統合`;
+    case 'edited':
+      return '投稿者が内容を編集しました';
+    case 'withdrawn':
+      return '投稿者が意見を取り下げました';
+    case 'visibility':
+      return `賛同者名の公開範囲を「${SIGNATURE_VISIBILITY_LABELS[event.to as SignatureVisibility].label}」に変更`;
+  }
+};
+
+// The proposal's audit trail, oldest first, as a vertical timeline.
+const ProposalTimeline: React.FC<{ events: ProposalEvent[] }> = ({ events }) => (
+  <ol className="relative border-l-2 border-gray-200 dark:border-gray-700 ml-3 space-y-4">
+    {events.map(event => (
+      <li key={event.id} className="ml-5">
+        <span className="absolute -left-[13px] w-6 h-6 rounded-full bg-primary text-white flex items-center justify-center">
+          <span className="material-icons-round text-xs">{EVENT_ICONS[event.type]}</span>
+        </span>
+        <div className="text-sm font-bold text-gray-700 dark:text-gray-200">{describe(event)}</div>
+        {event.note && <p className="text-sm text-gray-600 dark:text-gray-300 whitespace-pre-wrap">理由：{event.note}</p>}
+        {event.type === 'response' && event.to && (
+          <p className="text-sm text-gray-600 dark:text-gray-300 whitespace-pre-wrap border-l-2 border-gray-300 pl-2 mt-1">{event.to}</p>
+        )}
+        <div className="text-xs text-gray-400">
+          {new Date(event.timestamp).toLocaleString('ja-JP')} · {event.actorName}
+        </div>
+      </li>
+    ))}
+  </ol>
+);
+
+export default ProposalTimeline;
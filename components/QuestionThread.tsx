@@ -0,0 +1,67 @@
+import React, { useEffect, useState } from 'react';
+import * as api from '../services/api';
+import type { ProposalQuestion } from '../types';
+
+// Private thread between the council and a proposal's anonymous author. Rendered for admins and
+// for the author; `viewer` decides which side of the conversation is "mine".
+const QuestionThread: React.FC<{ proposalId: number; viewer: ProposalQuestion['sender'] }> = ({ proposalId, viewer }) => {
+  const [messages, setMessages] = useState<ProposalQuestion[]>([]);
+  const [draft, setDraft] = useState('');
+
+  useEffect(() => {
+    api.fetchQuestions(proposalId)
+      .then(setMessages)
+      .catch(error => console.error('Failed to load questions:', error));
+  }, [proposalId]);
+
+  const handleSend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.trim()) return;
+    try {
+      setMessages(await api.postQuestion(proposalId, draft));
+      setDraft('');
+    } catch (error) {
+      alert(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  return (
+    <div className="border border-gray-200 dark:border-gray-700 rounded-lg p-4 mb-6">
+      <h4 className="font-bold text-gray-500 text-sm mb-1 flex items-center gap-1">
+        <span className="material-icons-round text-sm">forum</span> 生徒会と投稿者の非公開のやりとり
+      </h4>
+      <p className="text-xs text-gray-400 mb-3">
+        {viewer === 'author'
+          ? 'あなたの名前は生徒会には表示されません。'
+          : '投稿者は匿名のままです。ここでの内容は投稿者と管理者だけに表示されます。'}
+      </p>
+      <div className="space-y-2 mb-3">
+        {messages.length === 0 && <p className="text-sm text-gray-400">まだやりとりはありません。</p>}
+        {messages.map(m => (
+          <div key={m.id} className={`flex ${m.sender === viewer ? 'justify-end' : 'justify-start'}`}>
+            <div className={`max-w-[80%] rounded-lg px-3 py-2 text-sm ${m.sender === viewer ? 'bg-primary text-white' : 'bg-gray-100 dark:bg-gray-800 dark:text-gray-200'}`}>
+              <p className="whitespace-pre-wrap">{m.body}</p>
+              <div className={`text-[10px] mt-1 ${m.sender === viewer ? 'text-white/70' : 'text-gray-400'}`}>
+                {m.sender === 'council' ? `生徒会（${m.senderName}）` : '投稿者'} · {new Date(m.timestamp).toLocaleString('ja-JP')}
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+      <form onSubmit={handleSend} className="flex gap-2">
+        <input
+          type="text"
+          className="flex-1 min-w-0 p-2 rounded border bg-white dark:bg-gray-700 dark:text-white text-sm"
+          placeholder={viewer === 'author' ? '生徒会へ返信...' : '投稿者に質問する...'}
+          value={draft}
+          onChange={e => setDraft(e.target.value)}
+        />
+        <button type="submit" disabled={!draft.trim()} className="shrink-0 px-4 py-2 rounded bg-primary text-white text-sm font-bold disabled:opacity-40">
+          送信
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default QuestionThread;
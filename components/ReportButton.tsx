@@ -0,0 +1,57 @@
+import React, { useState } from 'react';
+import * as api from '../services/api';
+import { REPORT_REASONS } from '../constants';
+import type { ReportReason, ReportTargetType } from '../types';
+
+const REASONS = Object.keys(REPORT_REASONS) as ReportReason[];
+
+// Small "通報" link that expands into a reason picker. Reporters stay anonymous to everyone.
+const ReportButton: React.FC<{ targetType: ReportTargetType; targetId: number; className?: string }> = ({
+  targetType,
+  targetId,
+  className,
+}) => {
+  const [open, setOpen] = useState(false);
+  const [reason, setReason] = useState<ReportReason>('harassment');
+  const [detail, setDetail] = useState('');
+  const [done, setDone] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      await api.reportContent({ targetType, targetId, reason, detail: detail || undefined });
+      setDone(true);
+      setOpen(false);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  if (done) return <span className={`text-xs text-gray-400 ${className ?? ''}`}>通報しました</span>;
+
+  return (
+    <span className={`relative ${className ?? ''}`}>
+      <button type="button" onClick={() => setOpen(!open)} className="text-xs text-gray-400 hover:text-red-500 flex items-center gap-0.5">
+        <span className="material-icons-round text-sm">flag</span> 通報
+      </button>
+      {open && (
+        <form
+          onSubmit={handleSubmit}
+          className="absolute right-0 z-10 mt-1 w-64 bg-white dark:bg-gray-800 border dark:border-gray-700 rounded-lg shadow-lg p-3 flex flex-col gap-2 text-sm text-gray-700 dark:text-gray-200"
+        >
+          <div className="font-bold text-xs text-gray-500">通報の理由（通報者は誰にも表示されません）</div>
+          <select className="p-1 rounded border bg-white dark:bg-gray-700" value={reason} onChange={e => setReason(e.target.value as ReportReason)}>
+            {REASONS.map(r => <option key={r} value={r}>{REPORT_REASONS[r]}</option>)}
+          </select>
+          <input className="p-1 rounded border bg-white dark:bg-gray-700" placeholder="補足（任意）" value={detail} onChange={e => setDetail(e.target.value)} />
+          <div className="flex justify-end gap-2">
+            <button type="button" onClick={() => setOpen(false)} className="text-xs text-gray-500">キャンセル</button>
+            <button type="submit" className="px-3 py-1 rounded bg-red-500 text-white text-xs font-bold">通報する</button>
+          </div>
+        </form>
+      )}
+    </span>
+  );
+};
+
+export default ReportButton;
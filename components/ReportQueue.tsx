@@ -0,0 +1,162 @@
+import React, { useEffect, useState } from 'react';
+import * as api from '../services/api';
+import { REPORT_REASONS } from '../constants';
+import type { ModerationAction, ModerationActionType, ReportedItem, ReportReason } from '../types';
+
+const ACTION_LABELS: Record<ModerationActionType, string> = {
+  auto_hidden: '自動で非表示',
+  hidden: '非表示',
+  restored: '再表示',
+  removed: '削除',
+  redacted: '一部編集',
+};
+
+const TARGET_LABELS = { proposal: '意見', comment: 'コメント' };
+
+// One reported proposal or comment with the three admin actions. Redaction edits the text in place.
+const ReportedCard: React.FC<{ item: ReportedItem; onUpdated: (items: ReportedItem[]) => void }> = ({ item, onUpdated }) => {
+  const [redacting, setRedacting] = useState(false);
+  const [title, setTitle] = useState(item.title ?? '');
+  const [body, setBody] = useState(item.body);
+
+  const run = async (action: () => Promise<ReportedItem[]>) => {
+    try {
+      onUpdated(await action());
+    } catch (error) {
+      alert(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const handleRemove = () => {
+    const note = window.prompt('削除する理由を入力してください（記録に残ります）。')?.trim();
+    if (note) run(() => api.removeReported(item.targetType, item.targetId, note));
+  };
+
+  const handleRedact = () => {
+    const note = window.prompt('編集の理由（任意）') ?? undefined;
+    run(() =>
+      api.redactReported(
+        item.targetType,
+        item.targetId,
+        item.targetType === 'proposal' ? { title, content: body, note } : { body, note }
+      )
+    );
+  };
+
+  return (
+    <div className={`bg-bg-card dark:bg-bg-cardDark rounded-xl shadow-sm p-4 space-y-2 ${item.hidden ? 'border-l-4 border-red-400' : ''}`}>
+      <div className="flex flex-wrap items-center gap-2 text-xs text-gray-500">
+        <span className="font-bold">{TARGET_LABELS[item.targetType]} #{item.targetId}</span>
+        {item.targetType === 'comment' && <span>（意見 #{item.proposalId}）</span>}
+        <span>通報 {item.reportCount}件</span>
+        {item.hidden && <span className="text-red-500 font-bold">非表示中</span>}
+        {(Object.entries(item.reasons) as [ReportReason, number][]).map(([reason, n]) => (
+          <span key={reason} className="px-2 py-0.5 rounded bg-red-50 text-red-700 dark:bg-red-900/40 dark:text-red-200">
+            {REPORT_REASONS[reason]} {n}
+          </span>
+        ))}
+      </div>
+      {redacting ? (
+        <div className="space-y-2">
+          {item.targetType === 'proposal' && (
+            <input className="w-full p-2 rounded border bg-white dark:bg-gray-700 dark:text-white font-bold" value={title} onChange={e => setTitle(e.target.value)} />
+          )}
+          <textarea className="w-full p-2 rounded border bg-white dark:bg-gray-700 dark:text-white h-24 text-sm" value={body} onChange={e => setBody(e.target.value)} />
+          <p className="text-xs text-gray-400">問題のある部分を「■■■」などに置き換えてください。</p>
+        </div>
+      ) : (
+        <div>
+          {item.title && <div className="font-bold dark:text-white">{item.title}</div>}
+          <p className="text-sm whitespace-pre-wrap dark:text-gray-200 line-clamp-4">{item.body}</p>
+        </div>
+      )}
+      {item.details.length > 0 && (
+        <ul className="text-xs text-gray-500 list-disc pl-5">
+          {item.details.map((d, i) => <li key={i}>{d}</li>)}
+        </ul>
+      )}
+      <div className="flex justify-end gap-2 text-sm">
+        {redacting ? (
+          <>
+            <button onClick={() => setRedacting(false)} className="px-3 py-1.5 rounded text-gray-500">キャンセル</button>
+            <button onClick={handleRedact} className="px-4 py-1.5 rounded bg-primary text-white font-bold">編集して再表示</button>
+          </>
+        ) : (
+          <>
+            <button onClick={() => run(() => api.restoreReported(item.targetType, item.targetId))} className="px-3 py-1.5 rounded border border-gray-300 text-gray-600 dark:text-gray-300 font-bold">
+              問題なし（再表示）
+            </button>
+            <button onClick={() => setRedacting(true)} className="px-3 py-1.5 rounded border border-primary text-primary font-bold">一部を編集</button>
+            <button onClick={handleRemove} className="px-3 py-1.5 rounded bg-red-500 text-white font-bold">削除</button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// Reported content and the moderation audit log, for the admin moderation screen.
+const ReportQueue: React.FC = () => {
+  const [items, setItems] = useState<ReportedItem[]>([]);
+  const [log, setLog] = useState<ModerationAction[]>([]);
+
+  const loadLog = () =>
+    api.fetchModerationLog()
+      .then(setLog)
+      .catch(error => console.error('Failed to load moderation log:', error));
+
+  useEffect(() => {
+    api.fetchReportedItems()
+      .then(setItems)
+      .catch(error => console.error('Failed to load reports:', error));
+    loadLog();
+  }, []);
+
+  const handleUpdated = (next: ReportedItem[]) => {
+    setItems(next);
+    loadLog();
+  };
+
+  return (
+    <div className="space-y-8">
+      <section>
+        <p className="text-sm text-gray-500 mb-4">生徒から通報された意見・コメントです。一定数の通報があったものは自動で非表示になっています。</p>
+        <div className="space-y-4">
+          {items.length === 0 && <div className="text-center py-6 text-gray-400">未対応の通報はありません</div>}
+          {items.map(item => (
+            <ReportedCard key={`${item.targetType}-${item.targetId}`} item={item} onUpdated={handleUpdated} />
+          ))}
+        </div>
+      </section>
+
+      <section>
+        <h3 className="font-bold dark:text-white mb-2">操作ログ</h3>
+        <div className="bg-bg-card dark:bg-bg-cardDark rounded-xl divide-y dark:divide-gray-700 text-sm">
+          {log.length === 0 && <div className="p-4 text-center text-gray-400">まだ記録はありません</div>}
+          {log.map(entry => (
+            <div key={entry.id} className="p-3">
+              <div className="flex flex-wrap gap-2 text-xs text-gray-500">
+                <span>{new Date(entry.timestamp).toLocaleString('ja-JP')}</span>
+                <span className="font-bold text-gray-700 dark:text-gray-200">{ACTION_LABELS[entry.action]}</span>
+                <span>{TARGET_LABELS[entry.targetType]} #{entry.targetId}</span>
+                <span>{entry.actorName}</span>
+              </div>
+              {entry.note && <p className="text-xs dark:text-gray-300 mt-1">{entry.note}</p>}
+              {entry.before !== undefined && (
+                <details className="text-xs mt-1">
+                  <summary className="cursor-pointer text-gray-500">変更内容</summary>
+                  <div className="grid md:grid-cols-2 gap-2 mt-1">
+                    <pre className="whitespace-pre-wrap bg-red-50 dark:bg-red-900/30 p-2 rounded dark:text-gray-200">{entry.before}</pre>
+                    <pre className="whitespace-pre-wrap bg-green-50 dark:bg-green-900/30 p-2 rounded dark:text-gray-200">{entry.after}</pre>
+                  </div>
+                </details>
+              )}
+            </div>
+          ))}
+        </div>
+      </section>
+    </div>
+  );
+};
+
+export default ReportQueue;
@@ -0,0 +1,166 @@
+import React, { useEffect, useState } from 'react';
+import * as api from '../services/api';
+import type { Roster } from '../types';
+
+// Excel on Japanese Windows saves CSV as Shift_JIS; everything else sends UTF-8.
+const readCsv = async (file: File) => {
+  const bytes = await file.arrayBuffer();
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch {
+    return new TextDecoder('shift_jis').decode(bytes);
+  }
+};
+
+// Admin screen for the school's student list. Classes on accounts come from here, and student
+// accounts that do not match anyone on it are listed for the teachers to check.
+const RosterView: React.FC = () => {
+  const [roster, setRoster] = useState<Roster | null>(null);
+  const [filter, setFilter] = useState('');
+  const [showGraduates, setShowGraduates] = useState(false);
+  const [message, setMessage] = useState('');
+
+  const load = () =>
+    api.fetchRoster()
+      .then(setRoster)
+      .catch(error => console.error('Failed to load roster:', error));
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const result = await api.importRoster(await readCsv(file));
+      setMessage(`読み込みました: 追加 ${result.added}人 / 更新 ${result.updated}人 / 変更なし ${result.unchanged}人`);
+      load();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const handlePromote = async () => {
+    if (!roster || !window.confirm(`${roster.schoolYear}年度の進級処理を行います。全員の学年が1つ上がり、最上級生は卒業になります。よろしいですか？`)) return;
+    try {
+      const result = await api.promoteRoster();
+      setMessage(`進級処理が完了しました: 進級 ${result.promoted}人 / 卒業 ${result.graduated}人。新しいクラス分けは名簿を読み込み直して反映してください。`);
+      load();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const handleRemove = async (studentId: string, name: string) => {
+    if (!window.confirm(`${name}さんを名簿から削除しますか？（転出など）`)) return;
+    try {
+      await api.removeRosterEntry(studentId);
+      load();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  if (!roster) return <div className="text-center py-10 text-gray-400">読み込み中...</div>;
+
+  const keyword = filter.trim().toLowerCase();
+  const entries = roster.entries.filter(
+    e =>
+      (showGraduates || !e.graduated) &&
+      (!keyword || [e.studentId, e.name, e.class, e.email].some(v => v.toLowerCase().includes(keyword)))
+  );
+  const enrolled = roster.entries.filter(e => !e.graduated);
+
+  return (
+    <div className="p-6 space-y-6">
+      <section className="bg-bg-card dark:bg-bg-cardDark rounded-xl shadow-sm p-4 space-y-3">
+        <div className="flex flex-wrap items-center gap-2">
+          <label className="flex items-center gap-1 px-3 py-2 rounded bg-primary text-white font-bold cursor-pointer">
+            <span className="material-icons-round text-sm">upload_file</span> CSVを読み込む
+            <input type="file" accept=".csv,text/csv" className="hidden" onChange={handleImport} />
+          </label>
+          <button
+            onClick={handlePromote}
+            disabled={roster.promotedThisYear}
+            className="flex items-center gap-1 px-3 py-2 rounded bg-gray-700 text-white font-bold disabled:opacity-40"
+            title={roster.promotedThisYear ? `${roster.schoolYear}年度の進級処理は実行済みです` : undefined}
+          >
+            <span className="material-icons-round text-sm">upgrade</span> {roster.schoolYear}年度の進級処理
+          </button>
+          <span className="ml-auto text-sm text-gray-500">在籍 {enrolled.length}人 / ログイン済み {enrolled.filter(e => e.hasAccount).length}人</span>
+        </div>
+        <p className="text-xs text-gray-400">
+          列: 生徒番号, 氏名, 学年, 組, メールアドレス（見出し行があれば列の順番は自由です）。生徒番号が同じ行は上書きされ、ファイルにない生徒はそのまま残ります。
+        </p>
+        {message && <div className="text-sm text-green-700 dark:text-green-400">{message}</div>}
+      </section>
+
+      {roster.unmatched.length > 0 && (
+        <section className="bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-300 dark:border-yellow-700 rounded-xl p-4">
+          <h3 className="font-bold text-yellow-800 dark:text-yellow-300 flex items-center gap-2 mb-2">
+            <span className="material-icons-round text-base">flag</span> 名簿にないアカウント（{roster.unmatched.length}件）
+          </h3>
+          <p className="text-xs text-yellow-700 dark:text-yellow-400 mb-2">クラスが設定されていないため、学年・クラス別の投票や集計の対象外です。</p>
+          <ul className="text-sm space-y-1">
+            {roster.unmatched.map(u => (
+              <li key={u.id} className="dark:text-gray-200">
+                {u.name} <span className="text-gray-500">{u.email}</span>
+                {u.class && <span className="text-xs text-gray-400"> ({u.class})</span>}
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      <section className="bg-bg-card dark:bg-bg-cardDark rounded-xl shadow-sm p-4">
+        <div className="flex flex-wrap items-center gap-3 mb-3">
+          <input
+            className="flex-1 min-w-[12rem] p-2 rounded border bg-white dark:bg-gray-700 dark:text-white text-sm"
+            placeholder="番号・氏名・クラス・メールで絞り込み"
+            value={filter}
+            onChange={e => setFilter(e.target.value)}
+          />
+          <label className="text-sm text-gray-600 dark:text-gray-300 flex items-center gap-1">
+            <input type="checkbox" checked={showGraduates} onChange={e => setShowGraduates(e.target.checked)} /> 卒業生も表示
+          </label>
+        </div>
+        {entries.length === 0 ? (
+          <div className="text-sm text-gray-400">{roster.entries.length === 0 ? 'まだ名簿が読み込まれていません' : '該当する生徒がいません'}</div>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-gray-500 border-b dark:border-gray-700">
+                <th className="py-1">生徒番号</th>
+                <th>氏名</th>
+                <th>クラス</th>
+                <th>メールアドレス</th>
+                <th>アカウント</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {entries.map(e => (
+                <tr key={e.studentId} className="border-b dark:border-gray-700 dark:text-gray-200">
+                  <td className="py-1">{e.studentId}</td>
+                  <td>{e.name}</td>
+                  <td>{e.graduated ? <span className="text-gray-400">卒業</span> : e.class}</td>
+                  <td className="text-gray-500">{e.email}</td>
+                  <td>{e.hasAccount ? <span className="text-green-600">ログイン済み</span> : <span className="text-gray-400">未ログイン</span>}</td>
+                  <td className="text-right">
+                    <button onClick={() => handleRemove(e.studentId, e.name)} className="text-gray-400 hover:text-red-500" title="名簿から削除">
+                      <span className="material-icons-round text-base">delete</span>
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default RosterView;
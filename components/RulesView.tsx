@@ -0,0 +1,159 @@
+import React, { useEffect, useState } from 'react';
+import * as api from '../services/api';
+import { can } from '../permissions';
+import type { RuleSet, SchoolRule, User } from '../types';
+
+type RuleDraft = { section: number; title: string; body: string; effectiveDate: string };
+
+const emptyDraft = (section: number): RuleDraft => ({
+  section,
+  title: '',
+  body: '',
+  effectiveDate: new Date().toISOString().slice(0, 10),
+});
+
+// School rules knowledge base: everyone can read it, admins edit it. Each save creates a new
+// rule-set version; the AI check always uses the latest one.
+const RulesView: React.FC<{
+  user: User | null;
+  // Number of proposals citing each section
+  proposalCounts: Record<number, number>;
+  onShowProposals: (section: number) => void;
+}> = ({ user, proposalCounts, onShowProposals }) => {
+  const [ruleSet, setRuleSet] = useState<RuleSet | null>(null);
+  const [draft, setDraft] = useState<RuleDraft | null>(null);
+  const isAdmin = can(user, 'manage');
+
+  useEffect(() => {
+    api.fetchRules()
+      .then(setRuleSet)
+      .catch(error => console.error('Failed to load rules:', error));
+  }, []);
+
+  const startEdit = (rule: SchoolRule) =>
+    setDraft({ section: rule.section, title: rule.title, body: rule.body, effectiveDate: rule.effectiveDate });
+
+  const startNew = () => {
+    const next = ruleSet && ruleSet.rules.length > 0 ? Math.max(...ruleSet.rules.map(r => r.section)) + 1 : 1;
+    setDraft(emptyDraft(next));
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+    try {
+      setRuleSet(await api.saveRule(draft.section, draft));
+      setDraft(null);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const handleDelete = async (rule: SchoolRule) => {
+    if (!confirm(`「${rule.section}．${rule.title}」を削除しますか？（過去の版には残ります）`)) return;
+    try {
+      setRuleSet(await api.deleteRule(rule.section));
+    } catch (error) {
+      alert(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  return (
+    <div className="p-6">
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h2 className="text-xl font-bold dark:text-white flex items-center gap-2">
+            <span className="material-icons-round text-primary">menu_book</span> 学校のきまり（校則）
+          </h2>
+          {ruleSet && <p className="text-sm text-gray-500">第{ruleSet.version}版 · AIチェックはこの版をもとに行われます。</p>}
+        </div>
+        {isAdmin && (
+          <button
+            onClick={startNew}
+            className="bg-accent text-primary-dark px-4 py-2 rounded-full font-bold shadow-md flex items-center gap-1 hover:scale-105 transition-transform"
+          >
+            <span className="material-icons-round text-sm">add</span> 項目を追加
+          </button>
+        )}
+      </div>
+
+      {draft && (
+        <form onSubmit={handleSave} className="bg-gray-50 dark:bg-gray-800 border border-dashed border-gray-300 dark:border-gray-600 rounded-lg p-4 mb-6 flex flex-col gap-3">
+          <h4 className="font-bold text-gray-500 text-sm">🔧 {draft.section}．の編集</h4>
+          <div className="flex gap-2">
+            <input
+              type="number"
+              min={1}
+              className="w-20 p-2 rounded border bg-white dark:bg-gray-700 dark:text-white"
+              value={draft.section}
+              onChange={e => setDraft({ ...draft, section: Number(e.target.value) })}
+              required
+            />
+            <input
+              type="text"
+              placeholder="見出し（例：服装について）"
+              className="flex-1 p-2 rounded border bg-white dark:bg-gray-700 dark:text-white"
+              value={draft.title}
+              onChange={e => setDraft({ ...draft, title: e.target.value })}
+              required
+            />
+            <input
+              type="date"
+              className="p-2 rounded border bg-white dark:bg-gray-700 dark:text-white"
+              value={draft.effectiveDate}
+              onChange={e => setDraft({ ...draft, effectiveDate: e.target.value })}
+              required
+            />
+          </div>
+          <textarea
+            placeholder="本文（箇条書きは「- 」で始めてください）"
+            className="p-2 rounded border bg-white dark:bg-gray-700 dark:text-white h-32"
+            value={draft.body}
+            onChange={e => setDraft({ ...draft, body: e.target.value })}
+            required
+          />
+          <div className="flex justify-end gap-2">
+            <button type="button" onClick={() => setDraft(null)} className="px-4 py-2 text-gray-500">キャンセル</button>
+            <button type="submit" className="bg-primary text-white px-4 py-2 rounded font-bold">保存（新しい版を作成）</button>
+          </div>
+        </form>
+      )}
+
+      <div className="space-y-4">
+        {ruleSet?.rules.map(rule => (
+          <div key={rule.section} className="bg-bg-card dark:bg-bg-cardDark p-5 rounded-xl shadow-sm border-l-8 border-accent">
+            <div className="flex justify-between items-start mb-2">
+              <h3 className="text-lg font-bold text-primary dark:text-primary-light">
+                {rule.section}．{rule.title}
+              </h3>
+              {isAdmin && (
+                <div className="flex gap-1 shrink-0">
+                  <button onClick={() => startEdit(rule)} className="text-gray-400 hover:text-primary p-1">
+                    <span className="material-icons-round text-base">edit</span>
+                  </button>
+                  <button onClick={() => handleDelete(rule)} className="text-gray-400 hover:text-red-500 p-1">
+                    <span className="material-icons-round text-base">delete</span>
+                  </button>
+                </div>
+              )}
+            </div>
+            <p className="text-gray-700 dark:text-gray-300 whitespace-pre-wrap leading-relaxed">{rule.body}</p>
+            <div className="flex justify-between items-center mt-3">
+              <div className="text-xs text-gray-400">
+                {rule.effectiveDate} 施行 · 第{rule.version}版で更新（{rule.updatedBy}）
+              </div>
+              {proposalCounts[rule.section] > 0 && (
+                <button onClick={() => onShowProposals(rule.section)} className="text-xs font-bold text-primary hover:underline flex items-center gap-1">
+                  この校則に関する意見 {proposalCounts[rule.section]}件
+                  <span className="material-icons-round text-sm">arrow_forward</span>
+                </button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default RulesView;
@@ -0,0 +1,106 @@
+import React from 'react';
+import type { FacetCount, SearchResponse } from '../types';
+
+export interface SearchState {
+  q: string;
+  // '' = no filter
+  category: string;
+  status: string;
+  tag: string;
+  // YYYY-MM-DD, both inclusive
+  from: string;
+  to: string;
+}
+
+// First and last day of a YYYY-MM month.
+const monthRange = (month: string) => {
+  const [year, m] = month.split('-').map(Number);
+  const last = new Date(Date.UTC(year, m, 0)).getUTCDate();
+  return { from: `${month}-01`, to: `${month}-${String(last).padStart(2, '0')}` };
+};
+
+const FacetGroup: React.FC<{
+  title: string;
+  counts: FacetCount[];
+  selected: string;
+  label?: (value: string) => string;
+  onSelect: (value: string) => void;
+}> = ({ title, counts, selected, label = v => v, onSelect }) => (
+  <div>
+    <h4 className="text-xs font-bold text-gray-500 mb-1">{title}</h4>
+    <div className="flex flex-wrap gap-1">
+      {counts.length === 0 && <span className="text-xs text-gray-400">該当なし</span>}
+      {counts.map(c => (
+        <button
+          key={c.value}
+          onClick={() => onSelect(selected === c.value ? '' : c.value)}
+          className={`px-2 py-0.5 rounded-full text-xs font-bold border ${selected === c.value ? 'bg-primary text-white border-primary' : 'bg-white dark:bg-gray-700 text-gray-600 dark:text-gray-300 border-gray-200 dark:border-gray-600'}`}
+        >
+          {label(c.value)} <span className="opacity-60">{c.count}</span>
+        </button>
+      ))}
+    </div>
+  </div>
+);
+
+// Narrowing panel above the search results. Counts are for the current keywords, so students can
+// see at a glance where the matching proposals are.
+const SearchFacets: React.FC<{
+  search: SearchState;
+  result: SearchResponse | null;
+  onChange: (patch: Partial<SearchState>) => void;
+  onClear: () => void;
+  onShare: () => void;
+}> = ({ search, result, onChange, onClear, onShare }) => {
+  const selectedMonth = result?.facets.month.find(m => {
+    const range = monthRange(m.value);
+    return range.from === search.from && range.to === search.to;
+  })?.value ?? '';
+
+  return (
+    <div className="bg-bg-card dark:bg-bg-cardDark rounded-xl shadow-sm p-4 mb-4 space-y-3">
+      <div className="flex items-center gap-2 text-sm">
+        <span className="material-icons-round text-primary text-base">manage_search</span>
+        <span className="font-bold dark:text-white">
+          {search.q ? `「${search.q}」の検索結果` : '絞り込み結果'}: {result ? `${result.total}件` : '検索中...'}
+        </span>
+        <button onClick={onShare} className="ml-auto text-xs text-primary hover:underline flex items-center gap-1">
+          <span className="material-icons-round text-sm">link</span> この条件のリンクをコピー
+        </button>
+        <button onClick={onClear} className="text-xs text-gray-500 hover:underline">条件をクリア</button>
+      </div>
+      {result && (
+        <div className="grid md:grid-cols-2 gap-3">
+          <FacetGroup title="カテゴリー" counts={result.facets.category} selected={search.category} onSelect={category => onChange({ category })} />
+          <FacetGroup title="ステータス" counts={result.facets.status} selected={search.status} onSelect={status => onChange({ status })} />
+          <FacetGroup title="タグ" counts={result.facets.tag} selected={search.tag} onSelect={tag => onChange({ tag })} />
+          <FacetGroup
+            title="投稿月"
+            counts={result.facets.month}
+            selected={selectedMonth}
+            label={m => `${Number(m.slice(0, 4))}年${Number(m.slice(5))}月`}
+            onSelect={month => onChange(month ? monthRange(month) : { from: '', to: '' })}
+          />
+        </div>
+      )}
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <span className="text-gray-500">投稿日:</span>
+        <input
+          type="date"
+          className="p-1 rounded border bg-white dark:bg-gray-700 dark:text-white"
+          value={search.from}
+          onChange={e => onChange({ from: e.target.value })}
+        />
+        <span className="text-gray-500">〜</span>
+        <input
+          type="date"
+          className="p-1 rounded border bg-white dark:bg-gray-700 dark:text-white"
+          value={search.to}
+          onChange={e => onChange({ to: e.target.value })}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default SearchFacets;
@@ -0,0 +1,44 @@
+import React from 'react';
+import { STATUS_COLOR_CLASSES } from '../constants';
+import type { Proposal, Workflow } from '../types';
+
+// Progress bar over the workflow's main-path statuses. A proposal in a side state (保留, 却下 …)
+// shows how far it got on the main path, plus the side state and its reason.
+const StatusProgress: React.FC<{ workflow: Workflow; proposal: Proposal }> = ({ workflow, proposal }) => {
+  const steps = workflow.statuses.filter(s => s.onMainPath);
+  const current = workflow.statuses.find(s => s.name === proposal.status);
+  const reached = [...proposal.history]
+    .reverse()
+    .map(e => (e.type === 'created' || e.type === 'status' ? e.to : undefined))
+    .find(status => steps.some(s => s.name === status));
+  const currentIdx = steps.findIndex(s => s.name === (current?.onMainPath ? proposal.status : reached));
+  const lastChange = [...proposal.history].reverse().find(e => e.type === 'status' && e.to === proposal.status);
+
+  return (
+    <div className="mb-8">
+      <div className="relative flex justify-between items-center px-4">
+        <div className="absolute top-1/2 left-0 w-full h-1 bg-gray-200 dark:bg-gray-700 -z-10 -translate-y-1/2"></div>
+        {steps.map((step, idx) => {
+          const isActive = idx <= currentIdx;
+          const isCurrent = idx === currentIdx && current?.onMainPath;
+          return (
+            <div key={step.name} className="flex flex-col items-center bg-white dark:bg-bg-cardDark px-2">
+              <div className={`w-8 h-8 rounded-full flex items-center justify-center font-bold text-sm mb-1 border-2 transition-colors ${isActive ? 'bg-primary border-primary text-white' : 'bg-gray-100 border-gray-300 text-gray-400'}`}>
+                {isActive ? <span className="material-icons-round text-sm">check</span> : idx + 1}
+              </div>
+              <span className={`text-[10px] font-bold ${isCurrent ? 'text-primary' : 'text-gray-400'}`}>{step.name}</span>
+            </div>
+          );
+        })}
+      </div>
+      {current && !current.onMainPath && (
+        <div className={`mt-4 rounded-lg p-3 text-sm ${STATUS_COLOR_CLASSES[current.color]}`}>
+          <span className="font-bold">この意見は「{current.name}」になっています。</span>
+          {lastChange?.note && <p className="mt-1 whitespace-pre-wrap">理由：{lastChange.note}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StatusProgress;
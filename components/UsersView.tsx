@@ -0,0 +1,179 @@
+import React, { useEffect, useState } from 'react';
+import { PERMISSION_LABELS, ROLE_LABELS } from '../constants';
+import { CATEGORY_SCOPED, ROLE_PERMISSIONS, can } from '../permissions';
+import * as api from '../services/api';
+import type { Permission, User, UserRole } from '../types';
+
+interface UsersViewProps {
+  currentUser: User;
+  categories: string[];
+}
+
+const ROLES = Object.keys(ROLE_LABELS) as UserRole[];
+const PERMISSIONS = Object.keys(PERMISSION_LABELS) as Permission[];
+
+// Category assignment only matters for roles that handle proposals, not for students.
+const isStaffRole = (role: UserRole) =>
+  ROLE_PERMISSIONS[role].some(p => p !== 'viewSigners' && CATEGORY_SCOPED.includes(p));
+
+// Admin screen for who may do what: the fixed role table, each account's role, and which
+// categories a teacher or council member is in charge of.
+const UsersView: React.FC<UsersViewProps> = ({ currentUser, categories }) => {
+  const [users, setUsers] = useState<User[] | null>(null);
+  const [filter, setFilter] = useState('');
+  const [draft, setDraft] = useState<{ email: string; name: string; role: UserRole }>({ email: '', name: '', role: 'parent' });
+
+  const load = () =>
+    api.fetchUsers()
+      .then(setUsers)
+      .catch(error => console.error('Failed to load users:', error));
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const update = async (user: User, changes: { role?: UserRole; categories?: string[] }) => {
+    try {
+      const updated = await api.updateUser(user.id, changes);
+      setUsers(prev => prev?.map(u => (u.id === updated.id ? updated : u)) ?? null);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const toggleCategory = (user: User, category: string) => {
+    const current = user.categories ?? [];
+    update(user, {
+      categories: current.includes(category) ? current.filter(c => c !== category) : [...current, category],
+    });
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      await api.createUser(draft);
+      setDraft({ email: '', name: '', role: draft.role });
+      load();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  if (!users) return <div className="text-center py-10 text-gray-400">読み込み中...</div>;
+
+  const keyword = filter.trim().toLowerCase();
+  const shown = users.filter(
+    u =>
+      !keyword ||
+      [u.name, u.email ?? '', u.class ?? '', ROLE_LABELS[u.role]].some(v => v.toLowerCase().includes(keyword))
+  );
+
+  return (
+    <div className="p-6 space-y-6">
+      <section className="bg-bg-card dark:bg-bg-cardDark rounded-xl shadow-sm p-4 overflow-x-auto">
+        <h3 className="font-bold text-gray-700 dark:text-gray-200 mb-3">役割ごとの権限</h3>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-gray-500 border-b dark:border-gray-700">
+              <th className="py-1">権限</th>
+              {ROLES.map(role => <th key={role} className="text-center">{ROLE_LABELS[role]}</th>)}
+            </tr>
+          </thead>
+          <tbody>
+            {PERMISSIONS.map(permission => (
+              <tr key={permission} className="border-b dark:border-gray-700 dark:text-gray-200">
+                <td className="py-1">
+                  {PERMISSION_LABELS[permission]}
+                  {CATEGORY_SCOPED.includes(permission) && <span className="text-xs text-gray-400">（担当カテゴリのみ）</span>}
+                </td>
+                {ROLES.map(role => (
+                  <td key={role} className="text-center">
+                    {ROLE_PERMISSIONS[role].includes(permission) ? '○' : <span className="text-gray-300">—</span>}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <p className="text-xs text-gray-400 mt-2">
+          担当カテゴリを設定すると、その人は担当カテゴリの意見だけを扱えます。未設定ならすべてのカテゴリが対象です。
+        </p>
+      </section>
+
+      <form onSubmit={handleCreate} className="bg-bg-card dark:bg-bg-cardDark rounded-xl shadow-sm p-4 flex flex-wrap items-center gap-2">
+        <h3 className="w-full font-bold text-gray-700 dark:text-gray-200">アカウントを追加（保護者など）</h3>
+        <input
+          className="flex-1 min-w-[10rem] p-2 rounded border bg-white dark:bg-gray-700 dark:text-white text-sm"
+          placeholder="氏名"
+          value={draft.name}
+          onChange={e => setDraft({ ...draft, name: e.target.value })}
+        />
+        <input
+          type="email"
+          className="flex-1 min-w-[14rem] p-2 rounded border bg-white dark:bg-gray-700 dark:text-white text-sm"
+          placeholder="メールアドレス"
+          value={draft.email}
+          onChange={e => setDraft({ ...draft, email: e.target.value })}
+        />
+        <select
+          className="p-2 rounded border bg-white dark:bg-gray-700 dark:text-white text-sm"
+          value={draft.role}
+          onChange={e => setDraft({ ...draft, role: e.target.value as UserRole })}
+        >
+          {ROLES.map(role => <option key={role} value={role}>{ROLE_LABELS[role]}</option>)}
+        </select>
+        <button
+          disabled={!draft.name.trim() || !draft.email.trim()}
+          className="px-4 py-2 rounded bg-primary text-white text-sm font-bold disabled:opacity-40"
+        >
+          追加
+        </button>
+        <p className="w-full text-xs text-gray-400">保護者は学校のドメイン以外のアカウントでもログインできます。閲覧のみで、投稿や賛同はできません。</p>
+      </form>
+
+      <section className="bg-bg-card dark:bg-bg-cardDark rounded-xl shadow-sm p-4">
+        <input
+          className="w-full p-2 mb-3 rounded border bg-white dark:bg-gray-700 dark:text-white text-sm"
+          placeholder="氏名・メール・クラス・役割で絞り込み"
+          value={filter}
+          onChange={e => setFilter(e.target.value)}
+        />
+        <ul className="divide-y dark:divide-gray-700">
+          {shown.map(u => (
+            <li key={u.id} className="py-2 flex flex-wrap items-center gap-2 dark:text-gray-200">
+              <div className="flex-1 min-w-[12rem]">
+                <div className="font-bold text-sm">{u.name}{u.class && <span className="text-xs text-gray-400"> ({u.class})</span>}</div>
+                <div className="text-xs text-gray-500">{u.email}</div>
+              </div>
+              <select
+                className="p-1 rounded border bg-white dark:bg-gray-700 dark:text-white text-sm"
+                value={u.role}
+                disabled={u.id === currentUser.id}
+                onChange={e => update(u, { role: e.target.value as UserRole })}
+              >
+                {ROLES.map(role => <option key={role} value={role}>{ROLE_LABELS[role]}</option>)}
+              </select>
+              {isStaffRole(u.role) && !can(u, 'manage') && (
+                <div className="w-full flex flex-wrap gap-2 text-xs text-gray-600 dark:text-gray-300">
+                  <span className="text-gray-400">担当カテゴリ:</span>
+                  {categories.map(category => (
+                    <label key={category} className="flex items-center gap-1">
+                      <input
+                        type="checkbox"
+                        checked={u.categories?.includes(category) ?? false}
+                        onChange={() => toggleCategory(u, category)}
+                      />
+                      {category}
+                    </label>
+                  ))}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      </section>
+    </div>
+  );
+};
+
+export default UsersView;
@@ -0,0 +1,69 @@
+import React from 'react';
+import { VOTE_LABELS } from '../constants';
+import type { VoteCounts, VoteStance, VoteTally } from '../types';
+
+const STANCES = Object.keys(VOTE_LABELS) as VoteStance[];
+
+const total = (counts: VoteCounts) => counts.support + counts.oppose + counts.neutral;
+
+// One stacked bar per row: support / oppose / neutral shares of that group's votes.
+const BreakdownBar: React.FC<{ label: string; counts: VoteCounts }> = ({ label, counts }) => {
+  const sum = total(counts);
+  return (
+    <div className="flex items-center gap-2 text-xs">
+      <span className="w-16 shrink-0 text-gray-500 truncate">{label}</span>
+      <div className="flex-1 h-4 rounded overflow-hidden flex bg-gray-100 dark:bg-gray-700">
+        {STANCES.map(s =>
+          counts[s] > 0 ? (
+            <div
+              key={s}
+              className={VOTE_LABELS[s].barClass}
+              style={{ width: `${(counts[s] / sum) * 100}%` }}
+              title={`${VOTE_LABELS[s].label} ${counts[s]}人`}
+            />
+          ) : null
+        )}
+      </div>
+      <span className="w-20 shrink-0 text-right text-gray-500">
+        {counts.support} / {counts.oppose} / {counts.neutral}
+      </span>
+    </div>
+  );
+};
+
+// Vote breakdown for the detail modal: overall, by grade and by class.
+const VoteBreakdown: React.FC<{ tally: VoteTally }> = ({ tally }) => {
+  if (total(tally) === 0) return null;
+  const grades = Object.keys(tally.byGrade).sort((a, b) => (a === '' ? 1 : b === '' ? -1 : Number(a) - Number(b)));
+  const classes = Object.keys(tally.byClass).sort((a, b) => (a === '' ? 1 : b === '' ? -1 : a.localeCompare(b, 'ja', { numeric: true })));
+
+  return (
+    <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-4 mb-4 space-y-4">
+      <div className="flex flex-wrap gap-3 text-xs">
+        {STANCES.map(s => (
+          <span key={s} className="flex items-center gap-1 text-gray-600 dark:text-gray-300">
+            <span className={`inline-block w-3 h-3 rounded-sm ${VOTE_LABELS[s].barClass}`} />
+            {VOTE_LABELS[s].label} {tally[s]}人
+          </span>
+        ))}
+      </div>
+      <BreakdownBar label="全体" counts={tally} />
+      <div className="space-y-1">
+        <h5 className="font-bold text-gray-500 text-xs">学年別（賛成 / 反対 / どちらでもない）</h5>
+        {grades.map(g => (
+          <BreakdownBar key={g} label={g === '' ? '学年なし' : `${g}年`} counts={tally.byGrade[g]} />
+        ))}
+      </div>
+      <details>
+        <summary className="font-bold text-gray-500 text-xs cursor-pointer">クラス別</summary>
+        <div className="space-y-1 mt-2">
+          {classes.map(c => (
+            <BreakdownBar key={c} label={c === '' ? 'クラスなし' : c} counts={tally.byClass[c]} />
+          ))}
+        </div>
+      </details>
+    </div>
+  );
+};
+
+export default VoteBreakdown;
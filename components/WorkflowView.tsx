@@ -0,0 +1,297 @@
+import React, { useEffect, useState } from 'react';
+import * as api from '../services/api';
+import { GRADES, ROLE_LABELS, STATUS_COLOR_CLASSES } from '../constants';
+import { rolesWith } from '../permissions';
+import type { SignatureThreshold, StatusColor, UserRole, Workflow, WorkflowStatus } from '../types';
+
+type Definition = Pick<Workflow, 'statuses' | 'initial' | 'transitions' | 'thresholds' | 'enrollment'>;
+
+const COLORS = Object.keys(STATUS_COLOR_CLASSES) as StatusColor[];
+// Only roles allowed to change statuses can be given a transition
+const ROLES = rolesWith('changeStatus');
+
+// Admin screen for the proposal workflow: which statuses exist, how they look, and who may move a
+// proposal between them. Saving creates a new version; the kanban and badges follow it at once.
+const WorkflowView: React.FC<{ workflow: Workflow | null; onSaved: (workflow: Workflow) => void }> = ({ workflow, onSaved }) => {
+  const [draft, setDraft] = useState<Definition | null>(null);
+
+  useEffect(() => {
+    if (workflow) {
+      const { statuses, initial, thresholds, enrollment } = workflow;
+      // Versions saved before roles were split may still name roles that can no longer move proposals
+      const transitions = workflow.transitions
+        .map(t => ({ ...t, roles: t.roles.filter(r => ROLES.includes(r)) }))
+        .filter(t => t.roles.length > 0);
+      setDraft({ statuses, initial, transitions, thresholds, enrollment });
+    }
+  }, [workflow]);
+
+  if (!workflow || !draft) return null;
+
+  const updateStatus = (index: number, changes: Partial<WorkflowStatus>) => {
+    const old = draft.statuses[index].name;
+    const rename = (name: string) => (changes.name !== undefined && name === old ? changes.name : name);
+    setDraft({
+      ...draft,
+      statuses: draft.statuses.map((s, i) => (i === index ? { ...s, ...changes } : s)),
+      initial: rename(draft.initial),
+      transitions: draft.transitions.map(t => ({ ...t, from: rename(t.from), to: rename(t.to) })),
+      thresholds: draft.thresholds.map(t => ({ ...t, from: rename(t.from), to: rename(t.to) })),
+    });
+  };
+
+  const moveStatus = (index: number, delta: number) => {
+    const statuses = [...draft.statuses];
+    const [moved] = statuses.splice(index, 1);
+    statuses.splice(index + delta, 0, moved);
+    setDraft({ ...draft, statuses });
+  };
+
+  const removeStatus = (index: number) => {
+    const name = draft.statuses[index].name;
+    setDraft({
+      ...draft,
+      statuses: draft.statuses.filter((_, i) => i !== index),
+      transitions: draft.transitions.filter(t => t.from !== name && t.to !== name),
+      thresholds: draft.thresholds.filter(t => t.from !== name && t.to !== name),
+    });
+  };
+
+  const updateThreshold = (index: number, changes: Partial<SignatureThreshold>) =>
+    setDraft({ ...draft, thresholds: draft.thresholds.map((t, i) => (i === index ? { ...t, ...changes } : t)) });
+
+  const addThreshold = () =>
+    setDraft({
+      ...draft,
+      thresholds: [
+        ...draft.thresholds,
+        { from: draft.initial, to: draft.statuses[1]?.name ?? draft.initial, kind: 'count', value: 10, responseDays: 14 },
+      ],
+    });
+
+  const addStatus = () =>
+    setDraft({
+      ...draft,
+      statuses: [...draft.statuses, { name: '', color: 'gray', requiresReason: false, onMainPath: false }],
+    });
+
+  const hasRole = (from: string, to: string, role: UserRole) =>
+    draft.transitions.some(t => t.from === from && t.to === to && t.roles.includes(role));
+
+  const toggleRole = (from: string, to: string, role: UserRole) => {
+    const existing = draft.transitions.find(t => t.from === from && t.to === to);
+    const roles = existing?.roles.includes(role)
+      ? existing.roles.filter(r => r !== role)
+      : [...(existing?.roles ?? []), role];
+    setDraft({
+      ...draft,
+      transitions: [...draft.transitions.filter(t => t !== existing), ...(roles.length > 0 ? [{ from, to, roles }] : [])],
+    });
+  };
+
+  const handleSave = async () => {
+    try {
+      onSaved(await api.saveWorkflow(draft));
+      alert('ワークフローを保存しました。');
+    } catch (error) {
+      alert(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const named = draft.statuses.filter(s => s.name.trim());
+
+  return (
+    <div className="p-6">
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h2 className="text-xl font-bold dark:text-white flex items-center gap-2">
+            <span className="material-icons-round text-primary">account_tree</span> ステータスとワークフロー
+          </h2>
+          <p className="text-sm text-gray-500">第{workflow.version}版 · {new Date(workflow.updatedAt).toLocaleString('ja-JP')} 更新（{workflow.updatedBy}）</p>
+        </div>
+        <button onClick={handleSave} className="bg-primary text-white px-4 py-2 rounded font-bold">保存（新しい版を作成）</button>
+      </div>
+
+      <h3 className="font-bold text-gray-500 text-sm mb-2">ステータス（上から順に進捗ボードの列になります）</h3>
+      <div className="space-y-2 mb-4">
+        {draft.statuses.map((status, i) => (
+          <div key={i} className="bg-bg-card dark:bg-bg-cardDark p-3 rounded-lg shadow-sm flex flex-wrap items-center gap-3">
+            <input
+              type="text"
+              placeholder="ステータス名"
+              className="w-36 p-2 rounded border bg-white dark:bg-gray-700 dark:text-white"
+              value={status.name}
+              onChange={e => updateStatus(i, { name: e.target.value })}
+            />
+            <select
+              className="p-2 rounded border bg-white dark:bg-gray-700 dark:text-white"
+              value={status.color}
+              onChange={e => updateStatus(i, { color: e.target.value as StatusColor })}
+            >
+              {COLORS.map(c => <option key={c} value={c}>{c}</option>)}
+            </select>
+            <span className={`px-2 py-1 rounded text-xs font-bold ${STATUS_COLOR_CLASSES[status.color]}`}>{status.name || '（未入力）'}</span>
+            <label className="text-sm flex items-center gap-1 dark:text-gray-300">
+              <input type="checkbox" checked={status.onMainPath} onChange={e => updateStatus(i, { onMainPath: e.target.checked })} />
+              進捗バーに表示
+            </label>
+            <label className="text-sm flex items-center gap-1 dark:text-gray-300">
+              <input type="checkbox" checked={status.requiresReason} onChange={e => updateStatus(i, { requiresReason: e.target.checked })} />
+              理由を必須にする
+            </label>
+            <div className="ml-auto flex gap-1">
+              <button disabled={i === 0} onClick={() => moveStatus(i, -1)} className="text-gray-400 hover:text-primary p-1 disabled:opacity-30">
+                <span className="material-icons-round text-base">arrow_upward</span>
+              </button>
+              <button disabled={i === draft.statuses.length - 1} onClick={() => moveStatus(i, 1)} className="text-gray-400 hover:text-primary p-1 disabled:opacity-30">
+                <span className="material-icons-round text-base">arrow_downward</span>
+              </button>
+              <button onClick={() => removeStatus(i)} className="text-gray-400 hover:text-red-500 p-1">
+                <span className="material-icons-round text-base">delete</span>
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+      <div className="flex items-center gap-4 mb-8">
+        <button onClick={addStatus} className="text-sm font-bold text-primary flex items-center gap-1">
+          <span className="material-icons-round text-sm">add</span> ステータスを追加
+        </button>
+        <label className="text-sm flex items-center gap-2 dark:text-gray-300">
+          投稿直後のステータス
+          <select
+            className="p-2 rounded border bg-white dark:bg-gray-700 dark:text-white"
+            value={draft.initial}
+            onChange={e => setDraft({ ...draft, initial: e.target.value })}
+          >
+            {named.map(s => <option key={s.name} value={s.name}>{s.name}</option>)}
+          </select>
+        </label>
+      </div>
+
+      <h3 className="font-bold text-gray-500 text-sm mb-2">変更できる組み合わせ（行：変更前 → 列：変更後）</h3>
+      <div className="overflow-x-auto">
+        <table className="text-sm border-collapse">
+          <thead>
+            <tr>
+              <th className="p-2"></th>
+              {named.map(to => <th key={to.name} className="p-2 text-gray-500 whitespace-nowrap">{to.name}</th>)}
+            </tr>
+          </thead>
+          <tbody>
+            {named.map(from => (
+              <tr key={from.name} className="border-t border-gray-200 dark:border-gray-700">
+                <th className="p-2 text-left text-gray-500 whitespace-nowrap">{from.name}</th>
+                {named.map(to => (
+                  <td key={to.name} className="p-2 text-center">
+                    {from.name === to.name ? (
+                      <span className="text-gray-300">—</span>
+                    ) : (
+                      <div className="flex flex-col items-start gap-0.5">
+                        {ROLES.map(role => (
+                          <label key={role} className="flex items-center gap-1 text-xs whitespace-nowrap dark:text-gray-300">
+                            <input type="checkbox" checked={hasRole(from.name, to.name, role)} onChange={() => toggleRole(from.name, to.name, role)} />
+                            {ROLE_LABELS[role]}
+                          </label>
+                        ))}
+                      </div>
+                    )}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <h3 className="font-bold text-gray-500 text-sm mt-8 mb-2">賛同数による自動進行（達成すると回答待ちリストに入ります）</h3>
+      <div className="space-y-2 mb-4">
+        {draft.thresholds.map((t, i) => (
+          <div key={i} className="bg-bg-card dark:bg-bg-cardDark p-3 rounded-lg shadow-sm flex flex-wrap items-center gap-2 text-sm dark:text-gray-300">
+            <select className="p-2 rounded border bg-white dark:bg-gray-700" value={t.from} onChange={e => updateThreshold(i, { from: e.target.value })}>
+              {named.map(s => <option key={s.name} value={s.name}>{s.name}</option>)}
+            </select>
+            の意見は
+            <select
+              className="p-2 rounded border bg-white dark:bg-gray-700"
+              value={t.grade ?? ''}
+              onChange={e => updateThreshold(i, { grade: e.target.value ? Number(e.target.value) : undefined })}
+            >
+              <option value="">全校生徒</option>
+              {GRADES.map(g => <option key={g} value={g}>{g}年生</option>)}
+            </select>
+            の賛同が
+            <input
+              type="number"
+              min={1}
+              className="w-20 p-2 rounded border bg-white dark:bg-gray-700"
+              value={t.value}
+              onChange={e => updateThreshold(i, { value: Number(e.target.value) })}
+            />
+            <select className="p-2 rounded border bg-white dark:bg-gray-700" value={t.kind} onChange={e => updateThreshold(i, { kind: e.target.value as SignatureThreshold['kind'] })}>
+              <option value="count">人</option>
+              <option value="percent">%</option>
+            </select>
+            に達したら
+            <select className="p-2 rounded border bg-white dark:bg-gray-700" value={t.to} onChange={e => updateThreshold(i, { to: e.target.value })}>
+              {named.map(s => <option key={s.name} value={s.name}>{s.name}</option>)}
+            </select>
+            にし、
+            <input
+              type="number"
+              min={1}
+              className="w-16 p-2 rounded border bg-white dark:bg-gray-700"
+              value={t.responseDays}
+              onChange={e => updateThreshold(i, { responseDays: Number(e.target.value) })}
+            />
+            日以内に回答する
+            <button
+              onClick={() => setDraft({ ...draft, thresholds: draft.thresholds.filter((_, j) => j !== i) })}
+              className="ml-auto text-gray-400 hover:text-red-500 p-1"
+            >
+              <span className="material-icons-round text-base">delete</span>
+            </button>
+          </div>
+        ))}
+      </div>
+      <button onClick={addThreshold} className="text-sm font-bold text-primary flex items-center gap-1 mb-6">
+        <span className="material-icons-round text-sm">add</span> 条件を追加
+      </button>
+
+      <h3 className="font-bold text-gray-500 text-sm mb-2">生徒数（%で指定した条件の基準）</h3>
+      <div className="flex flex-wrap items-center gap-4 text-sm dark:text-gray-300">
+        <label className="flex items-center gap-2">
+          全校
+          <input
+            type="number"
+            min={0}
+            className="w-24 p-2 rounded border bg-white dark:bg-gray-700"
+            value={draft.enrollment.total}
+            onChange={e => setDraft({ ...draft, enrollment: { ...draft.enrollment, total: Number(e.target.value) } })}
+          />
+          人
+        </label>
+        {GRADES.map(g => (
+          <label key={g} className="flex items-center gap-2">
+            {g}年
+            <input
+              type="number"
+              min={0}
+              className="w-20 p-2 rounded border bg-white dark:bg-gray-700"
+              value={draft.enrollment.grades[String(g)] ?? 0}
+              onChange={e =>
+                setDraft({
+                  ...draft,
+                  enrollment: { ...draft.enrollment, grades: { ...draft.enrollment.grades, [String(g)]: Number(e.target.value) } },
+                })
+              }
+            />
+            人
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default WorkflowView;
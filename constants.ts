@@ -0,0 +1,74 @@
+import type {
+  CommentStance,
+  Permission,
+  ReportReason,
+  SignatureVisibility,
+  StatusColor,
+  UserRole,
+  VoteStance,
+} from './types';
+
+// Categories a new school starts with; each school edits its own. その他 is the fallback and always present.
+export const CATEGORIES = ['校則', '設備・環境', '授業', 'その他'];
+export const GRADES = [1, 2, 3];
+// Signature counts that notify a proposal's followers
+export const SIGNATURE_MILESTONES = [10, 30, 50, 100, 200, 300];
+
+export const STATUS_COLOR_CLASSES: Record<StatusColor, string> = {
+  blue: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-100',
+  yellow: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-100',
+  purple: 'bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-100',
+  teal: 'bg-teal-100 text-teal-800 dark:bg-teal-900 dark:text-teal-100',
+  green: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-100',
+  orange: 'bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-100',
+  red: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-100',
+  gray: 'bg-gray-200 text-gray-800 dark:bg-gray-700 dark:text-gray-100',
+};
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  student: '生徒',
+  council: '生徒会役員',
+  teacher: '担当教員',
+  manager: '管理職',
+  parent: '保護者',
+  admin: '管理者',
+};
+
+export const PERMISSION_LABELS: Record<Permission, string> = {
+  participate: '投稿・賛同・コメント',
+  changeStatus: 'ステータスの変更',
+  respond: '公式回答・投稿者への質問',
+  postNews: 'お知らせの投稿',
+  moderate: 'モデレーション',
+  viewSigners: '賛同者の名前の閲覧',
+  runBallots: '投票の作成・締切',
+  viewAnalytics: '分析・履歴の出力',
+  manage: '学校の設定・権限の管理',
+};
+
+export const STANCE_LABELS: Record<CommentStance, { label: string; className: string }> = {
+  pro: { label: '賛成', className: 'bg-green-100 text-green-700 dark:bg-green-900 dark:text-green-100' },
+  con: { label: '反対', className: 'bg-red-100 text-red-700 dark:bg-red-900 dark:text-red-100' },
+  neutral: { label: 'その他', className: 'bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-200' },
+};
+
+export const VOTE_LABELS: Record<VoteStance, { label: string; icon: string; barClass: string }> = {
+  support: { label: '賛成', icon: 'thumb_up', barClass: 'bg-pink-400' },
+  oppose: { label: '反対', icon: 'thumb_down', barClass: 'bg-blue-400' },
+  neutral: { label: 'どちらでもない', icon: 'horizontal_rule', barClass: 'bg-gray-300' },
+};
+
+export const SIGNATURE_VISIBILITY_LABELS: Record<SignatureVisibility, { label: string; description: string }> = {
+  public: { label: '全員に公開', description: '「賛成」は名前付きの賛同として公開されます。' },
+  staff: { label: '先生だけに公開', description: '賛同した人の名前は先生・管理者だけが見られます。ほかの人には人数だけが表示されます。' },
+  count: { label: '人数のみ', description: '賛同した人の名前は誰にも表示されず、人数だけが公開されます。' },
+};
+
+export const REPORT_REASONS: Record<ReportReason, string> = {
+  harassment: '誹謗中傷・悪口',
+  targeting: '特定の先生・生徒への攻撃',
+  personal_info: '個人情報が含まれている',
+  inappropriate: '不適切な表現',
+  spam: 'スパム・意味のない内容',
+  other: 'その他',
+};
@@ -2,20 +2,70 @@ import React from 'react';
 import ReactDOM from 'react-dom/client';
 import { GoogleOAuthProvider } from '@react-oauth/google';
 import App from './App';
+import DistrictView from './components/DistrictView';
+import * as api from './services/api';
+import type { SchoolTheme } from './types';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
-// User provided Client ID
-const GOOGLE_CLIENT_ID = '995798796120-dao2lgjsd0qncsi8774759rahnjiik7u.apps.googleusercontent.com'; 
+// --- School theme ---
+
+const rgb = (hex: string) => [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16));
+
+// Blends towards white (weight > 0) or black (weight < 0).
+const shade = (hex: string, weight: number) =>
+  rgb(hex).map(c => Math.round(weight > 0 ? c + (255 - c) * weight : c * (1 + weight)));
+
+// Feeds the school's colours into the Tailwind palette in index.html.
+const applyTheme = (theme: SchoolTheme) => {
+  const colors: Record<string, number[]> = {
+    '--color-primary': rgb(theme.primary),
+    '--color-primary-dark': theme.primaryDark ? rgb(theme.primaryDark) : shade(theme.primary, -0.3),
+    '--color-primary-light': theme.primaryLight ? rgb(theme.primaryLight) : shade(theme.primary, 0.3),
+    '--color-primary-bg': theme.primaryBg ? rgb(theme.primaryBg) : shade(theme.primary, 0.88),
+    '--color-accent': rgb(theme.accent),
+  };
+  Object.entries(colors).forEach(([name, value]) => document.documentElement.style.setProperty(name, value.join(' ')));
+};
 
 const root = ReactDOM.createRoot(rootElement);
-root.render(
-  <React.StrictMode>
-    <GoogleOAuthProvider clientId={GOOGLE_CLIENT_ID}>
-      <App />
-    </GoogleOAuthProvider>
-  </React.StrictMode>
-);
\ No newline at end of file
+
+const showError = (error: unknown) =>
+  root.render(
+    <div className="p-10 text-center text-gray-500">
+      読み込みに失敗しました。時間をおいて再読み込みしてください。
+      <div className="text-xs mt-2">{error instanceof Error ? error.message : String(error)}</div>
+    </div>
+  );
+
+// The board of education's screens live under /district; everything else is a school's app.
+if (window.location.pathname.startsWith('/district')) {
+  api.fetchDistrictSession()
+    .then(session =>
+      root.render(
+        <React.StrictMode>
+          <GoogleOAuthProvider clientId={session.googleClientId}>
+            <DistrictView initialAdmin={session.admin} />
+          </GoogleOAuthProvider>
+        </React.StrictMode>
+      )
+    )
+    .catch(showError);
+} else {
+  api.fetchSchool()
+    .then(school => {
+      applyTheme(school.theme);
+      document.title = `${school.name} - デジタル目安箱`;
+      root.render(
+        <React.StrictMode>
+          <GoogleOAuthProvider clientId={school.googleClientId}>
+            <App school={school} />
+          </GoogleOAuthProvider>
+        </React.StrictMode>
+      );
+    })
+    .catch(showError);
+}
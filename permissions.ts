@@ -0,0 +1,61 @@
+import type { Permission, Proposal, User, UserRole } from './types';
+
+// The single place that says what each role may do. The server enforces it; the client uses the
+// same table only to decide which buttons to show.
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  student: ['participate', 'viewSigners'],
+  // Analytics and the history export are for the council's minutes and the teachers' meetings
+  council: ['participate', 'viewSigners', 'changeStatus', 'respond', 'postNews', 'runBallots', 'viewAnalytics'],
+  teacher: ['participate', 'viewSigners', 'changeStatus', 'respond', 'moderate', 'viewAnalytics'],
+  manager: [
+    'participate',
+    'viewSigners',
+    'changeStatus',
+    'respond',
+    'postNews',
+    'moderate',
+    'runBallots',
+    'viewAnalytics',
+  ],
+  // Parents can read everything public but take no part
+  parent: [],
+  admin: [
+    'participate',
+    'viewSigners',
+    'changeStatus',
+    'respond',
+    'postNews',
+    'moderate',
+    'runBallots',
+    'viewAnalytics',
+    'manage',
+  ],
+};
+
+// Permissions about a single proposal. A user assigned to categories only has them for proposals
+// in those categories, e.g. the PE teacher for 設備・環境.
+export const CATEGORY_SCOPED: Permission[] = ['changeStatus', 'respond', 'viewSigners'];
+
+// Roles held by students: they vote in ballots, count in participation and are matched to the roster.
+export const STUDENT_ROLES: UserRole[] = ['student', 'council'];
+
+export const rolesWith = (permission: Permission) =>
+  (Object.keys(ROLE_PERMISSIONS) as UserRole[]).filter(role => ROLE_PERMISSIONS[role].includes(permission));
+
+// Without a category, a category-scoped permission is granted if the user has it for any category.
+export const can = (user: User | null | undefined, permission: Permission, category?: string) => {
+  if (!user || !ROLE_PERMISSIONS[user.role]?.includes(permission)) return false;
+  if (category === undefined || !CATEGORY_SCOPED.includes(permission) || !user.categories?.length) return true;
+  return user.categories.includes(category);
+};
+
+// Signer names on one proposal: on top of viewSigners, 'staff' keeps them from students and
+// 'count' from everyone.
+export const canSeeSigners = (
+  user: User | null | undefined,
+  proposal: Pick<Proposal, 'category' | 'signatureVisibility'>
+) => {
+  if (proposal.signatureVisibility === 'count') return false;
+  if (proposal.signatureVisibility === 'staff' && (!user || STUDENT_ROLES.includes(user.role))) return false;
+  return can(user, 'viewSigners', proposal.category);
+};
@@ -0,0 +1,59 @@
+import express, { type ErrorRequestHandler } from 'express';
+import { authenticate } from './auth';
+import { HttpError } from './http';
+import { analyticsRouter } from './routes/analytics';
+import { analyzeRouter } from './routes/analyze';
+import { appealsRouter } from './routes/appeals';
+import { authRouter } from './routes/auth';
+import { ballotsRouter } from './routes/ballots';
+import { districtRouter } from './routes/district';
+import { historyRouter } from './routes/history';
+import { newsRouter } from './routes/news';
+import { notificationsRouter } from './routes/notifications';
+import { petitionsRouter } from './routes/petitions';
+import { proposalsRouter } from './routes/proposals';
+import { reportsRouter } from './routes/reports';
+import { rosterRouter } from './routes/roster';
+import { rulesRouter } from './routes/rules';
+import { schoolsRouter } from './routes/schools';
+import { usersRouter } from './routes/users';
+import { workflowRouter } from './routes/workflow';
+import { resolveSchool } from './tenant';
+
+// The API without a listening socket, so tests can start it on a port of their own.
+export const app = express();
+// A whole school's roster arrives as one CSV, and a petition file with every signer comes back for verification
+app.use('/api/roster', express.json({ limit: '2mb' }));
+app.use('/api/petitions', express.json({ limit: '2mb' }));
+app.use(express.json());
+// District routes sit outside every school; everything else runs against the request's school.
+app.use('/api/district', districtRouter);
+app.use(resolveSchool);
+app.use(authenticate);
+
+app.use('/api/schools', schoolsRouter);
+app.use('/api/auth', authRouter);
+app.use('/api/analyze', analyzeRouter);
+app.use('/api/proposals', proposalsRouter);
+app.use('/api/news', newsRouter);
+app.use('/api/rules', rulesRouter);
+app.use('/api/history', historyRouter);
+app.use('/api/workflow', workflowRouter);
+app.use('/api/notifications', notificationsRouter);
+app.use('/api/ballots', ballotsRouter);
+app.use('/api/roster', rosterRouter);
+app.use('/api/users', usersRouter);
+app.use('/api/petitions', petitionsRouter);
+app.use('/api/appeals', appealsRouter);
+app.use('/api/reports', reportsRouter);
+app.use('/api/analytics', analyticsRouter);
+
+const errorHandler: ErrorRequestHandler = (err, _req, res, _next) => {
+  if (err instanceof HttpError) {
+    res.status(err.status).json({ error: err.message });
+    return;
+  }
+  console.error('Unhandled API error:', err);
+  res.status(500).json({ error: 'サーバーで問題が発生しました。' });
+};
+app.use(errorHandler);
@@ -0,0 +1,219 @@
+import crypto from 'crypto';
+import type { RequestHandler, Response } from 'express';
+import { config } from './config';
+import { db, registryDb } from './db';
+import { HttpError, readCookie } from './http';
+import { sendMail } from './mail';
+import {
+  addPendingRegistration,
+  getPasswordHash,
+  getUser,
+  setPasswordHash,
+  takePendingRegistration,
+  upsertUser,
+} from './models/users';
+import { can } from '../permissions';
+import { currentSchool } from './tenant';
+import type { DistrictAdmin, Permission, User, UserRole } from '../types';
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: User;
+    }
+  }
+}
+
+const SESSION_COOKIE = 'proposal_session';
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+// --- Passwords ---
+
+export const hashPassword = (password: string) => {
+  const salt = crypto.randomBytes(16).toString('hex');
+  const hash = crypto.scryptSync(password, salt, 64).toString('hex');
+  return `${salt}:${hash}`;
+};
+
+export const verifyPassword = (password: string, stored: string) => {
+  const [salt, hash] = stored.split(':');
+  const candidate = crypto.scryptSync(password, salt, 64);
+  return crypto.timingSafeEqual(candidate, Buffer.from(hash, 'hex'));
+};
+
+// --- Account rules ---
+
+// Each school only admits its own accounts, so a student of one school cannot sign in to another.
+// Parents, whom an admin adds by hand, sign in with their own addresses.
+export const assertSchoolEmail = (email: string, hostedDomain?: string) => {
+  const { loginDomain } = currentSchool();
+  if (!loginDomain || getUser(email.toLowerCase())?.role === 'parent') return;
+  const domain = email.split('@')[1]?.toLowerCase();
+  if (domain !== loginDomain || (hostedDomain !== undefined && hostedDomain.toLowerCase() !== loginDomain)) {
+    throw new HttpError(403, `学校のアカウント（@${loginDomain}）でログインしてください。`);
+  }
+};
+
+export const initialRoleFor = (email: string): UserRole =>
+  currentSchool().adminEmails.includes(email.toLowerCase()) ? 'admin' : 'student';
+
+// --- Password sign-up ---
+
+const REGISTRATION_TTL_MS = 24 * 60 * 60 * 1000;
+
+// A password account is only created once the owner of the address opens the emailed link.
+// Until then nobody can claim someone else's address, its admin role or its roster entry.
+export const requestRegistration = async (input: { email: string; name: string; password: string }) => {
+  const token = crypto.randomBytes(32).toString('base64url');
+  addPendingRegistration({
+    tokenHash: hashToken(token),
+    email: input.email,
+    name: input.name,
+    passwordHash: hashPassword(input.password),
+    expiresAt: new Date(Date.now() + REGISTRATION_TTL_MS).toISOString(),
+  });
+  await sendMail({
+    to: input.email,
+    subject: '【ProPoSal】メールアドレスの確認',
+    text: [
+      `${input.name} さん`,
+      '',
+      `${currentSchool().name}のProPoSalへの登録を受け付けました。`,
+      '次のリンクを開くと登録が完了します（24時間有効）。',
+      `${config.appUrl}/?verify=${token}`,
+      '',
+      '心当たりがない場合は、このメールを無視してください。',
+    ].join('\n'),
+  });
+};
+
+// Creates the account behind a confirmation link, or adds the password to an account that so far
+// only signed in with Google.
+export const confirmRegistration = (token: string): User => {
+  const pending = takePendingRegistration(hashToken(token));
+  if (!pending) throw new HttpError(400, '確認リンクが無効か、期限が切れています。もう一度登録してください。');
+  const existing = getPasswordHash(pending.email);
+  if (existing?.hash) throw new HttpError(409, 'このメールアドレスは既に登録されています。');
+  const user = upsertUser({
+    email: pending.email,
+    name: pending.name,
+    role: initialRoleFor(pending.email),
+    passwordHash: pending.passwordHash,
+  });
+  if (existing) setPasswordHash(user.id, pending.passwordHash);
+  return user;
+};
+
+// --- Sessions ---
+
+export const startSession = (res: Response, userId: string) => {
+  const token = crypto.randomBytes(32).toString('base64url');
+  const expiresAt = new Date(Date.now() + config.sessionTtlMs);
+  db()
+    .prepare('INSERT INTO sessions (token_hash, user_id, expires_at) VALUES (?, ?, ?)')
+    .run(hashToken(token), userId, expiresAt.toISOString());
+  res.cookie(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: config.secureCookies,
+    expires: expiresAt,
+    path: '/',
+  });
+};
+
+export const endSession: RequestHandler = (req, res, next) => {
+  const token = readCookie(req.headers.cookie, SESSION_COOKIE);
+  if (token) db().prepare('DELETE FROM sessions WHERE token_hash = ?').run(hashToken(token));
+  res.clearCookie(SESSION_COOKIE, { path: '/' });
+  next();
+};
+
+// Attaches req.user when the request carries a live session cookie.
+export const authenticate: RequestHandler = (req, _res, next) => {
+  const token = readCookie(req.headers.cookie, SESSION_COOKIE);
+  if (token) {
+    const session = db()
+      .prepare('SELECT user_id, expires_at FROM sessions WHERE token_hash = ?')
+      .get(hashToken(token)) as { user_id: string; expires_at: string } | undefined;
+    if (session && new Date(session.expires_at).getTime() > Date.now()) {
+      req.user = getUser(session.user_id);
+    }
+  }
+  next();
+};
+
+export const requireUser: RequestHandler = (req, _res, next) => {
+  if (!req.user) throw new HttpError(401, 'ログインが必要です。');
+  next();
+};
+
+// Throws unless the user holds the permission (for the category, when it is category-scoped).
+export const assertCan = (user: User | undefined, permission: Permission, category?: string) => {
+  if (!user) throw new HttpError(401, 'ログインが必要です。');
+  if (!can(user, permission, category)) throw new HttpError(403, 'この操作を行う権限がありません。');
+};
+
+export const requirePermission =
+  (permission: Permission): RequestHandler =>
+  (req, _res, next) => {
+    assertCan(req.user, permission);
+    next();
+  };
+
+// --- District sessions ---
+
+// District admins sign in separately from any school. Their session opens the district screens
+// only; it is never a user of a school, so school content stays out of reach.
+const DISTRICT_COOKIE = 'proposal_district_session';
+
+declare global {
+  namespace Express {
+    interface Request {
+      districtAdmin?: DistrictAdmin;
+    }
+  }
+}
+
+export const isDistrictAdminEmail = (email: string) => config.districtAdminEmails.includes(email.toLowerCase());
+
+export const startDistrictSession = (res: Response, admin: DistrictAdmin) => {
+  const token = crypto.randomBytes(32).toString('base64url');
+  const expiresAt = new Date(Date.now() + config.sessionTtlMs);
+  registryDb()
+    .prepare('INSERT INTO district_sessions (token_hash, email, name, expires_at) VALUES (?, ?, ?, ?)')
+    .run(hashToken(token), admin.email, admin.name, expiresAt.toISOString());
+  res.cookie(DISTRICT_COOKIE, token, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: config.secureCookies,
+    expires: expiresAt,
+    path: '/api/district',
+  });
+};
+
+export const endDistrictSession: RequestHandler = (req, res, next) => {
+  const token = readCookie(req.headers.cookie, DISTRICT_COOKIE);
+  if (token) registryDb().prepare('DELETE FROM district_sessions WHERE token_hash = ?').run(hashToken(token));
+  res.clearCookie(DISTRICT_COOKIE, { path: '/api/district' });
+  next();
+};
+
+export const authenticateDistrict: RequestHandler = (req, _res, next) => {
+  const token = readCookie(req.headers.cookie, DISTRICT_COOKIE);
+  if (token) {
+    const session = registryDb()
+      .prepare('SELECT email, name, expires_at FROM district_sessions WHERE token_hash = ?')
+      .get(hashToken(token)) as { email: string; name: string; expires_at: string } | undefined;
+    // Dropping an address from DISTRICT_ADMIN_EMAILS ends its sessions too
+    if (session && new Date(session.expires_at).getTime() > Date.now() && isDistrictAdminEmail(session.email)) {
+      req.districtAdmin = { email: session.email, name: session.name };
+    }
+  }
+  next();
+};
+
+export const requireDistrictAdmin: RequestHandler = (req, _res, next) => {
+  if (!req.districtAdmin) throw new HttpError(401, '教育委員会の管理者としてログインしてください。');
+  next();
+};
@@ -0,0 +1,42 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { config } from './config';
+
+// Proposal authors are stored encrypted so that staff looking at the data (admin screens,
+// exports, the database itself) cannot tell who posted what. Only this process holds the key.
+
+const loadKey = (): Buffer => {
+  if (config.authorSealSecret) return crypto.createHash('sha256').update(config.authorSealSecret).digest();
+  const file = path.join(path.dirname(config.databasePath), 'author-seal.key');
+  if (fs.existsSync(file)) return Buffer.from(fs.readFileSync(file, 'utf8').trim(), 'hex');
+  const key = crypto.randomBytes(32);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, key.toString('hex'), { mode: 0o600 });
+  return key;
+};
+
+let key: Buffer | null = null;
+const getKey = () => (key ??= loadKey());
+
+// The proposal ID (or another record key, e.g. `appeal:3`) is bound in as associated data, so
+// a sealed value copied to another record does not open.
+export const sealAuthor = (userId: string, proposalId: number | string) => {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', getKey(), iv);
+  cipher.setAAD(Buffer.from(String(proposalId)));
+  const data = Buffer.concat([cipher.update(userId, 'utf8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), data].map(b => b.toString('base64url')).join('.');
+};
+
+export const unsealAuthor = (sealed: string, proposalId: number | string): string | undefined => {
+  try {
+    const [iv, tag, data] = sealed.split('.').map(part => Buffer.from(part, 'base64url'));
+    const decipher = crypto.createDecipheriv('aes-256-gcm', getKey(), iv);
+    decipher.setAAD(Buffer.from(String(proposalId)));
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(data), decipher.final()]).toString('utf8');
+  } catch {
+    return undefined;
+  }
+};
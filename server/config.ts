@@ -0,0 +1,64 @@
+import crypto from 'crypto';
+import path from 'path';
+
+// Pick up GEMINI_API_KEY and friends from the same .env.local file Vite reads.
+try {
+  process.loadEnvFile('.env.local');
+} catch {
+  // The file is optional; plain environment variables work too.
+}
+
+const databasePath = process.env.DATABASE_PATH || path.resolve('data', 'proposal.db');
+
+export const config = {
+  port: Number(process.env.PORT || 3001),
+  // SQLite file of the default school; created on first start together with the seed data.
+  // Further schools get their own files under schools/ next to it.
+  databasePath,
+  // List of schools and district sessions.
+  districtDatabasePath: process.env.DISTRICT_DATABASE_PATH || path.join(path.dirname(databasePath), 'district.db'),
+  // Board-of-education accounts that manage schools and see cross-school totals (never school content).
+  districtAdminEmails: (process.env.DISTRICT_ADMIN_EMAILS || '')
+    .split(',')
+    .map(e => e.trim().toLowerCase())
+    .filter(Boolean),
+  googleClientId:
+    process.env.GOOGLE_CLIENT_ID || '995798796120-dao2lgjsd0qncsi8774759rahnjiik7u.apps.googleusercontent.com',
+  // The default school's name, login domain and admins. Further schools are configured by district admins.
+  schoolName: process.env.SCHOOL_NAME || '',
+  // Only accounts under this domain may sign in (e.g. toda-jhs.ed.jp). Empty allows any domain.
+  schoolDomain: (process.env.SCHOOL_DOMAIN || '').toLowerCase(),
+  // Accounts promoted to admin the first time they sign in.
+  adminEmails: (process.env.ADMIN_EMAILS || '')
+    .split(',')
+    .map(e => e.trim().toLowerCase())
+    .filter(Boolean),
+  // 'google' verifies real ID tokens; 'dev' accepts local "dev:<email>:<name>" tokens.
+  tokenVerifier: process.env.TOKEN_VERIFIER === 'dev' ? 'dev' : 'google',
+  sessionTtlMs: 7 * 24 * 60 * 60 * 1000,
+  secureCookies: process.env.NODE_ENV === 'production',
+  geminiApiKey: process.env.GEMINI_API_KEY || '',
+  // Moderation providers tried in order, e.g. "gemini,offline". Without a Gemini key only the offline checks run.
+  moderationProviders: (process.env.MODERATION_PROVIDERS || (process.env.GEMINI_API_KEY ? 'gemini,offline' : 'offline'))
+    .split(',')
+    .map(p => p.trim())
+    .filter(Boolean),
+  // 'gemini' adds embedding similarity on top of n-gram matching when looking for duplicate proposals.
+  similarityEmbeddings: process.env.SIMILARITY_EMBEDDINGS || '',
+  // Signs AI verdicts handed to the browser. Without a fixed secret, a restart voids pending verdicts.
+  verdictSecret: process.env.VERDICT_SECRET || crypto.randomBytes(32).toString('hex'),
+  verdictTtlMs: 30 * 60 * 1000,
+  // Encrypts who posted each proposal. Without it a key file is created next to the database;
+  // losing the key means authors can no longer manage their past proposals.
+  authorSealSecret: process.env.AUTHOR_SEAL_SECRET || '',
+  // Ed25519 private key (PEM) that signs petition exports. Without it a key file is created next to
+  // the database; keep it, or exports made before a new key can no longer be verified.
+  petitionSigningKey: process.env.PETITION_SIGNING_KEY || '',
+  // Outgoing mail for digests, e.g. smtp://localhost:1025 for a local SMTP stub. Unset logs mail to the console.
+  smtpUrl: process.env.SMTP_URL || '',
+  mailFrom: process.env.MAIL_FROM || 'ProPoSal <noreply@localhost>',
+  // Linked from digest emails.
+  appUrl: process.env.APP_URL || 'http://localhost:3000',
+  // Distinct reporters after which a proposal or comment is hidden until an admin reviews it.
+  reportHideThreshold: Number(process.env.REPORT_HIDE_THRESHOLD || 3),
+};
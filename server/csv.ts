@@ -0,0 +1,52 @@
+// Excel runs text cells starting with these as formulas; titles come from students, so such
+// cells get a leading ' to stay plain text. Numbers are left alone (-3 is just a number).
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+const escapeCell = (value: unknown) => {
+  const raw = value === null || value === undefined ? '' : String(value);
+  const text = typeof value !== 'number' && FORMULA_START.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// CSV with a UTF-8 BOM so Excel opens the Japanese text correctly.
+export const toCsv = (header: string[], rows: unknown[][]) =>
+  '﻿' + [header, ...rows].map(row => row.map(escapeCell).join(',')).join('\r\n') + '\r\n';
+
+// Rows of a CSV file as exported by Excel or Google Sheets: optional BOM, quoted cells, CRLF or LF.
+// Blank lines are skipped.
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  const source = text.replace(/^﻿/, '');
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      row.push(cell);
+      if (row.some(c => c.trim())) rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  row.push(cell);
+  if (row.some(c => c.trim())) rows.push(row);
+  return rows;
+};
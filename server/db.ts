@@ -0,0 +1,464 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { sealAuthor, unsealAuthor } from './authorSeal';
+import { config } from './config';
+import { seed } from './seed';
+
+// Each entry runs once, in order; PRAGMA user_version records how far we got. Functions are for
+// the rare step that needs the server's keys rather than plain SQL.
+type Migration = string | ((conn: Database.Database) => void);
+
+const MIGRATIONS: Migration[] = [
+  `
+  CREATE TABLE proposals (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    title TEXT NOT NULL,
+    content TEXT NOT NULL,
+    category TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT '受付中',
+    admin_response TEXT NOT NULL DEFAULT '',
+    created_at TEXT NOT NULL
+  );
+  CREATE TABLE signatures (
+    proposal_id INTEGER NOT NULL REFERENCES proposals(id) ON DELETE CASCADE,
+    user_id TEXT NOT NULL,
+    user_name TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    PRIMARY KEY (proposal_id, user_id)
+  );
+  CREATE TABLE news (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    title TEXT NOT NULL,
+    content TEXT NOT NULL,
+    author TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+  `,
+  `
+  CREATE TABLE users (
+    id TEXT PRIMARY KEY,
+    email TEXT NOT NULL UNIQUE,
+    name TEXT NOT NULL,
+    role TEXT NOT NULL DEFAULT 'student',
+    class TEXT,
+    password_hash TEXT,
+    created_at TEXT NOT NULL
+  );
+  CREATE TABLE sessions (
+    token_hash TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    expires_at TEXT NOT NULL
+  );
+  `,
+  `
+  -- Append-only: every edit inserts a row with the next rule-set version.
+  CREATE TABLE school_rules (
+    version INTEGER NOT NULL,
+    section INTEGER NOT NULL,
+    title TEXT NOT NULL,
+    body TEXT NOT NULL,
+    effective_date TEXT NOT NULL,
+    deleted INTEGER NOT NULL DEFAULT 0,
+    updated_by TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    PRIMARY KEY (version, section)
+  );
+  ALTER TABLE proposals ADD COLUMN rules_version INTEGER;
+  `,
+  `
+  CREATE TABLE proposal_rule_refs (
+    proposal_id INTEGER NOT NULL REFERENCES proposals(id) ON DELETE CASCADE,
+    section INTEGER NOT NULL,
+    title TEXT NOT NULL,
+    clause TEXT,
+    quote TEXT NOT NULL
+  );
+  CREATE INDEX proposal_rule_refs_section ON proposal_rule_refs (section);
+  `,
+  `
+  ALTER TABLE proposals ADD COLUMN merged_into INTEGER REFERENCES proposals(id);
+  `,
+  `
+  -- Append-only audit trail; rows are never updated or deleted.
+  CREATE TABLE proposal_history (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    proposal_id INTEGER NOT NULL REFERENCES proposals(id),
+    type TEXT NOT NULL,
+    from_value TEXT,
+    to_value TEXT,
+    actor_id TEXT,
+    actor_name TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+  CREATE INDEX proposal_history_proposal ON proposal_history (proposal_id);
+  INSERT INTO proposal_history (proposal_id, type, to_value, actor_name, created_at)
+    SELECT id, 'created', '受付中', '投稿者', created_at FROM proposals;
+  `,
+  `
+  -- Append-only like school_rules: each save adds a version holding the whole definition as JSON.
+  CREATE TABLE workflows (
+    version INTEGER PRIMARY KEY,
+    definition TEXT NOT NULL,
+    updated_by TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  ALTER TABLE proposal_history ADD COLUMN note TEXT;
+  `,
+  `
+  CREATE TABLE proposal_reviews (
+    proposal_id INTEGER PRIMARY KEY REFERENCES proposals(id),
+    reached_at TEXT NOT NULL,
+    due_at TEXT NOT NULL,
+    resolved_at TEXT
+  );
+  `,
+  `
+  -- Proposals a user follows: the ones they posted or signed, plus manual follows.
+  CREATE TABLE subscriptions (
+    user_id TEXT NOT NULL REFERENCES users(id),
+    proposal_id INTEGER NOT NULL REFERENCES proposals(id),
+    created_at TEXT NOT NULL,
+    PRIMARY KEY (user_id, proposal_id)
+  );
+  CREATE TABLE notifications (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id TEXT NOT NULL REFERENCES users(id),
+    type TEXT NOT NULL,
+    proposal_id INTEGER REFERENCES proposals(id),
+    title TEXT NOT NULL,
+    body TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    read_at TEXT,
+    emailed_at TEXT
+  );
+  CREATE INDEX notifications_user ON notifications (user_id, created_at);
+  ALTER TABLE users ADD COLUMN digest TEXT NOT NULL DEFAULT 'off';
+  ALTER TABLE users ADD COLUMN last_digest_at TEXT;
+  `,
+  `
+  -- The author's user ID, encrypted with a server key (see authorSeal.ts); never exposed by the API.
+  CREATE TABLE proposal_authors (
+    proposal_id INTEGER PRIMARY KEY REFERENCES proposals(id),
+    sealed TEXT NOT NULL
+  );
+  ALTER TABLE proposals ADD COLUMN withdrawn_at TEXT;
+  -- Private thread between the council and the anonymous author.
+  CREATE TABLE proposal_questions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    proposal_id INTEGER NOT NULL REFERENCES proposals(id),
+    sender TEXT NOT NULL,
+    sender_name TEXT,
+    body TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+  CREATE INDEX proposal_questions_proposal ON proposal_questions (proposal_id);
+  `,
+  `
+  CREATE TABLE comments (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    proposal_id INTEGER NOT NULL REFERENCES proposals(id),
+    parent_id INTEGER REFERENCES comments(id),
+    user_id TEXT NOT NULL REFERENCES users(id),
+    user_name TEXT NOT NULL,
+    stance TEXT NOT NULL,
+    body TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    hidden_at TEXT,
+    hidden_by TEXT,
+    hidden_reason TEXT
+  );
+  CREATE INDEX comments_proposal ON comments (proposal_id);
+  CREATE TABLE comment_votes (
+    comment_id INTEGER NOT NULL REFERENCES comments(id),
+    user_id TEXT NOT NULL REFERENCES users(id),
+    created_at TEXT NOT NULL,
+    PRIMARY KEY (comment_id, user_id)
+  );
+  `,
+  `
+  ALTER TABLE signatures ADD COLUMN stance TEXT NOT NULL DEFAULT 'support';
+  `,
+  `
+  CREATE TABLE ballots (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    proposal_id INTEGER NOT NULL REFERENCES proposals(id),
+    question TEXT NOT NULL,
+    options TEXT NOT NULL,
+    electorate TEXT NOT NULL,
+    secret INTEGER NOT NULL,
+    opens_at TEXT NOT NULL,
+    closes_at TEXT NOT NULL,
+    created_by TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+  CREATE INDEX ballots_proposal ON ballots (proposal_id);
+  CREATE TABLE ballot_voters (
+    ballot_id INTEGER NOT NULL REFERENCES ballots(id),
+    user_id TEXT NOT NULL REFERENCES users(id),
+    user_name TEXT NOT NULL,
+    voted_at TEXT NOT NULL,
+    PRIMARY KEY (ballot_id, user_id)
+  );
+  -- No rowid or timestamp, so insertion order cannot pair a choice with a row in ballot_voters.
+  -- user_id is only filled in for open (non-secret) ballots.
+  CREATE TABLE ballot_votes (
+    ballot_id INTEGER NOT NULL REFERENCES ballots(id),
+    receipt TEXT NOT NULL,
+    option INTEGER NOT NULL,
+    user_id TEXT REFERENCES users(id),
+    PRIMARY KEY (ballot_id, receipt)
+  ) WITHOUT ROWID;
+  `,
+  `
+  CREATE TABLE moderation_rejections (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    category TEXT NOT NULL,
+    unavailable INTEGER NOT NULL,
+    created_at TEXT NOT NULL
+  );
+  CREATE TABLE appeals (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    sealed_author TEXT NOT NULL,
+    title TEXT NOT NULL,
+    content TEXT NOT NULL,
+    ai_category TEXT NOT NULL,
+    ai_advice TEXT NOT NULL,
+    ai_unavailable INTEGER NOT NULL,
+    note TEXT,
+    status TEXT NOT NULL DEFAULT 'pending',
+    created_at TEXT NOT NULL,
+    decided_at TEXT,
+    decided_by TEXT,
+    decision_reason TEXT,
+    proposal_id INTEGER REFERENCES proposals(id),
+    edited INTEGER NOT NULL DEFAULT 0
+  );
+  `,
+  `
+  ALTER TABLE proposals ADD COLUMN hidden_at TEXT;
+  ALTER TABLE proposals ADD COLUMN removed_at TEXT;
+  ALTER TABLE proposals ADD COLUMN redacted_at TEXT;
+  ALTER TABLE comments ADD COLUMN removed_at TEXT;
+  ALTER TABLE comments ADD COLUMN redacted_at TEXT;
+  CREATE TABLE reports (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    target_type TEXT NOT NULL,
+    target_id INTEGER NOT NULL,
+    user_id TEXT NOT NULL REFERENCES users(id),
+    reason TEXT NOT NULL,
+    detail TEXT,
+    created_at TEXT NOT NULL,
+    resolved_at TEXT,
+    UNIQUE (target_type, target_id, user_id)
+  );
+  CREATE INDEX reports_open ON reports (resolved_at, target_type, target_id);
+  CREATE TABLE moderation_actions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    target_type TEXT NOT NULL,
+    target_id INTEGER NOT NULL,
+    action TEXT NOT NULL,
+    note TEXT,
+    before TEXT,
+    after TEXT,
+    actor_name TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+  `,
+  `
+  -- The school's official list of students. Accounts are matched to it by email.
+  CREATE TABLE roster (
+    student_id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    grade INTEGER NOT NULL,
+    class_name TEXT NOT NULL,
+    email TEXT NOT NULL UNIQUE,
+    graduated_at TEXT,
+    updated_at TEXT NOT NULL
+  );
+  CREATE TABLE roster_promotions (
+    school_year INTEGER PRIMARY KEY,
+    promoted_by TEXT NOT NULL,
+    promoted_at TEXT NOT NULL
+  );
+  `,
+  `
+  -- Categories a staff member handles. None means every category.
+  CREATE TABLE user_categories (
+    user_id TEXT NOT NULL REFERENCES users(id),
+    category TEXT NOT NULL,
+    PRIMARY KEY (user_id, category)
+  );
+  `,
+  `
+  -- Who sees signer names: 'public', 'staff' or 'count' (nobody, only numbers).
+  ALTER TABLE proposals ADD COLUMN signature_visibility TEXT NOT NULL DEFAULT 'public';
+  `,
+  `
+  -- Password sign-ups waiting for the owner of the address to open the emailed link.
+  CREATE TABLE pending_registrations (
+    token_hash TEXT PRIMARY KEY,
+    email TEXT NOT NULL,
+    name TEXT NOT NULL,
+    password_hash TEXT NOT NULL,
+    expires_at TEXT NOT NULL
+  );
+  `,
+  `
+  -- Notifications to a proposal's anonymous author name no user; the recipient is sealed instead
+  -- (see notifications.ts), so the table cannot tell who posted what.
+  CREATE TABLE notifications_new (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id TEXT REFERENCES users(id),
+    sealed_recipient TEXT,
+    type TEXT NOT NULL,
+    proposal_id INTEGER REFERENCES proposals(id),
+    title TEXT NOT NULL,
+    body TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    read_at TEXT,
+    emailed_at TEXT,
+    CHECK ((user_id IS NULL) <> (sealed_recipient IS NULL))
+  );
+  INSERT INTO notifications_new (id, user_id, type, proposal_id, title, body, created_at, read_at, emailed_at)
+    SELECT id, user_id, type, proposal_id, title, body, created_at, read_at, emailed_at FROM notifications;
+  DROP TABLE notifications;
+  ALTER TABLE notifications_new RENAME TO notifications;
+  CREATE INDEX notifications_user ON notifications (user_id, created_at);
+  `,
+  // Seals the author notifications sent before the step above: those on a proposal to its author,
+  // and the notices of a rejected appeal or a removed proposal. Those two link to no proposal, so
+  // they are matched to the decision they report: same kind and recipient, sent within a minute.
+  conn => {
+    const sealedAuthors = conn.prepare('SELECT proposal_id, sealed FROM proposal_authors').all() as {
+      proposal_id: number;
+      sealed: string;
+    }[];
+    const authors = new Map(sealedAuthors.map(row => [row.proposal_id, unsealAuthor(row.sealed, row.proposal_id)]));
+    const rejections = conn
+      .prepare(`SELECT id, sealed_author, decided_at FROM appeals WHERE status = 'rejected'`)
+      .all() as { id: number; sealed_author: string; decided_at: string }[];
+    const removals = conn.prepare('SELECT id, removed_at FROM proposals WHERE removed_at IS NOT NULL').all() as {
+      id: number;
+      removed_at: string;
+    }[];
+    const decisions = [
+      ...rejections.map(a => ({ type: 'appeal', userId: unsealAuthor(a.sealed_author, `appeal:${a.id}`), at: a.decided_at })),
+      ...removals.map(p => ({ type: 'report', userId: authors.get(p.id), at: p.removed_at })),
+    ];
+    const rows = conn
+      .prepare('SELECT id, user_id, type, proposal_id, created_at FROM notifications WHERE user_id IS NOT NULL')
+      .all() as { id: number; user_id: string; type: string; proposal_id: number | null; created_at: string }[];
+    const seal = conn.prepare('UPDATE notifications SET user_id = NULL, sealed_recipient = ? WHERE id = ?');
+    rows
+      .filter(
+        row =>
+          (row.proposal_id !== null && authors.get(row.proposal_id) === row.user_id) ||
+          (row.proposal_id === null &&
+            decisions.some(
+              d =>
+                d.type === row.type &&
+                d.userId === row.user_id &&
+                row.created_at >= d.at &&
+                Date.parse(row.created_at) - Date.parse(d.at) < 60 * 1000
+            ))
+      )
+      .forEach(row => seal.run(sealAuthor(row.user_id, `notification:${row.id}`), row.id));
+  },
+  `
+  -- The signer-name setting the student picked for the draft, used if it is published. Earlier
+  -- appeals never asked, so they get the strictest one.
+  ALTER TABLE appeals ADD COLUMN signature_visibility TEXT NOT NULL DEFAULT 'count';
+  `,
+  `
+  -- Counted once the ballot has closed, so later roster changes do not move a finished vote's turnout.
+  ALTER TABLE ballots ADD COLUMN electorate_size INTEGER;
+  `,
+];
+
+// The district registry: which schools this deployment hosts, and the district admins' sessions.
+// School data never goes in here.
+const REGISTRY_MIGRATIONS: string[] = [
+  `
+  CREATE TABLE schools (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    login_domain TEXT NOT NULL DEFAULT '',
+    admin_emails TEXT NOT NULL DEFAULT '[]',
+    categories TEXT NOT NULL,
+    theme TEXT NOT NULL,
+    hosts TEXT NOT NULL DEFAULT '[]',
+    google_client_id TEXT NOT NULL DEFAULT '',
+    created_at TEXT NOT NULL
+  );
+  CREATE TABLE district_sessions (
+    token_hash TEXT PRIMARY KEY,
+    email TEXT NOT NULL,
+    name TEXT NOT NULL,
+    expires_at TEXT NOT NULL
+  );
+  `,
+];
+
+const migrate = (conn: Database.Database, migrations: Migration[]) => {
+  const current = conn.pragma('user_version', { simple: true }) as number;
+  migrations.slice(current).forEach((migration, i) => {
+    conn.transaction(() => {
+      if (typeof migration === 'string') conn.exec(migration);
+      else migration(conn);
+      conn.pragma(`user_version = ${current + i + 1}`);
+    })();
+  });
+};
+
+const open = (file: string) => {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  const conn = new Database(file);
+  conn.pragma('journal_mode = WAL');
+  conn.pragma('foreign_keys = ON');
+  return conn;
+};
+
+// --- Schools ---
+
+// The school configured through the environment (SCHOOL_DOMAIN, ADMIN_EMAILS) and stored at
+// DATABASE_PATH, so single-school deployments keep working unchanged.
+export const DEFAULT_SCHOOL_ID = 'default';
+
+// Each school has a database file of its own, so no query can reach another school's data.
+// Requests run inside runInSchool (see tenant.ts); code outside a request uses the default school.
+const schoolScope = new AsyncLocalStorage<string>();
+const connections = new Map<string, Database.Database>();
+
+export const currentSchoolId = () => schoolScope.getStore() ?? DEFAULT_SCHOOL_ID;
+
+export const runInSchool = <T>(schoolId: string, fn: () => T): T => schoolScope.run(schoolId, fn);
+
+const schoolDatabasePath = (schoolId: string) =>
+  schoolId === DEFAULT_SCHOOL_ID
+    ? config.databasePath
+    : path.join(path.dirname(config.databasePath), 'schools', `${schoolId}.db`);
+
+export const db = (): Database.Database => {
+  const schoolId = currentSchoolId();
+  let conn = connections.get(schoolId);
+  if (!conn) {
+    conn = open(schoolDatabasePath(schoolId));
+    migrate(conn, MIGRATIONS);
+    // Only the original school gets the demo posts; new schools start with the workflow alone.
+    seed(conn, { demo: schoolId === DEFAULT_SCHOOL_ID });
+    connections.set(schoolId, conn);
+  }
+  return conn;
+};
+
+let registry: Database.Database | null = null;
+
+export const registryDb = (): Database.Database => {
+  if (!registry) {
+    registry = open(config.districtDatabasePath);
+    migrate(registry, REGISTRY_MIGRATIONS);
+  }
+  return registry;
+};
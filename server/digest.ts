@@ -0,0 +1,43 @@
+import { config } from './config';
+import { runInSchool } from './db';
+import { sendMail } from './mail';
+import { markDigestSent, pendingForDigest, usersDueForDigest } from './models/notifications';
+import { listSchools } from './models/schools';
+
+const CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+// Emails each due user their unread notifications. Users with nothing new get no mail, but
+// their interval restarts so an old backlog is not sent the moment something arrives.
+export const sendDigests = async (now = new Date()) => {
+  for (const user of usersDueForDigest(now)) {
+    const items = pendingForDigest(user.id);
+    try {
+      if (items.length > 0) {
+        await sendMail({
+          to: user.email,
+          subject: `【ProPoSal】新しいお知らせが${items.length}件あります`,
+          text: [
+            `${user.name} さん`,
+            '',
+            ...items.map(n => `■ ${n.title}${n.body ? `\n${n.body}` : ''}`),
+            '',
+            `詳しくはアプリで確認してください: ${config.appUrl}`,
+            '（配信設定はアプリの通知パネルから変更できます）',
+          ].join('\n'),
+        });
+      }
+      markDigestSent(user.id, items.map(n => n.id), now);
+    } catch (error) {
+      console.error(`Digest mail to ${user.email} failed:`, error);
+    }
+  }
+};
+
+export const startDigestScheduler = () => {
+  const timer = setInterval(() => {
+    listSchools().forEach(school =>
+      runInSchool(school.id, () => sendDigests()).catch(error => console.error(`Digest run for ${school.id} failed:`, error))
+    );
+  }, CHECK_INTERVAL_MS);
+  timer.unref();
+};
@@ -0,0 +1,178 @@
+import { EVENT_LABELS, eventValueLabel, listHistoryForExport } from './models/history';
+import { listProposals } from './models/proposals';
+import { createPdf } from './pdf';
+import { currentSchool } from './tenant';
+import type { Proposal, ProposalEvent, VoteCounts } from '../types';
+
+// Printouts the council takes to the staff meeting. Signer names are never printed, only counts,
+// so a document can be handed around whatever the proposal's signature visibility is.
+
+const formatDate = (iso: string) => new Date(iso).toLocaleDateString('ja-JP', { timeZone: 'Asia/Tokyo' });
+const formatDateTime = (iso: string) =>
+  new Date(iso).toLocaleString('ja-JP', { timeZone: 'Asia/Tokyo', dateStyle: 'medium', timeStyle: 'short' });
+
+const excerpt = (text: string, length: number) => (text.length > length ? `${text.slice(0, length)}…` : text);
+
+const footer = () => `${currentSchool().name}　出力 ${formatDateTime(new Date().toISOString())}`;
+
+const describeEvent = (event: Pick<ProposalEvent, 'type' | 'from' | 'to' | 'note'>) => {
+  const from = eventValueLabel(event.type, event.from ?? null);
+  const to = eventValueLabel(event.type, event.to ?? null);
+  const detail =
+    event.type === 'status' || event.type === 'visibility'
+      ? `「${from ?? ''}」→「${to ?? ''}」`
+      : event.type === 'merged'
+        ? `#${from} → #${to}`
+        : event.type === 'response' && to
+          ? excerpt(to, 200)
+          : '';
+  return [EVENT_LABELS[event.type], detail, event.note && `理由：${event.note}`].filter(Boolean).join('\n');
+};
+
+const total = (counts: VoteCounts) => counts.support + counts.oppose + counts.neutral;
+
+// One proposal on A4: text, rule references, votes by class, history and the official response.
+export const proposalDocument = (proposal: Proposal): Buffer => {
+  const doc = createPdf({ title: `意見書 #${proposal.id} ${proposal.title}`, footer: footer() });
+  doc.text(`${currentSchool().name}　意見書`, { size: 9, font: 'gothic', gray: 0.4 });
+  doc.title(proposal.title);
+  doc.fields([
+    ['意見番号', `#${proposal.id}`],
+    ['投稿日', formatDate(proposal.timestamp)],
+    ['カテゴリ', proposal.category],
+    ['ステータス', proposal.status],
+    ...(proposal.review && !proposal.review.resolvedAt
+      ? [['回答期限', formatDate(proposal.review.dueAt)] as [string, string]]
+      : []),
+  ]);
+
+  doc.heading('内容').text(proposal.content);
+
+  if (proposal.ruleRefs.length > 0) {
+    doc.heading('関連する校則');
+    proposal.ruleRefs.forEach(ref => {
+      doc.text(`第${ref.section}条 ${ref.title}${ref.clause ? `　${ref.clause}` : ''}`, { font: 'gothic', size: 10 });
+      doc.text(`「${ref.quote}」`, { gray: 0.3 }).space(4);
+    });
+  }
+
+  const { votes } = proposal;
+  doc.heading('賛同の状況');
+  doc.fields([
+    ['賛成', `${votes.support}人`],
+    ['反対', `${votes.oppose}人`],
+    ['どちらでもない', `${votes.neutral}人`],
+  ]);
+  const classes = Object.keys(votes.byClass).sort((a, b) => a.localeCompare(b, 'ja', { numeric: true }));
+  if (classes.length > 0) {
+    doc.space(6).table(
+      [
+        { header: 'クラス', width: 0.28 },
+        { header: '賛成', width: 0.18, align: 'right' },
+        { header: '反対', width: 0.18, align: 'right' },
+        { header: 'どちらでもない', width: 0.18, align: 'right' },
+        { header: '計', width: 0.18, align: 'right' },
+      ],
+      classes.map(name => {
+        const counts = votes.byClass[name];
+        return [name || '（クラスなし）', ...[counts.support, counts.oppose, counts.neutral, total(counts)].map(String)];
+      })
+    );
+  }
+
+  doc.heading('経過').table(
+    [
+      { header: '日時', width: 0.24 },
+      { header: '内容', width: 0.56 },
+      { header: '担当', width: 0.2 },
+    ],
+    proposal.history.map(event => [formatDateTime(event.timestamp), describeEvent(event), event.actorName])
+  );
+
+  doc.heading('生徒会からの回答').text(proposal.adminResponse || 'まだ回答はありません。');
+  return doc.toBuffer();
+};
+
+const countBy = (proposals: Proposal[], key: (p: Proposal) => string) => {
+  const counts = new Map<string, number>();
+  proposals.forEach(p => counts.set(key(p), (counts.get(key(p)) ?? 0) + 1));
+  return [...counts].sort((a, b) => b[1] - a[1]);
+};
+
+// 月次報告: every listed proposal posted in the range, plus the status changes and responses made
+// in it. `from` is inclusive and `to` exclusive (ISO timestamps); the labels are the dates as entered.
+export const monthlyReport = (range: { from: string; to: string; fromLabel: string; toLabel: string }): Buffer => {
+  const proposals = listProposals()
+    .filter(p => p.timestamp >= range.from && p.timestamp < range.to)
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  const activity = listHistoryForExport({ from: range.from, to: range.to }).filter(
+    e => e.type === 'status' || e.type === 'response'
+  );
+  const period = `${range.fromLabel}〜${range.toLabel}`;
+
+  const doc = createPdf({ title: `月次報告 ${period}`, footer: footer() });
+  doc.text(`${currentSchool().name}　意見箱`, { size: 9, font: 'gothic', gray: 0.4 });
+  doc.title(`月次報告（${period}）`);
+  doc.fields([
+    ['新しい意見', `${proposals.length}件`],
+    ['賛成の合計', `${proposals.reduce((sum, p) => sum + p.votes.support, 0)}人`],
+    ['回答済み', `${proposals.filter(p => p.adminResponse.trim()).length}件`],
+    [
+      '期間中の対応',
+      `ステータス変更 ${activity.filter(e => e.type === 'status').length}件 / 回答 ${activity.filter(e => e.type === 'response').length}件`,
+    ],
+  ]);
+
+  if (proposals.length > 0) {
+    const columns = (label: string) => [
+      { header: label, width: 0.7 },
+      { header: '件数', width: 0.3, align: 'right' as const },
+    ];
+    const rows = (key: (p: Proposal) => string) => countBy(proposals, key).map(([label, n]) => [label, `${n}`]);
+    doc.heading('ステータス別').table(columns('ステータス'), rows(p => p.status));
+    doc.heading('カテゴリ別').table(columns('カテゴリ'), rows(p => p.category));
+  }
+
+  doc.heading('意見一覧').table(
+    [
+      { header: '番号', width: 0.07, align: 'right' },
+      { header: '投稿日', width: 0.13 },
+      { header: 'タイトル', width: 0.28 },
+      { header: 'ステータス', width: 0.15 },
+      { header: '賛成', width: 0.07, align: 'right' },
+      { header: '回答', width: 0.3 },
+    ],
+    proposals.map(p => [
+      `${p.id}`,
+      formatDate(p.timestamp),
+      `${p.title}\n${p.category}`,
+      p.status,
+      `${p.votes.support}`,
+      p.adminResponse ? excerpt(p.adminResponse, 80) : '未回答',
+    ])
+  );
+  if (proposals.length === 0) doc.text('この期間に投稿された意見はありません。', { gray: 0.4 });
+
+  if (activity.length > 0) {
+    doc.heading('期間中の対応').table(
+      [
+        { header: '日時', width: 0.22 },
+        { header: '意見', width: 0.3 },
+        { header: '内容', width: 0.33 },
+        { header: '担当', width: 0.15 },
+      ],
+      activity.map(e => [
+        formatDateTime(e.created_at),
+        `#${e.proposal_id} ${e.title}`,
+        describeEvent({
+          type: e.type,
+          from: e.from_value ?? undefined,
+          to: e.to_value ?? undefined,
+          note: e.note ?? undefined,
+        }),
+        e.actor_name,
+      ])
+    );
+  }
+  return doc.toBuffer();
+};
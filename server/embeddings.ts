@@ -0,0 +1,69 @@
+import crypto from 'crypto';
+import { GoogleGenAI } from '@google/genai';
+import { config } from './config';
+
+export interface Embedder {
+  readonly name: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export class GeminiEmbedder implements Embedder {
+  readonly name = 'gemini';
+  private ai: GoogleGenAI;
+
+  constructor(apiKey: string, private model = 'text-embedding-004') {
+    this.ai = new GoogleGenAI({ apiKey });
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const response = await this.ai.models.embedContent({ model: this.model, contents: texts });
+    const vectors = response.embeddings?.map(e => e.values ?? []) ?? [];
+    if (vectors.length !== texts.length) throw new Error('Embedding count does not match input');
+    return vectors;
+  }
+}
+
+// Proposal texts rarely change, so vectors are cached by content hash for the life of the process.
+// Drafts are embedded too, so the cache keeps only the most recently used vectors (Map order is
+// the LRU order: a hit moves its entry to the end).
+const CACHE_LIMIT = 2000;
+const cache = new Map<string, number[]>();
+
+const cached = (key: string) => {
+  const vector = cache.get(key);
+  if (vector) {
+    cache.delete(key);
+    cache.set(key, vector);
+  }
+  return vector;
+};
+
+const remember = (key: string, vector: number[]) => {
+  cache.set(key, vector);
+  if (cache.size > CACHE_LIMIT) cache.delete(cache.keys().next().value!);
+};
+
+let embedder: Embedder | null =
+  config.similarityEmbeddings === 'gemini' && config.geminiApiKey ? new GeminiEmbedder(config.geminiApiKey) : null;
+
+export const setEmbedder = (next: Embedder | null) => {
+  embedder = next;
+  cache.clear();
+};
+
+// Returns null when embeddings are disabled, so callers fall back to n-gram similarity alone.
+export const embedTexts = async (texts: string[]): Promise<number[][] | null> => {
+  if (!embedder) return null;
+  const keys = texts.map(t => crypto.createHash('sha256').update(t).digest('hex'));
+  const found = keys.map(cached);
+  // Positions rather than texts, so a text given twice fills both slots
+  const missing = texts.map((_, i) => i).filter(i => !found[i]);
+  if (missing.length > 0) {
+    const vectors = await embedder.embed(missing.map(i => texts[i]));
+    missing.forEach((index, i) => {
+      found[index] = vectors[i];
+      remember(keys[index], vectors[i]);
+    });
+  }
+  return found as number[][];
+};
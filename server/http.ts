@@ -0,0 +1,46 @@
+export class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+export const requireString = (body: unknown, field: string): string => {
+  const value = (body as Record<string, unknown> | undefined)?.[field];
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new HttpError(400, `${field} を入力してください。`);
+  }
+  return value.trim();
+};
+
+// Request bodies are untyped JSON; validators read an object's fields through this (empty for
+// anything that is not an object).
+export const fieldsOf = (value: unknown): Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) ? (value as Record<string, unknown>) : {};
+
+// Dates are school (JST) calendar days; returns the UTC instant the day starts, `days` later.
+// Days that do not exist (2026-02-31) or years far outside the app's life are rejected.
+export const parseDate = (raw: unknown, field: string, days = 0) => {
+  if (raw === undefined || raw === '') return undefined;
+  if (typeof raw !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(raw)) {
+    throw new HttpError(400, `${field} は YYYY-MM-DD 形式で指定してください。`);
+  }
+  const year = Number(raw.slice(0, 4));
+  const date = new Date(`${raw}T00:00:00Z`);
+  if (year < 2000 || year > 2100 || Number.isNaN(date.getTime()) || date.toISOString().slice(0, 10) !== raw) {
+    throw new HttpError(400, `${field} の日付が正しくありません。`);
+  }
+  return new Date(Date.parse(`${raw}T00:00:00+09:00`) + days * 86400000).toISOString();
+};
+
+export const parseId = (raw: unknown): number => {
+  const id = typeof raw === 'string' ? Number(raw) : NaN;
+  if (!Number.isInteger(id) || id <= 0) throw new HttpError(400, 'IDが不正です。');
+  return id;
+};
+
+export const readCookie = (header: string | undefined, name: string) =>
+  header
+    ?.split(';')
+    .map(part => part.trim().split('='))
+    .find(([key]) => key === name)?.[1];
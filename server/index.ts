@@ -0,0 +1,15 @@
+import { app } from './app';
+import { config } from './config';
+import { db } from './db';
+import { startDigestScheduler } from './digest';
+import { syncDefaultSchool } from './models/schools';
+
+// Open the databases up front so migration errors surface at boot.
+syncDefaultSchool();
+db();
+
+app.listen(config.port, () => {
+  console.log(`ProPoSal API listening on http://localhost:${config.port}`);
+});
+
+startDigestScheduler();
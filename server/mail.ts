@@ -0,0 +1,43 @@
+import nodemailer from 'nodemailer';
+import { config } from './config';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface MailTransport {
+  readonly name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+export class SmtpTransport implements MailTransport {
+  readonly name = 'smtp';
+  private transporter: nodemailer.Transporter;
+
+  constructor(url: string, private from: string) {
+    this.transporter = nodemailer.createTransport(url);
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({ from: this.from, ...message });
+  }
+}
+
+// Used when no SMTP server is configured, so digests can be checked during development.
+export class ConsoleTransport implements MailTransport {
+  readonly name = 'console';
+
+  async send(message: MailMessage): Promise<void> {
+    console.log(`[mail] to=${message.to} subject=${message.subject}\n${message.text}`);
+  }
+}
+
+let transport: MailTransport = config.smtpUrl ? new SmtpTransport(config.smtpUrl, config.mailFrom) : new ConsoleTransport();
+
+export const setMailTransport = (next: MailTransport) => {
+  transport = next;
+};
+
+export const sendMail = (message: MailMessage) => transport.send(message);
@@ -0,0 +1,215 @@
+import { STUDENT_ROLES } from '../../permissions';
+import { db } from '../db';
+import { gradeOf } from './users';
+import { getWorkflow } from './workflow';
+import type { Analytics, AnalyticsPoint, DurationSummary, ParticipationRow, SchoolStats } from '../../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Longer ranges are charted per month instead of per day.
+const MAX_DAILY_BUCKETS = 92;
+
+interface Range {
+  // ISO instants; from inclusive, to exclusive (see parseDate)
+  from?: string;
+  to?: string;
+}
+
+const inRange = (time: string, { from, to }: Range) => (!from || time >= from) && (!to || time < to);
+
+// School calendar day of an instant.
+const jstDay = (time: string | number) => new Date(time).toLocaleDateString('sv-SE', { timeZone: 'Asia/Tokyo' });
+
+const summarize = (days: number[]): DurationSummary => {
+  if (days.length === 0) return { count: 0, medianDays: 0, averageDays: 0 };
+  const sorted = [...days].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  const median = sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+  const round = (n: number) => Math.round(n * 10) / 10;
+  return { count: days.length, medianDays: round(median), averageDays: round(days.reduce((a, b) => a + b, 0) / days.length) };
+};
+
+// Every period between the first and last day, so quiet days show up as zero.
+const periodsBetween = (first: string, last: string, bucket: Analytics['bucket']) => {
+  const periods: string[] = [];
+  for (let t = Date.parse(`${first}T00:00:00+09:00`); jstDay(t) <= last; t += DAY_MS) {
+    const day = jstDay(t);
+    const period = bucket === 'day' ? day : day.slice(0, 7);
+    if (periods[periods.length - 1] !== period) periods.push(period);
+  }
+  return periods;
+};
+
+const buildTimeline = (proposalTimes: string[], signatureTimes: string[], range: Range) => {
+  const days = [...proposalTimes, ...signatureTimes].map(jstDay).sort();
+  const first = range.from ? jstDay(range.from) : days[0];
+  const last = range.to ? jstDay(Date.parse(range.to) - 1) : jstDay(Date.now());
+  if (!first) return { bucket: 'day' as const, timeline: [] };
+  const bucket: Analytics['bucket'] = (Date.parse(last) - Date.parse(first)) / DAY_MS > MAX_DAILY_BUCKETS ? 'month' : 'day';
+  const key = (time: string) => (bucket === 'day' ? jstDay(time) : jstDay(time).slice(0, 7));
+  const points = new Map<string, AnalyticsPoint>(
+    periodsBetween(first, last, bucket).map(period => [period, { period, proposals: 0, signatures: 0 }])
+  );
+  proposalTimes.forEach(t => points.get(key(t)) && points.get(key(t))!.proposals++);
+  signatureTimes.forEach(t => points.get(key(t)) && points.get(key(t))!.signatures++);
+  return { bucket, timeline: [...points.values()] };
+};
+
+// Status stays that began in the range and have ended, measured between history events.
+const buildStageDurations = (range: Range) => {
+  const events = db()
+    .prepare(
+      `SELECT h.proposal_id, h.type, h.to_value, h.created_at FROM proposal_history h
+       JOIN proposals p ON p.id = h.proposal_id
+       WHERE p.removed_at IS NULL AND p.merged_into IS NULL AND h.type IN ('created', 'status', 'response')
+       ORDER BY h.proposal_id, h.created_at, h.id`
+    )
+    .all() as { proposal_id: number; type: string; to_value: string | null; created_at: string }[];
+
+  const stays = new Map<string, number[]>();
+  const firstResponse: number[] = [];
+  let current: { proposalId: number; status: string; since: string; created: string; responded: boolean } | undefined;
+  events.forEach(e => {
+    if (e.type === 'created') {
+      current = { proposalId: e.proposal_id, status: e.to_value ?? '', since: e.created_at, created: e.created_at, responded: false };
+      return;
+    }
+    if (!current || current.proposalId !== e.proposal_id) return;
+    if (e.type === 'response') {
+      if (!current.responded && e.to_value && inRange(current.created, range)) {
+        firstResponse.push((Date.parse(e.created_at) - Date.parse(current.created)) / DAY_MS);
+      }
+      current.responded ||= !!e.to_value;
+      return;
+    }
+    if (inRange(current.since, range)) {
+      const list = stays.get(current.status) ?? [];
+      list.push((Date.parse(e.created_at) - Date.parse(current.since)) / DAY_MS);
+      stays.set(current.status, list);
+    }
+    current.status = e.to_value ?? '';
+    current.since = e.created_at;
+  });
+
+  // Workflow order first, then statuses that no longer exist.
+  const order = getWorkflow().statuses.map(s => s.name);
+  const statuses = [...stays.keys()].sort((a, b) => {
+    const ia = order.indexOf(a), ib = order.indexOf(b);
+    return (ia < 0 ? order.length : ia) - (ib < 0 ? order.length : ib);
+  });
+  return {
+    stageDurations: statuses.map(status => ({ status, ...summarize(stays.get(status)!) })),
+    firstResponse: summarize(firstResponse),
+  };
+};
+
+// Students who signed, voted in a ballot or commented in the range, against everyone on file.
+const buildParticipation = (range: Range) => {
+  const students = db()
+    .prepare('SELECT id, class FROM users WHERE role IN (SELECT value FROM json_each(?))')
+    .all(JSON.stringify(STUDENT_ROLES)) as { id: string; class: string | null }[];
+  const active = new Set(
+    (
+      db()
+        .prepare(
+          `SELECT user_id, created_at FROM signatures
+           UNION ALL SELECT user_id, created_at FROM comments
+           UNION ALL SELECT user_id, voted_at FROM ballot_voters`
+        )
+        .all() as { user_id: string; created_at: string }[]
+    )
+      .filter(r => inRange(r.created_at, range))
+      .map(r => r.user_id)
+  );
+  const group = (keyOf: (className: string) => string) => {
+    const rows = new Map<string, ParticipationRow>();
+    students.forEach(s => {
+      const key = keyOf(s.class ?? '');
+      const row = rows.get(key) ?? { group: key, students: 0, participants: 0 };
+      row.students++;
+      if (active.has(s.id)) row.participants++;
+      rows.set(key, row);
+    });
+    return [...rows.values()].sort((a, b) =>
+      a.group === '' ? 1 : b.group === '' ? -1 : a.group.localeCompare(b.group, 'ja', { numeric: true })
+    );
+  };
+  return {
+    byGrade: group(c => String(gradeOf(c) ?? '')),
+    byClass: group(c => c),
+  };
+};
+
+// Merged duplicates and removed posts are left out everywhere.
+export const buildAnalytics = (range: Range): Analytics => {
+  const proposals = db()
+    .prepare('SELECT id, title, category, status, admin_response, created_at, withdrawn_at, hidden_at FROM proposals WHERE removed_at IS NULL AND merged_into IS NULL')
+    .all() as {
+    id: number;
+    title: string;
+    category: string;
+    status: string;
+    admin_response: string;
+    created_at: string;
+    withdrawn_at: string | null;
+    hidden_at: string | null;
+  }[];
+  const signatures = db()
+    .prepare(
+      `SELECT s.proposal_id, s.created_at FROM signatures s JOIN proposals p ON p.id = s.proposal_id
+       WHERE s.stance = 'support' AND p.removed_at IS NULL`
+    )
+    .all() as { proposal_id: number; created_at: string }[];
+
+  const posted = proposals.filter(p => inRange(p.created_at, range));
+  const workflow = getWorkflow();
+  const terminal = new Set(workflow.statuses.map(s => s.name).filter(name => !workflow.transitions.some(t => t.from === name)));
+  const open = posted.filter(p => !p.withdrawn_at);
+
+  const categories = new Map<string, number>();
+  posted.forEach(p => categories.set(p.category, (categories.get(p.category) ?? 0) + 1));
+
+  const signatureCounts = new Map<number, number>();
+  signatures.forEach(s => signatureCounts.set(s.proposal_id, (signatureCounts.get(s.proposal_id) ?? 0) + 1));
+
+  return {
+    from: range.from,
+    to: range.to,
+    ...buildTimeline(
+      posted.map(p => p.created_at),
+      signatures.map(s => s.created_at).filter(t => inRange(t, range)),
+      range
+    ),
+    ...buildStageDurations(range),
+    categories: [...categories.entries()].map(([category, count]) => ({ category, count })).sort((a, b) => b.count - a.count),
+    resolution: {
+      total: open.length,
+      resolved: open.filter(p => terminal.has(p.status)).length,
+      responded: open.filter(p => p.admin_response.trim()).length,
+    },
+    participation: buildParticipation(range),
+    // Current backlog, whatever the range: the proposals students are still waiting on.
+    topUnresolved: proposals
+      .filter(p => !p.withdrawn_at && !p.hidden_at && !terminal.has(p.status))
+      .map(p => ({ id: p.id, title: p.title, status: p.status, signatures: signatureCounts.get(p.id) ?? 0, timestamp: p.created_at }))
+      .sort((a, b) => b.signatures - a.signatures)
+      .slice(0, 10),
+  };
+};
+
+// The current school's totals for the district overview: counts only, no titles or class names.
+export const buildSchoolStats = (school: { id: string; name: string }, range: Range): SchoolStats => {
+  const a = buildAnalytics(range);
+  const sum = (rows: ParticipationRow[], key: 'students' | 'participants') => rows.reduce((n, r) => n + r[key], 0);
+  return {
+    schoolId: school.id,
+    name: school.name,
+    students: sum(a.participation.byGrade, 'students'),
+    participants: sum(a.participation.byGrade, 'participants'),
+    proposals: a.resolution.total,
+    signatures: a.timeline.reduce((n, p) => n + p.signatures, 0),
+    resolved: a.resolution.resolved,
+    responded: a.resolution.responded,
+    firstResponseMedianDays: a.firstResponse.medianDays,
+    categories: a.categories,
+  };
+};
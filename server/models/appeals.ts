@@ -0,0 +1,160 @@
+import { sealAuthor, unsealAuthor } from '../authorSeal';
+import { db } from '../db';
+import type { AIAnalysisResult, Appeal, AppealStatus, ModerationStat, SignatureVisibility } from '../../types';
+
+interface AppealRow {
+  id: number;
+  sealed_author: string;
+  title: string;
+  content: string;
+  ai_category: string;
+  ai_advice: string;
+  ai_unavailable: number;
+  note: string | null;
+  status: AppealStatus;
+  created_at: string;
+  decided_at: string | null;
+  decided_by: string | null;
+  decision_reason: string | null;
+  proposal_id: number | null;
+  edited: number;
+  signature_visibility: SignatureVisibility;
+}
+
+// Outages are their own bucket in the statistics; they say nothing about the AI's judgement.
+export const UNAVAILABLE_CATEGORY = 'AIチェックの不具合';
+
+const sealKey = (id: number) => `appeal:${id}`;
+
+const toAppeal = (row: AppealRow): Appeal => ({
+  id: row.id,
+  title: row.title,
+  content: row.content,
+  aiCategory: row.ai_category,
+  aiAdvice: row.ai_advice,
+  aiUnavailable: row.ai_unavailable === 1,
+  note: row.note ?? undefined,
+  status: row.status,
+  timestamp: row.created_at,
+  decidedAt: row.decided_at ?? undefined,
+  decidedBy: row.decided_by ?? undefined,
+  decisionReason: row.decision_reason ?? undefined,
+  proposalId: row.proposal_id ?? undefined,
+  edited: row.edited === 1,
+  signatureVisibility: row.signature_visibility,
+});
+
+export const recordRejection = (result: AIAnalysisResult) => {
+  db()
+    .prepare('INSERT INTO moderation_rejections (category, unavailable, created_at) VALUES (?, ?, ?)')
+    .run(result.category, result.unavailable ? 1 : 0, new Date().toISOString());
+};
+
+export const getAppeal = (id: number): Appeal | undefined => {
+  const row = db().prepare('SELECT * FROM appeals WHERE id = ?').get(id) as AppealRow | undefined;
+  return row && toAppeal(row);
+};
+
+// Pending first (oldest first, so nobody waits longest), then recent decisions.
+export const listAppeals = (): Appeal[] =>
+  (
+    db()
+      .prepare(
+        `SELECT * FROM appeals
+         ORDER BY status = 'pending' DESC, CASE WHEN status = 'pending' THEN created_at END, created_at DESC`
+      )
+      .all() as AppealRow[]
+  ).map(toAppeal);
+
+// Like proposal authorship, the student is only recoverable by this process.
+export const authorOfAppeal = (id: number): string | undefined => {
+  const row = db().prepare('SELECT sealed_author FROM appeals WHERE id = ?').get(id) as { sealed_author: string } | undefined;
+  return row && unsealAuthor(row.sealed_author, sealKey(id));
+};
+
+export const appealsByAuthor = (userId: string): Appeal[] =>
+  (db().prepare('SELECT * FROM appeals ORDER BY created_at DESC').all() as AppealRow[])
+    .filter(row => unsealAuthor(row.sealed_author, sealKey(row.id)) === userId)
+    .map(toAppeal);
+
+export const createAppeal = (
+  input: {
+    title: string;
+    content: string;
+    category: string;
+    advice: string;
+    unavailable: boolean;
+    note?: string;
+    signatureVisibility: SignatureVisibility;
+  },
+  userId: string
+) => {
+  const conn = db();
+  const id = conn.transaction(() => {
+    const result = conn
+      .prepare(
+        `INSERT INTO appeals
+           (sealed_author, title, content, ai_category, ai_advice, ai_unavailable, note, signature_visibility, created_at)
+         VALUES ('', ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        input.title,
+        input.content,
+        input.category,
+        input.advice,
+        input.unavailable ? 1 : 0,
+        input.note ?? null,
+        input.signatureVisibility,
+        new Date().toISOString()
+      );
+    const id = Number(result.lastInsertRowid);
+    conn.prepare('UPDATE appeals SET sealed_author = ? WHERE id = ?').run(sealAuthor(userId, sealKey(id)), id);
+    return id;
+  })();
+  return getAppeal(id)!;
+};
+
+export const decideAppeal = (
+  id: number,
+  decision: { status: Exclude<AppealStatus, 'pending'>; reason?: string; proposalId?: number; edited?: boolean },
+  adminName: string
+) => {
+  db()
+    .prepare(
+      `UPDATE appeals SET status = ?, decision_reason = ?, proposal_id = ?, edited = ?, decided_by = ?, decided_at = ?
+       WHERE id = ?`
+    )
+    .run(
+      decision.status,
+      decision.reason ?? null,
+      decision.proposalId ?? null,
+      decision.edited ? 1 : 0,
+      adminName,
+      new Date().toISOString(),
+      id
+    );
+  return getAppeal(id)!;
+};
+
+export const moderationStats = (): ModerationStat[] => {
+  const stats = new Map<string, ModerationStat>();
+  const statFor = (category: string) => {
+    if (!stats.has(category)) stats.set(category, { category, rejections: 0, appeals: 0, approved: 0, rejected: 0, pending: 0 });
+    return stats.get(category)!;
+  };
+  (
+    db()
+      .prepare('SELECT category, unavailable, COUNT(*) AS n FROM moderation_rejections GROUP BY category, unavailable')
+      .all() as { category: string; unavailable: number; n: number }[]
+  ).forEach(r => (statFor(r.unavailable ? UNAVAILABLE_CATEGORY : r.category).rejections += r.n));
+  (
+    db()
+      .prepare('SELECT ai_category, ai_unavailable, status, COUNT(*) AS n FROM appeals GROUP BY ai_category, ai_unavailable, status')
+      .all() as { ai_category: string; ai_unavailable: number; status: AppealStatus; n: number }[]
+  ).forEach(r => {
+    const stat = statFor(r.ai_unavailable ? UNAVAILABLE_CATEGORY : r.ai_category);
+    stat.appeals += r.n;
+    stat[r.status] += r.n;
+  });
+  return [...stats.values()].sort((a, b) => b.rejections - a.rejections);
+};
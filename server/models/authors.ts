@@ -0,0 +1,28 @@
+import { sealAuthor, unsealAuthor } from '../authorSeal';
+import { db } from '../db';
+
+interface AuthorRow {
+  proposal_id: number;
+  sealed: string;
+}
+
+export const setAuthor = (proposalId: number, userId: string) => {
+  db()
+    .prepare('INSERT INTO proposal_authors (proposal_id, sealed) VALUES (?, ?)')
+    .run(proposalId, sealAuthor(userId, proposalId));
+};
+
+export const authorOf = (proposalId: number): string | undefined => {
+  const row = db().prepare('SELECT * FROM proposal_authors WHERE proposal_id = ?').get(proposalId) as
+    | AuthorRow
+    | undefined;
+  return row && unsealAuthor(row.sealed, proposalId);
+};
+
+export const isAuthor = (proposalId: number, userId: string) => authorOf(proposalId) === userId;
+
+// There is no index by author on purpose; each sealed value is opened in turn.
+export const proposalIdsByAuthor = (userId: string): number[] =>
+  (db().prepare('SELECT * FROM proposal_authors').all() as AuthorRow[])
+    .filter(row => unsealAuthor(row.sealed, row.proposal_id) === userId)
+    .map(row => row.proposal_id);
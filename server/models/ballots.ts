@@ -0,0 +1,183 @@
+import { createHash, randomBytes } from 'node:crypto';
+import { STUDENT_ROLES } from '../../permissions';
+import { db } from '../db';
+import { gradeOf } from './users';
+import type { Ballot, BallotElectorate, BallotResults, User, UserRole } from '../../types';
+
+interface BallotRow {
+  id: number;
+  proposal_id: number;
+  question: string;
+  options: string;
+  electorate: string;
+  secret: number;
+  opens_at: string;
+  closes_at: string;
+  created_by: string;
+  created_at: string;
+  electorate_size: number | null;
+}
+
+export interface BallotInput {
+  proposalId: number;
+  question: string;
+  options: string[];
+  electorate: BallotElectorate;
+  secret: boolean;
+  opensAt: string;
+  closesAt: string;
+}
+
+const normalizeClass = (name: string) => name.normalize('NFKC').trim();
+
+export const isEligible = (electorate: BallotElectorate, user: User) => {
+  if (!STUDENT_ROLES.includes(user.role)) return false;
+  if (electorate.grades.length === 0 && electorate.classes.length === 0) return true;
+  const grade = gradeOf(user.class);
+  return (
+    (grade !== undefined && electorate.grades.includes(grade)) ||
+    (user.class !== undefined && electorate.classes.map(normalizeClass).includes(normalizeClass(user.class)))
+  );
+};
+
+// IDs of every student the electorate covers, from the accounts that exist right now.
+export const electorateUserIds = (electorate: BallotElectorate): string[] =>
+  (
+    db()
+      .prepare('SELECT id, role, class FROM users WHERE role IN (SELECT value FROM json_each(?))')
+      .all(JSON.stringify(STUDENT_ROLES)) as { id: string; role: UserRole; class: string | null }[]
+  )
+    .filter(u => isEligible(electorate, { id: u.id, name: '', role: u.role, class: u.class ?? undefined }))
+    .map(u => u.id);
+
+const stateOf = (row: BallotRow, now = new Date().toISOString()): Ballot['state'] =>
+  now < row.opens_at ? 'scheduled' : now < row.closes_at ? 'open' : 'closed';
+
+const countVoters = (ballotId: number) =>
+  (db().prepare('SELECT COUNT(*) AS n FROM ballot_voters WHERE ballot_id = ?').get(ballotId) as { n: number }).n;
+
+// Taken the first time the ballot is read after closing (closeBallot reads it straight away).
+const electorateSizeOf = (row: BallotRow) => {
+  if (row.electorate_size !== null) return row.electorate_size;
+  const size = electorateUserIds(JSON.parse(row.electorate)).length;
+  db().prepare('UPDATE ballots SET electorate_size = ? WHERE id = ? AND electorate_size IS NULL').run(size, row.id);
+  return size;
+};
+
+const resultsOf = (row: BallotRow): BallotResults => {
+  const options: string[] = JSON.parse(row.options);
+  const votes = db()
+    .prepare(
+      `SELECT v.option, u.name FROM ballot_votes v LEFT JOIN users u ON u.id = v.user_id
+       WHERE v.ballot_id = ? ORDER BY v.receipt`
+    )
+    .all(row.id) as { option: number; name: string | null }[];
+  const counts = options.map((_, i) => votes.filter(v => v.option === i).length);
+  return {
+    counts,
+    electorateSize: electorateSizeOf(row),
+    voters: row.secret ? undefined : options.map((_, i) => votes.filter(v => v.option === i).map(v => v.name ?? '')),
+  };
+};
+
+// Results stay sealed until the ballot closes, for admins too.
+const toBallot = (row: BallotRow, viewer?: User): Ballot => {
+  const electorate: BallotElectorate = JSON.parse(row.electorate);
+  const state = stateOf(row);
+  return {
+    id: row.id,
+    proposalId: row.proposal_id,
+    question: row.question,
+    options: JSON.parse(row.options),
+    electorate,
+    secret: row.secret === 1,
+    opensAt: row.opens_at,
+    closesAt: row.closes_at,
+    createdBy: row.created_by,
+    state,
+    voterCount: countVoters(row.id),
+    eligible: viewer ? isEligible(electorate, viewer) : false,
+    voted: viewer ? hasVoted(row.id, viewer.id) : false,
+    results: state === 'closed' ? resultsOf(row) : undefined,
+  };
+};
+
+const getRow = (id: number) => db().prepare('SELECT * FROM ballots WHERE id = ?').get(id) as BallotRow | undefined;
+
+export const hasVoted = (ballotId: number, userId: string) =>
+  db().prepare('SELECT 1 FROM ballot_voters WHERE ballot_id = ? AND user_id = ?').get(ballotId, userId) !== undefined;
+
+export const getBallot = (id: number, viewer?: User): Ballot | undefined => {
+  const row = getRow(id);
+  return row && toBallot(row, viewer);
+};
+
+export const listBallots = (proposalId: number, viewer?: User): Ballot[] =>
+  (db().prepare('SELECT * FROM ballots WHERE proposal_id = ? ORDER BY opens_at DESC, id DESC').all(proposalId) as BallotRow[]).map(
+    row => toBallot(row, viewer)
+  );
+
+export const createBallot = (input: BallotInput, admin: User) => {
+  const result = db()
+    .prepare(
+      `INSERT INTO ballots (proposal_id, question, options, electorate, secret, opens_at, closes_at, created_by, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+    .run(
+      input.proposalId,
+      input.question,
+      JSON.stringify(input.options),
+      JSON.stringify(input.electorate),
+      input.secret ? 1 : 0,
+      input.opensAt,
+      input.closesAt,
+      admin.name,
+      new Date().toISOString()
+    );
+  return getBallot(Number(result.lastInsertRowid), admin)!;
+};
+
+// Ends voting now; the results unlock immediately.
+export const closeBallot = (id: number, admin: User) => {
+  db().prepare('UPDATE ballots SET closes_at = ? WHERE id = ?').run(new Date().toISOString(), id);
+  return getBallot(id, admin);
+};
+
+// Marks the user as having voted and stores the choice under a random receipt, in one
+// transaction. For secret ballots the two rows share nothing but the ballot ID. Returns undefined
+// if the user had already voted.
+export const castBallot = (ballot: Ballot, user: User, option: number): string | undefined => {
+  const receipt = randomBytes(8).toString('hex');
+  const conn = db();
+  return conn.transaction(() => {
+    const { changes } = conn
+      .prepare('INSERT OR IGNORE INTO ballot_voters (ballot_id, user_id, user_name, voted_at) VALUES (?, ?, ?, ?)')
+      .run(ballot.id, user.id, user.name, new Date().toISOString());
+    if (changes === 0) return undefined;
+    conn
+      .prepare('INSERT INTO ballot_votes (ballot_id, receipt, option, user_id) VALUES (?, ?, ?, ?)')
+      .run(ballot.id, receipt, option, ballot.secret ? null : user.id);
+    return receipt;
+  })();
+};
+
+// Everything needed to recount a closed ballot. `sha256` is the SHA-256 of
+// JSON.stringify({ ballotId, question, options, votes }) with votes sorted by receipt, so anyone
+// can recompute it and voters can find their receipt in the list.
+export const exportTally = (ballot: Ballot) => {
+  const votes = db()
+    .prepare('SELECT receipt, option FROM ballot_votes WHERE ballot_id = ? ORDER BY receipt')
+    .all(ballot.id) as { receipt: string; option: number }[];
+  const payload = { ballotId: ballot.id, question: ballot.question, options: ballot.options, votes };
+  return {
+    ...payload,
+    proposalId: ballot.proposalId,
+    secret: ballot.secret,
+    opensAt: ballot.opensAt,
+    closesAt: ballot.closesAt,
+    counts: ballot.results!.counts,
+    voterCount: ballot.voterCount,
+    electorateSize: ballot.results!.electorateSize,
+    sha256: createHash('sha256').update(JSON.stringify(payload)).digest('hex'),
+  };
+};
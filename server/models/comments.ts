@@ -0,0 +1,114 @@
+import { can } from '../../permissions';
+import { db } from '../db';
+import type { CommentStance, ProposalComment, User } from '../../types';
+
+interface CommentRow {
+  id: number;
+  proposal_id: number;
+  parent_id: number | null;
+  user_id: string;
+  user_name: string;
+  stance: CommentStance;
+  body: string;
+  created_at: string;
+  hidden_at: string | null;
+  hidden_by: string | null;
+  hidden_reason: string | null;
+  removed_at: string | null;
+  redacted_at: string | null;
+  helpful: number;
+  marked: number;
+}
+
+// Hidden comments keep their place in the thread, but only admins see what they said.
+const toComment = (row: CommentRow, viewer: User | undefined): ProposalComment => {
+  const hidden = row.hidden_at !== null;
+  return {
+    id: row.id,
+    proposalId: row.proposal_id,
+    parentId: row.parent_id ?? undefined,
+    stance: row.stance,
+    body: hidden && !can(viewer, 'moderate') ? '' : row.body,
+    userName: row.user_name,
+    timestamp: row.created_at,
+    helpful: row.helpful,
+    markedHelpful: row.marked > 0,
+    mine: row.user_id === viewer?.id,
+    hidden,
+    hiddenReason: hidden && can(viewer, 'moderate') ? row.hidden_reason ?? undefined : undefined,
+    removed: row.removed_at !== null,
+    redacted: row.redacted_at !== null,
+  };
+};
+
+const SELECT_COMMENTS = `
+  SELECT c.*,
+    (SELECT COUNT(*) FROM comment_votes v WHERE v.comment_id = c.id) AS helpful,
+    (SELECT COUNT(*) FROM comment_votes v WHERE v.comment_id = c.id AND v.user_id = @viewer) AS marked
+  FROM comments c`;
+
+export const listComments = (proposalId: number, viewer?: User): ProposalComment[] =>
+  (
+    db()
+      .prepare(`${SELECT_COMMENTS} WHERE c.proposal_id = @proposalId ORDER BY c.created_at, c.id`)
+      .all({ proposalId, viewer: viewer?.id ?? null }) as CommentRow[]
+  ).map(row => toComment(row, viewer));
+
+export const getComment = (id: number, viewer?: User): ProposalComment | undefined => {
+  const row = db()
+    .prepare(`${SELECT_COMMENTS} WHERE c.id = @id`)
+    .get({ id, viewer: viewer?.id ?? null }) as CommentRow | undefined;
+  return row && toComment(row, viewer);
+};
+
+export const createComment = (
+  input: { proposalId: number; parentId?: number; stance: CommentStance; body: string },
+  author: User
+) => {
+  const result = db()
+    .prepare(
+      `INSERT INTO comments (proposal_id, parent_id, user_id, user_name, stance, body, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`
+    )
+    .run(input.proposalId, input.parentId ?? null, author.id, author.name, input.stance, input.body, new Date().toISOString());
+  return getComment(Number(result.lastInsertRowid), author)!;
+};
+
+export const markHelpful = (commentId: number, user: User) => {
+  db()
+    .prepare('INSERT OR IGNORE INTO comment_votes (comment_id, user_id, created_at) VALUES (?, ?, ?)')
+    .run(commentId, user.id, new Date().toISOString());
+  return getComment(commentId, user);
+};
+
+export const unmarkHelpful = (commentId: number, user: User) => {
+  db().prepare('DELETE FROM comment_votes WHERE comment_id = ? AND user_id = ?').run(commentId, user.id);
+  return getComment(commentId, user);
+};
+
+export const hideComment = (commentId: number, reason: string, hiddenBy: string) => {
+  db()
+    .prepare('UPDATE comments SET hidden_at = ?, hidden_by = ?, hidden_reason = ? WHERE id = ?')
+    .run(new Date().toISOString(), hiddenBy, reason, commentId);
+};
+
+export const restoreComment = (commentId: number) => {
+  db()
+    .prepare('UPDATE comments SET hidden_at = NULL, hidden_by = NULL, hidden_reason = NULL WHERE id = ?')
+    .run(commentId);
+};
+
+// Removal is a hide that cannot be restored; the text stays for the audit trail.
+export const removeComment = (commentId: number, removedBy: string) => {
+  const now = new Date().toISOString();
+  db()
+    .prepare(
+      `UPDATE comments SET hidden_at = COALESCE(hidden_at, ?), hidden_by = ?, hidden_reason = '削除されました', removed_at = ?
+       WHERE id = ?`
+    )
+    .run(now, removedBy, now, commentId);
+};
+
+export const redactComment = (commentId: number, body: string) => {
+  db().prepare('UPDATE comments SET body = ?, redacted_at = ? WHERE id = ?').run(body, new Date().toISOString(), commentId);
+};
@@ -0,0 +1,103 @@
+import { SIGNATURE_VISIBILITY_LABELS } from '../../constants';
+import { db } from '../db';
+import type { ProposalEvent, ProposalEventType, SignatureVisibility } from '../../types';
+
+export interface HistoryRow {
+  id: number;
+  proposal_id: number;
+  type: ProposalEventType;
+  from_value: string | null;
+  to_value: string | null;
+  note: string | null;
+  actor_id: string | null;
+  actor_name: string;
+  created_at: string;
+}
+
+// How events are named in exports and printouts
+export const EVENT_LABELS: Record<ProposalEventType, string> = {
+  created: '投稿',
+  status: 'ステータス変更',
+  response: '回答の更新',
+  merged: '統合',
+  edited: '投稿者による編集',
+  withdrawn: '取り下げ',
+  visibility: '賛同者名の公開範囲',
+};
+
+// Visibility events store the setting's key; exports show its label.
+export const eventValueLabel = (type: ProposalEventType, value: string | null) =>
+  type === 'visibility' && value ? SIGNATURE_VISIBILITY_LABELS[value as SignatureVisibility].label : value;
+
+// Authors are anonymous, so events without a signed-in actor are attributed to this label.
+export const ANONYMOUS_AUTHOR = '投稿者';
+
+// Who made a change: a signed-in user, or an automatic process with only a name.
+export type Actor = { id?: string; name: string };
+
+export const toEvent = (row: HistoryRow): ProposalEvent => ({
+  id: row.id,
+  type: row.type,
+  from: row.from_value ?? undefined,
+  to: row.to_value ?? undefined,
+  note: row.note ?? undefined,
+  actorName: row.actor_name,
+  timestamp: row.created_at,
+});
+
+// Stands in for the versions an edit kept once a moderator has redacted the proposal. The rows
+// stay as written (the trail is append-only); they are masked on the way out, and the moderation
+// log keeps the originals.
+export const REDACTED_TEXT = '（管理者により非表示）';
+
+const masked = (column: 'from_value' | 'to_value') =>
+  `CASE WHEN h.type = 'edited' AND h.created_at <= p.redacted_at THEN '${REDACTED_TEXT}' ELSE h.${column} END AS ${column}`;
+
+const HISTORY_COLUMNS = `h.id, h.proposal_id, h.type, ${masked('from_value')}, ${masked('to_value')},
+  h.note, h.actor_id, h.actor_name, h.created_at`;
+
+// Events of the given proposals, oldest first.
+export const listHistory = (proposalIds: number[]) =>
+  db()
+    .prepare(
+      `SELECT ${HISTORY_COLUMNS} FROM proposal_history h JOIN proposals p ON p.id = h.proposal_id
+       WHERE h.proposal_id IN (SELECT value FROM json_each(?)) ORDER BY h.created_at, h.id`
+    )
+    .all(JSON.stringify(proposalIds)) as HistoryRow[];
+
+export const recordEvent = (
+  proposalId: number,
+  type: ProposalEventType,
+  values: { from?: string; to?: string; note?: string },
+  actor: Actor | null
+) => {
+  db()
+    .prepare(
+      `INSERT INTO proposal_history (proposal_id, type, from_value, to_value, note, actor_id, actor_name, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+    .run(
+      proposalId,
+      type,
+      values.from ?? null,
+      values.to ?? null,
+      values.note ?? null,
+      actor?.id ?? null,
+      actor?.name ?? ANONYMOUS_AUTHOR,
+      new Date().toISOString()
+    );
+};
+
+// Events for export, joined with the proposal title. `from` is inclusive, `to` exclusive (ISO timestamps).
+export const listHistoryForExport = (filter: { proposalId?: number; from?: string; to?: string }) =>
+  db()
+    .prepare(
+      `SELECT ${HISTORY_COLUMNS}, p.title FROM proposal_history h JOIN proposals p ON p.id = h.proposal_id
+       WHERE (@proposalId IS NULL OR h.proposal_id = @proposalId)
+         AND (@from IS NULL OR h.created_at >= @from)
+         AND (@to IS NULL OR h.created_at < @to)
+       ORDER BY h.created_at, h.id`
+    )
+    .all({ proposalId: filter.proposalId ?? null, from: filter.from ?? null, to: filter.to ?? null }) as (HistoryRow & {
+    title: string;
+  })[];
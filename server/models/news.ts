@@ -0,0 +1,29 @@
+import { db } from '../db';
+import type { NewsItem } from '../../types';
+
+interface NewsRow {
+  id: number;
+  title: string;
+  content: string;
+  author: string;
+  created_at: string;
+}
+
+const toNewsItem = (row: NewsRow): NewsItem => ({
+  id: row.id,
+  title: row.title,
+  content: row.content,
+  author: row.author,
+  timestamp: row.created_at,
+});
+
+export const listNews = (): NewsItem[] =>
+  (db().prepare('SELECT * FROM news ORDER BY created_at DESC').all() as NewsRow[]).map(toNewsItem);
+
+export const createNews = (input: { title: string; content: string; author: string }): NewsItem => {
+  const result = db()
+    .prepare('INSERT INTO news (title, content, author, created_at) VALUES (?, ?, ?, ?)')
+    .run(input.title, input.content, input.author, new Date().toISOString());
+  const row = db().prepare('SELECT * FROM news WHERE id = ?').get(result.lastInsertRowid) as NewsRow;
+  return toNewsItem(row);
+};
@@ -0,0 +1,218 @@
+import { CATEGORY_SCOPED, rolesWith } from '../../permissions';
+import { sealAuthor, unsealAuthor } from '../authorSeal';
+import { currentSchoolId, db } from '../db';
+import { authorOf } from './authors';
+import type { AppNotification, DigestFrequency, NotificationType, Permission } from '../../types';
+
+interface NotificationRow {
+  id: number;
+  user_id: string | null;
+  sealed_recipient: string | null;
+  type: NotificationType;
+  proposal_id: number | null;
+  title: string;
+  body: string;
+  created_at: string;
+  read_at: string | null;
+  emailed_at: string | null;
+}
+
+export type NotificationInput = { type: NotificationType; proposalId?: number; title: string; body: string };
+
+const toNotification = (row: NotificationRow): AppNotification => ({
+  id: row.id,
+  type: row.type,
+  proposalId: row.proposal_id ?? undefined,
+  title: row.title,
+  body: row.body,
+  timestamp: row.created_at,
+  read: row.read_at !== null,
+});
+
+// --- Subscriptions ---
+
+export const subscribe = (userId: string, proposalId: number) => {
+  db()
+    .prepare('INSERT OR IGNORE INTO subscriptions (user_id, proposal_id, created_at) VALUES (?, ?, ?)')
+    .run(userId, proposalId, new Date().toISOString());
+};
+
+export const unsubscribe = (userId: string, proposalId: number) => {
+  db().prepare('DELETE FROM subscriptions WHERE user_id = ? AND proposal_id = ?').run(userId, proposalId);
+};
+
+export const listSubscriptions = (userId: string): number[] =>
+  (
+    db().prepare('SELECT proposal_id FROM subscriptions WHERE user_id = ? ORDER BY created_at').all(userId) as {
+      proposal_id: number;
+    }[]
+  ).map(r => r.proposal_id);
+
+// Followers of a merged proposal keep following it at its new home.
+export const moveSubscriptions = (sourceId: number, targetId: number) => {
+  db()
+    .prepare(
+      `INSERT OR IGNORE INTO subscriptions (user_id, proposal_id, created_at)
+       SELECT user_id, ?, created_at FROM subscriptions WHERE proposal_id = ?`
+    )
+    .run(targetId, sourceId);
+};
+
+// --- Inbox ---
+
+const insertFor = (userIdsSql: string, params: unknown[], n: NotificationInput) => {
+  db()
+    .prepare(
+      `INSERT INTO notifications (user_id, type, proposal_id, title, body, created_at)
+       SELECT id, ?, ?, ?, ?, ? FROM users WHERE id IN (${userIdsSql})`
+    )
+    .run(n.type, n.proposalId ?? null, n.title, n.body, new Date().toISOString(), ...params);
+};
+
+export const notifyUser = (userId: string, n: NotificationInput) => insertFor('?', [userId], n);
+
+// For the anonymous author of a proposal or appeal. The recipient is sealed like the author mapping,
+// bound to the notification's ID, so the table never pairs a user with something they posted.
+export const notifyAuthor = (userId: string, n: NotificationInput) => {
+  const conn = db();
+  conn.transaction(() => {
+    const { lastInsertRowid } = conn
+      .prepare(
+        `INSERT INTO notifications (sealed_recipient, type, proposal_id, title, body, created_at)
+         VALUES ('', ?, ?, ?, ?, ?)`
+      )
+      .run(n.type, n.proposalId ?? null, n.title, n.body, new Date().toISOString());
+    conn
+      .prepare('UPDATE notifications SET sealed_recipient = ? WHERE id = ?')
+      .run(sealAuthor(userId, `notification:${lastInsertRowid}`), lastInsertRowid);
+  })();
+};
+
+// Notifies the proposal's author and everyone following it, except the user who caused the event.
+// The author is looked up through the sealed mapping rather than a subscription row.
+export const notifySubscribers = (proposalId: number, n: NotificationInput, exceptUserId?: string) => {
+  const author = authorOf(proposalId);
+  insertFor(
+    'SELECT user_id FROM subscriptions WHERE proposal_id = ? AND user_id IS NOT ? AND user_id IS NOT ?',
+    [proposalId, exceptUserId ?? null, author ?? null],
+    { ...n, proposalId }
+  );
+  if (author && author !== exceptUserId) notifyAuthor(author, { ...n, proposalId });
+};
+
+export const notifyUsers = (userIds: string[], n: NotificationInput) =>
+  insertFor('SELECT value FROM json_each(?)', [JSON.stringify(userIds)], n);
+
+// Everyone whose role holds the permission; for a category-scoped one, only staff who handle `category`.
+export const notifyStaff = (permission: Permission, n: NotificationInput, category?: string) => {
+  const scope = CATEGORY_SCOPED.includes(permission) ? category ?? null : null;
+  insertFor(
+    `SELECT u.id FROM users u
+     WHERE u.role IN (SELECT value FROM json_each(?))
+       AND (? IS NULL
+         OR NOT EXISTS (SELECT 1 FROM user_categories c WHERE c.user_id = u.id)
+         OR EXISTS (SELECT 1 FROM user_categories c WHERE c.user_id = u.id AND c.category = ?))`,
+    [JSON.stringify(rolesWith(permission)), scope, scope],
+    n
+  );
+};
+
+export const notifyAllUsers = (n: NotificationInput, exceptUserId?: string) =>
+  insertFor('SELECT id FROM users WHERE id IS NOT ?', [exceptUserId ?? null], n);
+
+// There is no index by sealed recipient in the database on purpose. Opening every sealed row on
+// each inbox poll would grow with the school's whole history, so each row is opened once per
+// process and the matches are kept here, per school; later calls only open rows added since.
+const sealedIndexes = new Map<string, { scannedThrough: number; idsByUser: Map<string, number[]> }>();
+
+const sealedIdsFor = (userId: string) => {
+  const schoolId = currentSchoolId();
+  if (!sealedIndexes.has(schoolId)) sealedIndexes.set(schoolId, { scannedThrough: 0, idsByUser: new Map() });
+  const index = sealedIndexes.get(schoolId)!;
+  (
+    db()
+      .prepare('SELECT id, sealed_recipient FROM notifications WHERE sealed_recipient IS NOT NULL AND id > ? ORDER BY id')
+      .all(index.scannedThrough) as Pick<NotificationRow, 'id' | 'sealed_recipient'>[]
+  ).forEach(row => {
+    const recipient = unsealAuthor(row.sealed_recipient!, `notification:${row.id}`);
+    if (recipient) index.idsByUser.set(recipient, [...(index.idsByUser.get(recipient) ?? []), row.id]);
+    index.scannedThrough = row.id;
+  });
+  return JSON.stringify(index.idsByUser.get(userId) ?? []);
+};
+
+// Matches the user's own rows and the sealed ones addressed to them (pass sealedIdsFor as the second parameter).
+const RECIPIENT = '(user_id = ? OR id IN (SELECT value FROM json_each(?)))';
+
+export const listNotifications = (userId: string, limit = 50): AppNotification[] =>
+  (
+    db()
+      .prepare(`SELECT * FROM notifications WHERE ${RECIPIENT} ORDER BY created_at DESC, id DESC LIMIT ?`)
+      .all(userId, sealedIdsFor(userId), limit) as NotificationRow[]
+  ).map(toNotification);
+
+export const unreadCount = (userId: string): number =>
+  (
+    db()
+      .prepare(`SELECT COUNT(*) AS n FROM notifications WHERE ${RECIPIENT} AND read_at IS NULL`)
+      .get(userId, sealedIdsFor(userId)) as { n: number }
+  ).n;
+
+// Marks the given notifications read, or all of them when `ids` is omitted.
+export const markRead = (userId: string, ids?: number[]) => {
+  db()
+    .prepare(
+      `UPDATE notifications SET read_at = ?
+       WHERE ${RECIPIENT} AND read_at IS NULL AND (? IS NULL OR id IN (SELECT value FROM json_each(?)))`
+    )
+    .run(
+      new Date().toISOString(),
+      userId,
+      sealedIdsFor(userId),
+      ids ? 1 : null,
+      JSON.stringify(ids ?? [])
+    );
+};
+
+// --- Email digests ---
+
+export const getDigestFrequency = (userId: string): DigestFrequency =>
+  ((db().prepare('SELECT digest FROM users WHERE id = ?').get(userId) as { digest: DigestFrequency } | undefined)
+    ?.digest ?? 'off');
+
+export const setDigestFrequency = (userId: string, digest: DigestFrequency) => {
+  db().prepare('UPDATE users SET digest = ? WHERE id = ?').run(digest, userId);
+};
+
+// Users whose digest is due: nothing sent yet, or the last one is older than their interval.
+export const usersDueForDigest = (now: Date) =>
+  db()
+    .prepare(
+      `SELECT id, email, name, digest FROM users
+       WHERE (digest = 'daily' AND (last_digest_at IS NULL OR last_digest_at <= @day))
+          OR (digest = 'weekly' AND (last_digest_at IS NULL OR last_digest_at <= @week))`
+    )
+    .all({
+      day: new Date(now.getTime() - 24 * 60 * 60 * 1000).toISOString(),
+      week: new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000).toISOString(),
+    }) as { id: string; email: string; name: string; digest: DigestFrequency }[];
+
+// Unread notifications not yet included in any email.
+export const pendingForDigest = (userId: string): AppNotification[] =>
+  (
+    db()
+      .prepare(
+        `SELECT * FROM notifications WHERE ${RECIPIENT} AND read_at IS NULL AND emailed_at IS NULL ORDER BY created_at`
+      )
+      .all(userId, sealedIdsFor(userId)) as NotificationRow[]
+  ).map(toNotification);
+
+export const markDigestSent = (userId: string, ids: number[], now: Date) => {
+  const conn = db();
+  conn.transaction(() => {
+    conn
+      .prepare('UPDATE notifications SET emailed_at = ? WHERE id IN (SELECT value FROM json_each(?))')
+      .run(now.toISOString(), JSON.stringify(ids));
+    conn.prepare('UPDATE users SET last_digest_at = ? WHERE id = ?').run(now.toISOString(), userId);
+  })();
+};
@@ -0,0 +1,485 @@
+import { SIGNATURE_MILESTONES } from '../../constants';
+import { db } from '../db';
+import { authorOf, setAuthor } from './authors';
+import { listHistory, recordEvent, toEvent, type Actor, type HistoryRow } from './history';
+import { moveSubscriptions, notifySubscribers } from './notifications';
+import { GRADUATED_CLASS } from './roster';
+import { gradeOf } from './users';
+import { getWorkflow } from './workflow';
+import type {
+  Proposal,
+  ProposalEvent,
+  ProposalReview,
+  ProposalStatus,
+  PetitionSigner,
+  RuleReference,
+  Signature,
+  SignatureVisibility,
+  VoteCounts,
+  VoteStance,
+  VoteTally,
+} from '../../types';
+
+interface ProposalRow {
+  id: number;
+  title: string;
+  content: string;
+  category: string;
+  status: ProposalStatus;
+  admin_response: string;
+  created_at: string;
+  rules_version: number | null;
+  merged_into: number | null;
+  withdrawn_at: string | null;
+  hidden_at: string | null;
+  removed_at: string | null;
+  redacted_at: string | null;
+  signature_visibility: SignatureVisibility;
+}
+
+interface SignatureRow {
+  proposal_id: number;
+  user_id: string;
+  user_name: string;
+  stance: VoteStance;
+  created_at: string;
+  // Joined from users for the tally
+  class: string | null;
+}
+
+interface RuleRefRow {
+  proposal_id: number;
+  section: number;
+  title: string;
+  clause: string | null;
+  quote: string;
+}
+
+interface ReviewRow {
+  proposal_id: number;
+  reached_at: string;
+  due_at: string;
+  resolved_at: string | null;
+}
+
+const toSignature = (row: SignatureRow): Signature => ({
+  userId: row.user_id,
+  userName: row.user_name,
+  timestamp: row.created_at,
+});
+
+const emptyCounts = (): VoteCounts => ({ support: 0, oppose: 0, neutral: 0 });
+
+// Grade and class come from the voter's current account, like the signature thresholds.
+const toTally = (rows: SignatureRow[]): VoteTally => {
+  const tally: VoteTally = { ...emptyCounts(), byGrade: {}, byClass: {} };
+  rows.forEach(row => {
+    const grade = String(gradeOf(row.class ?? undefined) ?? '');
+    const className = row.class ?? '';
+    tally[row.stance]++;
+    (tally.byGrade[grade] ??= emptyCounts())[row.stance]++;
+    (tally.byClass[className] ??= emptyCounts())[row.stance]++;
+  });
+  return tally;
+};
+
+const toRuleRef = (row: RuleRefRow): RuleReference => ({
+  section: row.section,
+  title: row.title,
+  clause: row.clause ?? undefined,
+  quote: row.quote,
+});
+
+const groupByProposal = <R extends { proposal_id: number }, T>(rows: R[], map: (row: R) => T) => {
+  const grouped = new Map<number, T[]>();
+  rows.forEach(row => {
+    const list = grouped.get(row.proposal_id) ?? [];
+    list.push(map(row));
+    grouped.set(row.proposal_id, list);
+  });
+  return grouped;
+};
+
+const toProposal = (
+  row: ProposalRow,
+  votes: SignatureRow[],
+  ruleRefs: RuleReference[],
+  history: ProposalEvent[],
+  review: ProposalReview | undefined
+): Proposal => ({
+  id: row.id,
+  title: row.title,
+  content: row.content,
+  category: row.category,
+  status: row.status,
+  adminResponse: row.admin_response,
+  timestamp: row.created_at,
+  signatures: votes.filter(v => v.stance === 'support').map(toSignature),
+  signatureVisibility: row.signature_visibility,
+  votes: toTally(votes),
+  rulesVersion: row.rules_version ?? undefined,
+  ruleRefs,
+  mergedInto: row.merged_into ?? undefined,
+  withdrawnAt: row.withdrawn_at ?? undefined,
+  hiddenAt: row.hidden_at ?? undefined,
+  removedAt: row.removed_at ?? undefined,
+  redactedAt: row.redacted_at ?? undefined,
+  history,
+  review,
+});
+
+// Loads the child rows for a batch of proposals in one query per table.
+const hydrate = (rows: ProposalRow[]): Proposal[] => {
+  const ids = JSON.stringify(rows.map(r => r.id));
+  const votes = groupByProposal(
+    db()
+      .prepare(
+        `SELECT s.*, u.class FROM signatures s LEFT JOIN users u ON u.id = s.user_id
+         WHERE s.proposal_id IN (SELECT value FROM json_each(?)) ORDER BY s.created_at`
+      )
+      .all(ids) as SignatureRow[],
+    row => row
+  );
+  const ruleRefs = groupByProposal(
+    db()
+      .prepare('SELECT * FROM proposal_rule_refs WHERE proposal_id IN (SELECT value FROM json_each(?)) ORDER BY section')
+      .all(ids) as RuleRefRow[],
+    toRuleRef
+  );
+  const history = groupByProposal(listHistory(rows.map(r => r.id)), toEvent);
+  const reviews = groupByProposal(
+    db()
+      .prepare('SELECT * FROM proposal_reviews WHERE proposal_id IN (SELECT value FROM json_each(?))')
+      .all(ids) as ReviewRow[],
+    (row): ProposalReview => ({
+      reachedAt: row.reached_at,
+      dueAt: row.due_at,
+      resolvedAt: row.resolved_at ?? undefined,
+    })
+  );
+  return rows.map(r =>
+    toProposal(
+      r,
+      votes.get(r.id) ?? [],
+      ruleRefs.get(r.id) ?? [],
+      history.get(r.id) ?? [],
+      reviews.get(r.id)?.[0]
+    )
+  );
+};
+
+// Merged, withdrawn, hidden and removed proposals stay reachable by ID but drop out of listings.
+export const listProposals = (): Proposal[] =>
+  hydrate(
+    db()
+      .prepare(
+        `SELECT * FROM proposals
+         WHERE merged_into IS NULL AND withdrawn_at IS NULL AND hidden_at IS NULL AND removed_at IS NULL
+         ORDER BY created_at DESC`
+      )
+      .all() as ProposalRow[]
+  );
+
+export const getProposals = (ids: number[]): Proposal[] =>
+  hydrate(
+    db()
+      .prepare('SELECT * FROM proposals WHERE id IN (SELECT value FROM json_each(?)) ORDER BY created_at DESC')
+      .all(JSON.stringify(ids)) as ProposalRow[]
+  );
+
+export const getProposal = (id: number): Proposal | undefined => {
+  const row = db().prepare('SELECT * FROM proposals WHERE id = ?').get(id) as ProposalRow | undefined;
+  return row && hydrate([row])[0];
+};
+
+// From the most open to the strictest
+export const SIGNATURE_VISIBILITIES: SignatureVisibility[] = ['public', 'staff', 'count'];
+
+const stricter = (a: SignatureVisibility, b: SignatureVisibility) =>
+  SIGNATURE_VISIBILITIES.indexOf(a) >= SIGNATURE_VISIBILITIES.indexOf(b) ? a : b;
+
+type ProposalText = {
+  title: string;
+  content: string;
+  category: string;
+  rulesVersion?: number;
+  ruleRefs?: RuleReference[];
+};
+
+const insertRuleRefs = (proposalId: number | bigint, ruleRefs: RuleReference[] = []) => {
+  const insertRef = db().prepare(
+    'INSERT INTO proposal_rule_refs (proposal_id, section, title, clause, quote) VALUES (?, ?, ?, ?, ?)'
+  );
+  ruleRefs.forEach(r => insertRef.run(proposalId, r.section, r.title, r.clause ?? null, r.quote));
+};
+
+// `authorId` is stored sealed (see authors.ts); the proposal itself stays anonymous.
+export const createProposal = (
+  input: ProposalText & { authorId: string; signatureVisibility: SignatureVisibility }
+): Proposal => {
+  const conn = db();
+  const { initial } = getWorkflow();
+  const id = conn.transaction(() => {
+    const result = conn
+      .prepare(
+        `INSERT INTO proposals (title, content, category, status, rules_version, signature_visibility, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        input.title,
+        input.content,
+        input.category,
+        initial,
+        input.rulesVersion ?? null,
+        input.signatureVisibility,
+        new Date().toISOString()
+      );
+    insertRuleRefs(result.lastInsertRowid, input.ruleRefs);
+    const id = Number(result.lastInsertRowid);
+    setAuthor(id, input.authorId);
+    recordEvent(id, 'created', { to: initial }, null);
+    return id;
+  })();
+  return getProposal(id)!;
+};
+
+// The author's revision after a fresh AI check. Rule references are replaced by the new check's.
+export const editProposal = (id: number, input: ProposalText) => {
+  const conn = db();
+  conn.transaction(() => {
+    const row = conn.prepare('SELECT * FROM proposals WHERE id = ?').get(id) as ProposalRow;
+    conn
+      .prepare('UPDATE proposals SET title = ?, content = ?, category = ?, rules_version = ? WHERE id = ?')
+      .run(input.title, input.content, input.category, input.rulesVersion ?? null, id);
+    conn.prepare('DELETE FROM proposal_rule_refs WHERE proposal_id = ?').run(id);
+    insertRuleRefs(id, input.ruleRefs);
+    recordEvent(
+      id,
+      'edited',
+      { from: `${row.title}\n${row.content}`, to: `${input.title}\n${input.content}` },
+      null
+    );
+    notifySubscribers(
+      id,
+      { type: 'edited', title: `「${input.title}」の内容が投稿者により編集されました`, body: '' },
+      authorOf(id)
+    );
+  })();
+  return getProposal(id);
+};
+
+export const withdrawProposal = (id: number, reason?: string) => {
+  const conn = db();
+  conn.transaction(() => {
+    const row = conn.prepare('SELECT * FROM proposals WHERE id = ?').get(id) as ProposalRow;
+    conn.prepare('UPDATE proposals SET withdrawn_at = ? WHERE id = ?').run(new Date().toISOString(), id);
+    recordEvent(id, 'withdrawn', { from: row.status, note: reason }, null);
+    notifySubscribers(
+      id,
+      { type: 'withdrawn', title: `「${row.title}」は投稿者により取り下げられました`, body: reason ?? '' },
+      authorOf(id)
+    );
+  })();
+  return getProposal(id);
+};
+
+// Logged like other changes; `actor` is null when the anonymous author made it.
+export const setSignatureVisibility = (id: number, visibility: SignatureVisibility, actor: Actor | null) => {
+  const conn = db();
+  conn.transaction(() => {
+    const row = conn.prepare('SELECT * FROM proposals WHERE id = ?').get(id) as ProposalRow;
+    if (row.signature_visibility === visibility) return;
+    conn.prepare('UPDATE proposals SET signature_visibility = ? WHERE id = ?').run(visibility, id);
+    recordEvent(id, 'visibility', { from: row.signature_visibility, to: visibility }, actor);
+  })();
+  return getProposal(id);
+};
+
+// Only fields that actually change are written, logged and sent to followers, so re-saving the
+// same values leaves no trace. A non-empty response settles a pending review.
+export const updateProposal = (
+  id: number,
+  changes: { status?: ProposalStatus; reason?: string; adminResponse?: string },
+  actor: Actor
+) => {
+  const conn = db();
+  conn.transaction(() => {
+    const row = conn.prepare('SELECT * FROM proposals WHERE id = ?').get(id) as ProposalRow | undefined;
+    if (!row) return;
+    if (changes.status !== undefined && changes.status !== row.status) {
+      conn.prepare('UPDATE proposals SET status = ? WHERE id = ?').run(changes.status, id);
+      recordEvent(id, 'status', { from: row.status, to: changes.status, note: changes.reason }, actor);
+      notifySubscribers(
+        id,
+        { type: 'status', title: `「${row.title}」が「${changes.status}」になりました`, body: changes.reason ?? '' },
+        actor.id
+      );
+    }
+    if (changes.adminResponse !== undefined && changes.adminResponse !== row.admin_response) {
+      conn.prepare('UPDATE proposals SET admin_response = ? WHERE id = ?').run(changes.adminResponse, id);
+      recordEvent(id, 'response', { from: row.admin_response, to: changes.adminResponse }, actor);
+      if (changes.adminResponse.trim()) {
+        notifySubscribers(
+          id,
+          { type: 'response', title: `「${row.title}」に生徒会からコメントがありました`, body: changes.adminResponse },
+          actor.id
+        );
+        conn
+          .prepare('UPDATE proposal_reviews SET resolved_at = ? WHERE proposal_id = ? AND resolved_at IS NULL')
+          .run(new Date().toISOString(), id);
+      }
+    }
+  })();
+  return getProposal(id);
+};
+
+// Puts the proposal in the admin review queue; a proposal enters it at most once.
+export const startReview = (id: number, dueAt: string) => {
+  db()
+    .prepare('INSERT OR IGNORE INTO proposal_reviews (proposal_id, reached_at, due_at) VALUES (?, ?, ?)')
+    .run(id, new Date().toISOString(), dueAt);
+};
+
+// Supporters for a petition export, oldest first. Verified means the account is on the roster as
+// a current student; graduates are not.
+export const petitionSigners = (proposalId: number): Required<PetitionSigner>[] =>
+  (
+    db()
+      .prepare(
+        `SELECT s.user_name, s.created_at, u.class,
+           EXISTS (SELECT 1 FROM roster r WHERE r.email = u.email AND r.graduated_at IS NULL) AS verified
+         FROM signatures s LEFT JOIN users u ON u.id = s.user_id
+         WHERE s.proposal_id = ? AND s.stance = 'support'
+         ORDER BY s.created_at`
+      )
+      .all(proposalId) as { user_name: string; created_at: string; class: string | null; verified: number }[]
+  ).map(r => ({ name: r.user_name, class: r.class ?? '', verified: r.verified === 1, signedAt: r.created_at }));
+
+// Class of each student supporting a proposal, for thresholds; undefined when the signer has no
+// account row. Oppose and neutral votes never count, and neither do students who have graduated.
+export const signerClasses = (proposalId: number): (string | undefined)[] =>
+  (
+    db()
+      .prepare(
+        `SELECT u.class FROM signatures s LEFT JOIN users u ON u.id = s.user_id
+         WHERE s.proposal_id = ? AND s.stance = 'support' AND u.class IS NOT ?`
+      )
+      .all(proposalId, GRADUATED_CLASS) as { class: string | null }[]
+  ).map(r => r.class ?? undefined);
+
+export const votesByUser = (userId: string): Record<number, VoteStance> =>
+  Object.fromEntries(
+    (
+      db().prepare('SELECT proposal_id, stance FROM signatures WHERE user_id = ?').all(userId) as {
+        proposal_id: number;
+        stance: VoteStance;
+      }[]
+    ).map(r => [r.proposal_id, r.stance])
+  );
+
+// Records or changes the user's vote. Switching stance keeps the original vote time.
+export const castVote = (proposalId: number, userId: string, userName: string, stance: VoteStance) => {
+  const previous = db()
+    .prepare('SELECT stance FROM signatures WHERE proposal_id = ? AND user_id = ?')
+    .get(proposalId, userId) as { stance: VoteStance } | undefined;
+  db()
+    .prepare(
+      `INSERT INTO signatures (proposal_id, user_id, user_name, stance, created_at) VALUES (?, ?, ?, ?, ?)
+       ON CONFLICT (proposal_id, user_id) DO UPDATE SET stance = excluded.stance`
+    )
+    .run(proposalId, userId, userName, stance, new Date().toISOString());
+  const proposal = getProposal(proposalId);
+  const newSupporter = stance === 'support' && previous?.stance !== 'support';
+  if (proposal && newSupporter && SIGNATURE_MILESTONES.includes(proposal.signatures.length)) {
+    notifySubscribers(
+      proposalId,
+      { type: 'milestone', title: `「${proposal.title}」の賛同が${proposal.signatures.length}人になりました`, body: '' },
+      userId
+    );
+  }
+  return proposal;
+};
+
+export const removeVote = (proposalId: number, userId: string) => {
+  db().prepare('DELETE FROM signatures WHERE proposal_id = ? AND user_id = ?').run(proposalId, userId);
+  return getProposal(proposalId);
+};
+
+// --- Moderation (see reports.ts) ---
+
+export const setProposalHidden = (id: number, hidden: boolean) => {
+  db().prepare('UPDATE proposals SET hidden_at = ? WHERE id = ?').run(hidden ? new Date().toISOString() : null, id);
+};
+
+export const removeProposal = (id: number) => {
+  db().prepare('UPDATE proposals SET removed_at = ? WHERE id = ?').run(new Date().toISOString(), id);
+};
+
+// Replaces the text in place; unlike an author's edit this leaves no public history event,
+// since that would repeat what was blacked out. For the same reason the versions kept by past
+// edits read as masked from now on (see listHistory) and notifications quoting an old title get
+// the new one. The moderation log keeps the originals.
+export const redactProposal = (id: number, text: { title: string; content: string }) => {
+  const conn = db();
+  conn.transaction(() => {
+    const row = conn.prepare('SELECT * FROM proposals WHERE id = ?').get(id) as ProposalRow;
+    const versions = conn
+      .prepare(`SELECT from_value, to_value FROM proposal_history WHERE proposal_id = ? AND type = 'edited'`)
+      .all(id) as Pick<HistoryRow, 'from_value' | 'to_value'>[];
+    const titles = new Set(
+      [row.title, ...versions.flatMap(v => [v.from_value, v.to_value]).map(value => value?.split('\n')[0])].filter(
+        (title): title is string => !!title && title !== text.title
+      )
+    );
+    conn
+      .prepare('UPDATE proposals SET title = ?, content = ?, redacted_at = ? WHERE id = ?')
+      .run(text.title, text.content, new Date().toISOString(), id);
+    // Titles are quoted as 「…」; report notices for staff name the proposal in the body
+    const retitle = conn.prepare(
+      `UPDATE notifications SET
+         title = replace(title, @quoted, @newQuoted),
+         body = CASE WHEN type = 'report' THEN replace(body, @title, @newTitle) ELSE body END
+       WHERE proposal_id = @id`
+    );
+    titles.forEach(title =>
+      retitle.run({ id, title, newTitle: text.title, quoted: `「${title}」`, newQuoted: `「${text.title}」` })
+    );
+  })();
+};
+
+// Moves votes and rule references from `sourceId` into `targetId`. A student who voted on
+// both keeps a single vote (the stance on the target, dated from the earlier one). The target
+// takes the stricter signature visibility, so no signer's name becomes more visible.
+export const mergeProposals = (sourceId: number, targetId: number, actor: Actor) => {
+  const conn = db();
+  conn.transaction(() => {
+    const visibilityOf = (id: number) =>
+      (conn.prepare('SELECT signature_visibility FROM proposals WHERE id = ?').get(id) as ProposalRow)
+        .signature_visibility;
+    setSignatureVisibility(targetId, stricter(visibilityOf(sourceId), visibilityOf(targetId)), actor);
+    conn
+      .prepare(
+        `INSERT INTO signatures (proposal_id, user_id, user_name, stance, created_at)
+         SELECT ?, user_id, user_name, stance, created_at FROM signatures WHERE proposal_id = ?
+         ON CONFLICT (proposal_id, user_id) DO UPDATE SET created_at = MIN(created_at, excluded.created_at)`
+      )
+      .run(targetId, sourceId);
+    conn.prepare('DELETE FROM signatures WHERE proposal_id = ?').run(sourceId);
+    conn
+      .prepare(
+        `INSERT INTO proposal_rule_refs (proposal_id, section, title, clause, quote)
+         SELECT ?, section, title, clause, quote FROM proposal_rule_refs s
+         WHERE s.proposal_id = ? AND NOT EXISTS (
+           SELECT 1 FROM proposal_rule_refs t
+           WHERE t.proposal_id = ? AND t.section = s.section AND t.clause IS s.clause
+         )`
+      )
+      .run(targetId, sourceId, targetId);
+    conn.prepare('UPDATE proposals SET merged_into = ? WHERE id = ?').run(targetId, sourceId);
+    moveSubscriptions(sourceId, targetId);
+    const ids = { from: String(sourceId), to: String(targetId) };
+    recordEvent(sourceId, 'merged', ids, actor);
+    recordEvent(targetId, 'merged', ids, actor);
+  })();
+  return getProposal(targetId);
+};
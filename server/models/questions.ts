@@ -0,0 +1,35 @@
+import { db } from '../db';
+import type { ProposalQuestion } from '../../types';
+
+interface QuestionRow {
+  id: number;
+  proposal_id: number;
+  sender: ProposalQuestion['sender'];
+  sender_name: string | null;
+  body: string;
+  created_at: string;
+}
+
+const toQuestion = (row: QuestionRow): ProposalQuestion => ({
+  id: row.id,
+  sender: row.sender,
+  senderName: row.sender_name ?? undefined,
+  body: row.body,
+  timestamp: row.created_at,
+});
+
+export const listQuestions = (proposalId: number): ProposalQuestion[] =>
+  (
+    db().prepare('SELECT * FROM proposal_questions WHERE proposal_id = ? ORDER BY created_at, id').all(proposalId) as QuestionRow[]
+  ).map(toQuestion);
+
+// Author messages never store a name.
+export const addQuestion = (
+  proposalId: number,
+  input: { sender: ProposalQuestion['sender']; senderName?: string; body: string }
+) => {
+  db()
+    .prepare('INSERT INTO proposal_questions (proposal_id, sender, sender_name, body, created_at) VALUES (?, ?, ?, ?, ?)')
+    .run(proposalId, input.sender, input.sender === 'council' ? input.senderName ?? null : null, input.body, new Date().toISOString());
+  return listQuestions(proposalId);
+};
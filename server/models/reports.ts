@@ -0,0 +1,159 @@
+import { config } from '../config';
+import { db } from '../db';
+import { getComment, hideComment } from './comments';
+import { notifyStaff } from './notifications';
+import { getProposal, setProposalHidden } from './proposals';
+import type {
+  ModerationAction,
+  ModerationActionType,
+  ReportedItem,
+  ReportReason,
+  ReportTargetType,
+  User,
+} from '../../types';
+
+interface ActionRow {
+  id: number;
+  target_type: ReportTargetType;
+  target_id: number;
+  action: ModerationActionType;
+  note: string | null;
+  before: string | null;
+  after: string | null;
+  actor_name: string;
+  created_at: string;
+}
+
+interface OpenReportRow {
+  target_type: ReportTargetType;
+  target_id: number;
+  reason: ReportReason;
+  detail: string | null;
+  created_at: string;
+}
+
+export const AUTO_HIDE_ACTOR = '自動（通報）';
+
+const toAction = (row: ActionRow): ModerationAction => ({
+  id: row.id,
+  targetType: row.target_type,
+  targetId: row.target_id,
+  action: row.action,
+  note: row.note ?? undefined,
+  before: row.before ?? undefined,
+  after: row.after ?? undefined,
+  actorName: row.actor_name,
+  timestamp: row.created_at,
+});
+
+// --- Audit log ---
+
+// Every moderation change goes through here; the log is append-only.
+export const logAction = (
+  targetType: ReportTargetType,
+  targetId: number,
+  action: ModerationActionType,
+  details: { note?: string; before?: string; after?: string },
+  actorName: string
+) => {
+  db()
+    .prepare(
+      `INSERT INTO moderation_actions (target_type, target_id, action, note, before, after, actor_name, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+    .run(targetType, targetId, action, details.note ?? null, details.before ?? null, details.after ?? null, actorName, new Date().toISOString());
+};
+
+export const listActions = (limit = 200): ModerationAction[] =>
+  (db().prepare('SELECT * FROM moderation_actions ORDER BY created_at DESC, id DESC LIMIT ?').all(limit) as ActionRow[]).map(toAction);
+
+// --- Reports ---
+
+const openReportCount = (targetType: ReportTargetType, targetId: number) =>
+  (
+    db()
+      .prepare('SELECT COUNT(*) AS n FROM reports WHERE target_type = ? AND target_id = ? AND resolved_at IS NULL')
+      .get(targetType, targetId) as { n: number }
+  ).n;
+
+// Records one student's report and hides the target once enough students have reported it.
+// Returns false when this student had already reported it.
+export const fileReport = (
+  target: { type: ReportTargetType; id: number; title: string },
+  user: User,
+  reason: ReportReason,
+  detail?: string
+) => {
+  const { changes } = db()
+    .prepare(
+      `INSERT INTO reports (target_type, target_id, user_id, reason, detail, created_at) VALUES (?, ?, ?, ?, ?, ?)
+       ON CONFLICT (target_type, target_id, user_id) DO UPDATE SET
+         reason = excluded.reason, detail = excluded.detail, created_at = excluded.created_at, resolved_at = NULL
+       WHERE resolved_at IS NOT NULL`
+    )
+    .run(target.type, target.id, user.id, reason, detail ?? null, new Date().toISOString());
+  if (changes === 0) return false;
+
+  if (openReportCount(target.type, target.id) >= config.reportHideThreshold && !isHidden(target.type, target.id)) {
+    const note = `通報が${config.reportHideThreshold}件に達しました`;
+    if (target.type === 'proposal') setProposalHidden(target.id, true);
+    else hideComment(target.id, '通報を受けて確認中です', AUTO_HIDE_ACTOR);
+    logAction(target.type, target.id, 'auto_hidden', { note }, AUTO_HIDE_ACTOR);
+    notifyStaff('moderate', {
+      type: 'report',
+      proposalId: target.type === 'proposal' ? target.id : undefined,
+      title: `通報により${target.type === 'proposal' ? '意見' : 'コメント'}を非表示にしました`,
+      body: `${target.title}（${note}）`,
+    });
+  }
+  return true;
+};
+
+const isHidden = (targetType: ReportTargetType, targetId: number) =>
+  targetType === 'proposal' ? !!getProposal(targetId)?.hiddenAt : !!getComment(targetId)?.hidden;
+
+// Closes the open reports once an admin has acted on the target.
+export const resolveReports = (targetType: ReportTargetType, targetId: number) => {
+  db()
+    .prepare('UPDATE reports SET resolved_at = ? WHERE target_type = ? AND target_id = ? AND resolved_at IS NULL')
+    .run(new Date().toISOString(), targetType, targetId);
+};
+
+// Targets with open reports, plus anything still hidden after reports, most reported first.
+// Reporters are never listed.
+export const listReportedItems = (admin: User): ReportedItem[] => {
+  const rows = db()
+    .prepare('SELECT target_type, target_id, reason, detail, created_at FROM reports WHERE resolved_at IS NULL ORDER BY created_at')
+    .all() as OpenReportRow[];
+  const items = new Map<string, ReportedItem>();
+  rows.forEach(row => {
+    const key = `${row.target_type}:${row.target_id}`;
+    let item = items.get(key);
+    if (!item) {
+      const base = describeTarget(row.target_type, row.target_id, admin);
+      if (!base) return;
+      item = { ...base, reportCount: 0, reasons: {}, details: [], lastReportedAt: row.created_at };
+      items.set(key, item);
+    }
+    item.reportCount++;
+    item.reasons[row.reason] = (item.reasons[row.reason] ?? 0) + 1;
+    if (row.detail) item.details.push(row.detail);
+    item.lastReportedAt = row.created_at;
+  });
+  return [...items.values()].sort((a, b) => Number(b.hidden) - Number(a.hidden) || b.reportCount - a.reportCount);
+};
+
+const describeTarget = (
+  targetType: ReportTargetType,
+  targetId: number,
+  admin: User
+): Pick<ReportedItem, 'targetType' | 'targetId' | 'proposalId' | 'title' | 'body' | 'hidden'> | undefined => {
+  if (targetType === 'proposal') {
+    const proposal = getProposal(targetId);
+    if (!proposal || proposal.removedAt) return undefined;
+    return { targetType, targetId, proposalId: proposal.id, title: proposal.title, body: proposal.content, hidden: !!proposal.hiddenAt };
+  }
+  const comment = getComment(targetId, admin);
+  if (!comment || comment.removed) return undefined;
+  return { targetType, targetId, proposalId: comment.proposalId, body: comment.body, hidden: comment.hidden };
+};
@@ -0,0 +1,172 @@
+import { GRADES } from '../../constants';
+import { STUDENT_ROLES } from '../../permissions';
+import { db } from '../db';
+import { getUser, listUsers } from './users';
+import type { Roster, RosterEntry, RosterImportResult, RosterPromotionResult, User } from '../../types';
+
+interface RosterRow {
+  student_id: string;
+  name: string;
+  grade: number;
+  class_name: string;
+  email: string;
+  graduated_at: string | null;
+  updated_at: string;
+}
+
+export interface RosterInput {
+  studentId: string;
+  name: string;
+  grade: number;
+  // Homeroom within the grade, e.g. "A" or "2組"
+  className: string;
+  email: string;
+}
+
+export const UNASSIGNED_CLASS = '未設定';
+export const GRADUATED_CLASS = '卒業';
+
+const toEntry = (row: RosterRow & { has_account: number }): RosterEntry => ({
+  studentId: row.student_id,
+  name: row.name,
+  grade: row.grade,
+  class: `${row.grade}-${row.class_name}`,
+  email: row.email,
+  graduated: row.graduated_at !== null,
+  hasAccount: row.has_account === 1,
+});
+
+// April to March, named after the year it starts in (school time zone).
+export const schoolYearOf = (time: number) => {
+  const [year, month] = new Date(time).toLocaleDateString('sv-SE', { timeZone: 'Asia/Tokyo' }).split('-').map(Number);
+  return month >= 4 ? year : year - 1;
+};
+
+// Copies the class from the roster onto the matching accounts, so ballots, thresholds and analytics
+// keep reading users.class. Students the roster does not know lose any class they had; staff who
+// were students keep no placeholder.
+const syncClasses = (userId?: string) => {
+  db()
+    .prepare(
+      `UPDATE users SET class = COALESCE(
+         (SELECT CASE WHEN r.graduated_at IS NULL THEN r.grade || '-' || r.class_name ELSE @graduated END
+          FROM roster r WHERE r.email = users.email),
+         CASE
+           WHEN role IN (SELECT value FROM json_each(@studentRoles)) THEN @unassigned
+           WHEN class = @unassigned THEN NULL
+           ELSE class
+         END)
+       WHERE @userId IS NULL OR id = @userId`
+    )
+    .run({
+      graduated: GRADUATED_CLASS,
+      unassigned: UNASSIGNED_CLASS,
+      studentRoles: JSON.stringify(STUDENT_ROLES),
+      userId: userId ?? null,
+    });
+};
+
+// Called on every sign-in: the account's class follows its roster entry.
+export const matchRoster = (userId: string): User => {
+  syncClasses(userId);
+  return getUser(userId)!;
+};
+
+export const getRoster = (): Roster => {
+  const rows = db()
+    .prepare(
+      `SELECT r.*, EXISTS (SELECT 1 FROM users u WHERE u.email = r.email) AS has_account
+       FROM roster r
+       ORDER BY r.graduated_at IS NOT NULL, r.grade, r.class_name, r.student_id`
+    )
+    .all() as (RosterRow & { has_account: number })[];
+  const entries = rows.map(toEntry);
+  const enrolled = new Set(entries.filter(e => !e.graduated).map(e => e.email));
+  const schoolYear = schoolYearOf(Date.now());
+  return {
+    entries,
+    unmatched: listUsers().filter(u => STUDENT_ROLES.includes(u.role) && !enrolled.has(u.email!)),
+    schoolYear,
+    promotedThisYear: !!db().prepare('SELECT 1 FROM roster_promotions WHERE school_year = ?').get(schoolYear),
+  };
+};
+
+// Student ID currently registered under this email, if any.
+export const rosterIdForEmail = (email: string): string | undefined =>
+  (db().prepare('SELECT student_id FROM roster WHERE email = ?').get(email) as { student_id: string } | undefined)
+    ?.student_id;
+
+// Adds new students and updates known ones by student ID. Students missing from the file are kept;
+// a graduate who appears again is enrolled again.
+export const importRoster = (inputs: RosterInput[]): RosterImportResult => {
+  const conn = db();
+  const result: RosterImportResult = { added: 0, updated: 0, unchanged: 0 };
+  const now = new Date().toISOString();
+  conn.transaction(() => {
+    for (const input of inputs) {
+      const row = conn.prepare('SELECT * FROM roster WHERE student_id = ?').get(input.studentId) as RosterRow | undefined;
+      if (!row) {
+        conn
+          .prepare(
+            `INSERT INTO roster (student_id, name, grade, class_name, email, updated_at)
+             VALUES (@studentId, @name, @grade, @className, @email, @now)`
+          )
+          .run({ ...input, now });
+        result.added++;
+      } else if (
+        row.name === input.name &&
+        row.grade === input.grade &&
+        row.class_name === input.className &&
+        row.email === input.email &&
+        row.graduated_at === null
+      ) {
+        result.unchanged++;
+      } else {
+        conn
+          .prepare(
+            `UPDATE roster SET name = @name, grade = @grade, class_name = @className, email = @email,
+               graduated_at = NULL, updated_at = @now
+             WHERE student_id = @studentId`
+          )
+          .run({ ...input, now });
+        result.updated++;
+      }
+    }
+    syncClasses();
+  })();
+  return result;
+};
+
+// Start-of-year promotion: everyone moves up a grade and the top grade graduates. Homerooms are
+// kept until the new year's class list is imported. Runs once per school year; undefined if it
+// already has.
+export const promoteRoster = (promotedBy: string): RosterPromotionResult | undefined => {
+  const conn = db();
+  const schoolYear = schoolYearOf(Date.now());
+  const now = new Date().toISOString();
+  return conn.transaction(() => {
+    if (conn.prepare('SELECT 1 FROM roster_promotions WHERE school_year = ?').get(schoolYear)) return undefined;
+    const topGrade = Math.max(...GRADES);
+    const graduated = conn
+      .prepare('UPDATE roster SET graduated_at = ?, updated_at = ? WHERE graduated_at IS NULL AND grade >= ?')
+      .run(now, now, topGrade).changes;
+    const promoted = conn
+      .prepare('UPDATE roster SET grade = grade + 1, updated_at = ? WHERE graduated_at IS NULL')
+      .run(now).changes;
+    conn
+      .prepare('INSERT INTO roster_promotions (school_year, promoted_by, promoted_at) VALUES (?, ?, ?)')
+      .run(schoolYear, promotedBy, now);
+    syncClasses();
+    return { promoted, graduated };
+  })();
+};
+
+// For students who transfer out. Their account stays but is no longer matched.
+export const removeRosterEntry = (studentId: string): boolean => {
+  const conn = db();
+  return conn.transaction(() => {
+    const removed = conn.prepare('DELETE FROM roster WHERE student_id = ?').run(studentId).changes > 0;
+    if (removed) syncClasses();
+    return removed;
+  })();
+};
@@ -0,0 +1,95 @@
+import { db } from '../db';
+import type { RuleReference, RuleSet, SchoolRule } from '../../types';
+
+interface RuleRow {
+  version: number;
+  section: number;
+  title: string;
+  body: string;
+  effective_date: string;
+  deleted: number;
+  updated_by: string;
+  updated_at: string;
+}
+
+const toRule = (row: RuleRow): SchoolRule => ({
+  section: row.section,
+  title: row.title,
+  body: row.body,
+  effectiveDate: row.effective_date,
+  version: row.version,
+  updatedAt: row.updated_at,
+  updatedBy: row.updated_by,
+});
+
+export const currentRulesVersion = (): number =>
+  (db().prepare('SELECT COALESCE(MAX(version), 0) AS v FROM school_rules').get() as { v: number }).v;
+
+// The rule set as it stood at `version` (default: latest): newest revision of each section, minus deletions.
+export const getRuleSet = (version = currentRulesVersion()): RuleSet => {
+  const rows = db()
+    .prepare(
+      `SELECT r.* FROM school_rules r
+       JOIN (SELECT section, MAX(version) AS version FROM school_rules WHERE version <= ? GROUP BY section) latest
+         ON latest.section = r.section AND latest.version = r.version
+       WHERE r.deleted = 0
+       ORDER BY r.section`
+    )
+    .all(version) as RuleRow[];
+  return { version, rules: rows.map(toRule) };
+};
+
+const insertRevision = (
+  section: number,
+  fields: { title: string; body: string; effectiveDate: string; deleted: boolean },
+  updatedBy: string
+): RuleSet => {
+  const conn = db();
+  return conn.transaction(() => {
+    const version = currentRulesVersion() + 1;
+    conn
+      .prepare(
+        `INSERT INTO school_rules (version, section, title, body, effective_date, deleted, updated_by, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(version, section, fields.title, fields.body, fields.effectiveDate, fields.deleted ? 1 : 0, updatedBy, new Date().toISOString());
+    return getRuleSet(version);
+  })();
+};
+
+export const saveRule = (
+  section: number,
+  input: { title: string; body: string; effectiveDate: string },
+  updatedBy: string
+) => insertRevision(section, { ...input, deleted: false }, updatedBy);
+
+export const deleteRule = (rule: SchoolRule, updatedBy: string) =>
+  insertRevision(rule.section, { ...rule, deleted: true }, updatedBy);
+
+// Builds a citation with the quoted rule text: the line mentioning the clause if there is one,
+// otherwise the whole section. Returns undefined for sections not in the rule set.
+export const resolveRuleReference = (ruleSet: RuleSet, section: number, clause?: string): RuleReference | undefined => {
+  const rule = ruleSet.rules.find(r => r.section === section);
+  if (!rule) return undefined;
+  const cleanClause = clause?.trim() || undefined;
+  const line = cleanClause && rule.body.split('\n').find(l => l.includes(cleanClause));
+  return {
+    section: rule.section,
+    title: rule.title,
+    clause: cleanClause,
+    quote: (line || rule.body).replace(/^-\s*/, ''),
+  };
+};
+
+const FULLWIDTH_DIGITS = '０１２３４５６７８９';
+const toFullWidth = (n: number) => String(n).replace(/\d/g, d => FULLWIDTH_DIGITS[Number(d)]);
+
+// Formats the rule set the way the AI prompt has always presented it.
+export const formatRulesForPrompt = (ruleSet: RuleSet) =>
+  [
+    `現在の学校のきまり（校則・第${ruleSet.version}版）:`,
+    ...ruleSet.rules.map(r => {
+      const heading = `${toFullWidth(r.section)}．${r.title}（${r.effectiveDate}施行）:`;
+      return r.body.includes('\n') ? `${heading}\n${r.body}` : `${heading} ${r.body}`;
+    }),
+  ].join('\n');
@@ -0,0 +1,106 @@
+import { CATEGORIES } from '../../constants';
+import { config } from '../config';
+import { DEFAULT_SCHOOL_ID, registryDb } from '../db';
+import type { School, SchoolTheme } from '../../types';
+
+interface SchoolRow {
+  id: string;
+  name: string;
+  login_domain: string;
+  admin_emails: string;
+  categories: string;
+  theme: string;
+  hosts: string;
+  google_client_id: string;
+  created_at: string;
+}
+
+// The original purple and gold.
+export const DEFAULT_THEME: SchoolTheme = {
+  primary: '#6a0dad',
+  primaryDark: '#4a0a77',
+  primaryLight: '#9d46ff',
+  primaryBg: '#f3e5f5',
+  accent: '#ffd700',
+};
+
+const toSchool = (row: SchoolRow): School => ({
+  id: row.id,
+  name: row.name,
+  loginDomain: row.login_domain,
+  adminEmails: JSON.parse(row.admin_emails),
+  categories: JSON.parse(row.categories),
+  theme: JSON.parse(row.theme),
+  hosts: JSON.parse(row.hosts),
+  googleClientId: row.google_client_id,
+  createdAt: row.created_at,
+});
+
+export type SchoolInput = Omit<School, 'id' | 'createdAt'>;
+
+export const listSchools = (): School[] =>
+  (registryDb().prepare('SELECT * FROM schools ORDER BY created_at').all() as SchoolRow[]).map(toSchool);
+
+export const getSchool = (id: string): School | undefined => {
+  const row = registryDb().prepare('SELECT * FROM schools WHERE id = ?').get(id) as SchoolRow | undefined;
+  return row && toSchool(row);
+};
+
+export const schoolForHost = (host: string): School | undefined =>
+  listSchools().find(s => s.hosts.includes(host.toLowerCase()));
+
+const write = (id: string, input: SchoolInput) => ({
+  id,
+  name: input.name,
+  loginDomain: input.loginDomain.toLowerCase(),
+  adminEmails: JSON.stringify(input.adminEmails.map(e => e.toLowerCase())),
+  categories: JSON.stringify(input.categories),
+  theme: JSON.stringify(input.theme),
+  hosts: JSON.stringify(input.hosts.map(h => h.toLowerCase())),
+  googleClientId: input.googleClientId,
+});
+
+export const createSchool = (id: string, input: SchoolInput): School => {
+  registryDb()
+    .prepare(
+      `INSERT INTO schools (id, name, login_domain, admin_emails, categories, theme, hosts, google_client_id, created_at)
+       VALUES (@id, @name, @loginDomain, @adminEmails, @categories, @theme, @hosts, @googleClientId, @now)`
+    )
+    .run({ ...write(id, input), now: new Date().toISOString() });
+  return getSchool(id)!;
+};
+
+export const updateSchool = (id: string, input: SchoolInput): School | undefined => {
+  registryDb()
+    .prepare(
+      `UPDATE schools SET name = @name, login_domain = @loginDomain, admin_emails = @adminEmails,
+         categories = @categories, theme = @theme, hosts = @hosts, google_client_id = @googleClientId
+       WHERE id = @id`
+    )
+    .run(write(id, input));
+  return getSchool(id);
+};
+
+// Registers the school described by the environment on first start. Settings given in the
+// environment win over edits on the district screen, as they did before there were several schools.
+export const syncDefaultSchool = (): School => {
+  const existing = getSchool(DEFAULT_SCHOOL_ID);
+  const fromEnv: Partial<SchoolInput> = {
+    ...(config.schoolName && { name: config.schoolName }),
+    ...(config.schoolDomain && { loginDomain: config.schoolDomain }),
+    ...(config.adminEmails.length > 0 && { adminEmails: config.adminEmails }),
+  };
+  if (!existing) {
+    return createSchool(DEFAULT_SCHOOL_ID, {
+      name: 'ProPoSal',
+      loginDomain: '',
+      adminEmails: [],
+      categories: CATEGORIES,
+      theme: DEFAULT_THEME,
+      hosts: [],
+      googleClientId: '',
+      ...fromEnv,
+    });
+  }
+  return updateSchool(DEFAULT_SCHOOL_ID, { ...existing, ...fromEnv })!;
+};
@@ -0,0 +1,136 @@
+import { db } from '../db';
+import type { User, UserRole } from '../../types';
+
+interface UserRow {
+  id: string;
+  email: string;
+  name: string;
+  role: UserRole;
+  class: string | null;
+  password_hash: string | null;
+  created_at: string;
+}
+
+const toUser = (row: UserRow, categories: string[]): User => ({
+  id: row.id,
+  email: row.email,
+  name: row.name,
+  role: row.role,
+  class: row.class ?? undefined,
+  categories,
+});
+
+const categoriesOf = (userId: string) =>
+  (
+    db().prepare('SELECT category FROM user_categories WHERE user_id = ? ORDER BY category').all(userId) as {
+      category: string;
+    }[]
+  ).map(r => r.category);
+
+// Leading grade number of a class name: 「3-A」「３年２組」 → 3.
+export const gradeOf = (className?: string): number | undefined => {
+  const match = className?.normalize('NFKC').match(/^\s*(\d+)/);
+  return match ? Number(match[1]) : undefined;
+};
+
+export const getUser = (id: string): User | undefined => {
+  const row = db().prepare('SELECT * FROM users WHERE id = ?').get(id) as UserRow | undefined;
+  return row && toUser(row, categoriesOf(row.id));
+};
+
+export const getPasswordHash = (email: string): { user: User; hash: string | null } | undefined => {
+  const row = db().prepare('SELECT * FROM users WHERE email = ?').get(email) as UserRow | undefined;
+  return row && { user: toUser(row, categoriesOf(row.id)), hash: row.password_hash };
+};
+
+// Creates the account on first sign-in. Existing accounts keep their stored role. The class is
+// never self-declared: matchRoster fills it in from the school's roster.
+export const upsertUser = (input: { email: string; name: string; role: UserRole; passwordHash?: string }): User => {
+  db()
+    .prepare(
+      `INSERT INTO users (id, email, name, role, password_hash, created_at)
+       VALUES (@email, @email, @name, @role, @passwordHash, @now)
+       ON CONFLICT(id) DO UPDATE SET name = excluded.name`
+    )
+    .run({
+      email: input.email,
+      name: input.name,
+      role: input.role,
+      passwordHash: input.passwordHash ?? null,
+      now: new Date().toISOString(),
+    });
+  return getUser(input.email)!;
+};
+
+// Gives an existing account (e.g. one made by Google sign-in) a password once its owner has
+// confirmed the address.
+export const setPasswordHash = (id: string, passwordHash: string) => {
+  db().prepare('UPDATE users SET password_hash = ? WHERE id = ?').run(passwordHash, id);
+};
+
+// --- Pending password sign-ups ---
+
+// Replaces any earlier request for the same address, so only the latest emailed link works.
+export const addPendingRegistration = (input: {
+  tokenHash: string;
+  email: string;
+  name: string;
+  passwordHash: string;
+  expiresAt: string;
+}) => {
+  const conn = db();
+  conn.transaction(() => {
+    conn.prepare('DELETE FROM pending_registrations WHERE email = ? OR expires_at <= ?').run(
+      input.email,
+      new Date().toISOString()
+    );
+    conn
+      .prepare(
+        `INSERT INTO pending_registrations (token_hash, email, name, password_hash, expires_at)
+         VALUES (@tokenHash, @email, @name, @passwordHash, @expiresAt)`
+      )
+      .run(input);
+  })();
+};
+
+// Removes and returns the sign-up behind a link; undefined when unknown or expired.
+export const takePendingRegistration = (
+  tokenHash: string
+): { email: string; name: string; passwordHash: string } | undefined => {
+  const conn = db();
+  const row = conn.prepare('SELECT * FROM pending_registrations WHERE token_hash = ?').get(tokenHash) as
+    | { email: string; name: string; password_hash: string; expires_at: string }
+    | undefined;
+  if (!row) return undefined;
+  conn.prepare('DELETE FROM pending_registrations WHERE token_hash = ?').run(tokenHash);
+  if (new Date(row.expires_at).getTime() <= Date.now()) return undefined;
+  return { email: row.email, name: row.name, passwordHash: row.password_hash };
+};
+
+export const setUserRole = (id: string, role: UserRole) => {
+  db().prepare('UPDATE users SET role = ? WHERE id = ?').run(role, id);
+  return getUser(id);
+};
+
+export const setUserCategories = (id: string, categories: string[]) => {
+  const conn = db();
+  conn.transaction(() => {
+    conn.prepare('DELETE FROM user_categories WHERE user_id = ?').run(id);
+    const insert = conn.prepare('INSERT INTO user_categories (user_id, category) VALUES (?, ?)');
+    categories.forEach(category => insert.run(id, category));
+  })();
+  return getUser(id);
+};
+
+export const listUsers = (): User[] => {
+  const categories = new Map<string, string[]>();
+  (
+    db().prepare('SELECT user_id, category FROM user_categories ORDER BY category').all() as {
+      user_id: string;
+      category: string;
+    }[]
+  ).forEach(r => categories.set(r.user_id, [...(categories.get(r.user_id) ?? []), r.category]));
+  return (db().prepare('SELECT * FROM users ORDER BY created_at').all() as UserRow[]).map(row =>
+    toUser(row, categories.get(row.id) ?? [])
+  );
+};
@@ -0,0 +1,42 @@
+import { db } from '../db';
+import type { ProposalStatus, UserRole, Workflow } from '../../types';
+
+interface WorkflowRow {
+  version: number;
+  definition: string;
+  updated_by: string;
+  updated_at: string;
+}
+
+export type WorkflowDefinition = Omit<Workflow, 'version' | 'updatedAt' | 'updatedBy'>;
+
+// Versions saved before thresholds existed lack the last two fields.
+const toWorkflow = (row: WorkflowRow): Workflow => ({
+  thresholds: [],
+  enrollment: { total: 0, grades: {} },
+  ...(JSON.parse(row.definition) as WorkflowDefinition),
+  version: row.version,
+  updatedAt: row.updated_at,
+  updatedBy: row.updated_by,
+});
+
+export const getWorkflow = (): Workflow =>
+  toWorkflow(db().prepare('SELECT * FROM workflows ORDER BY version DESC LIMIT 1').get() as WorkflowRow);
+
+export const saveWorkflow = (definition: WorkflowDefinition, updatedBy: string): Workflow => {
+  const conn = db();
+  return conn.transaction(() => {
+    const version = getWorkflow().version + 1;
+    conn
+      .prepare('INSERT INTO workflows (version, definition, updated_by, updated_at) VALUES (?, ?, ?, ?)')
+      .run(version, JSON.stringify(definition), updatedBy, new Date().toISOString());
+    return getWorkflow();
+  })();
+};
+
+// Statuses some proposal currently has; a new workflow must keep them.
+export const statusesInUse = (): ProposalStatus[] =>
+  (db().prepare('SELECT DISTINCT status FROM proposals').all() as { status: string }[]).map(r => r.status);
+
+export const canTransition = (workflow: Workflow, from: ProposalStatus, to: ProposalStatus, role: UserRole) =>
+  workflow.transitions.some(t => t.from === from && t.to === to && t.roles.includes(role));
@@ -0,0 +1,129 @@
+import { GoogleGenAI, Type, Schema } from "@google/genai";
+import type { AIAnalysisResult, RuleSet } from "../../types";
+import { formatRulesForPrompt } from "../models/rules";
+import { currentSchool } from "../tenant";
+import type { ModerationProvider } from "./types";
+import { AnalysisValidationError, parseAndValidate, type ValidationOutcome } from "./validate";
+
+// One initial request plus one corrective retry.
+const MAX_ATTEMPTS = 2;
+
+export class GeminiProvider implements ModerationProvider {
+  readonly name = "gemini";
+  private ai: GoogleGenAI;
+
+  // Server-only: the key is read from the server environment and never reaches the bundle.
+  constructor(apiKey: string, private model = "gemini-2.0-flash-exp") {
+    this.ai = new GoogleGenAI({ apiKey });
+  }
+
+  async analyze(title: string, content: string, rules: RuleSet): Promise<AIAnalysisResult> {
+    const { categories } = currentSchool();
+    const prompt = `
+      あなたは中学校の生徒会目安箱の「AIアドバイザー」です。
+      生徒が投稿しようとしている意見（タイトル、内容）を読み、以下のタスクを実行してください。
+
+      ${formatRulesForPrompt(rules)}
+
+      タスク:
+      1. **カテゴリー分類**: 内容に基づき、${categories.map(c => `「${c}」`).join('')}のいずれか1つを選択してください。
+      2. **タグ生成**: 内容に関連するハッシュタグを3〜5個生成してください（例: #校則 #スマホ）。
+      3. **適切性判定**: 
+         - このプラットフォームは「校則を変えること」も目的としています。したがって、**「現在の校則に反する提案（例：スマホを持ち込みたい、靴下の色を自由にしてほしい）」は『適切(true)』と判定してください。**
+         - **『不適切(false)』**と判定すべきは以下のケースです：
+            a. 個人（先生や生徒）への誹謗中傷、いじめ、悪口。
+            b. 暴力的な表現、脅迫、差別的発言。
+            c. 教育機関として明らかにふさわしくない、常識外れな要求（例：学校でタバコを吸わせろ、窓ガラスを割りたい、先生を殴りたい等）。
+            d. 意味不明な文字列。
+      4. **関連する校則の特定**: 
+         - 提案が上記の校則のどの項目を変えようとしているかを、項目番号（section）と具体的な対象（clause、例: 靴下、スマホ）で列挙してください。
+         - 校則に関係しない提案（設備や授業など）の場合は空の配列にしてください。
+      5. **改善案とアドバイス**: 
+         - 適切な場合: より説得力を増すための修正案（敬語への修正、理由の補足など）と、応援のアドバイスを作成してください。
+         - 不適切な場合: なぜダメなのかを優しく諭し、どう書き直せば意見として成立するかアドバイスしてください。
+
+      入力情報:
+      - タイトル: ${title}
+      - 内容: ${content}
+      
+      出力は必ずJSON形式で行ってください。
+    `;
+
+    const schema: Schema = {
+      type: Type.OBJECT,
+      properties: {
+        isAppropriate: {
+          type: Type.BOOLEAN,
+          description: "投稿内容がガイドラインに沿っていて適切かどうか。",
+        },
+        category: {
+          type: Type.STRING,
+          description: `自動判定されたカテゴリー。${categories.map(c => `「${c}」`).join('')}のいずれか。`,
+          enum: categories
+        },
+        tags: {
+          type: Type.ARRAY,
+          items: { type: Type.STRING },
+          description: "内容に関連するハッシュタグ（#を含めること）。",
+        },
+        refinedTitle: {
+          type: Type.STRING,
+          description: "より建設的で明確なタイトル案。",
+        },
+        refinedContent: {
+          type: Type.STRING,
+          description: "より説得力があり丁寧な内容案。AIが生成したタグを末尾に追加すること。",
+        },
+        advice: {
+          type: Type.STRING,
+          description: "生徒への具体的なフィードバック。です・ます調で優しく。",
+        },
+        ruleRefs: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              section: { type: Type.INTEGER, description: "校則の項目番号。" },
+              clause: { type: Type.STRING, description: "項目内の具体的な対象（例: 靴下）。" },
+            },
+            required: ["section"],
+          },
+          description: "提案が変更を求めている校則の項目。",
+        },
+      },
+      required: ["isAppropriate", "category", "tags", "refinedTitle", "refinedContent", "advice"],
+    };
+
+    let contents = prompt;
+    let reasons: string[] = [];
+    for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+      const response = await this.ai.models.generateContent({
+        model: this.model,
+        contents,
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: schema,
+        }
+      });
+
+      const text = response.text;
+      const outcome: ValidationOutcome = text
+        ? parseAndValidate(text, rules)
+        : { result: null, repairs: [], reasons: ["empty response"] };
+      if (outcome.result) {
+        if (outcome.repairs.length > 0) console.warn("Gemini response repaired:", outcome.repairs);
+        return outcome.result;
+      }
+
+      reasons = outcome.reasons;
+      console.warn(`Gemini response rejected (attempt ${attempt}):`, reasons);
+      contents = `${prompt}
+
+      前回の出力は次の理由で受け付けられませんでした:
+      ${reasons.map(r => `- ${r}`).join("\n      ")}
+      指定されたJSONスキーマにすべての項目を正しく含めて、もう一度出力してください。
+    `;
+    }
+    throw new AnalysisValidationError(reasons);
+  }
+}
@@ -0,0 +1,56 @@
+import { config } from '../config';
+import { getRuleSet } from '../models/rules';
+import type { AIAnalysisResult } from '../../types';
+import { GeminiProvider } from './gemini';
+import { OfflineProvider } from './offline';
+import type { ModerationProvider } from './types';
+import { AnalysisValidationError, validateAnalysis } from './validate';
+
+export type { ModerationProvider } from './types';
+
+const UNAVAILABLE: AIAnalysisResult = {
+  isAppropriate: false,
+  category: 'その他',
+  tags: [],
+  advice: 'AIチェック機能に一時的な不具合が発生しています。時間をおいて再度お試しください。',
+  unavailable: true,
+};
+
+const createProvider = (name: string): ModerationProvider => {
+  switch (name) {
+    case 'gemini':
+      return new GeminiProvider(config.geminiApiKey);
+    case 'offline':
+      return new OfflineProvider();
+    default:
+      throw new Error(`Unknown moderation provider: ${name}`);
+  }
+};
+
+let providers: ModerationProvider[] = config.moderationProviders.map(createProvider);
+
+export const setModerationProviders = (next: ModerationProvider[]) => {
+  providers = next;
+};
+
+// Tries each provider in order and returns the first verdict that passes validation,
+// stamped with the rule-set version it was checked against.
+export const analyzeProposal = async (title: string, content: string): Promise<AIAnalysisResult> => {
+  const rules = getRuleSet();
+  for (const provider of providers) {
+    try {
+      const outcome = validateAnalysis(await provider.analyze(title, content, rules), rules);
+      if (!outcome.result) throw new AnalysisValidationError(outcome.reasons);
+      return { ...outcome.result, rulesVersion: rules.version };
+    } catch (error) {
+      console.error(`Moderation provider "${provider.name}" failed:`, error);
+    }
+  }
+  return UNAVAILABLE;
+};
+
+// Comments go through the same provider chain as proposals; only the verdict and advice matter.
+export const moderateComment = async (proposalTitle: string, body: string) => {
+  const result = await analyzeProposal(`「${proposalTitle}」へのコメント`, body);
+  return { isAppropriate: result.isAppropriate, advice: result.advice };
+};
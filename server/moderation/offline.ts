@@ -0,0 +1,84 @@
+import type { AIAnalysisResult, RuleReference, RuleSet } from '../../types';
+import { resolveRuleReference } from '../models/rules';
+import { currentSchool } from '../tenant';
+import type { ModerationProvider } from './types';
+import { MAX_TAGS } from './validate';
+
+// Rule-based checks that need no network. Deterministic, so the same text always gets the same verdict.
+
+const BLOCKLIST: { pattern: RegExp; reason: string }[] = [
+  { pattern: /死ね|氏ね|しね|殺す|ころす|殺したい|殴(る|りたい|らせ)|ぶっ飛ばす|刺す/, reason: '暴力的な表現や脅迫' },
+  { pattern: /うざい|ウザい|きもい|キモい|ブス|クズ|バカ|ばか|アホ|消えろ|むかつく/, reason: '個人への悪口や誹謗中傷' },
+  { pattern: /タバコ|たばこ|煙草|お酒を飲|ガラスを割|窓を割|放火/, reason: '学校にふさわしくない要求' },
+];
+
+const CATEGORY_KEYWORDS: Record<string, string[]> = {
+  '校則': ['校則', 'きまり', '制服', '標準服', '服装', '靴下', 'タイツ', 'セーター', 'ベスト', 'コート', '靴', '髪', '頭髪', '化粧', 'スマホ', '携帯', 'カバン', 'キーホルダー', '水筒', '日傘', '衣替え', 'アルバイト'],
+  '設備・環境': ['食堂', 'メニュー', 'トイレ', 'エアコン', '冷房', '暖房', '体育館', '図書室', '教室', '自販機', 'ロッカー', 'グラウンド', '校舎', '設備', '机', '椅子', 'Wi-Fi', '開館'],
+  '授業': ['授業', '宿題', '課題', 'テスト', '試験', '時間割', '教科', '数学', '英語', '国語', '理科', '社会', '体育', '音楽', 'タブレット', '黒板'],
+};
+
+// Keywords that matter for rule citations: the ones that also appear in a rule's title or body.
+const citeRules = (text: string, rules: RuleSet): RuleReference[] => {
+  const hits = CATEGORY_KEYWORDS['校則'].filter(k => text.includes(k));
+  const specific = hits.filter(k => !hits.some(o => o !== k && o.includes(k)));
+  return rules.rules.flatMap(rule =>
+    specific
+      .filter(k => rule.title.includes(k) || rule.body.includes(k))
+      .map(k => resolveRuleReference(rules, rule.section, rule.body.includes(k) ? k : undefined)!)
+  );
+};
+
+const extractHashtags = (text: string) => (text.match(/[#＃][^\s　#＃]+/g) ?? []).map(t => `#${t.slice(1)}`);
+
+const looksLikeNonsense = (text: string) => {
+  const compact = text.replace(/\s/g, '');
+  if (compact.length < 4 || !/\p{L}/u.test(compact)) return true;
+  return compact.length >= 10 && new Set(compact).size / compact.length < 0.2;
+};
+
+export class OfflineProvider implements ModerationProvider {
+  readonly name = 'offline';
+
+  async analyze(title: string, content: string, rules: RuleSet): Promise<AIAnalysisResult> {
+    const text = `${title}\n${content}`;
+
+    // Keyword lists exist for the standard categories; a school that dropped one never gets it
+    const { categories } = currentSchool();
+    const { category, keywords } = Object.entries(CATEGORY_KEYWORDS)
+      .filter(([category]) => categories.includes(category))
+      .map(([category, words]) => {
+        const hits = words.filter(w => text.includes(w));
+        // "靴下" already implies "靴"; keep only the most specific keyword.
+        return { category, keywords: hits.filter(w => !hits.some(o => o !== w && o.includes(w))) };
+      })
+      .reduce((best, c) => (c.keywords.length > best.keywords.length ? c : best), {
+        category: 'その他',
+        keywords: [] as string[],
+      });
+
+    const tags = [...new Set([...extractHashtags(content), ...keywords.map(k => `#${k}`), `#${category}`])].slice(0, MAX_TAGS);
+
+    const blocked = BLOCKLIST.find(b => b.pattern.test(text));
+    if (blocked || looksLikeNonsense(title) || looksLikeNonsense(content)) {
+      const reason = blocked?.reason ?? '意味の読み取れない文章';
+      return {
+        isAppropriate: false,
+        category,
+        tags,
+        advice: `${reason}と受け取られる内容が含まれています。誰かを責めるのではなく、「何を」「なぜ」「どう変えたいのか」が伝わるように書き直してみてください。`,
+      };
+    }
+
+    const missingTags = tags.filter(t => !content.includes(t));
+    return {
+      isAppropriate: true,
+      category,
+      tags,
+      refinedTitle: title,
+      refinedContent: missingTags.length > 0 ? `${content.trimEnd()}\n${missingTags.join(' ')}` : content,
+      ruleRefs: citeRules(text, rules),
+      advice: '簡易チェックで確認しました。理由や具体的な改善案を書き添えると、より多くの賛同が集まりやすくなります。',
+    };
+  }
+}
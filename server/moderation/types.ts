@@ -0,0 +1,8 @@
+import type { AIAnalysisResult, RuleSet } from '../../types';
+
+// A source of AI verdicts. Implementations throw when they cannot produce one,
+// so the chain in ./index can fall through to the next provider.
+export interface ModerationProvider {
+  readonly name: string;
+  analyze(title: string, content: string, rules: RuleSet): Promise<AIAnalysisResult>;
+}
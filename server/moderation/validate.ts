@@ -0,0 +1,131 @@
+import type { AIAnalysisResult, RuleReference, RuleSet } from '../../types';
+import { resolveRuleReference } from '../models/rules';
+import { currentSchool } from '../tenant';
+
+export const MAX_TAGS = 5;
+
+export class AnalysisValidationError extends Error {
+  constructor(public reasons: string[]) {
+    super(`Invalid analysis result: ${reasons.join('; ')}`);
+    this.name = 'AnalysisValidationError';
+  }
+}
+
+// `result` is null exactly when `reasons` is non-empty.
+export interface ValidationOutcome {
+  result: AIAnalysisResult | null;
+  repairs: string[];
+  reasons: string[];
+}
+
+const rejected = (reasons: string[]): ValidationOutcome => ({ result: null, repairs: [], reasons });
+
+const normalizeTag = (tag: string) => {
+  const body = tag.normalize('NFKC').trim().replace(/^#+/, '').replace(/\s+/g, '');
+  return body ? `#${body}` : '';
+};
+
+const clampCategory = (value: unknown, categories: string[]): string | undefined => {
+  if (typeof value !== 'string') return undefined;
+  const normalized = value.normalize('NFKC').trim();
+  // Every category includes the empty string, so blank input would match the first one
+  if (!normalized) return undefined;
+  return categories.find(c => c === normalized) ?? categories.find(c => normalized.includes(c) || c.includes(normalized));
+};
+
+const optionalText = (value: unknown, field: string, repairs: string[]) => {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value === 'string' && value.trim()) return value;
+  repairs.push(`${field} was not a non-empty string and was dropped`);
+  return undefined;
+};
+
+// Keeps references to sections that exist and re-quotes them from the rule set, so the stored
+// quote is the school's text rather than the model's paraphrase.
+const normalizeRuleRefs = (value: unknown, rules: RuleSet | undefined, repairs: string[]): RuleReference[] => {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) {
+    repairs.push('ruleRefs was not an array and was dropped');
+    return [];
+  }
+  const refs: RuleReference[] = [];
+  value.forEach(item => {
+    const section = Number((item as Record<string, unknown>)?.section);
+    const clause = (item as Record<string, unknown>)?.clause;
+    const ref = rules && resolveRuleReference(rules, section, typeof clause === 'string' ? clause : undefined);
+    if (!ref) {
+      repairs.push(`ruleRefs entry ${JSON.stringify(item)} does not match a rule and was dropped`);
+    } else if (!refs.some(r => r.section === ref.section && r.clause === ref.clause)) {
+      refs.push(ref);
+    }
+  });
+  return refs;
+};
+
+// Checks a model response against AIAnalysisResult. Small problems are repaired and listed in
+// `repairs`; anything that would change the verdict itself is rejected with `reasons`.
+export const validateAnalysis = (raw: unknown, rules?: RuleSet): ValidationOutcome => {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return rejected(['response is not a JSON object']);
+  }
+  const data = raw as Record<string, unknown>;
+  const reasons: string[] = [];
+  const repairs: string[] = [];
+
+  let isAppropriate = data.isAppropriate;
+  if (isAppropriate === 'true' || isAppropriate === 'false') {
+    isAppropriate = isAppropriate === 'true';
+    repairs.push('isAppropriate was a string');
+  }
+  if (typeof isAppropriate !== 'boolean') reasons.push('isAppropriate is missing or not a boolean');
+
+  const { categories } = currentSchool();
+  let category = clampCategory(data.category, categories);
+  if (category === undefined) {
+    repairs.push(`category ${JSON.stringify(data.category)} is not one of ${categories.join('/')}; using その他`);
+    category = 'その他';
+  } else if (category !== data.category) {
+    repairs.push(`category ${JSON.stringify(data.category)} clamped to ${category}`);
+  }
+
+  let tags: string[] = [];
+  if (Array.isArray(data.tags)) {
+    const strings = data.tags.filter((t): t is string => typeof t === 'string');
+    tags = [...new Set(strings.map(normalizeTag).filter(Boolean))];
+    if (strings.length !== data.tags.length) repairs.push('non-string tags were dropped');
+    if (tags.length > MAX_TAGS) {
+      repairs.push(`tags capped at ${MAX_TAGS}`);
+      tags = tags.slice(0, MAX_TAGS);
+    }
+  } else if (typeof data.tags === 'string') {
+    tags = data.tags.split(/[\s,、]+/).map(normalizeTag).filter(Boolean).slice(0, MAX_TAGS);
+    repairs.push('tags was a string and was split');
+  } else {
+    reasons.push('tags is missing or not an array');
+  }
+
+  const refinedTitle = optionalText(data.refinedTitle, 'refinedTitle', repairs);
+  const refinedContent = optionalText(data.refinedContent, 'refinedContent', repairs);
+  const advice = optionalText(data.advice, 'advice', repairs);
+  const ruleRefs = normalizeRuleRefs(data.ruleRefs, rules, repairs);
+  if (isAppropriate === true && (!refinedTitle || !refinedContent)) {
+    reasons.push('approved result is missing refinedTitle or refinedContent');
+  }
+
+  if (reasons.length > 0) return rejected(reasons);
+  return {
+    result: { isAppropriate: isAppropriate as boolean, category, tags, refinedTitle, refinedContent, advice, ruleRefs },
+    repairs,
+    reasons,
+  };
+};
+
+export const parseAndValidate = (text: string, rules?: RuleSet): ValidationOutcome => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return rejected(['response is not valid JSON']);
+  }
+  return validateAnalysis(raw, rules);
+};
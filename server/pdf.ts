@@ -0,0 +1,306 @@
+import zlib from 'zlib';
+
+// A small A4 document writer for printouts. It needs no font files: the text uses the Japanese
+// fonts every PDF reader ships with (Heisei Mincho / Kaku Gothic), so documents can be made on a
+// server with no network and no extra packages. Layout is top to bottom with automatic page breaks.
+
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN_X = 56.7;
+const MARGIN_TOP = 56.7;
+const MARGIN_BOTTOM = 62;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN_X * 2;
+const LINE_SPACING = 1.6;
+
+type FontName = 'mincho' | 'gothic';
+
+const FONTS: Record<FontName, { resource: string; name: string; descriptor: string }> = {
+  mincho: {
+    resource: 'F1',
+    name: 'HeiseiMin-W3',
+    descriptor: '/Flags 6 /FontBBox [-123 -257 1001 910] /ItalicAngle 0 /Ascent 857 /Descent -143 /CapHeight 718 /StemV 93',
+  },
+  gothic: {
+    resource: 'F2',
+    name: 'HeiseiKakuGo-W5',
+    descriptor: '/Flags 4 /FontBBox [-92 -250 1010 922] /ItalicAngle 0 /Ascent 752 /Descent -221 /CapHeight 737 /StemV 114',
+  },
+};
+
+// The HW encoding maps ASCII and half-width katakana to half-width glyphs, so every character is
+// either half or full width and lines can be measured without font metrics.
+const ENCODING = 'UniJIS-UCS2-HW-H';
+const isHalfWidth = (code: number) => (code >= 0x20 && code <= 0x7e) || (code >= 0xff61 && code <= 0xff9f);
+const charWidth = (char: string, size: number) => (isHalfWidth(char.charCodeAt(0)) ? size / 2 : size);
+const textWidth = (text: string, size: number) => [...text].reduce((sum, c) => sum + charWidth(c, size), 0);
+
+// Characters outside the basic plane (emoji and rare kanji) have no glyph in these fonts.
+const printable = (text: string) =>
+  [...text.replace(/\r\n?/g, '\n').replace(/\t/g, '  ')]
+    .map(c => (c.codePointAt(0)! > 0xffff ? '〓' : c))
+    .filter(c => c === '\n' || c >= ' ')
+    .join('');
+
+const hex = (text: string) =>
+  `<${[...text].map(c => c.charCodeAt(0).toString(16).padStart(4, '0')).join('')}>`;
+
+// Kept at the end of a line even when it runs slightly into the margin
+const NO_LINE_START = new Set([...'、。，．・：；？！ー）」』】〕〉》”’ぁぃぅぇぉっゃゅょァィゥェォッャュョ']);
+
+// Greedy line breaking: Latin words stay whole where they fit, everything else breaks anywhere.
+const wrap = (text: string, size: number, width: number): string[] => {
+  const lines: string[] = [];
+  printable(text)
+    .split('\n')
+    .forEach(paragraph => {
+      let line = '';
+      let lineWidth = 0;
+      const units = paragraph.match(/[\x21-\x7e]+|[\s\S]/g) ?? [];
+      units.forEach(unit => {
+        const unitWidth = textWidth(unit, size);
+        if (lineWidth + unitWidth <= width || (line && NO_LINE_START.has(unit))) {
+          line += unit;
+          lineWidth += unitWidth;
+          return;
+        }
+        if (line) lines.push(line.trimEnd());
+        line = '';
+        lineWidth = 0;
+        if (unit === ' ') return;
+        // A word longer than the line is split by character
+        for (const char of unit) {
+          if (lineWidth + charWidth(char, size) > width && line) {
+            lines.push(line);
+            line = '';
+            lineWidth = 0;
+          }
+          line += char;
+          lineWidth += charWidth(char, size);
+        }
+      });
+      lines.push(line.trimEnd());
+    });
+  return lines;
+};
+
+const num = (n: number) => String(Math.round(n * 100) / 100);
+
+const textOp = (text: string, x: number, baseline: number, style: { size: number; font: FontName; gray: number }) =>
+  `BT /${FONTS[style.font].resource} ${num(style.size)} Tf ${num(style.gray)} g ${num(x)} ${num(baseline)} Td ${hex(text)} Tj ET`;
+
+export interface TextStyle {
+  size?: number;
+  font?: FontName;
+  // 0 (black) to 1 (white)
+  gray?: number;
+  align?: 'left' | 'right' | 'center';
+}
+
+export interface TableColumn {
+  header: string;
+  // Share of the content width; the shares of all columns add up to 1
+  width: number;
+  align?: 'left' | 'right' | 'center';
+}
+
+export const createPdf = (info: { title: string; footer: string }) => {
+  const pages: string[][] = [];
+  let page: string[] = [];
+  let y = 0;
+
+  const newPage = () => {
+    page = [];
+    pages.push(page);
+    y = PAGE_HEIGHT - MARGIN_TOP;
+  };
+  newPage();
+
+  const ensure = (height: number) => {
+    if (y - height < MARGIN_BOTTOM && y < PAGE_HEIGHT - MARGIN_TOP) newPage();
+  };
+
+  // Draws wrapped lines inside a box starting at `top`; returns the height used.
+  const drawLines = (lines: string[], left: number, width: number, top: number, style: TextStyle) => {
+    const size = style.size ?? 10.5;
+    const lineHeight = size * LINE_SPACING;
+    lines.forEach((line, i) => {
+      const free = width - textWidth(line, size);
+      const x = left + (style.align === 'right' ? free : style.align === 'center' ? free / 2 : 0);
+      const baseline = top - i * lineHeight - (lineHeight + size * 0.76) / 2;
+      page.push(textOp(line, x, baseline, { size, font: style.font ?? 'mincho', gray: style.gray ?? 0 }));
+    });
+    return lines.length * lineHeight;
+  };
+
+  const rule = (gray = 0.6, width = 0.5) => {
+    page.push(`${num(gray)} G ${num(width)} w ${num(MARGIN_X)} ${num(y)} m ${num(PAGE_WIDTH - MARGIN_X)} ${num(y)} l S`);
+  };
+
+  const doc = {
+    // Wrapped text; a paragraph split over pages continues on the next one line by line.
+    text(text: string, style: TextStyle = {}) {
+      const size = style.size ?? 10.5;
+      const lineHeight = size * LINE_SPACING;
+      wrap(text, size, CONTENT_WIDTH).forEach(line => {
+        ensure(lineHeight);
+        y -= drawLines([line], MARGIN_X, CONTENT_WIDTH, y, style);
+      });
+      return doc;
+    },
+
+    title(text: string) {
+      doc.text(text, { size: 18, font: 'gothic' });
+      y -= 4;
+      rule(0.2, 1.2);
+      y -= 10;
+      return doc;
+    },
+
+    // Starts a new page when fewer than a few lines would fit under the heading.
+    heading(text: string) {
+      ensure(13 * LINE_SPACING + 10.5 * LINE_SPACING * 3 + 14);
+      y -= 10;
+      doc.text(text, { size: 13, font: 'gothic' });
+      y -= 2;
+      rule();
+      y -= 4;
+      return doc;
+    },
+
+    space(height = 8) {
+      y -= height;
+      return doc;
+    },
+
+    // Label / value pairs, e.g. category and status under a title.
+    fields(rows: [string, string][], labelWidth = 90) {
+      rows.forEach(([label, value]) => {
+        const lines = wrap(value || '－', 10.5, CONTENT_WIDTH - labelWidth);
+        const height = lines.length * 10.5 * LINE_SPACING;
+        ensure(height);
+        drawLines([label], MARGIN_X, labelWidth, y, { font: 'gothic', gray: 0.35 });
+        y -= drawLines(lines, MARGIN_X + labelWidth, CONTENT_WIDTH - labelWidth, y, {});
+      });
+      return doc;
+    },
+
+    // Bordered table; the header row is repeated after a page break.
+    table(columns: TableColumn[], rows: string[][], size = 9.5) {
+      const padding = 4;
+      const widths = columns.map(c => c.width * CONTENT_WIDTH);
+      const lefts = widths.map((_, i) => MARGIN_X + widths.slice(0, i).reduce((a, b) => a + b, 0));
+      const drawRow = (cells: string[], header: boolean) => {
+        const wrapped = cells.map((cell, i) => wrap(cell, size, widths[i] - padding * 2));
+        const height = Math.max(...wrapped.map(l => l.length)) * size * LINE_SPACING + padding * 2;
+        if (header) page.push(`0.93 g ${num(MARGIN_X)} ${num(y - height)} ${num(CONTENT_WIDTH)} ${num(height)} re f`);
+        wrapped.forEach((lines, i) =>
+          drawLines(lines, lefts[i] + padding, widths[i] - padding * 2, y - padding, {
+            size,
+            font: header ? 'gothic' : 'mincho',
+            align: header ? 'center' : columns[i].align,
+          })
+        );
+        page.push(`0.6 G 0.5 w ${num(MARGIN_X)} ${num(y - height)} ${num(CONTENT_WIDTH)} ${num(height)} re S`);
+        lefts.slice(1).forEach(x => page.push(`${num(x)} ${num(y)} m ${num(x)} ${num(y - height)} l S`));
+        y -= height;
+        return height;
+      };
+      const headerCells = columns.map(c => c.header);
+      const rowHeight = (cells: string[]) =>
+        Math.max(...cells.map((cell, i) => wrap(cell, size, widths[i] - padding * 2).length)) * size * LINE_SPACING +
+        padding * 2;
+      ensure(rowHeight(headerCells) + rowHeight(rows[0] ?? headerCells));
+      drawRow(headerCells, true);
+      rows.forEach(cells => {
+        if (y - rowHeight(cells) < MARGIN_BOTTOM) {
+          newPage();
+          drawRow(headerCells, true);
+        }
+        drawRow(cells, false);
+      });
+      y -= 6;
+      return doc;
+    },
+
+    pageBreak() {
+      newPage();
+      return doc;
+    },
+
+    // Adds the footer with page numbers and serialises the document.
+    toBuffer(): Buffer {
+      const footer = { size: 8, font: 'mincho' as const, gray: 0.45 };
+      pages.forEach((content, i) => {
+        const number = `${i + 1} / ${pages.length}`;
+        content.push(
+          textOp(printable(info.footer), MARGIN_X, 30, footer),
+          textOp(number, PAGE_WIDTH - MARGIN_X - textWidth(number, 8), 30, footer)
+        );
+      });
+      return serialize(pages, info.title);
+    },
+  };
+  return doc;
+};
+
+// Object numbers: 1 catalog, 2 page tree, 3 info, 4–9 the two fonts, then a page and its
+// content stream for every page.
+const serialize = (pages: string[][], title: string): Buffer => {
+  const objects: (string | Buffer)[] = [];
+  const fontObjects = (Object.keys(FONTS) as FontName[]).flatMap((key, i) => {
+    const font = FONTS[key];
+    const base = 4 + i * 3;
+    return [
+      `<< /Type /Font /Subtype /Type0 /BaseFont /${font.name}-${ENCODING} /Encoding /${ENCODING} /DescendantFonts [${base + 1} 0 R] >>`,
+      `<< /Type /Font /Subtype /CIDFontType0 /BaseFont /${font.name} /CIDSystemInfo << /Registry (Adobe) /Ordering (Japan1) /Supplement 2 >> /FontDescriptor ${base + 2} 0 R /DW 1000 /W [231 632 500] >>`,
+      `<< /Type /FontDescriptor /FontName /${font.name} ${font.descriptor} >>`,
+    ];
+  });
+  const fontResources = (Object.keys(FONTS) as FontName[])
+    .map((key, i) => `/${FONTS[key].resource} ${4 + i * 3} 0 R`)
+    .join(' ');
+  const firstPage = 4 + fontObjects.length;
+  const pageRefs = pages.map((_, i) => `${firstPage + i * 2} 0 R`);
+  const now = new Date(Date.now() + 9 * 60 * 60 * 1000).toISOString().replace(/\D/g, '').slice(0, 14);
+
+  objects.push(`<< /Type /Catalog /Pages 2 0 R >>`);
+  objects.push(`<< /Type /Pages /Kids [${pageRefs.join(' ')}] /Count ${pages.length} >>`);
+  objects.push(`<< /Title ${hex(`﻿${printable(title)}`)} /Producer (ProPoSal) /CreationDate (D:${now}+09'00') >>`);
+  objects.push(...fontObjects);
+  pages.forEach((content, i) => {
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << ${fontResources} >> >> /Contents ${firstPage + i * 2 + 1} 0 R >>`
+    );
+    const stream = zlib.deflateSync(Buffer.from(content.join('\n'), 'latin1'));
+    objects.push(
+      Buffer.concat([
+        Buffer.from(`<< /Length ${stream.length} /Filter /FlateDecode >>\nstream\n`),
+        stream,
+        Buffer.from('\nendstream'),
+      ])
+    );
+  });
+
+  const chunks: Buffer[] = [Buffer.from('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n', 'latin1')];
+  let offset = chunks[0].length;
+  const offsets = objects.map((object, i) => {
+    const chunk = Buffer.concat([Buffer.from(`${i + 1} 0 obj\n`), Buffer.from(object), Buffer.from('\nendobj\n')]);
+    chunks.push(chunk);
+    const at = offset;
+    offset += chunk.length;
+    return at;
+  });
+  const xref = [
+    'xref',
+    `0 ${objects.length + 1}`,
+    '0000000000 65535 f ',
+    ...offsets.map(o => `${String(o).padStart(10, '0')} 00000 n `),
+    'trailer',
+    `<< /Size ${objects.length + 1} /Root 1 0 R /Info 3 0 R >>`,
+    'startxref',
+    String(offset),
+    '%%EOF',
+  ].join('\n');
+  chunks.push(Buffer.from(`${xref}\n`));
+  return Buffer.concat(chunks);
+};
@@ -0,0 +1,56 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { config } from './config';
+import type { Petition, PetitionVerification, SignedPetition } from '../types';
+
+// Petition exports are signed so that teachers can trust a printout or file handed to them by the
+// council: changing a name, class or count afterwards breaks the signature. Anyone can check a file
+// against the public key, with /api/petitions/verify or offline.
+
+const loadKey = (): crypto.KeyObject => {
+  if (config.petitionSigningKey) return crypto.createPrivateKey(config.petitionSigningKey);
+  const file = path.join(path.dirname(config.databasePath), 'petition-signing.pem');
+  if (fs.existsSync(file)) return crypto.createPrivateKey(fs.readFileSync(file, 'utf8'));
+  const { privateKey } = crypto.generateKeyPairSync('ed25519');
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, privateKey.export({ type: 'pkcs8', format: 'pem' }), { mode: 0o600 });
+  return privateKey;
+};
+
+let key: crypto.KeyObject | null = null;
+const getKey = () => (key ??= loadKey());
+
+const publicKey = () => crypto.createPublicKey(getKey());
+
+export const publicKeyPem = () => publicKey().export({ type: 'spki', format: 'pem' }).toString();
+
+const keyId = () =>
+  crypto.createHash('sha256').update(publicKey().export({ type: 'spki', format: 'der' })).digest('hex').slice(0, 16);
+
+const sha256 = (text: string) => crypto.createHash('sha256').update(text).digest('hex');
+
+export const signPetition = (petition: Petition): SignedPetition => {
+  const text = JSON.stringify(petition);
+  return {
+    petition,
+    sha256: sha256(text),
+    signature: crypto.sign(null, Buffer.from(text), getKey()).toString('base64'),
+    keyId: keyId(),
+  };
+};
+
+// The petition is serialised again exactly as parsed, so any edit to the file changes the bytes
+// that were signed.
+export const verifyPetition = (document: Partial<SignedPetition>): PetitionVerification => {
+  const text = JSON.stringify(document.petition ?? null);
+  let valid = false;
+  try {
+    valid =
+      typeof document.signature === 'string' &&
+      crypto.verify(null, Buffer.from(text), publicKey(), Buffer.from(document.signature, 'base64'));
+  } catch {
+    valid = false;
+  }
+  return { valid, sha256: sha256(text), petition: valid ? document.petition : undefined };
+};
@@ -0,0 +1,25 @@
+import type { Request, RequestHandler } from 'express';
+import { HttpError } from './http';
+
+// In-memory sliding window per key. Good enough for a single server process.
+export const rateLimit = (options: {
+  windowMs: number;
+  max: number;
+  key?: (req: Request) => string;
+}): RequestHandler => {
+  const hits = new Map<string, number[]>();
+  const keyOf = options.key ?? (req => req.user?.id ?? req.ip ?? 'anonymous');
+
+  return (req, _res, next) => {
+    const key = keyOf(req);
+    const now = Date.now();
+    const recent = (hits.get(key) ?? []).filter(t => now - t < options.windowMs);
+    if (recent.length >= options.max) {
+      const retryMinutes = Math.ceil((options.windowMs - (now - recent[0])) / 60000);
+      throw new HttpError(429, `短時間に操作が集中しています。${retryMinutes}分ほど待ってから再度お試しください。`);
+    }
+    recent.push(now);
+    hits.set(key, recent);
+    next();
+  };
+};
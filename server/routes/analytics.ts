@@ -0,0 +1,56 @@
+import { Router } from 'express';
+import { requirePermission } from '../auth';
+import { toCsv } from '../csv';
+import { parseDate } from '../http';
+import { buildAnalytics } from '../models/analytics';
+import type { Request } from 'express';
+
+export const analyticsRouter = Router();
+
+analyticsRouter.use(requirePermission('viewAnalytics'));
+
+// Query: from, to (dates, both inclusive).
+const rangeOf = (req: Request) => ({
+  from: parseDate(req.query.from, 'from'),
+  to: parseDate(req.query.to, 'to', 1),
+});
+
+analyticsRouter.get('/', (req, res) => {
+  res.json(buildAnalytics(rangeOf(req)));
+});
+
+// Everything on the dashboard as one long table (区分 / 項目 / 値 / 補足), which pivots easily in
+// Excel for the end-of-term report to the 職員会議.
+analyticsRouter.get('/export.csv', (req, res) => {
+  const a = buildAnalytics(rangeOf(req));
+  const percent = (n: number, d: number) => (d ? `${Math.round((n / d) * 1000) / 10}%` : '');
+  const rows: unknown[][] = [
+    ...a.timeline.flatMap(p => [
+      ['投稿数の推移', p.period, p.proposals, ''],
+      ['賛同数の推移', p.period, p.signatures, ''],
+    ]),
+    ...a.stageDurations.map(s => ['ステータス別の滞在日数', s.status, s.medianDays, `平均 ${s.averageDays}日 / ${s.count}件`]),
+    ['最初の回答までの日数', '中央値', a.firstResponse.medianDays, `平均 ${a.firstResponse.averageDays}日 / ${a.firstResponse.count}件`],
+    ...a.categories.map(c => ['カテゴリ', c.category, c.count, '']),
+    ['解決率', '対象の意見', a.resolution.total, ''],
+    ['解決率', '完了した意見', a.resolution.resolved, percent(a.resolution.resolved, a.resolution.total)],
+    ['解決率', '回答済みの意見', a.resolution.responded, percent(a.resolution.responded, a.resolution.total)],
+    ...a.participation.byGrade.map(r => [
+      '学年別の参加',
+      r.group ? `${r.group}年` : '学年なし',
+      r.participants,
+      `${r.students}人中 ${percent(r.participants, r.students)}`,
+    ]),
+    ...a.participation.byClass.map(r => [
+      'クラス別の参加',
+      r.group || 'クラスなし',
+      r.participants,
+      `${r.students}人中 ${percent(r.participants, r.students)}`,
+    ]),
+    ...a.topUnresolved.map(p => ['賛同の多い未解決の意見', `#${p.id} ${p.title}`, p.signatures, p.status]),
+  ];
+  res
+    .type('text/csv; charset=utf-8')
+    .attachment('proposal-analytics.csv')
+    .send(toCsv(['区分', '項目', '値', '補足'], rows));
+});
@@ -0,0 +1,27 @@
+import { Router } from 'express';
+import { requirePermission } from '../auth';
+import { analyzeProposal } from '../moderation';
+import { requireString } from '../http';
+import { rateLimit } from '../rateLimit';
+import { recordRejection } from '../models/appeals';
+import { signRejection, signVerdict } from '../verdicts';
+
+export const analyzeRouter = Router();
+
+analyzeRouter.post('/', requirePermission('participate'), rateLimit({ windowMs: 10 * 60 * 1000, max: 10 }), async (req, res) => {
+  const title = requireString(req.body, 'title');
+  const content = requireString(req.body, 'content');
+  const result = await analyzeProposal(title, content);
+
+  // The client swaps in the refined text on approval, so that is the text the verdict covers.
+  const verdict = result.isAppropriate
+    ? signVerdict(result.refinedTitle || title, result.refinedContent || content, req.user!.id, result)
+    : null;
+  // A rejection can be appealed to the admins; the token lets the appeal prove what the AI said.
+  let rejection: string | null = null;
+  if (!result.isAppropriate) {
+    recordRejection(result);
+    rejection = signRejection(title, content, req.user!.id, result);
+  }
+  res.json({ result, verdict, rejection });
+});
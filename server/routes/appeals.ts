@@ -0,0 +1,106 @@
+import { Router } from 'express';
+import { requirePermission, requireUser } from '../auth';
+import { db } from '../db';
+import { HttpError, parseId, requireString } from '../http';
+import { rateLimit } from '../rateLimit';
+import { currentSchool } from '../tenant';
+import { verifyRejection } from '../verdicts';
+import {
+  appealsByAuthor,
+  authorOfAppeal,
+  createAppeal,
+  decideAppeal,
+  getAppeal,
+  listAppeals,
+  moderationStats,
+} from '../models/appeals';
+import { notifyAuthor, notifyStaff } from '../models/notifications';
+import { createProposal, SIGNATURE_VISIBILITIES } from '../models/proposals';
+
+export const appealsRouter = Router();
+
+const findPendingOr404 = (id: number) => {
+  const appeal = getAppeal(id);
+  if (!appeal) throw new HttpError(404, '確認依頼が見つかりません。');
+  if (appeal.status !== 'pending') throw new HttpError(409, 'この確認依頼はすでに判断済みです。');
+  return appeal;
+};
+
+const optionalText = (value: unknown) => (typeof value === 'string' ? value.trim() || undefined : undefined);
+
+// A student asks for a human to look at a draft the AI rejected. The rejection token from
+// /api/analyze ties the request to exactly this text and the AI's verdict on it. The signer-name
+// setting is chosen now, as when posting, since the student is not asked again on approval.
+appealsRouter.post('/', requirePermission('participate'), rateLimit({ windowMs: 60 * 60 * 1000, max: 5 }), (req, res) => {
+  const title = requireString(req.body, 'title');
+  const content = requireString(req.body, 'content');
+  const rejection = verifyRejection(req.body.rejection, title, content, req.user!.id);
+  const signatureVisibility = req.body.signatureVisibility ?? 'public';
+  if (!SIGNATURE_VISIBILITIES.includes(signatureVisibility)) throw new HttpError(400, 'signatureVisibility が不正です。');
+  const appeal = createAppeal(
+    { title, content, ...rejection, note: optionalText(req.body.note), signatureVisibility },
+    req.user!.id
+  );
+  notifyStaff('moderate', { type: 'appeal', title: 'AIチェックの確認依頼が届きました', body: title });
+  res.status(201).json(appeal);
+});
+
+appealsRouter.get('/mine', requireUser, (req, res) => {
+  res.json(appealsByAuthor(req.user!.id));
+});
+
+appealsRouter.get('/', requirePermission('moderate'), (_req, res) => {
+  res.json(listAppeals());
+});
+
+appealsRouter.get('/stats', requirePermission('moderate'), (_req, res) => {
+  res.json(moderationStats());
+});
+
+// Publishes the draft as a proposal, optionally with the admin's edits. The student stays the
+// (sealed) author. One transaction, so two moderators approving at once cannot both publish it.
+appealsRouter.post('/:id/approve', requirePermission('moderate'), (req, res) => {
+  const decided = db().transaction(() => {
+    const appeal = findPendingOr404(parseId(req.params.id));
+    const authorId = authorOfAppeal(appeal.id);
+    if (!authorId) throw new HttpError(409, 'この確認依頼の投稿者を確認できません。');
+    const title = optionalText(req.body?.title) ?? appeal.title;
+    const content = optionalText(req.body?.content) ?? appeal.content;
+    const { categories } = currentSchool();
+    const category = req.body?.category ?? (categories.includes(appeal.aiCategory) ? appeal.aiCategory : 'その他');
+    if (!categories.includes(category)) throw new HttpError(400, 'カテゴリが不正です。');
+    const edited = title !== appeal.title || content !== appeal.content;
+    const proposal = createProposal({
+      title,
+      content,
+      category,
+      ruleRefs: [],
+      authorId,
+      signatureVisibility: appeal.signatureVisibility,
+    });
+    const decided = decideAppeal(
+      appeal.id,
+      { status: 'approved', reason: optionalText(req.body?.reason), proposalId: proposal.id, edited },
+      req.user!.name
+    );
+    notifyAuthor(authorId, {
+      type: 'appeal',
+      proposalId: proposal.id,
+      title: `確認を依頼した「${appeal.title}」が掲載されました`,
+      body: edited ? '生徒会が一部の表現を修正して掲載しました。' : decided.decisionReason ?? '',
+    });
+    return decided;
+  })();
+  res.json(decided);
+});
+
+appealsRouter.post('/:id/reject', requirePermission('moderate'), (req, res) => {
+  const appeal = findPendingOr404(parseId(req.params.id));
+  const reason = requireString(req.body, 'reason');
+  const decided = decideAppeal(appeal.id, { status: 'rejected', reason }, req.user!.name);
+  const authorId = authorOfAppeal(appeal.id);
+  if (authorId) {
+    notifyAuthor(authorId, { type: 'appeal', title: `確認を依頼した「${appeal.title}」は掲載されませんでした`, body: reason });
+  }
+  res.json(decided);
+});
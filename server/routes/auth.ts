@@ -0,0 +1,65 @@
+import { Router } from 'express';
+import {
+  assertSchoolEmail,
+  confirmRegistration,
+  endSession,
+  initialRoleFor,
+  requestRegistration,
+  startSession,
+  verifyPassword,
+} from '../auth';
+import { HttpError, requireString } from '../http';
+import { rateLimit } from '../rateLimit';
+import { matchRoster } from '../models/roster';
+import { getPasswordHash, upsertUser } from '../models/users';
+import { currentSchool, googleClientIdFor } from '../tenant';
+import { getTokenVerifier } from '../tokenVerifier';
+
+export const authRouter = Router();
+
+authRouter.get('/me', (req, res) => {
+  res.json(req.user ?? null);
+});
+
+authRouter.post('/google', async (req, res) => {
+  const credential = requireString(req.body, 'credential');
+  const identity = await getTokenVerifier().verify(credential, googleClientIdFor(currentSchool()));
+  assertSchoolEmail(identity.email, identity.hostedDomain);
+  const email = identity.email.toLowerCase();
+  const user = matchRoster(upsertUser({ email, name: identity.name, role: initialRoleFor(email) }).id);
+  startSession(res, user.id);
+  res.json(user);
+});
+
+// Only emails a confirmation link; the account exists once /register/confirm is called with it.
+authRouter.post('/register', rateLimit({ windowMs: 60 * 60 * 1000, max: 5 }), async (req, res) => {
+  const email = requireString(req.body, 'email').toLowerCase();
+  const name = requireString(req.body, 'name');
+  const password = requireString(req.body, 'password');
+  assertSchoolEmail(email);
+  if (password.length < 8) throw new HttpError(400, 'パスワードは8文字以上にしてください。');
+  if (getPasswordHash(email)?.hash) throw new HttpError(409, 'このメールアドレスは既に登録されています。');
+  await requestRegistration({ email, name, password });
+  res.status(202).json({ email });
+});
+
+authRouter.post('/register/confirm', (req, res) => {
+  const user = matchRoster(confirmRegistration(requireString(req.body, 'token')).id);
+  startSession(res, user.id);
+  res.status(201).json(user);
+});
+
+authRouter.post('/login', (req, res) => {
+  const email = requireString(req.body, 'email').toLowerCase();
+  const password = requireString(req.body, 'password');
+  const account = getPasswordHash(email);
+  if (!account?.hash || !verifyPassword(password, account.hash)) {
+    throw new HttpError(401, 'メールアドレスまたはパスワードが違います。');
+  }
+  startSession(res, account.user.id);
+  res.json(matchRoster(account.user.id));
+});
+
+authRouter.post('/logout', endSession, (_req, res) => {
+  res.status(204).end();
+});
@@ -0,0 +1,112 @@
+import { Router } from 'express';
+import { requirePermission } from '../auth';
+import { HttpError, fieldsOf, parseId, requireString } from '../http';
+import {
+  castBallot,
+  closeBallot,
+  createBallot,
+  electorateUserIds,
+  exportTally,
+  getBallot,
+  isEligible,
+  listBallots,
+  type BallotInput,
+} from '../models/ballots';
+import { notifyUsers } from '../models/notifications';
+import { getProposal } from '../models/proposals';
+import type { BallotElectorate, User } from '../../types';
+
+export const ballotsRouter = Router();
+
+const invalid = (message: string): never => {
+  throw new HttpError(400, message);
+};
+
+const findOr404 = (id: number, viewer?: User) => {
+  const ballot = getBallot(id, viewer);
+  if (!ballot) throw new HttpError(404, '投票が見つかりません。');
+  return ballot;
+};
+
+const parseTime = (value: unknown, field: string) => {
+  const time = typeof value === 'string' ? new Date(value) : undefined;
+  if (!time || Number.isNaN(time.getTime())) invalid(`${field}が不正です。`);
+  return time.toISOString();
+};
+
+const parseBallot = (raw: unknown): BallotInput => {
+  const body = fieldsOf(raw);
+  const proposalId = parseId(String(body.proposalId));
+  const proposal = getProposal(proposalId);
+  if (!proposal) throw new HttpError(404, '意見が見つかりません。');
+  if (proposal.mergedInto || proposal.withdrawnAt || proposal.hiddenAt || proposal.removedAt) {
+    throw new HttpError(409, 'この意見では投票を行えません。');
+  }
+  const question = requireString(body, 'question');
+  if (!Array.isArray(body.options)) invalid('選択肢を入力してください。');
+  const options = (body.options as unknown[]).map(o => (typeof o === 'string' ? o.trim() : '')).filter(Boolean);
+  if (options.length < 2) invalid('選択肢を2つ以上入力してください。');
+  if (new Set(options).size !== options.length) invalid('選択肢が重複しています。');
+  const scope = fieldsOf(body.electorate);
+  const grades = scope.grades ?? [];
+  const classes = scope.classes ?? [];
+  if (!Array.isArray(grades) || grades.some((g: unknown) => !Number.isInteger(g))) invalid('対象の学年が不正です。');
+  if (!Array.isArray(classes) || classes.some((c: unknown) => typeof c !== 'string' || !c.trim())) invalid('対象のクラスが不正です。');
+  const electorate: BallotElectorate = {
+    grades: grades as number[],
+    classes: (classes as string[]).map(c => c.trim()),
+  };
+  const opensAt = body.opensAt ? parseTime(body.opensAt, '開始日時') : new Date().toISOString();
+  const closesAt = parseTime(body.closesAt, '締切日時');
+  if (closesAt <= opensAt || closesAt <= new Date().toISOString()) invalid('締切日時は開始日時より後の未来にしてください。');
+  return { proposalId, question, options, electorate, secret: body.secret !== false, opensAt, closesAt };
+};
+
+ballotsRouter.get('/', (req, res) => {
+  res.json(listBallots(parseId(req.query.proposalId), req.user));
+});
+
+ballotsRouter.get('/:id', (req, res) => {
+  res.json(findOr404(parseId(req.params.id), req.user));
+});
+
+// Opens a ballot on a proposal and tells every eligible student.
+ballotsRouter.post('/', requirePermission('runBallots'), (req, res) => {
+  const input = parseBallot(req.body);
+  const ballot = createBallot(input, req.user!);
+  notifyUsers(electorateUserIds(input.electorate), {
+    type: 'ballot',
+    proposalId: input.proposalId,
+    title: `投票「${input.question}」が始まります`,
+    body: `締切: ${new Date(input.closesAt).toLocaleString('ja-JP', { timeZone: 'Asia/Tokyo' })}`,
+  });
+  res.status(201).json(ballot);
+});
+
+ballotsRouter.post('/:id/close', requirePermission('runBallots'), (req, res) => {
+  const ballot = findOr404(parseId(req.params.id));
+  if (ballot.state === 'closed') throw new HttpError(409, 'この投票はすでに締め切られています。');
+  res.json(closeBallot(ballot.id, req.user!));
+});
+
+// One vote per student. The receipt is shown once so the voter can find it in the tally export.
+ballotsRouter.post('/:id/votes', requirePermission('participate'), (req, res) => {
+  const user = req.user!;
+  const ballot = findOr404(parseId(req.params.id), user);
+  if (ballot.state !== 'open') throw new HttpError(409, 'この投票は受付期間外です。');
+  if (!isEligible(ballot.electorate, user)) throw new HttpError(403, 'この投票の対象ではありません。');
+  if (ballot.voted) throw new HttpError(409, 'すでに投票済みです。');
+  const option = req.body?.option;
+  if (!Number.isInteger(option) || option < 0 || option >= ballot.options.length) invalid('選択肢が不正です。');
+  // A request racing one that already voted gets past the check above; the insert catches it
+  const receipt = castBallot(ballot, user, option);
+  if (!receipt) throw new HttpError(409, 'すでに投票済みです。');
+  res.status(201).json({ ballot: getBallot(ballot.id, user), receipt });
+});
+
+ballotsRouter.get('/:id/tally.json', (req, res) => {
+  const ballot = findOr404(parseId(req.params.id));
+  if (ballot.state !== 'closed') throw new HttpError(409, '結果は投票の締切後に公開されます。');
+  res.attachment(`ballot-${ballot.id}-tally.json`);
+  res.json(exportTally(ballot));
+});
@@ -0,0 +1,127 @@
+import { Router } from 'express';
+import {
+  authenticateDistrict,
+  endDistrictSession,
+  isDistrictAdminEmail,
+  requireDistrictAdmin,
+  startDistrictSession,
+} from '../auth';
+import { config } from '../config';
+import { db, runInSchool } from '../db';
+import { HttpError, fieldsOf, parseDate, requireString } from '../http';
+import { buildSchoolStats } from '../models/analytics';
+import { createSchool, getSchool, listSchools, updateSchool, type SchoolInput } from '../models/schools';
+import { getTokenVerifier } from '../tokenVerifier';
+
+// Board-of-education screens: managing the schools on this deployment and comparing them by the
+// numbers. Nothing here returns a proposal, comment or student of any school.
+export const districtRouter = Router();
+
+districtRouter.use(authenticateDistrict);
+
+const SCHOOL_ID_PATTERN = /^[a-z0-9][a-z0-9-]{1,31}$/;
+const COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+
+const invalid = (message: string): never => {
+  throw new HttpError(400, message);
+};
+
+const stringList = (value: unknown, field: string): string[] => {
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || value.some(v => typeof v !== 'string')) invalid(`${field} が不正です。`);
+  return [...new Set((value as string[]).map(v => v.trim()).filter(Boolean))];
+};
+
+// Checks a school's settings from the district screen and returns only the known fields.
+// A theme colour; the optional shades may be left out or empty.
+const themeColor = (theme: Record<string, unknown>, key: string, optional = false): string | undefined => {
+  const value = theme[key];
+  if (optional && (value === undefined || value === '')) return undefined;
+  return typeof value === 'string' && COLOR_PATTERN.test(value)
+    ? value
+    : invalid(`テーマの色（${key}）は #rrggbb 形式で指定してください。`);
+};
+
+const parseSchoolInput = (raw: unknown): SchoolInput => {
+  const body = fieldsOf(raw);
+  const name = requireString(body, 'name');
+  const loginDomain = typeof body.loginDomain === 'string' ? body.loginDomain.trim().replace(/^@/, '') : '';
+  const categories = stringList(body.categories, 'categories').filter(c => c !== 'その他');
+  if (categories.length === 0) invalid('カテゴリーを1つ以上設定してください。');
+  const rawTheme = fieldsOf(body.theme);
+  const theme = {
+    primary: themeColor(rawTheme, 'primary'),
+    accent: themeColor(rawTheme, 'accent'),
+    primaryDark: themeColor(rawTheme, 'primaryDark', true),
+    primaryLight: themeColor(rawTheme, 'primaryLight', true),
+    primaryBg: themeColor(rawTheme, 'primaryBg', true),
+  };
+  return {
+    name,
+    loginDomain,
+    adminEmails: stringList(body.adminEmails, 'adminEmails'),
+    // その他 is where the AI check puts anything it cannot place, so every school keeps it last
+    categories: [...categories, 'その他'],
+    theme: {
+      primary: theme.primary,
+      accent: theme.accent,
+      ...(theme.primaryDark && { primaryDark: theme.primaryDark }),
+      ...(theme.primaryLight && { primaryLight: theme.primaryLight }),
+      ...(theme.primaryBg && { primaryBg: theme.primaryBg }),
+    },
+    hosts: stringList(body.hosts, 'hosts'),
+    googleClientId: typeof body.googleClientId === 'string' ? body.googleClientId.trim() : '',
+  };
+};
+
+const assertHostsFree = (hosts: string[], schoolId?: string) => {
+  const taken = listSchools().find(s => s.id !== schoolId && s.hosts.some(h => hosts.includes(h)));
+  if (taken) throw new HttpError(409, `ホスト名は既に「${taken.name}」で使われています。`);
+};
+
+districtRouter.get('/session', (req, res) => {
+  res.json({ admin: req.districtAdmin ?? null, googleClientId: config.googleClientId });
+});
+
+districtRouter.post('/login', async (req, res) => {
+  const credential = requireString(req.body, 'credential');
+  const identity = await getTokenVerifier().verify(credential, config.googleClientId);
+  if (!isDistrictAdminEmail(identity.email)) throw new HttpError(403, 'このアカウントは教育委員会の管理者として登録されていません。');
+  const admin = { email: identity.email.toLowerCase(), name: identity.name };
+  startDistrictSession(res, admin);
+  res.json(admin);
+});
+
+districtRouter.post('/logout', endDistrictSession, (_req, res) => {
+  res.status(204).end();
+});
+
+districtRouter.get('/schools', requireDistrictAdmin, (_req, res) => {
+  res.json(listSchools());
+});
+
+districtRouter.post('/schools', requireDistrictAdmin, (req, res) => {
+  const id = requireString(req.body, 'id').toLowerCase();
+  if (!SCHOOL_ID_PATTERN.test(id)) invalid('学校IDは半角英小文字・数字・ハイフンの2〜32文字にしてください。');
+  if (getSchool(id)) throw new HttpError(409, 'この学校IDは既に使われています。');
+  const input = parseSchoolInput(req.body);
+  assertHostsFree(input.hosts);
+  const school = createSchool(id, input);
+  // Create the school's database now so a broken data directory shows up here, not on first visit
+  runInSchool(id, () => db());
+  res.status(201).json(school);
+});
+
+districtRouter.put('/schools/:id', requireDistrictAdmin, (req, res) => {
+  const id = String(req.params.id);
+  if (!getSchool(id)) throw new HttpError(404, '学校が見つかりません。');
+  const input = parseSchoolInput(req.body);
+  assertHostsFree(input.hosts, id);
+  res.json(updateSchool(id, input));
+});
+
+// Query: from, to (dates, both inclusive).
+districtRouter.get('/stats', requireDistrictAdmin, (req, res) => {
+  const range = { from: parseDate(req.query.from, 'from'), to: parseDate(req.query.to, 'to', 1) };
+  res.json(listSchools().map(school => runInSchool(school.id, () => buildSchoolStats(school, range))));
+});
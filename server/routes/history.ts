@@ -0,0 +1,35 @@
+import { Router } from 'express';
+import { requirePermission } from '../auth';
+import { toCsv } from '../csv';
+import { parseDate, parseId } from '../http';
+import { EVENT_LABELS, eventValueLabel, listHistoryForExport } from '../models/history';
+
+export const historyRouter = Router();
+
+// Audit trail as CSV for the student council's meeting minutes.
+// Query: proposalId, from, to (dates, both inclusive).
+historyRouter.get('/export.csv', requirePermission('viewAnalytics'), (req, res) => {
+  const proposalId = req.query.proposalId === undefined ? undefined : parseId(req.query.proposalId);
+  const from = parseDate(req.query.from, 'from');
+  const to = parseDate(req.query.to, 'to', 1);
+  const rows = listHistoryForExport({ proposalId, from, to });
+
+  res
+    .type('text/csv; charset=utf-8')
+    .attachment(proposalId ? `proposal-${proposalId}-history.csv` : 'proposal-history.csv')
+    .send(
+      toCsv(
+        ['意見ID', 'タイトル', '日時', '種類', '変更前', '変更後', '理由', '担当者'],
+        rows.map(r => [
+          r.proposal_id,
+          r.title,
+          new Date(r.created_at).toLocaleString('ja-JP', { timeZone: 'Asia/Tokyo' }),
+          EVENT_LABELS[r.type],
+          eventValueLabel(r.type, r.from_value),
+          eventValueLabel(r.type, r.to_value),
+          r.note,
+          r.actor_name,
+        ])
+      )
+    );
+});
@@ -0,0 +1,19 @@
+import { Router } from 'express';
+import { requirePermission } from '../auth';
+import { requireString } from '../http';
+import { createNews, listNews } from '../models/news';
+import { notifyAllUsers } from '../models/notifications';
+
+export const newsRouter = Router();
+
+newsRouter.get('/', (_req, res) => {
+  res.json(listNews());
+});
+
+newsRouter.post('/', requirePermission('postNews'), (req, res) => {
+  const title = requireString(req.body, 'title');
+  const content = requireString(req.body, 'content');
+  const item = createNews({ title, content, author: req.user!.name });
+  notifyAllUsers({ type: 'news', title: `お知らせ：${title}`, body: content }, req.user!.id);
+  res.status(201).json(item);
+});
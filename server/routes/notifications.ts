@@ -0,0 +1,47 @@
+import { Router } from 'express';
+import { requireUser } from '../auth';
+import { HttpError } from '../http';
+import {
+  getDigestFrequency,
+  listNotifications,
+  listSubscriptions,
+  markRead,
+  setDigestFrequency,
+  unreadCount,
+} from '../models/notifications';
+import type { DigestFrequency } from '../../types';
+
+export const notificationsRouter = Router();
+
+const FREQUENCIES: DigestFrequency[] = ['off', 'daily', 'weekly'];
+
+notificationsRouter.use(requireUser);
+
+notificationsRouter.get('/', (req, res) => {
+  res.json({ items: listNotifications(req.user!.id), unread: unreadCount(req.user!.id) });
+});
+
+// Body: { ids?: number[] }; without ids everything is marked read.
+notificationsRouter.post('/read', (req, res) => {
+  const ids = req.body?.ids;
+  if (ids !== undefined && (!Array.isArray(ids) || ids.some(id => !Number.isInteger(id)))) {
+    throw new HttpError(400, 'ids が不正です。');
+  }
+  markRead(req.user!.id, ids);
+  res.json({ items: listNotifications(req.user!.id), unread: unreadCount(req.user!.id) });
+});
+
+notificationsRouter.get('/subscriptions', (req, res) => {
+  res.json(listSubscriptions(req.user!.id));
+});
+
+notificationsRouter.get('/settings', (req, res) => {
+  res.json({ digest: getDigestFrequency(req.user!.id) });
+});
+
+notificationsRouter.put('/settings', (req, res) => {
+  const digest = req.body?.digest;
+  if (!FREQUENCIES.includes(digest)) throw new HttpError(400, '配信頻度が不正です。');
+  setDigestFrequency(req.user!.id, digest);
+  res.json({ digest });
+});
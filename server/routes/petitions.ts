@@ -0,0 +1,14 @@
+import { Router } from 'express';
+import { publicKeyPem, verifyPetition } from '../petitions';
+
+// Open to everyone: a teacher handed a petition file checks it here without an account.
+export const petitionsRouter = Router();
+
+petitionsRouter.get('/public-key', (_req, res) => {
+  res.type('application/x-pem-file').send(publicKeyPem());
+});
+
+// Body: the exported file as is.
+petitionsRouter.post('/verify', (req, res) => {
+  res.json(verifyPetition(req.body ?? {}));
+});
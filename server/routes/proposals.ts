@@ -0,0 +1,441 @@
+import { Router } from 'express';
+import { can, canSeeSigners } from '../../permissions';
+import { assertCan, requirePermission, requireUser } from '../auth';
+import { monthlyReport, proposalDocument } from '../documents';
+import { HttpError, parseDate, parseId, requireString } from '../http';
+import { rateLimit } from '../rateLimit';
+import { searchProposals } from '../search';
+import { findSimilarProposals } from '../similarity';
+import { currentSchool } from '../tenant';
+import { applySignatureThresholds } from '../thresholds';
+import { verifyVerdict } from '../verdicts';
+import { moderateComment } from '../moderation';
+import { signPetition } from '../petitions';
+import { authorOf, isAuthor, proposalIdsByAuthor } from '../models/authors';
+import {
+  castVote,
+  createProposal,
+  editProposal,
+  getProposal,
+  getProposals,
+  listProposals,
+  mergeProposals,
+  petitionSigners,
+  removeVote,
+  setSignatureVisibility,
+  SIGNATURE_VISIBILITIES,
+  updateProposal,
+  votesByUser,
+  withdrawProposal,
+} from '../models/proposals';
+import { notifyAuthor, notifyStaff, subscribe, unsubscribe } from '../models/notifications';
+import { addQuestion, listQuestions } from '../models/questions';
+import { logAction, resolveReports } from '../models/reports';
+import {
+  createComment,
+  getComment,
+  hideComment,
+  listComments,
+  markHelpful,
+  restoreComment,
+  unmarkHelpful,
+} from '../models/comments';
+import { canTransition, getWorkflow } from '../models/workflow';
+import type { CommentStance, Petition, Proposal, SignatureVisibility, User, VoteStance } from '../../types';
+
+export const proposalsRouter = Router();
+
+const findOr404 = (id: number) => {
+  const proposal = getProposal(id);
+  if (!proposal) throw new HttpError(404, '意見が見つかりません。');
+  return proposal;
+};
+
+// Merged, withdrawn and moderated proposals are read-only.
+const assertOpen = (proposal: Proposal) => {
+  if (proposal.mergedInto) throw new HttpError(409, `この意見は #${proposal.mergedInto} に統合されました。`);
+  if (proposal.withdrawnAt) throw new HttpError(409, 'この意見は取り下げられました。');
+  if (proposal.removedAt || proposal.hiddenAt) throw new HttpError(409, 'この意見は現在表示されていません。');
+};
+
+// Hidden and removed proposals are only shown to moderators and their author.
+const findVisibleOr404 = (id: number, viewer?: User) => {
+  const proposal = findOr404(id);
+  if ((proposal.hiddenAt || proposal.removedAt) && !can(viewer, 'moderate') && !(viewer && isAuthor(id, viewer.id))) {
+    throw new HttpError(404, proposal.removedAt ? '意見が見つかりません。' : 'この意見は通報を受けて確認中のため、現在表示できません。');
+  }
+  return proposal;
+};
+
+// Signer names only go to viewers allowed to see them under the proposal's category and signature
+// visibility; the others get the same number of entries without names.
+const forViewer =
+  (viewer?: User) =>
+  <T extends Proposal | undefined>(proposal: T): T =>
+    !proposal || canSeeSigners(viewer, proposal)
+      ? proposal
+      : { ...proposal, signatures: proposal.signatures.map(s => ({ userId: '', userName: '', timestamp: s.timestamp })) };
+
+const COMMENT_STANCES: CommentStance[] = ['pro', 'con', 'neutral'];
+const COMMENT_MAX_LENGTH = 1000;
+const VOTE_STANCES: VoteStance[] = ['support', 'oppose', 'neutral'];
+
+const parseVisibility = (raw: unknown): SignatureVisibility => {
+  if (!SIGNATURE_VISIBILITIES.includes(raw as SignatureVisibility)) {
+    throw new HttpError(400, 'signatureVisibility が不正です。');
+  }
+  return raw as SignatureVisibility;
+};
+
+const findCommentOr404 = (proposalId: number, rawId: unknown, viewer: User) => {
+  const comment = getComment(parseId(String(rawId)), viewer);
+  if (!comment || comment.proposalId !== proposalId) throw new HttpError(404, 'コメントが見つかりません。');
+  return comment;
+};
+
+const findOwnOr404 = (id: number, user: User) => {
+  const proposal = findOr404(id);
+  if (!isAuthor(id, user.id)) throw new HttpError(403, '投稿者本人のみ操作できます。');
+  return proposal;
+};
+
+proposalsRouter.get('/', (req, res) => {
+  res.json(listProposals().map(forViewer(req.user)));
+});
+
+// The signed-in user's own proposals, including withdrawn ones. Only the author ever sees this list.
+proposalsRouter.get('/mine', requireUser, (req, res) => {
+  res.json(getProposals(proposalIdsByAuthor(req.user!.id)).map(forViewer(req.user)));
+});
+
+// The signed-in user's stance per proposal ID, so the client can highlight their votes.
+proposalsRouter.get('/votes', requireUser, (req, res) => {
+  res.json(votesByUser(req.user!.id));
+});
+
+// Query: q (space-separated terms, all required), category, status, tag, from, to (dates, both inclusive).
+// Every parameter is optional so a filtered list can be shared as a plain URL.
+proposalsRouter.get('/search', (req, res) => {
+  const text = (raw: unknown) => (typeof raw === 'string' && raw.trim() ? raw.trim() : undefined);
+  const result = searchProposals(text(req.query.q) ?? '', {
+    category: text(req.query.category),
+    status: text(req.query.status),
+    tag: text(req.query.tag),
+    from: parseDate(req.query.from, 'from'),
+    to: parseDate(req.query.to, 'to', 1),
+  });
+  res.json({ ...result, hits: result.hits.map(hit => ({ ...hit, proposal: forViewer(req.user)(hit.proposal) })) });
+});
+
+// 月次報告 as PDF. Query: from, to (dates, both inclusive); the current month so far by default.
+proposalsRouter.get('/monthly-report.pdf', requirePermission('respond'), (req, res) => {
+  const today = new Date().toLocaleDateString('sv-SE', { timeZone: 'Asia/Tokyo' });
+  const fromLabel = typeof req.query.from === 'string' && req.query.from ? req.query.from : `${today.slice(0, 8)}01`;
+  const toLabel = typeof req.query.to === 'string' && req.query.to ? req.query.to : today;
+  const from = parseDate(fromLabel, 'from')!;
+  const to = parseDate(toLabel, 'to', 1)!;
+  if (from >= to) throw new HttpError(400, '期間の指定が不正です。');
+  res
+    .type('application/pdf')
+    .attachment(`monthly-report-${fromLabel}-${toLabel}.pdf`)
+    .send(monthlyReport({ from, to, fromLabel, toLabel }));
+});
+
+// Lets the post modal suggest existing proposals before a near-duplicate is submitted. The draft
+// may go to the embedding API, so only students who can post may ask, and not too often.
+proposalsRouter.post('/similar', requirePermission('participate'), rateLimit({ windowMs: 10 * 60 * 1000, max: 60 }), async (req, res) => {
+  const title = typeof req.body?.title === 'string' ? req.body.title : '';
+  const content = typeof req.body?.content === 'string' ? req.body.content : '';
+  if (!title.trim() && !content.trim()) {
+    res.json([]);
+    return;
+  }
+  const similar = await findSimilarProposals({ title, content });
+  res.json(similar.map(s => ({ ...s, proposal: forViewer(req.user)(s.proposal) })));
+});
+
+proposalsRouter.get('/:id', (req, res) => {
+  res.json(forViewer(req.user)(findVisibleOr404(parseId(req.params.id), req.user)));
+});
+
+// Printable A4 version of the proposal for the staff meeting. Anyone who can open the proposal
+// may print it; it carries counts only, never signer names.
+proposalsRouter.get('/:id/document.pdf', (req, res) => {
+  const proposal = findVisibleOr404(parseId(req.params.id), req.user);
+  res.type('application/pdf').attachment(`proposal-${proposal.id}.pdf`).send(proposalDocument(proposal));
+});
+
+// Posting requires a verdict from /api/analyze for this exact text. The category comes
+// from the verdict too, so the client cannot relabel an approved post. Signer names are public
+// unless the author picks a stricter signatureVisibility.
+proposalsRouter.post('/', requirePermission('participate'), rateLimit({ windowMs: 60 * 60 * 1000, max: 5 }), (req, res) => {
+  const title = requireString(req.body, 'title');
+  const content = requireString(req.body, 'content');
+  const verdict = verifyVerdict(req.body.verdict, title, content, req.user!.id);
+  const proposal = createProposal({
+    title,
+    content,
+    category: verdict.category,
+    rulesVersion: verdict.rulesVersion,
+    ruleRefs: verdict.ruleRefs,
+    authorId: req.user!.id,
+    signatureVisibility:
+      req.body.signatureVisibility === undefined ? 'public' : parseVisibility(req.body.signatureVisibility),
+  });
+  res.status(201).json(forViewer(req.user)(proposal));
+});
+
+// Authors may revise their text until the council starts working on it. Like posting, the new
+// text needs a fresh verdict from /api/analyze.
+proposalsRouter.put('/:id', requirePermission('participate'), rateLimit({ windowMs: 60 * 60 * 1000, max: 10 }), (req, res) => {
+  const id = parseId(req.params.id);
+  const proposal = findOwnOr404(id, req.user!);
+  assertOpen(proposal);
+  if (proposal.status !== getWorkflow().initial) {
+    throw new HttpError(409, '生徒会での検討が始まった意見は編集できません。質問欄で生徒会に伝えてください。');
+  }
+  const title = requireString(req.body, 'title');
+  const content = requireString(req.body, 'content');
+  const verdict = verifyVerdict(req.body.verdict, title, content, req.user!.id);
+  res.json(
+    forViewer(req.user)(
+      editProposal(id, {
+        title,
+        content,
+        category: verdict.category,
+        rulesVersion: verdict.rulesVersion,
+        ruleRefs: verdict.ruleRefs,
+      })
+    )
+  );
+});
+
+proposalsRouter.post('/:id/withdraw', requireUser, (req, res) => {
+  const id = parseId(req.params.id);
+  assertOpen(findOwnOr404(id, req.user!));
+  const reason = typeof req.body?.reason === 'string' ? req.body.reason.trim() || undefined : undefined;
+  res.json(forViewer(req.user)(withdrawProposal(id, reason)));
+});
+
+// The author or a moderator may hide signer names further at any time. Showing them more widely is
+// only possible before anyone has signed, since signers agreed under the stricter setting.
+proposalsRouter.put('/:id/signature-visibility', requireUser, (req, res) => {
+  const id = parseId(req.params.id);
+  const proposal = findOr404(id);
+  const user = req.user!;
+  const author = isAuthor(id, user.id);
+  if (!author && !can(user, 'moderate')) throw new HttpError(403, '投稿者本人か管理者のみ変更できます。');
+  const visibility = parseVisibility(req.body?.signatureVisibility);
+  const widens =
+    SIGNATURE_VISIBILITIES.indexOf(visibility) < SIGNATURE_VISIBILITIES.indexOf(proposal.signatureVisibility);
+  if (widens && proposal.signatures.length > 0) {
+    throw new HttpError(409, 'すでに賛同があるため、名前の公開範囲を広げることはできません。');
+  }
+  // The author stays anonymous in the history
+  res.json(forViewer(user)(setSignatureVisibility(id, visibility, author ? null : user)));
+});
+
+// Signed list of supporters for the staff meeting. Names follow the proposal's signature
+// visibility for the exporting user; class and time are always listed.
+proposalsRouter.get('/:id/petition', requireUser, (req, res) => {
+  const id = parseId(req.params.id);
+  const proposal = findVisibleOr404(id, req.user);
+  assertCan(req.user, 'respond', proposal.category);
+  const withNames = canSeeSigners(req.user, proposal);
+  const signers = petitionSigners(id).map(({ name, ...rest }) => (withNames ? { name, ...rest } : rest));
+  const byClass: Record<string, number> = {};
+  signers.forEach(s => (byClass[s.class] = (byClass[s.class] ?? 0) + 1));
+  const petition: Petition = {
+    format: 'proposal-petition/1',
+    school: currentSchool().name,
+    proposal: {
+      id,
+      title: proposal.title,
+      category: proposal.category,
+      status: proposal.status,
+      postedAt: proposal.timestamp,
+    },
+    signatureVisibility: proposal.signatureVisibility,
+    exportedAt: new Date().toISOString(),
+    exportedBy: req.user!.name,
+    total: signers.length,
+    verified: signers.filter(s => s.verified).length,
+    byClass,
+    signers,
+  };
+  res.attachment(`petition-${id}.json`).json(signPetition(petition));
+});
+
+// Private thread between the council and the author. The author's side is never named, so
+// admins can ask follow-up questions without learning who posted.
+proposalsRouter.get('/:id/questions', requireUser, (req, res) => {
+  const id = parseId(req.params.id);
+  const proposal = findOr404(id);
+  if (!isAuthor(id, req.user!.id)) assertCan(req.user, 'respond', proposal.category);
+  res.json(listQuestions(id));
+});
+
+proposalsRouter.post('/:id/questions', requireUser, (req, res) => {
+  const id = parseId(req.params.id);
+  const proposal = findOr404(id);
+  const body = requireString(req.body, 'body');
+  const user = req.user!;
+  const authorId = authorOf(id);
+  if (authorId === user.id) {
+    notifyStaff(
+      'respond',
+      { type: 'question', proposalId: id, title: `「${proposal.title}」の投稿者から返信がありました`, body },
+      proposal.category
+    );
+    res.status(201).json(addQuestion(id, { sender: 'author', body }));
+    return;
+  }
+  assertCan(user, 'respond', proposal.category);
+  // Proposals from before authors were recorded have no one to answer.
+  if (!authorId) throw new HttpError(409, 'この意見の投稿者には連絡できません。');
+  notifyAuthor(authorId, { type: 'question', proposalId: id, title: `「${proposal.title}」について生徒会から質問が届きました`, body });
+  res.status(201).json(addQuestion(id, { sender: 'council', senderName: user.name, body }));
+});
+
+// Public discussion. Hidden comments stay in the list so replies keep their thread.
+proposalsRouter.get('/:id/comments', (req, res) => {
+  const id = parseId(req.params.id);
+  findVisibleOr404(id, req.user);
+  res.json(listComments(id, req.user));
+});
+
+// Every comment is checked by the same moderation as proposals before it is saved.
+proposalsRouter.post('/:id/comments', requirePermission('participate'), rateLimit({ windowMs: 10 * 60 * 1000, max: 10 }), async (req, res) => {
+  const id = parseId(req.params.id);
+  const proposal = findOr404(id);
+  assertOpen(proposal);
+  const body = requireString(req.body, 'body');
+  if (body.length > COMMENT_MAX_LENGTH) throw new HttpError(400, `コメントは${COMMENT_MAX_LENGTH}文字以内で入力してください。`);
+  const stance: CommentStance = req.body.stance ?? 'neutral';
+  if (!COMMENT_STANCES.includes(stance)) throw new HttpError(400, 'stance が不正です。');
+  let parentId: number | undefined;
+  if (req.body.parentId !== undefined && req.body.parentId !== null) {
+    const parent = findCommentOr404(id, req.body.parentId, req.user!);
+    // Replies to a reply join the same thread.
+    parentId = parent.parentId ?? parent.id;
+  }
+  const moderation = await moderateComment(proposal.title, body);
+  if (!moderation.isAppropriate) {
+    throw new HttpError(400, moderation.advice || 'このコメントは投稿できません。内容を見直してください。');
+  }
+  res.status(201).json(createComment({ proposalId: id, parentId, stance, body }, req.user!));
+});
+
+proposalsRouter.put('/:id/comments/:commentId/helpful', requirePermission('participate'), (req, res) => {
+  const id = parseId(req.params.id);
+  const comment = findCommentOr404(id, req.params.commentId, req.user!);
+  if (comment.mine) throw new HttpError(400, '自分のコメントには付けられません。');
+  if (comment.hidden) throw new HttpError(409, '非表示のコメントです。');
+  res.json(markHelpful(comment.id, req.user!));
+});
+
+proposalsRouter.delete('/:id/comments/:commentId/helpful', requirePermission('participate'), (req, res) => {
+  const id = parseId(req.params.id);
+  const comment = findCommentOr404(id, req.params.commentId, req.user!);
+  res.json(unmarkHelpful(comment.id, req.user!));
+});
+
+// Admins hide comments with a reason, or restore them. Both are audit-logged like report handling.
+// Removed comments stay down.
+proposalsRouter.patch('/:id/comments/:commentId', requirePermission('moderate'), (req, res) => {
+  const id = parseId(req.params.id);
+  const comment = findCommentOr404(id, req.params.commentId, req.user!);
+  const { hidden, reason } = req.body ?? {};
+  if (typeof hidden !== 'boolean') throw new HttpError(400, 'hidden が不正です。');
+  if (comment.removed) throw new HttpError(409, '削除されたコメントは変更できません。');
+  if (!hidden) {
+    restoreComment(comment.id);
+    resolveReports('comment', comment.id);
+    logAction('comment', comment.id, 'restored', {}, req.user!.name);
+  } else {
+    if (typeof reason !== 'string' || !reason.trim()) throw new HttpError(400, '非表示にする理由を入力してください。');
+    hideComment(comment.id, reason.trim(), req.user!.name);
+    logAction('comment', comment.id, 'hidden', { note: reason.trim() }, req.user!.name);
+  }
+  res.json(getComment(comment.id, req.user!));
+});
+
+// Status changes follow the workflow: the transition must exist and allow the user's role, and the
+// user must handle the proposal's category. The same goes for the official response.
+proposalsRouter.patch('/:id', requireUser, (req, res) => {
+  const id = parseId(req.params.id);
+  const proposal = findOr404(id);
+  assertOpen(proposal);
+  const { status, reason, adminResponse } = req.body ?? {};
+  const user = req.user!;
+  if (status !== undefined && status !== proposal.status) {
+    const workflow = getWorkflow();
+    const target = workflow.statuses.find(s => s.name === status);
+    if (!target) throw new HttpError(400, 'ステータスが不正です。');
+    assertCan(user, 'changeStatus', proposal.category);
+    if (!canTransition(workflow, proposal.status, status, user.role)) {
+      throw new HttpError(403, `「${proposal.status}」から「${status}」には変更できません。`);
+    }
+    if (target.requiresReason && (typeof reason !== 'string' || !reason.trim())) {
+      throw new HttpError(400, `「${status}」にするには理由を入力してください。`);
+    }
+  }
+  if (adminResponse !== undefined) {
+    assertCan(user, 'respond', proposal.category);
+    if (typeof adminResponse !== 'string') throw new HttpError(400, 'adminResponse が不正です。');
+  }
+  res.json(
+    forViewer(user)(
+      updateProposal(
+        id,
+        { status, reason: typeof reason === 'string' ? reason.trim() || undefined : undefined, adminResponse },
+        user
+      )
+    )
+  );
+});
+
+proposalsRouter.post('/:id/merge', requirePermission('moderate'), (req, res) => {
+  const sourceId = parseId(req.params.id);
+  const targetId = parseId(String(req.body?.targetId));
+  if (sourceId === targetId) throw new HttpError(400, '同じ意見には統合できません。');
+  const source = findOr404(sourceId);
+  const target = findOr404(targetId);
+  assertOpen(source);
+  assertOpen(target);
+  mergeProposals(sourceId, targetId, req.user!);
+  res.json(forViewer(req.user)(applySignatureThresholds(targetId)));
+});
+
+// Votes are always recorded for the signed-in user, never an ID from the body. Without a
+// stance this is a plain signature (support); voting again changes the stance.
+proposalsRouter.post('/:id/signatures', requirePermission('participate'), (req, res) => {
+  const id = parseId(req.params.id);
+  const proposal = findOr404(id);
+  assertOpen(proposal);
+  const stance: VoteStance = req.body?.stance ?? 'support';
+  if (!VOTE_STANCES.includes(stance)) throw new HttpError(400, 'stance が不正です。');
+  castVote(id, req.user!.id, req.user!.name, stance);
+  subscribe(req.user!.id, id);
+  res.json(forViewer(req.user)(applySignatureThresholds(id)));
+});
+
+proposalsRouter.delete('/:id/signatures', requirePermission('participate'), (req, res) => {
+  const id = parseId(req.params.id);
+  findOr404(id);
+  res.json(forViewer(req.user)(removeVote(id, req.user!.id)));
+});
+
+// Manual follow/unfollow; posting and signing follow automatically.
+proposalsRouter.put('/:id/subscription', requireUser, (req, res) => {
+  const id = parseId(req.params.id);
+  findOr404(id);
+  subscribe(req.user!.id, id);
+  res.status(204).end();
+});
+
+proposalsRouter.delete('/:id/subscription', requireUser, (req, res) => {
+  const id = parseId(req.params.id);
+  unsubscribe(req.user!.id, id);
+  res.status(204).end();
+});
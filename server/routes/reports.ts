@@ -0,0 +1,119 @@
+import { Router } from 'express';
+import { REPORT_REASONS } from '../../constants';
+import { can } from '../../permissions';
+import { requirePermission } from '../auth';
+import { HttpError, parseId, requireString } from '../http';
+import { rateLimit } from '../rateLimit';
+import { authorOf, isAuthor } from '../models/authors';
+import { getComment, redactComment, removeComment, restoreComment } from '../models/comments';
+import { notifyAuthor } from '../models/notifications';
+import { getProposal, redactProposal, removeProposal, setProposalHidden } from '../models/proposals';
+import { fileReport, listActions, listReportedItems, logAction, resolveReports } from '../models/reports';
+import type { ReportReason, ReportTargetType, User } from '../../types';
+
+export const reportsRouter = Router();
+
+const TARGET_TYPES: ReportTargetType[] = ['proposal', 'comment'];
+
+const optionalText = (value: unknown) => (typeof value === 'string' ? value.trim() || undefined : undefined);
+
+const parseTargetType = (raw: unknown): ReportTargetType => {
+  if (!TARGET_TYPES.includes(raw as ReportTargetType)) throw new HttpError(400, '通報の対象が不正です。');
+  return raw as ReportTargetType;
+};
+
+// A proposal the viewer may open: not removed, and if hidden, only for moderators and its author.
+const visibleProposal = (id: number, viewer: User) => {
+  const proposal = getProposal(id);
+  if (!proposal || proposal.removedAt) return undefined;
+  return !proposal.hiddenAt || can(viewer, 'moderate') || isAuthor(id, viewer.id) ? proposal : undefined;
+};
+
+// Loads a proposal or comment the viewer can see. Anything else is a plain 404, so reporting
+// cannot be used to find out what is hidden. `title` is what admins see in notifications.
+const findTargetOr404 = (type: ReportTargetType, id: number, viewer: User) => {
+  if (type === 'proposal') {
+    const proposal = visibleProposal(id, viewer);
+    if (!proposal) throw new HttpError(404, '意見が見つかりません。');
+    return { type, id, title: proposal.title, proposal, comment: undefined };
+  }
+  const comment = getComment(id, viewer);
+  const proposal = comment && visibleProposal(comment.proposalId, viewer);
+  if (!proposal || comment.removed || (comment.hidden && !can(viewer, 'moderate'))) {
+    throw new HttpError(404, 'コメントが見つかりません。');
+  }
+  return { type, id, title: `「${proposal.title}」へのコメント`, proposal: undefined, comment };
+};
+
+// Any signed-in student can report once per target. Reporters are never shown to anyone.
+reportsRouter.post('/', requirePermission('participate'), rateLimit({ windowMs: 60 * 60 * 1000, max: 20 }), (req, res) => {
+  const target = findTargetOr404(parseTargetType(req.body?.targetType), parseId(String(req.body?.targetId)), req.user!);
+  const reason = req.body.reason as ReportReason;
+  if (!Object.hasOwn(REPORT_REASONS, reason)) throw new HttpError(400, '通報の理由を選んでください。');
+  if (!fileReport(target, req.user!, reason, optionalText(req.body.detail))) {
+    throw new HttpError(409, 'すでに通報済みです。');
+  }
+  res.status(201).json({ ok: true });
+});
+
+reportsRouter.get('/', requirePermission('moderate'), (req, res) => {
+  res.json(listReportedItems(req.user!));
+});
+
+reportsRouter.get('/log', requirePermission('moderate'), (_req, res) => {
+  res.json(listActions());
+});
+
+// Puts the target back up (or keeps it up) and closes its reports.
+reportsRouter.post('/:type/:id/restore', requirePermission('moderate'), (req, res) => {
+  const target = findTargetOr404(parseTargetType(req.params.type), parseId(req.params.id), req.user!);
+  if (target.type === 'proposal') setProposalHidden(target.id, false);
+  else restoreComment(target.id);
+  resolveReports(target.type, target.id);
+  logAction(target.type, target.id, 'restored', { note: optionalText(req.body?.note) }, req.user!.name);
+  res.json(listReportedItems(req.user!));
+});
+
+// Takes the target down for good. The text stays in the database for the audit trail.
+reportsRouter.post('/:type/:id/remove', requirePermission('moderate'), (req, res) => {
+  const target = findTargetOr404(parseTargetType(req.params.type), parseId(req.params.id), req.user!);
+  const note = requireString(req.body, 'note');
+  if (target.type === 'proposal') {
+    removeProposal(target.id);
+    const authorId = authorOf(target.id);
+    if (authorId) {
+      notifyAuthor(authorId, { type: 'report', title: `あなたの意見「${target.title}」は削除されました`, body: note });
+    }
+  } else {
+    removeComment(target.id, req.user!.name);
+  }
+  resolveReports(target.type, target.id);
+  logAction(target.type, target.id, 'removed', { note }, req.user!.name);
+  res.json(listReportedItems(req.user!));
+});
+
+// Replaces the offending parts of the text and puts the target back up. The log keeps both versions.
+reportsRouter.post('/:type/:id/redact', requirePermission('moderate'), (req, res) => {
+  const target = findTargetOr404(parseTargetType(req.params.type), parseId(req.params.id), req.user!);
+  const note = optionalText(req.body?.note);
+  if (target.proposal) {
+    const title = requireString(req.body, 'title');
+    const content = requireString(req.body, 'content');
+    redactProposal(target.id, { title, content });
+    setProposalHidden(target.id, false);
+    logAction(
+      'proposal',
+      target.id,
+      'redacted',
+      { note, before: `${target.proposal.title}\n${target.proposal.content}`, after: `${title}\n${content}` },
+      req.user!.name
+    );
+  } else {
+    const body = requireString(req.body, 'body');
+    redactComment(target.id, body);
+    restoreComment(target.id);
+    logAction('comment', target.id, 'redacted', { note, before: target.comment.body, after: body }, req.user!.name);
+  }
+  resolveReports(target.type, target.id);
+  res.json(listReportedItems(req.user!));
+});
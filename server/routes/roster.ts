@@ -0,0 +1,102 @@
+import { Router } from 'express';
+import { GRADES } from '../../constants';
+import { requirePermission } from '../auth';
+import { parseCsv } from '../csv';
+import { HttpError, requireString } from '../http';
+import {
+  getRoster,
+  importRoster,
+  promoteRoster,
+  removeRosterEntry,
+  rosterIdForEmail,
+  type RosterInput,
+} from '../models/roster';
+import { currentSchool } from '../tenant';
+
+export const rosterRouter = Router();
+
+rosterRouter.use(requirePermission('manage'));
+
+// Header names accepted for each column; the first one is used in error messages.
+const HEADERS: Record<keyof RosterInput, string[]> = {
+  studentId: ['生徒番号', '学籍番号', '生徒id', 'id', 'student id', 'studentid'],
+  name: ['氏名', '名前', 'name'],
+  grade: ['学年', 'grade'],
+  className: ['組', 'クラス', 'class'],
+  email: ['メールアドレス', 'メール', 'email', 'e-mail'],
+};
+const COLUMNS = Object.keys(HEADERS) as (keyof RosterInput)[];
+const MAX_LISTED_ERRORS = 10;
+
+const clean = (cell: string | undefined) => (cell ?? '').normalize('NFKC').trim();
+
+// Columns are ID, name, grade, class, email in that order, unless the first row names them.
+// The whole file is rejected if any row is wrong, listing the rows to fix.
+const parseRoster = (text: string): RosterInput[] => {
+  const rows = parseCsv(text);
+  const header = rows[0]?.map(c => clean(c).toLowerCase()) ?? [];
+  const hasHeader = header.some(cell => COLUMNS.some(c => HEADERS[c].includes(cell)));
+  const positions = COLUMNS.map((c, i) => (hasHeader ? header.findIndex(cell => HEADERS[c].includes(cell)) : i));
+  COLUMNS.forEach((c, i) => {
+    if (positions[i] < 0) throw new HttpError(400, `名簿に「${HEADERS[c][0]}」の列がありません。`);
+  });
+  const body = hasHeader ? rows.slice(1) : rows;
+  if (body.length === 0) throw new HttpError(400, '名簿に生徒が1人もいません。');
+
+  const { loginDomain } = currentSchool();
+  const errors: string[] = [];
+  const seenIds = new Set<string>();
+  const seenEmails = new Set<string>();
+  const inputs = body.map((row, index) => {
+    const line = index + (hasHeader ? 2 : 1);
+    const [studentId, name, gradeCell, classCell, emailCell] = positions.map(p => clean(row[p]));
+    const grade = Number(gradeCell.replace(/年$/, ''));
+    // 「3-A」「3年A組」 in the class column are accepted as well as just 「A」
+    const className = classCell.replace(new RegExp(`^${grade}\\s*[-年]\\s*`), '');
+    const email = emailCell.toLowerCase();
+    const wellFormed = /^[^@\s]+@[^@\s]+$/.test(email);
+    const problems = [
+      !studentId && '生徒番号がありません',
+      !name && '氏名がありません',
+      !GRADES.includes(grade) && `学年「${gradeCell}」が不正です`,
+      !className && '組がありません',
+      !wellFormed && `メールアドレス「${emailCell}」が不正です`,
+      wellFormed &&
+        loginDomain &&
+        email.split('@')[1] !== loginDomain &&
+        `メールアドレスが学校のドメイン（@${loginDomain}）ではありません`,
+      seenIds.has(studentId) && `生徒番号「${studentId}」が重複しています`,
+      seenEmails.has(email) && `メールアドレス「${email}」が重複しています`,
+      (rosterIdForEmail(email) ?? studentId) !== studentId && `メールアドレス「${email}」は別の生徒番号で登録済みです`,
+    ].filter(Boolean);
+    if (problems.length > 0) errors.push(`${line}行目: ${problems.join('、')}`);
+    seenIds.add(studentId);
+    seenEmails.add(email);
+    return { studentId, name, grade, className, email };
+  });
+  if (errors.length > 0) {
+    const more = errors.length > MAX_LISTED_ERRORS ? `\nほか${errors.length - MAX_LISTED_ERRORS}行` : '';
+    throw new HttpError(400, `名簿を読み込めませんでした。\n${errors.slice(0, MAX_LISTED_ERRORS).join('\n')}${more}`);
+  }
+  return inputs;
+};
+
+rosterRouter.get('/', (_req, res) => {
+  res.json(getRoster());
+});
+
+// Body: { csv } — the file's text.
+rosterRouter.post('/import', (req, res) => {
+  res.json(importRoster(parseRoster(requireString(req.body, 'csv'))));
+});
+
+rosterRouter.post('/promote', (req, res) => {
+  const result = promoteRoster(req.user!.name);
+  if (!result) throw new HttpError(409, '今年度の進級処理は実行済みです。');
+  res.json(result);
+});
+
+rosterRouter.delete('/:studentId', (req, res) => {
+  if (!removeRosterEntry(req.params.studentId)) throw new HttpError(404, '名簿に見つかりません。');
+  res.status(204).end();
+});
@@ -0,0 +1,28 @@
+import { Router } from 'express';
+import { requirePermission } from '../auth';
+import { HttpError, parseDate, parseId, requireString } from '../http';
+import { deleteRule, getRuleSet, saveRule } from '../models/rules';
+
+export const rulesRouter = Router();
+
+rulesRouter.get('/', (req, res) => {
+  const version = req.query.version === undefined ? undefined : parseId(req.query.version);
+  res.json(getRuleSet(version));
+});
+
+rulesRouter.put('/:section', requirePermission('manage'), (req, res) => {
+  const section = parseId(req.params.section);
+  const title = requireString(req.body, 'title');
+  const body = requireString(req.body, 'body');
+  // Stored as the school day itself; parseDate only checks that the day exists
+  const effectiveDate = requireString(req.body, 'effectiveDate');
+  parseDate(effectiveDate, '施行日');
+  res.json(saveRule(section, { title, body, effectiveDate }, req.user!.name));
+});
+
+rulesRouter.delete('/:section', requirePermission('manage'), (req, res) => {
+  const section = parseId(req.params.section);
+  const rule = getRuleSet().rules.find(r => r.section === section);
+  if (!rule) throw new HttpError(404, '指定された校則が見つかりません。');
+  res.json(deleteRule(rule, req.user!.name));
+});
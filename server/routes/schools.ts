@@ -0,0 +1,36 @@
+import { Router } from 'express';
+import { HttpError, requireString } from '../http';
+import { getSchool, listSchools } from '../models/schools';
+import { chooseSchool, currentSchool, googleClientIdFor, isPinnedByHost } from '../tenant';
+import type { SchoolInfo } from '../../types';
+
+export const schoolsRouter = Router();
+
+// Names for the school picker on a shared host.
+schoolsRouter.get('/', (_req, res) => {
+  res.json(listSchools().map(s => ({ id: s.id, name: s.name })));
+});
+
+// Branding and sign-in settings of the school this request was routed to.
+schoolsRouter.get('/current', (req, res) => {
+  const school = currentSchool();
+  const info: SchoolInfo = {
+    id: school.id,
+    name: school.name,
+    loginDomain: school.loginDomain,
+    categories: school.categories,
+    theme: school.theme,
+    googleClientId: googleClientIdFor(school),
+    pinned: isPinnedByHost(req.hostname),
+  };
+  res.json(info);
+});
+
+// Switches school on a shared host. Sessions belong to one school, so the visitor signs in again.
+schoolsRouter.put('/current', (req, res) => {
+  const id = requireString(req.body, 'id');
+  if (isPinnedByHost(req.hostname)) throw new HttpError(409, 'このアドレスでは学校を切り替えられません。');
+  if (!getSchool(id)) throw new HttpError(404, '学校が見つかりません。');
+  chooseSchool(res, id);
+  res.status(204).end();
+});
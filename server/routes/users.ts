@@ -0,0 +1,51 @@
+import { Router } from 'express';
+import { ROLE_LABELS } from '../../constants';
+import { requirePermission } from '../auth';
+import { HttpError, requireString } from '../http';
+import { matchRoster } from '../models/roster';
+import { getUser, listUsers, setUserCategories, setUserRole, upsertUser } from '../models/users';
+import { currentSchool } from '../tenant';
+import type { UserRole } from '../../types';
+
+export const usersRouter = Router();
+
+usersRouter.use(requirePermission('manage'));
+
+const parseRole = (raw: unknown): UserRole => {
+  if (typeof raw !== 'string' || !Object.hasOwn(ROLE_LABELS, raw)) throw new HttpError(400, '役割が不正です。');
+  return raw as UserRole;
+};
+
+const parseCategories = (raw: unknown): string[] => {
+  const { categories } = currentSchool();
+  if (!Array.isArray(raw) || raw.some(c => !categories.includes(c))) throw new HttpError(400, '担当カテゴリが不正です。');
+  return [...new Set<string>(raw)];
+};
+
+usersRouter.get('/', (_req, res) => {
+  res.json(listUsers());
+});
+
+// Adds an account before its first sign-in, e.g. a parent, who cannot sign up on their own.
+usersRouter.post('/', (req, res) => {
+  const email = requireString(req.body, 'email').toLowerCase();
+  const name = requireString(req.body, 'name');
+  const role = parseRole(req.body.role);
+  if (!/^[^@\s]+@[^@\s]+$/.test(email)) throw new HttpError(400, 'メールアドレスが不正です。');
+  if (getUser(email)) throw new HttpError(409, 'このメールアドレスは既に登録されています。');
+  res.status(201).json(upsertUser({ email, name, role }));
+});
+
+// Body: { role?, categories? }. Admins cannot change their own role, so a school always keeps one.
+usersRouter.patch('/:id', (req, res) => {
+  const user = getUser(req.params.id);
+  if (!user) throw new HttpError(404, 'ユーザーが見つかりません。');
+  if (req.body?.role !== undefined) {
+    const role = parseRole(req.body.role);
+    if (user.id === req.user!.id && role !== user.role) throw new HttpError(400, '自分の役割は変更できません。');
+    setUserRole(user.id, role);
+    matchRoster(user.id);
+  }
+  if (req.body?.categories !== undefined) setUserCategories(user.id, parseCategories(req.body.categories));
+  res.json(getUser(user.id));
+});
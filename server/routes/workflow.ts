@@ -0,0 +1,116 @@
+import { Router } from 'express';
+import { GRADES, STATUS_COLOR_CLASSES } from '../../constants';
+import { rolesWith } from '../../permissions';
+import { requirePermission } from '../auth';
+import { HttpError, fieldsOf } from '../http';
+import { getWorkflow, saveWorkflow, statusesInUse, type WorkflowDefinition } from '../models/workflow';
+import type {
+  Enrollment,
+  SignatureThreshold,
+  StatusColor,
+  UserRole,
+  WorkflowStatus,
+  WorkflowTransition,
+} from '../../types';
+
+export const workflowRouter = Router();
+
+const invalid = (message: string): never => {
+  throw new HttpError(400, message);
+};
+
+// Checks a definition sent from the admin screen and returns it with only the known fields.
+const parseDefinition = (raw: unknown): WorkflowDefinition => {
+  const body = fieldsOf(raw);
+  const rawStatuses: unknown[] = Array.isArray(body.statuses) ? body.statuses : [];
+  if (rawStatuses.length === 0) invalid('ステータスを1つ以上定義してください。');
+  const statuses: WorkflowStatus[] = rawStatuses.map(item => {
+    const s = fieldsOf(item);
+    const name = typeof s.name === 'string' ? s.name.trim() : '';
+    if (!name) invalid('ステータス名を入力してください。');
+    if (typeof s.color !== 'string' || !Object.hasOwn(STATUS_COLOR_CLASSES, s.color)) {
+      invalid(`「${name}」の色が不正です。`);
+    }
+    return { name, color: s.color as StatusColor, requiresReason: !!s.requiresReason, onMainPath: !!s.onMainPath };
+  });
+  const names = new Set(statuses.map(s => s.name));
+  if (names.size !== statuses.length) invalid('ステータス名が重複しています。');
+  const isStatus = (value: unknown): value is string => typeof value === 'string' && names.has(value);
+  const initial = isStatus(body.initial) ? body.initial : invalid('最初のステータスが一覧にありません。');
+  if (!Array.isArray(body.transitions)) invalid('遷移の定義が不正です。');
+
+  const allowedRoles: UserRole[] = rolesWith('changeStatus');
+  const transitions: WorkflowTransition[] = (body.transitions as unknown[]).map(item => {
+    const t = fieldsOf(item);
+    if (!isStatus(t.from) || !isStatus(t.to) || t.from === t.to) return invalid('遷移の定義が不正です。');
+    // Only roles that may change statuses at all can be given a transition
+    const roles: unknown[] = Array.isArray(t.roles) ? t.roles : [];
+    if (!Array.isArray(t.roles) || roles.some(r => !allowedRoles.includes(r as UserRole))) {
+      invalid(`「${t.from}」→「${t.to}」の権限が不正です。`);
+    }
+    return { from: t.from, to: t.to, roles: [...new Set(roles as UserRole[])] };
+  });
+  const seen = new Set(transitions.map(t => `${t.from}\n${t.to}`));
+  if (seen.size !== transitions.length) invalid('同じ遷移が重複しています。');
+
+  const isCount = (n: unknown): n is number => Number.isInteger(n) && (n as number) >= 0;
+  const rawEnrollment = fieldsOf(body.enrollment);
+  const total = isCount(rawEnrollment.total) ? rawEnrollment.total : invalid('全校生徒数が不正です。');
+  const enrollment: Enrollment = { total, grades: {} };
+  const gradeCounts = fieldsOf(rawEnrollment.grades);
+  GRADES.forEach(g => {
+    const n = gradeCounts[String(g)];
+    if (n === undefined) return;
+    enrollment.grades[String(g)] = isCount(n) ? n : invalid(`${g}年生の生徒数が不正です。`);
+  });
+
+  const rawThresholds = body.thresholds ?? [];
+  if (!Array.isArray(rawThresholds)) invalid('賛同数の設定が不正です。');
+  const thresholds: SignatureThreshold[] = (rawThresholds as unknown[]).map(item => {
+    const t = fieldsOf(item);
+    if (!isStatus(t.from) || !isStatus(t.to) || t.from === t.to) return invalid('賛同数の設定のステータスが不正です。');
+    if (t.kind !== 'count' && t.kind !== 'percent') return invalid('賛同数の基準が不正です。');
+    if (typeof t.value !== 'number' || !(t.value > 0) || (t.kind === 'percent' && t.value > 100)) {
+      return invalid('賛同数のしきい値が不正です。');
+    }
+    const grade =
+      t.grade === undefined || t.grade === null
+        ? undefined
+        : typeof t.grade === 'number' && GRADES.includes(t.grade)
+          ? t.grade
+          : invalid('学年が不正です。');
+    if (typeof t.responseDays !== 'number' || !Number.isInteger(t.responseDays) || t.responseDays < 1) {
+      return invalid('回答期限は1日以上で指定してください。');
+    }
+    return {
+      from: t.from,
+      to: t.to,
+      kind: t.kind,
+      value: t.value,
+      grade,
+      responseDays: t.responseDays,
+    };
+  });
+
+  return {
+    statuses,
+    initial,
+    transitions: transitions.filter(t => t.roles.length > 0),
+    thresholds,
+    enrollment,
+  };
+};
+
+workflowRouter.get('/', (_req, res) => {
+  res.json(getWorkflow());
+});
+
+workflowRouter.put('/', requirePermission('manage'), (req, res) => {
+  const definition = parseDefinition(req.body);
+  const names = new Set(definition.statuses.map(s => s.name));
+  const missing = statusesInUse().filter(s => !names.has(s));
+  if (missing.length > 0) {
+    throw new HttpError(409, `使用中のステータスは削除できません：${missing.join('、')}`);
+  }
+  res.json(saveWorkflow(definition, req.user!.name));
+});
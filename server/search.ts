@@ -0,0 +1,198 @@
+import { currentSchoolId } from './db';
+import { listProposals } from './models/proposals';
+import type { Proposal, SearchField, SearchFilters, SearchResponse } from '../types';
+
+// Matches in the title count most; the council's answer is searched too, so 「回答済みの制服の件」 is findable.
+const FIELD_WEIGHTS: Record<SearchField, number> = { title: 3, adminResponse: 1.5, content: 1 };
+const FIELDS = Object.keys(FIELD_WEIGHTS) as SearchField[];
+// Repeats of a term past this add nothing, so long posts do not win by sheer length.
+const MAX_COUNTED_HITS = 3;
+const TAG_PATTERN = /[#＃][^\s　#＃]+/g;
+
+// Text folded for matching, with the span in the original string each folded character came from.
+interface Folded {
+  text: string;
+  starts: number[];
+  ends: number[];
+}
+
+const KATAKANA = /[ァ-ヶ]/;
+const SOUND_MARKS = /^[゙゚]$/;
+
+// NFKC (full-width ａ → a, half-width ｶ → カ), lower case, katakana → hiragana; spaces, punctuation
+// and symbols are dropped so 「エアコン」「えあこん」「ｴｱｺﾝ」 and 「エア・コン」 all fold to the same text.
+const fold = (raw: string): Folded => {
+  const folded: Folded = { text: '', starts: [], ends: [] };
+  const chars: string[] = [];
+  let offset = 0;
+  for (const char of raw) {
+    const start = offset;
+    offset += char.length;
+    for (let c of char.normalize('NFKC').toLowerCase()) {
+      if (KATAKANA.test(c)) c = String.fromCharCode(c.charCodeAt(0) - 0x60);
+      if (SOUND_MARKS.test(c) && chars.length > 0) {
+        // Half-width ﾞ/ﾟ arrive as separate marks: merge them into the previous kana (ｶﾞ → が)
+        chars[chars.length - 1] = (chars[chars.length - 1] + c).normalize('NFC');
+        folded.ends[folded.ends.length - 1] = offset;
+        continue;
+      }
+      if (/[\s\p{P}\p{S}]/u.test(c)) continue;
+      chars.push(c);
+      folded.starts.push(start);
+      folded.ends.push(offset);
+    }
+  }
+  folded.text = chars.join('');
+  return folded;
+};
+
+const bigrams = (text: string) => {
+  const chars = [...text];
+  const grams = new Set<string>();
+  for (let i = 0; i + 2 <= chars.length; i++) grams.add(chars[i] + chars[i + 1]);
+  return grams;
+};
+
+const tagsOf = (content: string) =>
+  [...new Set((content.match(TAG_PATTERN) ?? []).map(t => `#${t.slice(1).normalize('NFKC')}`))];
+
+interface IndexedDocument {
+  // Index entries are rebuilt only when this changes
+  source: string;
+  fields: Record<SearchField, Folded>;
+  grams: Set<string>;
+}
+
+// Bigram → proposal IDs. Rebuilt per proposal whenever its text changes, so edits, answers and
+// new posts are picked up on the next search without hooks in the proposal model.
+interface SearchIndex {
+  documents: Map<number, IndexedDocument>;
+  postings: Map<string, Set<number>>;
+}
+
+// One index per school: proposal IDs are only unique within a school's database.
+const indexes = new Map<string, SearchIndex>();
+
+const indexFor = (schoolId: string) => {
+  if (!indexes.has(schoolId)) indexes.set(schoolId, { documents: new Map(), postings: new Map() });
+  return indexes.get(schoolId)!;
+};
+
+const unindex = ({ documents, postings }: SearchIndex, id: number) => {
+  documents.get(id)?.grams.forEach(gram => postings.get(gram)?.delete(id));
+  documents.delete(id);
+};
+
+const indexProposal = (index: SearchIndex, p: Proposal) => {
+  const { documents, postings } = index;
+  const source = `${p.title}\u0000${p.content}\u0000${p.adminResponse}`;
+  if (documents.get(p.id)?.source === source) return;
+  unindex(index, p.id);
+  const fields = { title: fold(p.title), content: fold(p.content), adminResponse: fold(p.adminResponse) };
+  const grams = new Set(FIELDS.flatMap(f => [...bigrams(fields[f].text)]));
+  grams.forEach(gram => {
+    if (!postings.has(gram)) postings.set(gram, new Set());
+    postings.get(gram)!.add(p.id);
+  });
+  documents.set(p.id, { source, fields, grams });
+};
+
+const syncIndex = (index: SearchIndex, proposals: Proposal[]) => {
+  const live = new Set(proposals.map(p => p.id));
+  [...index.documents.keys()].filter(id => !live.has(id)).forEach(id => unindex(index, id));
+  proposals.forEach(p => indexProposal(index, p));
+};
+
+// Proposals whose text may contain the term: every bigram of the term has to occur somewhere.
+// Single characters have no bigram and are checked against every document.
+const candidatesFor = ({ postings }: SearchIndex, term: string) => {
+  const grams = [...bigrams(term)];
+  if (grams.length === 0) return undefined;
+  const lists = grams.map(g => postings.get(g) ?? new Set<number>()).sort((a, b) => a.size - b.size);
+  return new Set([...lists[0]].filter(id => lists.every(list => list.has(id))));
+};
+
+const occurrences = (text: string, term: string) => {
+  const found: number[] = [];
+  for (let i = text.indexOf(term); i >= 0; i = text.indexOf(term, i + term.length)) found.push(i);
+  return found;
+};
+
+const jstMonth = (time: string) => new Date(time).toLocaleDateString('sv-SE', { timeZone: 'Asia/Tokyo' }).slice(0, 7);
+
+type Facet = 'category' | 'status' | 'tag' | 'date';
+
+// Each facet ignores its own filter, so picking 「校則」 still shows how many hits the other categories have.
+const passes = (p: Proposal, filters: SearchFilters, skip?: Facet) =>
+  (skip === 'category' || !filters.category || p.category === filters.category) &&
+  (skip === 'status' || !filters.status || p.status === filters.status) &&
+  (skip === 'tag' || !filters.tag || tagsOf(p.content).includes(filters.tag)) &&
+  (skip === 'date' || ((!filters.from || p.timestamp >= filters.from) && (!filters.to || p.timestamp < filters.to)));
+
+const countBy = (proposals: Proposal[], keysOf: (p: Proposal) => string[]) => {
+  const counts = new Map<string, number>();
+  proposals.forEach(p => keysOf(p).forEach(k => counts.set(k, (counts.get(k) ?? 0) + 1)));
+  return [...counts.entries()].map(([value, count]) => ({ value, count }));
+};
+
+// Terms separated by spaces must all match (in any field). Results are ranked by how rare each term
+// is across proposals and where it matched; without a query they come newest first.
+export const searchProposals = (query: string, rawFilters: SearchFilters): SearchResponse => {
+  // 「＃靴下」 and 「靴下」 both select the tag #靴下
+  const filters = { ...rawFilters, tag: rawFilters.tag && `#${rawFilters.tag.normalize('NFKC').replace(/^#+/, '')}` };
+  const proposals = listProposals();
+  const index = indexFor(currentSchoolId());
+  syncIndex(index, proposals);
+
+  const terms = [...new Set(query.split(/[\s　]+/).map(t => fold(t).text).filter(Boolean))];
+  const scores = new Map<number, number>();
+  const highlights = new Map<number, Partial<Record<SearchField, [number, number][]>>>();
+  const candidates = terms.map(term => candidatesFor(index, term));
+  const matched = proposals.filter(p => {
+    const doc = index.documents.get(p.id)!;
+    let score = 0;
+    const ranges: Partial<Record<SearchField, [number, number][]>> = {};
+    for (const [i, term] of terms.entries()) {
+      if (candidates[i] && !candidates[i]!.has(p.id)) return false;
+      const perField = FIELDS.map(f => ({ field: f, at: occurrences(doc.fields[f].text, term) }));
+      if (perField.every(f => f.at.length === 0)) return false;
+      const documentFrequency = candidates[i]?.size ?? proposals.length;
+      const idf = Math.log(1 + proposals.length / Math.max(1, documentFrequency));
+      perField.forEach(({ field, at }) => {
+        score += idf * FIELD_WEIGHTS[field] * Math.min(at.length, MAX_COUNTED_HITS);
+        const folded = doc.fields[field];
+        const length = [...term].length;
+        at.forEach(start => {
+          // `at` indexes UTF-16 units of the folded text; convert to folded character positions
+          const first = [...folded.text.slice(0, start)].length;
+          (ranges[field] ??= []).push([folded.starts[first], folded.ends[first + length - 1]]);
+        });
+      });
+    }
+    if (terms.length > 0 && tagsOf(p.content).some(tag => terms.includes(fold(tag).text))) score += 1;
+    FIELDS.forEach(f => ranges[f]?.sort((a, b) => a[0] - b[0]));
+    scores.set(p.id, score);
+    highlights.set(p.id, ranges);
+    return true;
+  });
+
+  const hits = matched
+    .filter(p => passes(p, filters))
+    .sort((a, b) => scores.get(b.id)! - scores.get(a.id)! || b.timestamp.localeCompare(a.timestamp))
+    .map(p => ({ proposal: p, score: Math.round(scores.get(p.id)! * 100) / 100, highlights: highlights.get(p.id)! }));
+
+  const byCount = (a: { value: string; count: number }, b: { value: string; count: number }) =>
+    b.count - a.count || a.value.localeCompare(b.value, 'ja');
+  return {
+    hits,
+    total: hits.length,
+    facets: {
+      category: countBy(matched.filter(p => passes(p, filters, 'category')), p => [p.category]).sort(byCount),
+      status: countBy(matched.filter(p => passes(p, filters, 'status')), p => [p.status]).sort(byCount),
+      tag: countBy(matched.filter(p => passes(p, filters, 'tag')), p => tagsOf(p.content)).sort(byCount).slice(0, 20),
+      month: countBy(matched.filter(p => passes(p, filters, 'date')), p => [jstMonth(p.timestamp)]).sort((a, b) =>
+        b.value.localeCompare(a.value)
+      ),
+    },
+  };
+};
@@ -0,0 +1,142 @@
+import type Database from 'better-sqlite3';
+import { rolesWith } from '../permissions';
+import type { Workflow, WorkflowTransition } from '../types';
+
+const INITIAL_RULES: { title: string; body: string }[] = [
+  { title: '願・届について', body: 'すべてペン書き。早退・忌引・住所変更・学割は届け出が必要。アルバイトは禁止。' },
+  { title: '通学について', body: '徒歩通学。8:30着席（遅刻は職員室へ）。部活終了時刻は季節による。' },
+  {
+    title: '服装について',
+    body: [
+      '- 標準服（制服）着用。女子スラックス可。ワイシャツは白標準。',
+      '- 変形学生服、華美なベルト不可。スカート丈は膝程度。',
+      '- 靴下は白・紺・黒の無地（ワンポイント可）。くるぶし・ルーズ不可。',
+      '- 夏服（6月～）：ネクタイ・リボンなし可。',
+      '- 冬服（11月～）：セーター・ベストは黒・紺無地Vネック。コートは黒・紺・グレー・茶。タイツ可。',
+      '- 通学靴は運動靴（ハイカット不可）。',
+      '- 衣替え移行期間あり。',
+    ].join('\n'),
+  },
+  { title: '頭髪など', body: '清潔な髪型。肩についたら結ぶ（黒・紺・茶ゴム）。染髪・特異な髪型・化粧・眉加工禁止。' },
+  { title: '持ち物', body: '指定カバン・サブバッグ。キーホルダー1個まで。不要物持ち込み禁止。' },
+  { title: '化粧・装飾品・日傘', body: '化粧不可（日焼け止め・制汗剤は可）。日傘可。アクセサリー不可。' },
+  { title: '弁当・水筒', body: '水筒可（中身はスポーツドリンクか茶）。買い食い禁止。' },
+  { title: '日常生活', body: '校内は走らない。他クラスに入らない。チョーク補充は許可制。落書き禁止。' },
+];
+
+const seedRules = (conn: Database.Database) => {
+  const { count } = conn.prepare('SELECT COUNT(*) AS count FROM school_rules').get() as { count: number };
+  if (count > 0) return;
+
+  const insert = conn.prepare(
+    `INSERT INTO school_rules (version, section, title, body, effective_date, updated_by, updated_at)
+     VALUES (1, ?, ?, ?, '2025-04-01', '初期データ', ?)`
+  );
+  const now = new Date().toISOString();
+  conn.transaction(() => {
+    INITIAL_RULES.forEach((rule, i) => insert.run(i + 1, rule.title, rule.body, now));
+  })();
+};
+
+const staff = (from: string, to: string[]): WorkflowTransition[] =>
+  to.map(t => ({ from, to: t, roles: rolesWith('changeStatus') }));
+
+// The original four steps plus the side states requested by the student council.
+const INITIAL_WORKFLOW: Omit<Workflow, 'version' | 'updatedAt' | 'updatedBy'> = {
+  statuses: [
+    { name: '受付中', color: 'blue', requiresReason: false, onMainPath: true },
+    { name: '検討中', color: 'yellow', requiresReason: false, onMainPath: true },
+    { name: '先生と調整中', color: 'purple', requiresReason: false, onMainPath: true },
+    { name: '試行中', color: 'teal', requiresReason: false, onMainPath: true },
+    { name: '対応済', color: 'green', requiresReason: false, onMainPath: true },
+    { name: '保留', color: 'gray', requiresReason: true, onMainPath: false },
+    { name: '却下', color: 'red', requiresReason: true, onMainPath: false },
+  ],
+  initial: '受付中',
+  transitions: [
+    ...staff('受付中', ['検討中', '対応済', '保留', '却下']),
+    ...staff('検討中', ['先生と調整中', '試行中', '対応済', '保留', '却下']),
+    ...staff('先生と調整中', ['試行中', '対応済', '保留', '却下']),
+    ...staff('試行中', ['先生と調整中', '対応済', '却下']),
+    ...staff('保留', ['検討中']),
+    ...staff('却下', ['検討中']),
+  ],
+  thresholds: [{ from: '受付中', to: '検討中', kind: 'count', value: 10, responseDays: 14 }],
+  enrollment: { total: 300, grades: { '1': 100, '2': 100, '3': 100 } },
+};
+
+const seedWorkflow = (conn: Database.Database) => {
+  const { count } = conn.prepare('SELECT COUNT(*) AS count FROM workflows').get() as { count: number };
+  if (count > 0) return;
+  conn
+    .prepare("INSERT INTO workflows (version, definition, updated_by, updated_at) VALUES (1, ?, '初期データ', ?)")
+    .run(JSON.stringify(INITIAL_WORKFLOW), new Date().toISOString());
+};
+
+// Demo content for a fresh database, same as the old localStorage seed. Schools added later only
+// get the workflow; their admins enter their own rules.
+export const seed = (conn: Database.Database, options: { demo: boolean }) => {
+  seedWorkflow(conn);
+  if (!options.demo) return;
+  seedRules(conn);
+
+  const { count } = conn.prepare('SELECT COUNT(*) AS count FROM proposals').get() as { count: number };
+  if (count > 0) return;
+
+  const now = Date.now();
+  const insertProposal = conn.prepare(
+    `INSERT INTO proposals (title, content, category, status, admin_response, created_at)
+     VALUES (?, ?, ?, ?, ?, ?)`
+  );
+  const insertSignature = conn.prepare(
+    'INSERT INTO signatures (proposal_id, user_id, user_name, created_at) VALUES (?, ?, ?, ?)'
+  );
+  const insertNews = conn.prepare(
+    'INSERT INTO news (title, content, author, created_at) VALUES (?, ?, ?, ?)'
+  );
+  const insertEvent = conn.prepare(
+    `INSERT INTO proposal_history (proposal_id, type, from_value, to_value, actor_name, created_at)
+     VALUES (?, ?, ?, ?, ?, ?)`
+  );
+  const at = (offset: number) => new Date(now + offset).toISOString();
+
+  conn.transaction(() => {
+    const socks = insertProposal.run(
+      '靴下の色にグレーを追加して欲しい',
+      '靴下の色は黒・白・紺のみですが、友達の学校ではグレーも良いそうです。なぜグレーがダメなのかわかりません。グレーの追加をお願いします。 #靴下',
+      '校則',
+      '先生と調整中',
+      '生徒総会での議論を経て、職員会議に提案中です。',
+      new Date(now).toISOString()
+    );
+    conn
+      .prepare('INSERT INTO proposal_rule_refs (proposal_id, section, title, clause, quote) VALUES (?, 3, ?, ?, ?)')
+      .run(socks.lastInsertRowid, '服装について', '靴下', '靴下は白・紺・黒の無地（ワンポイント可）。くるぶし・ルーズ不可。');
+    insertEvent.run(socks.lastInsertRowid, 'created', null, '受付中', '投稿者', at(0));
+    insertEvent.run(socks.lastInsertRowid, 'status', '受付中', '検討中', '生徒会', at(1000));
+    insertEvent.run(socks.lastInsertRowid, 'status', '検討中', '先生と調整中', '生徒会', at(2000));
+    insertEvent.run(socks.lastInsertRowid, 'response', '', '生徒総会での議論を経て、職員会議に提案中です。', '生徒会', at(2000));
+    const noodles = insertProposal.run(
+      '食堂のメニューに麺類を追加してほしい',
+      '今はパンとおにぎりしかありません。温かい麺類（うどんやラーメン）が食べたいです。 #食堂 #ランチ #改善希望',
+      '設備・環境',
+      '受付中',
+      '',
+      new Date(now - 86400000).toISOString()
+    );
+    insertSignature.run(noodles.lastInsertRowid, 'demo', 'デモ太郎', new Date(now).toISOString());
+    insertEvent.run(noodles.lastInsertRowid, 'created', null, '受付中', '投稿者', at(-86400000));
+    const library = insertProposal.run(
+      '図書室の開館時間を延長してください',
+      '放課後、部活の前にもう少し勉強したいのですが、すぐに閉まってしまいます。あと30分延長できませんか？',
+      '設備・環境',
+      '対応済',
+      '試験期間中のみ、18:00まで延長することが決定しました。',
+      new Date(now - 172800000).toISOString()
+    );
+    insertEvent.run(library.lastInsertRowid, 'created', null, '受付中', '投稿者', at(-172800000));
+    insertEvent.run(library.lastInsertRowid, 'status', '受付中', '対応済', '生徒会', at(-86400000));
+    insertEvent.run(library.lastInsertRowid, 'response', '', '試験期間中のみ、18:00まで延長することが決定しました。', '生徒会', at(-86400000));
+    insertNews.run('アプリ「ProPoSal」運用開始！', '新しいデジタル目安箱がスタートしました。', '生徒会', '2025-11-22T10:00:00.000Z');
+  })();
+};
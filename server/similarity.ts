@@ -0,0 +1,82 @@
+import { embedTexts } from './embeddings';
+import { listProposals } from './models/proposals';
+import type { Proposal, SimilarProposal } from '../types';
+
+// Character n-grams work for Japanese without a tokenizer: 「靴下の色」 and 「靴下を自由に」 share 「靴下」.
+const NGRAM_SIZES = [2, 3];
+// Grams made only of hiragana are mostly grammar (「してほしい」「たいです」), so they count for little.
+const FUNCTION_GRAM_WEIGHT = 0.1;
+// Embedding cosine scores sit high even for unrelated text; only the part above this floor counts.
+const EMBEDDING_FLOOR = 0.75;
+
+type Vector = Map<string, number>;
+
+const normalize = (text: string) =>
+  text
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/[#\s\p{P}\p{S}]/gu, '');
+
+const ngrams = (text: string): Vector => {
+  const chars = [...normalize(text)];
+  const vector: Vector = new Map();
+  NGRAM_SIZES.forEach(n => {
+    for (let i = 0; i + n <= chars.length; i++) {
+      const gram = chars.slice(i, i + n).join('');
+      const weight = /^\p{Script=Hiragana}+$/u.test(gram) ? FUNCTION_GRAM_WEIGHT : 1;
+      vector.set(gram, (vector.get(gram) ?? 0) + weight);
+    }
+  });
+  return vector;
+};
+
+const cosine = (a: Vector, b: Vector) => {
+  let dot = 0;
+  a.forEach((v, k) => (dot += v * (b.get(k) ?? 0)));
+  const norm = (v: Vector) => Math.sqrt([...v.values()].reduce((sum, x) => sum + x * x, 0));
+  const denom = norm(a) * norm(b);
+  return denom === 0 ? 0 : dot / denom;
+};
+
+const cosineDense = (a: number[], b: number[]) => {
+  let dot = 0, na = 0, nb = 0;
+  a.forEach((x, i) => {
+    dot += x * b[i];
+    na += x * x;
+    nb += b[i] * b[i];
+  });
+  return na === 0 || nb === 0 ? 0 : dot / Math.sqrt(na * nb);
+};
+
+// The title is repeated so it weighs more than a long body.
+const documentText = (p: { title: string; content: string }) => `${p.title}\n${p.title}\n${p.content}`;
+
+export const findSimilarProposals = async (
+  draft: { title: string; content: string },
+  options: { limit?: number; threshold?: number; excludeId?: number; candidates?: Proposal[] } = {}
+): Promise<SimilarProposal[]> => {
+  const { limit = 5, threshold = 0.1, excludeId } = options;
+  const candidates = (options.candidates ?? listProposals()).filter(p => p.id !== excludeId);
+  if (candidates.length === 0) return [];
+
+  const draftVector = ngrams(documentText(draft));
+  const scores = candidates.map(p => cosine(draftVector, ngrams(documentText(p))));
+
+  try {
+    const vectors = await embedTexts([documentText(draft), ...candidates.map(documentText)]);
+    if (vectors) {
+      candidates.forEach((_, i) => {
+        const semantic = (cosineDense(vectors[0], vectors[i + 1]) - EMBEDDING_FLOOR) / (1 - EMBEDDING_FLOOR);
+        scores[i] = Math.max(scores[i], semantic);
+      });
+    }
+  } catch (error) {
+    console.error('Embedding similarity failed; using n-grams only:', error);
+  }
+
+  return candidates
+    .map((proposal, i) => ({ proposal, score: Math.round(scores[i] * 100) / 100 }))
+    .filter(s => s.score >= threshold)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+};
@@ -0,0 +1,47 @@
+import type { RequestHandler, Response } from 'express';
+import { config } from './config';
+import { DEFAULT_SCHOOL_ID, currentSchoolId, runInSchool } from './db';
+import { HttpError, readCookie } from './http';
+import { getSchool, schoolForHost, syncDefaultSchool } from './models/schools';
+import type { School } from '../types';
+
+const SCHOOL_COOKIE = 'proposal_school';
+
+// The school the current request belongs to.
+export const currentSchool = (): School => {
+  const id = currentSchoolId();
+  const school = getSchool(id) ?? (id === DEFAULT_SCHOOL_ID ? syncDefaultSchool() : undefined);
+  if (!school) throw new HttpError(404, '学校が見つかりません。');
+  return school;
+};
+
+// Google client for the current school's sign-in button and token checks.
+export const googleClientIdFor = (school: School) => school.googleClientId || config.googleClientId;
+
+// A mangled cookie ("%E3%8") names no school rather than failing the request.
+const decodeCookie = (value: string) => {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return '';
+  }
+};
+
+// A school's own host name decides; on a shared host the visitor's choice (cookie) does, and
+// without either the default school opens. Everything after this runs against that school's database.
+export const resolveSchool: RequestHandler = (req, _res, next) => {
+  const chosen = readCookie(req.headers.cookie, SCHOOL_COOKIE);
+  const school = schoolForHost(req.hostname) ?? (chosen ? getSchool(decodeCookie(chosen)) : undefined);
+  runInSchool(school?.id ?? DEFAULT_SCHOOL_ID, next);
+};
+
+export const isPinnedByHost = (host: string) => schoolForHost(host) !== undefined;
+
+export const chooseSchool = (res: Response, schoolId: string) => {
+  res.cookie(SCHOOL_COOKIE, schoolId, {
+    sameSite: 'lax',
+    secure: config.secureCookies,
+    maxAge: 365 * 24 * 60 * 60 * 1000,
+    path: '/',
+  });
+};
@@ -0,0 +1,53 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { signIn, useServer, type Client } from './helpers';
+import type { AIAnalysisResult, Appeal, Proposal } from '../../types';
+
+useServer();
+
+const TITLE = '先生について';
+const CONTENT = 'あの先生はうざいので消えろと思います。';
+
+// Files an appeal against the AI's rejection of the draft above.
+const appeal = async (api: Client, extra: Record<string, unknown> = {}) => {
+  const { body: analysis } = await api<{ result: AIAnalysisResult; rejection: string | null }>('POST', '/analyze', {
+    title: TITLE,
+    content: CONTENT,
+  });
+  assert.ok(analysis.rejection, 'the offline check rejects the draft');
+  return api<Appeal>('POST', '/appeals', { title: TITLE, content: CONTENT, rejection: analysis.rejection, ...extra });
+};
+
+describe('appeals', () => {
+  test('publishes an approved draft with the signer-name setting the student chose', async () => {
+    const student = await signIn('appeal-student@example.com');
+    const admin = await signIn('admin@example.com');
+    const filed = await appeal(student, { signatureVisibility: 'staff' });
+    assert.equal(filed.status, 201);
+
+    const approved = await admin<Appeal>('POST', `/appeals/${filed.body.id}/approve`, {
+      title: '先生との関わり方について',
+      content: '先生との関係で困ったときに相談できる窓口がほしいです。',
+    });
+    assert.equal(approved.status, 200);
+    assert.equal(approved.body.edited, true);
+    const { body: proposal } = await admin<Proposal>('GET', `/proposals/${approved.body.proposalId}`);
+    assert.equal(proposal.signatureVisibility, 'staff');
+  });
+
+  test('rejects an unknown signer-name setting', async () => {
+    const student = await signIn('appeal-typo@example.com');
+    assert.equal((await appeal(student, { signatureVisibility: 'everyone' })).status, 400);
+  });
+
+  test('publishes an appeal only once when two moderators approve it together', async () => {
+    const student = await signIn('appeal-twice@example.com');
+    const admin = await signIn('admin@example.com');
+    const { body: filed } = await appeal(student);
+    const results = await Promise.all([
+      admin('POST', `/appeals/${filed.id}/approve`, {}),
+      admin('POST', `/appeals/${filed.id}/approve`, {}),
+    ]);
+    assert.deepEqual(results.map(r => r.status).sort(), [200, 409]);
+  });
+});
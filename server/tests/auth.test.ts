@@ -0,0 +1,84 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { client, postProposal, signIn, useServer } from './helpers';
+import { useSmtpStub } from './smtpStub';
+import type { NewsItem, Proposal, User } from '../../types';
+
+useServer();
+const mail = useSmtpStub();
+
+describe('Google sign-in', () => {
+  test('a school account becomes a student with a session', async () => {
+    const api = await signIn('taro@example.com', '山田太郎');
+    const { body } = await api<User>('GET', '/auth/me');
+    assert.equal(body.email, 'taro@example.com');
+    assert.equal(body.role, 'student');
+  });
+
+  test('addresses in ADMIN_EMAILS start as admins', async () => {
+    const { body } = await (await signIn('admin@example.com'))<User>('GET', '/auth/me');
+    assert.equal(body.role, 'admin');
+  });
+
+  test('accounts outside the school domain are turned away', async () => {
+    const { status } = await client()('POST', '/auth/google', { credential: 'dev:someone@gmail.com:誰か' });
+    assert.equal(status, 403);
+  });
+});
+
+describe('password sign-up', () => {
+  const register = (email: string) =>
+    client()<{ email: string }>('POST', '/auth/register', { name: '登録 太郎', email, password: 'correct horse' });
+  const linkFor = (email: string) =>
+    mail.filter(m => m.to.includes(email)).at(-1)?.text.match(/\?verify=([\w-]+)/)?.[1];
+
+  test('creates nothing until the emailed link is opened', async () => {
+    const { status } = await register('hanako@example.com');
+    assert.equal(status, 202);
+    const login = await client()('POST', '/auth/login', { email: 'hanako@example.com', password: 'correct horse' });
+    assert.equal(login.status, 401);
+
+    const token = linkFor('hanako@example.com');
+    assert.ok(token, 'a confirmation link was mailed');
+    const api = client();
+    const confirmed = await api<User>('POST', '/auth/register/confirm', { token });
+    assert.equal(confirmed.status, 201);
+    assert.equal(confirmed.body.role, 'student');
+    assert.equal((await api<User>('GET', '/auth/me')).body.email, 'hanako@example.com');
+
+    assert.equal((await client()('POST', '/auth/register/confirm', { token })).status, 400, 'links work once');
+    const again = await client()('POST', '/auth/login', { email: 'hanako@example.com', password: 'correct horse' });
+    assert.equal(again.status, 200);
+  });
+
+  test('someone who cannot read the admin\'s mail cannot take the admin account', async () => {
+    assert.equal((await register('admin@example.com')).status, 202);
+    const squatter = client();
+    assert.equal((await squatter('POST', '/auth/register/confirm', { token: 'guessed' })).status, 400);
+    assert.equal((await squatter('GET', '/auth/me')).body, null);
+    const login = await squatter('POST', '/auth/login', { email: 'admin@example.com', password: 'correct horse' });
+    assert.equal(login.status, 401);
+  });
+});
+
+describe('roles', () => {
+  test('only staff change statuses or post news', async () => {
+    const student = await signIn('jiro@example.com');
+    const admin = await signIn('admin@example.com');
+    const { body: proposal } = await postProposal(
+      student,
+      '教室にエアコンを設置してほしい',
+      '夏の教室が暑くて授業に集中できないので、エアコンを設置してほしいです。'
+    );
+
+    assert.equal((await client()('PATCH', `/proposals/${proposal.id}`, { status: '検討中' })).status, 401);
+    assert.equal((await student('PATCH', `/proposals/${proposal.id}`, { status: '検討中' })).status, 403);
+    const changed = await admin<Proposal>('PATCH', `/proposals/${proposal.id}`, { status: '検討中' });
+    assert.equal(changed.status, 200);
+    assert.equal(changed.body.status, '検討中');
+
+    const news = { title: '生徒総会のお知らせ', content: '来週の月曜日に生徒総会を行います。' };
+    assert.equal((await student('POST', '/news', news)).status, 403);
+    assert.equal((await admin<NewsItem>('POST', '/news', news)).status, 201);
+  });
+});
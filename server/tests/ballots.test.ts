@@ -0,0 +1,66 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { postProposal, signIn, useServer, type Client } from './helpers';
+import { castBallot, getBallot } from '../models/ballots';
+import type { Ballot, User } from '../../types';
+
+useServer();
+
+const inAWeek = () => new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString();
+
+const openBallot = (admin: Client, proposalId: number) =>
+  admin<Ballot>('POST', '/ballots', { proposalId, question: '実施に賛成ですか', options: ['賛成', '反対'], closesAt: inAWeek() });
+
+describe('ballots', () => {
+  test('takes one vote per student and counts the electorate at closing', async () => {
+    const admin = await signIn('admin@example.com');
+    const voter = await signIn('voter@example.com');
+    const { body: proposal } = await postProposal(
+      voter,
+      '文化祭の日程を変えてほしい',
+      '文化祭が定期テストの直前なので、日程をずらしてほしいです。'
+    );
+    const { status, body: ballot } = await openBallot(admin, proposal.id);
+    assert.equal(status, 201);
+
+    assert.equal((await voter('POST', `/ballots/${ballot.id}/votes`, { option: 0 })).status, 201);
+    assert.equal((await voter('POST', `/ballots/${ballot.id}/votes`, { option: 1 })).status, 409);
+    const closed = await admin<Ballot>('POST', `/ballots/${ballot.id}/close`);
+    assert.deepEqual(closed.body.results?.counts, [1, 0]);
+    const electorate = closed.body.results!.electorateSize;
+
+    await signIn('late-student@example.com');
+    const { body: later } = await voter<Ballot>('GET', `/ballots/${ballot.id}`);
+    assert.equal(later.results?.electorateSize, electorate, 'new students do not change a closed ballot');
+  });
+
+  test('records a vote only once when the check before it is raced', async () => {
+    const admin = await signIn('admin@example.com');
+    const author = await signIn('racer@example.com');
+    const { body: proposal } = await postProposal(
+      author,
+      '給食の量を選べるようにしてほしい',
+      '給食の量を少なめと普通から選べるようにしてほしいです。'
+    );
+    const { body: ballot } = await openBallot(admin, proposal.id);
+    const { body: me } = await author<User>('GET', '/auth/me');
+    const seen = getBallot(ballot.id, me)!;
+    assert.ok(castBallot(seen, me, 0));
+    assert.equal(castBallot(seen, me, 1), undefined);
+  });
+
+  test('cannot be opened on a proposal hidden after reports', async () => {
+    const admin = await signIn('admin@example.com');
+    const author = await signIn('hidden-author@example.com');
+    const { body: proposal } = await postProposal(
+      author,
+      '部活動の朝練をなくしてほしい',
+      '朝練があると睡眠時間が足りなくなるので、なくしてほしいです。'
+    );
+    for (const reporter of ['r1@example.com', 'r2@example.com', 'r3@example.com']) {
+      const api = await signIn(reporter);
+      await api('POST', '/reports', { targetType: 'proposal', targetId: proposal.id, reason: 'harassment' });
+    }
+    assert.equal((await openBallot(admin, proposal.id)).status, 409);
+  });
+});
@@ -0,0 +1,94 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { postProposal, signIn, useServer } from './helpers';
+import { useSmtpStub } from './smtpStub';
+import { sendDigests } from '../digest';
+import type { AppNotification } from '../../types';
+
+useServer();
+const mail = useSmtpStub();
+
+const inbox = async (api: Awaited<ReturnType<typeof signIn>>) =>
+  (await api<{ items: AppNotification[]; unread: number }>('GET', '/notifications')).body;
+
+test('followers and the author get the response in their inbox and their digest', async () => {
+  const author = await signIn('author@example.com');
+  const supporter = await signIn('supporter@example.com');
+  const bystander = await signIn('bystander@example.com');
+  const admin = await signIn('admin@example.com');
+  const { body: proposal } = await postProposal(
+    author,
+    '靴下の色を自由にしてほしい',
+    '靴下の色が白に決められていますが、紺や黒も選べるようにしてほしいです。'
+  );
+  assert.equal((await supporter('POST', `/proposals/${proposal.id}/signatures`, {})).status, 200);
+  for (const api of [author, supporter, bystander]) {
+    assert.equal((await api('PUT', '/notifications/settings', { digest: 'daily' })).status, 200);
+  }
+
+  await admin('PATCH', `/proposals/${proposal.id}`, { adminResponse: '来月の生活委員会で話し合います。' });
+
+  const supporterInbox = await inbox(supporter);
+  assert.equal(supporterInbox.unread, 1);
+  assert.equal(supporterInbox.items[0].type, 'response');
+  assert.equal((await inbox(author)).unread, 1, 'the anonymous author is notified too');
+  assert.equal((await inbox(bystander)).unread, 0);
+
+  await sendDigests();
+  const delivered = (email: string) => mail.filter(m => m.to.includes(email));
+  for (const email of ['author@example.com', 'supporter@example.com']) {
+    assert.equal(delivered(email).length, 1, `one digest for ${email}`);
+    assert.match(delivered(email)[0].subject, /1件/);
+    assert.match(delivered(email)[0].text, /来月の生活委員会で話し合います。/);
+  }
+  assert.equal(delivered('bystander@example.com').length, 0, 'nothing new, no mail');
+
+  // Already emailed, and the day is not over yet
+  await admin('PATCH', `/proposals/${proposal.id}`, { adminResponse: '話し合いの日程が決まりました。' });
+  await sendDigests();
+  assert.equal(delivered('supporter@example.com').length, 1);
+
+  await sendDigests(new Date(Date.now() + 25 * 60 * 60 * 1000));
+  assert.equal(delivered('supporter@example.com').length, 2);
+  assert.match(delivered('supporter@example.com')[1].text, /話し合いの日程が決まりました。/);
+  assert.doesNotMatch(delivered('supporter@example.com')[1].text, /来月の生活委員会/, 'each item is mailed once');
+});
+
+test('reading a notification in the app keeps it out of the digest', async () => {
+  const supporter = await signIn('reader@example.com');
+  const admin = await signIn('admin@example.com');
+  const author = await signIn('writer@example.com');
+  const { body: proposal } = await postProposal(
+    author,
+    'タブレットを家に持ち帰りたい',
+    '宿題で使うので、授業用のタブレットを家に持ち帰れるようにしてほしいです。'
+  );
+  await supporter('POST', `/proposals/${proposal.id}/signatures`, {});
+  await supporter('PUT', '/notifications/settings', { digest: 'weekly' });
+  await admin('PATCH', `/proposals/${proposal.id}`, { adminResponse: '先生方に確認します。' });
+
+  await supporter('POST', '/notifications/read', {});
+  assert.equal((await inbox(supporter)).unread, 0);
+  await sendDigests();
+  assert.equal(mail.filter(m => m.to.includes('reader@example.com')).length, 0);
+});
+
+test("the anonymous author's inbox picks up notices sent after it was last read", async () => {
+  const author = await signIn('poller@example.com');
+  const admin = await signIn('admin@example.com');
+  const { body: proposal } = await postProposal(
+    author,
+    '体育館を昼休みに使いたい',
+    '昼休みに体育館でバスケットボールができるようにしてほしいです。'
+  );
+  assert.equal((await inbox(author)).unread, 0);
+
+  await admin('PATCH', `/proposals/${proposal.id}`, { adminResponse: '使える曜日を検討します。' });
+  assert.equal((await inbox(author)).unread, 1);
+  await admin('PATCH', `/proposals/${proposal.id}`, { status: '検討中' });
+  assert.equal((await inbox(author)).unread, 2);
+
+  await author('POST', '/notifications/read', {});
+  assert.equal((await inbox(author)).unread, 0);
+  assert.equal((await inbox(admin)).items.filter(n => n.proposalId === proposal.id).length, 0, 'not sent to others');
+});
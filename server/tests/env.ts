@@ -0,0 +1,20 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+// Imported before anything reads config.ts: every test file gets a throwaway database, the dev
+// token verifier and the offline moderation provider, so no test touches the network.
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'proposal-test-'));
+
+Object.assign(process.env, {
+  DATABASE_PATH: path.join(dir, 'proposal.db'),
+  TOKEN_VERIFIER: 'dev',
+  SCHOOL_DOMAIN: 'example.com',
+  ADMIN_EMAILS: 'admin@example.com',
+  GEMINI_API_KEY: '',
+  MODERATION_PROVIDERS: 'offline',
+  SIMILARITY_EMBEDDINGS: '',
+  SMTP_URL: '',
+});
+
+process.on('exit', () => fs.rmSync(dir, { recursive: true, force: true }));
@@ -0,0 +1,72 @@
+import './env';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import { after, before } from 'node:test';
+import { app } from '../app';
+import type { AIAnalysisResult, Proposal } from '../../types';
+
+export interface Response<T> {
+  status: number;
+  body: T;
+}
+
+export type Client = <T = unknown>(method: string, path: string, body?: unknown) => Promise<Response<T>>;
+
+let baseUrl = '';
+
+// Runs the API on a free port for the duration of the test file.
+export const useServer = () => {
+  let server: Server;
+  before(async () => {
+    server = await new Promise<Server>(resolve => {
+      const listening = app.listen(0, () => resolve(listening));
+    });
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api`;
+  });
+  after(() => new Promise<void>(resolve => server.close(() => resolve())));
+};
+
+// A browser stand-in that keeps its cookies between calls.
+export const client = (): Client => {
+  const cookies = new Map<string, string>();
+  return async <T>(method: string, path: string, body?: unknown) => {
+    const res = await fetch(baseUrl + path, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        Cookie: [...cookies].map(([name, value]) => `${name}=${value}`).join('; '),
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    res.headers.getSetCookie().forEach(header => {
+      const [name, value] = header.split(';')[0].split('=');
+      cookies.set(name, value);
+    });
+    // CSV and other exports come back as their text
+    const text = await res.text();
+    const json = res.headers.get('content-type')?.includes('json');
+    return { status: res.status, body: (text && json ? JSON.parse(text) : text || undefined) as T };
+  };
+};
+
+// Signs in through the dev token verifier ("dev:<email>:<name>").
+export const signIn = async (email: string, name = email.split('@')[0]) => {
+  const api = client();
+  const { status } = await api('POST', '/auth/google', { credential: `dev:${email}:${name}` });
+  if (status !== 200) throw new Error(`Sign-in as ${email} failed with ${status}`);
+  return api;
+};
+
+// Posts the way the app does: the AI check first, then the refined text with its verdict.
+export const postProposal = async (api: Client, title: string, content: string) => {
+  const { body: analysis } = await api<{ result: AIAnalysisResult; verdict: string | null }>('POST', '/analyze', {
+    title,
+    content,
+  });
+  if (!analysis.verdict) throw new Error(`The check rejected "${title}": ${analysis.result.advice}`);
+  return api<Proposal>('POST', '/proposals', {
+    title: analysis.result.refinedTitle || title,
+    content: analysis.result.refinedContent || content,
+    verdict: analysis.verdict,
+  });
+};
@@ -0,0 +1,29 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { postProposal, signIn, useServer } from './helpers';
+import { parseCsv } from '../csv';
+
+useServer();
+
+test('the council and teachers export the history as CSV; students cannot', async () => {
+  const admin = await signIn('admin@example.com');
+  await admin('POST', '/users', { email: 'minutes@example.com', name: '書記', role: 'council' });
+  await admin('POST', '/users', { email: 'homeroom@example.com', name: '担任', role: 'teacher' });
+  const author = await signIn('history-author@example.com');
+  const { body: proposal } = await postProposal(
+    author,
+    '=HYPERLINK("x") 下駄箱を広くしてほしい',
+    '部活の道具が入らないので、下駄箱を広くしてほしいです。'
+  );
+  await admin('PATCH', `/proposals/${proposal.id}`, { status: '検討中' });
+
+  assert.equal((await author('GET', '/history/export.csv')).status, 403);
+  for (const email of ['minutes@example.com', 'homeroom@example.com']) {
+    const { status, body: csv } = await (await signIn(email))<string>('GET', `/history/export.csv?proposalId=${proposal.id}`);
+    assert.equal(status, 200, email);
+    const [, ...rows] = parseCsv(csv);
+    assert.equal(rows.length, 2, 'posting and the status change');
+    assert.ok(rows.every(row => row[1].startsWith("'=HYPERLINK")), 'formulas stay text');
+  }
+  assert.equal((await admin('GET', '/history/export.csv?from=2026-04-31')).status, 400);
+});
@@ -0,0 +1,39 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { client, postProposal, signIn, useServer } from './helpers';
+import type { PetitionVerification, SignedPetition } from '../../types';
+
+useServer();
+
+test('exports a signed supporter list that detects later edits', async () => {
+  const admin = await signIn('admin@example.com');
+  await admin('POST', '/roster/import', { csv: '6001,中村 光,2,A,nakamura@example.com' });
+  await admin('POST', '/users', { email: 'council@example.com', name: '生徒会', role: 'council' });
+  const author = await signIn('petition-author@example.com');
+  const { body: proposal } = await postProposal(
+    author,
+    '自習室を朝も開けてほしい',
+    '朝の時間に自習できるよう、始業前も自習室を開けてほしいです。'
+  );
+  for (const email of ['nakamura@example.com', 'visitor@example.com']) {
+    await (await signIn(email))('POST', `/proposals/${proposal.id}/signatures`, {});
+  }
+
+  assert.equal((await author('GET', `/proposals/${proposal.id}/petition`)).status, 403, 'students cannot export');
+  const council = await signIn('council@example.com');
+  const { status, body: file } = await council<SignedPetition>('GET', `/proposals/${proposal.id}/petition`);
+  assert.equal(status, 200);
+  assert.equal(file.petition.total, 2);
+  assert.equal(file.petition.verified, 1, 'only the student on the roster is verified');
+  assert.deepEqual(file.petition.byClass, { '2-A': 1, '未設定': 1 });
+
+  // No account needed to check a file
+  const anyone = client();
+  const checked = await anyone<PetitionVerification>('POST', '/petitions/verify', file);
+  assert.equal(checked.body.valid, true);
+  assert.equal(checked.body.sha256, file.sha256);
+
+  const tampered = { ...file, petition: { ...file.petition, total: 200 } };
+  assert.equal((await anyone<PetitionVerification>('POST', '/petitions/verify', tampered)).body.valid, false);
+  assert.equal((await anyone<PetitionVerification>('POST', '/petitions/verify', {})).body.valid, false);
+});
@@ -0,0 +1,101 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { client, postProposal, signIn, useServer } from './helpers';
+import { analyzeProposal, setModerationProviders, type ModerationProvider } from '../moderation';
+import { OfflineProvider } from '../moderation/offline';
+import type { AIAnalysisResult, Proposal } from '../../types';
+
+useServer();
+
+const LIBRARY_TITLE = '図書室の開館時間を延長してほしい';
+const LIBRARY_CONTENT = '放課後も図書室で勉強できるように、開館時間を17時まで延長してほしいです。 #自習';
+
+describe('offline moderation', () => {
+  test('approves an ordinary request and files it by keyword', async () => {
+    const result = await analyzeProposal(LIBRARY_TITLE, LIBRARY_CONTENT);
+    assert.equal(result.isAppropriate, true);
+    assert.equal(result.category, '設備・環境');
+    assert.ok(result.tags.includes('#自習'), 'keeps the author\'s hashtag');
+    assert.ok(result.tags.includes('#図書室'));
+  });
+
+  test('rejects abuse with advice', async () => {
+    const result = await analyzeProposal('先生について', 'あの先生はうざいので消えろと思います。');
+    assert.equal(result.isAppropriate, false);
+    assert.ok(result.advice);
+  });
+
+  test('falls back to the next provider when one fails', async () => {
+    const failing: ModerationProvider = {
+      name: 'failing',
+      analyze: async (): Promise<AIAnalysisResult> => {
+        throw new Error('offline');
+      },
+    };
+    setModerationProviders([failing, new OfflineProvider()]);
+    try {
+      assert.equal((await analyzeProposal(LIBRARY_TITLE, LIBRARY_CONTENT)).isAppropriate, true);
+      setModerationProviders([failing]);
+      const result = await analyzeProposal(LIBRARY_TITLE, LIBRARY_CONTENT);
+      assert.equal(result.isAppropriate, false);
+      assert.equal(result.unavailable, true);
+    } finally {
+      setModerationProviders([new OfflineProvider()]);
+    }
+  });
+});
+
+describe('posting', () => {
+  test('a checked proposal is published under the category of the check', async () => {
+    const student = await signIn('poster@example.com');
+    const { status, body } = await postProposal(student, LIBRARY_TITLE, LIBRARY_CONTENT);
+    assert.equal(status, 201);
+    assert.equal(body.category, '設備・環境');
+
+    const { body: listed } = await client()<Proposal[]>('GET', '/proposals');
+    assert.ok(listed.some(p => p.id === body.id && p.title === body.title));
+  });
+
+  test('text changed after the check is refused', async () => {
+    const student = await signIn('editor@example.com');
+    const { body: analysis } = await student<{ verdict: string }>('POST', '/analyze', {
+      title: LIBRARY_TITLE,
+      content: LIBRARY_CONTENT,
+    });
+    const { status } = await student('POST', '/proposals', {
+      title: LIBRARY_TITLE,
+      content: `${LIBRARY_CONTENT} あと教室のエアコンも。`,
+      verdict: analysis.verdict,
+    });
+    assert.equal(status, 400);
+  });
+
+  test('a rejected draft gets no verdict, only a token to appeal with', async () => {
+    const student = await signIn('angry@example.com');
+    const { body } = await student<{ verdict: string | null; rejection: string | null }>('POST', '/analyze', {
+      title: '先生について',
+      content: 'あの先生はうざいので消えろと思います。',
+    });
+    assert.equal(body.verdict, null);
+    assert.ok(body.rejection);
+  });
+
+  test('signed-out visitors cannot run the check or post', async () => {
+    const visitor = client();
+    assert.equal((await visitor('POST', '/analyze', { title: LIBRARY_TITLE, content: LIBRARY_CONTENT })).status, 401);
+    assert.equal((await visitor('POST', '/proposals', { title: LIBRARY_TITLE, content: LIBRARY_CONTENT })).status, 401);
+  });
+
+  test('comments go through the same moderation', async () => {
+    const author = await signIn('commenter@example.com');
+    const { body: proposal } = await postProposal(
+      author,
+      '体育館を昼休みに開放してほしい',
+      '昼休みに体育館でバスケットボールをしたいので開放してほしいです。'
+    );
+    const rude = await author('POST', `/proposals/${proposal.id}/comments`, { body: 'こんな意見を出すやつはバカ' });
+    assert.equal(rude.status, 400);
+    const kind = await author('POST', `/proposals/${proposal.id}/comments`, { body: '私も昼休みに運動したいです。賛成です。' });
+    assert.equal(kind.status, 201);
+  });
+});
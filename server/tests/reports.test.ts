@@ -0,0 +1,121 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { postProposal, signIn, useServer, type Client } from './helpers';
+import type { AppNotification, Proposal, ProposalComment } from '../../types';
+
+useServer();
+
+const report = (api: Client, targetType: 'proposal' | 'comment', targetId: number) =>
+  api('POST', '/reports', { targetType, targetId, reason: 'harassment' });
+
+// Three reports, the default threshold, hide the target until a moderator looks at it.
+const reportThreeTimes = async (prefix: string, targetType: 'proposal' | 'comment', targetId: number) => {
+  for (const n of [1, 2, 3]) {
+    assert.equal((await report(await signIn(`${prefix}-${n}@example.com`), targetType, targetId)).status, 201);
+  }
+};
+
+describe('reports', () => {
+  test('hides a proposal after enough reports, until a moderator restores it', async () => {
+    const author = await signIn('reported-author@example.com');
+    const admin = await signIn('admin@example.com');
+    const bystander = await signIn('bystander@example.com');
+    const { body: proposal } = await postProposal(
+      author,
+      '掃除の分担を見直してほしい',
+      '同じ班が続けてトイレ掃除になっているので、分担を見直してほしいです。'
+    );
+    const first = await signIn('hide-1@example.com');
+    assert.equal((await report(first, 'proposal', proposal.id)).status, 201);
+    assert.equal((await report(first, 'proposal', proposal.id)).status, 409, 'one report per student');
+    for (const email of ['hide-2@example.com', 'hide-3@example.com']) {
+      assert.equal((await report(await signIn(email), 'proposal', proposal.id)).status, 201);
+    }
+
+    assert.equal((await bystander('GET', `/proposals/${proposal.id}`)).status, 404);
+    assert.equal((await author('GET', `/proposals/${proposal.id}`)).status, 200, 'the author still sees it');
+    const { body: staffInbox } = await admin<{ items: AppNotification[] }>('GET', '/notifications');
+    assert.ok(staffInbox.items.some(n => n.type === 'report' && n.proposalId === proposal.id));
+
+    assert.equal((await admin('POST', `/reports/proposal/${proposal.id}/restore`, {})).status, 200);
+    assert.equal((await bystander('GET', `/proposals/${proposal.id}`)).status, 200);
+  });
+
+  test('does not let students report or probe what they cannot see', async () => {
+    const author = await signIn('probed-author@example.com');
+    const { body: proposal } = await postProposal(
+      author,
+      '自転車通学を認めてほしい',
+      '家が遠い生徒のために、自転車通学を認めてほしいです。'
+    );
+    const { body: comment } = await author<ProposalComment>('POST', `/proposals/${proposal.id}/comments`, {
+      body: '駐輪場の場所も決める必要がありそうです。',
+    });
+    await reportThreeTimes('probe-comment', 'comment', comment.id);
+    await reportThreeTimes('probe-proposal', 'proposal', proposal.id);
+
+    const prober = await signIn('prober@example.com');
+    assert.equal((await report(prober, 'proposal', proposal.id)).status, 404);
+    assert.equal((await report(prober, 'comment', comment.id)).status, 404);
+    assert.equal((await report(prober, 'proposal', 999999)).status, 404, 'same answer as a missing proposal');
+  });
+
+  test('tells the anonymous author when their proposal is removed', async () => {
+    const author = await signIn('removed-author@example.com');
+    const admin = await signIn('admin@example.com');
+    const { body: proposal } = await postProposal(
+      author,
+      '体育祭の種目を増やしてほしい',
+      '体育祭で全員が参加できるリレー以外の種目を増やしてほしいです。'
+    );
+    const removed = await admin('POST', `/reports/proposal/${proposal.id}/remove`, { note: '重複した投稿のため' });
+    assert.equal(removed.status, 200);
+    assert.equal((await admin('GET', `/proposals/${proposal.id}`)).status, 200, 'moderators can still open it');
+    const { body: inbox } = await author<{ items: AppNotification[] }>('GET', '/notifications');
+    assert.equal(inbox.items[0].type, 'report');
+    assert.equal(inbox.items[0].body, '重複した投稿のため');
+    assert.equal((await report(await signIn('late-reporter@example.com'), 'proposal', proposal.id)).status, 404);
+  });
+
+  test('rejects an unknown reason', async () => {
+    const author = await signIn('reason-author@example.com');
+    const { body: proposal } = await postProposal(
+      author,
+      '水筒の持ち込みを自由にしてほしい',
+      '熱中症対策のため、スポーツドリンクも持ち込めるようにしてほしいです。'
+    );
+    const reporter = await signIn('reason-reporter@example.com');
+    for (const reason of ['abuse', 'toString', undefined]) {
+      const { status } = await reporter('POST', '/reports', { targetType: 'proposal', targetId: proposal.id, reason });
+      assert.equal(status, 400);
+    }
+  });
+
+  test('hides a redacted proposal’s earlier versions from its history', async () => {
+    const author = await signIn('redacted-author@example.com');
+    const admin = await signIn('admin@example.com');
+    const { body: proposal } = await postProposal(
+      author,
+      '休み時間を長くしてほしい',
+      '移動教室のときに休み時間が足りないので、10分から15分にしてほしいです。'
+    );
+    const { body: analysis } = await author<{ verdict: string; result: { refinedTitle: string; refinedContent: string } }>(
+      'POST',
+      '/analyze',
+      { title: '休み時間を延ばしてほしい', content: '移動教室に間に合わないので、休み時間を15分にしてほしいです。' }
+    );
+    const edit = { title: analysis.result.refinedTitle, content: analysis.result.refinedContent, verdict: analysis.verdict };
+    assert.equal((await author('PUT', `/proposals/${proposal.id}`, edit)).status, 200);
+
+    const redacted = await admin('POST', `/reports/proposal/${proposal.id}/redact`, {
+      title: '休み時間について',
+      content: '休み時間の長さを見直してほしいです。',
+    });
+    assert.equal(redacted.status, 200);
+    const { body: after } = await author<Proposal>('GET', `/proposals/${proposal.id}`);
+    assert.equal(after.title, '休み時間について');
+    const edited = after.history.filter(e => e.type === 'edited');
+    assert.equal(edited.length, 1);
+    assert.ok(edited.every(e => !`${e.from}${e.to}`.includes('15分')), 'earlier versions are masked');
+  });
+});
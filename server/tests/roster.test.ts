@@ -0,0 +1,52 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { signIn, useServer } from './helpers';
+import type { Roster, RosterImportResult, RosterPromotionResult, User } from '../../types';
+
+useServer();
+
+test('imports a roster and gives matching accounts their class', async () => {
+  const admin = await signIn('admin@example.com');
+  const csv = `学籍番号,名前,学年,クラス,メール
+3001,青木 花,２年,2-B,Aoki@example.com
+3002,井上 蓮,1,A,inoue@example.com`;
+  const { status, body } = await admin<RosterImportResult>('POST', '/roster/import', { csv });
+  assert.equal(status, 200);
+  assert.deepEqual(body, { added: 2, updated: 0, unchanged: 0 });
+
+  const student = await signIn('aoki@example.com');
+  assert.equal((await student<User>('GET', '/auth/me')).body.class, '2-B');
+  assert.equal((await student('GET', '/roster')).status, 403, 'only managers read the roster');
+
+  const again = await admin<RosterImportResult>('POST', '/roster/import', { csv });
+  assert.deepEqual(again.body, { added: 0, updated: 0, unchanged: 2 });
+});
+
+test('rejects the whole file and lists the rows to fix', async () => {
+  const admin = await signIn('admin@example.com');
+  const csv = `4001,上田 翼,4,A,ueda@example.com
+4002,,1,A,other@elsewhere.jp
+4001,大野 陽,1,B,ueda@example.com`;
+  const { status, body } = await admin<{ error: string }>('POST', '/roster/import', { csv });
+  assert.equal(status, 400);
+  assert.match(body.error, /1行目: 学年「4」が不正です/);
+  assert.match(body.error, /2行目: 氏名がありません、メールアドレスが学校のドメイン/);
+  assert.match(body.error, /3行目: 生徒番号「4001」が重複しています、メールアドレス「ueda@example.com」が重複しています/);
+  const { body: roster } = await admin<Roster>('GET', '/roster');
+  assert.ok(roster.entries.every(e => e.studentId !== '4001'), 'nothing from the file is kept');
+});
+
+test('promotes every grade once a year and graduates the top one', async () => {
+  const admin = await signIn('admin@example.com');
+  await admin('POST', '/roster/import', {
+    csv: `5001,加藤 空,3,C,kato@example.com
+5002,木村 海,1,C,kimura@example.com`,
+  });
+  const { status, body } = await admin<RosterPromotionResult>('POST', '/roster/promote', {});
+  assert.equal(status, 200);
+  assert.ok(body.graduated >= 1);
+  assert.equal((await admin('POST', '/roster/promote', {})).status, 409);
+
+  assert.equal((await (await signIn('kato@example.com'))<User>('GET', '/auth/me')).body.class, '卒業');
+  assert.equal((await (await signIn('kimura@example.com'))<User>('GET', '/auth/me')).body.class, '2-C');
+});
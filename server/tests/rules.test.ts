@@ -0,0 +1,17 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { signIn, useServer } from './helpers';
+import type { RuleSet } from '../../types';
+
+useServer();
+
+test('a rule takes effect only on a day that exists', async () => {
+  const admin = await signIn('admin@example.com');
+  const rule = { title: '服装', body: '- 制服を着用する。' };
+  for (const effectiveDate of ['2026-02-31', '2026-13-01', '26-04-01', '1900-04-01']) {
+    assert.equal((await admin('PUT', '/rules/1', { ...rule, effectiveDate })).status, 400, effectiveDate);
+  }
+  const saved = await admin<RuleSet>('PUT', '/rules/1', { ...rule, effectiveDate: '2027-04-01' });
+  assert.equal(saved.status, 200);
+  assert.equal(saved.body.rules.find(r => r.section === 1)?.effectiveDate, '2027-04-01');
+});
@@ -0,0 +1,46 @@
+import assert from 'node:assert/strict';
+import { before, describe, test } from 'node:test';
+import { postProposal, signIn, useServer } from './helpers';
+import type { Proposal, SearchResponse } from '../../types';
+
+useServer();
+
+const search = async (q: string) => {
+  const api = await signIn('reader@example.com');
+  return (await api<SearchResponse>('GET', `/proposals/search?q=${encodeURIComponent(q)}`)).body;
+};
+
+describe('search', () => {
+  let aircon: Proposal;
+
+  before(async () => {
+    const author = await signIn('searcher@example.com');
+    aircon = (
+      await postProposal(author, '教室のエアコンの温度', '夏の午後は教室が暑いので、エアコンの設定温度を下げてほしいです。')
+    ).body;
+    await postProposal(author, '図書室の座席を増やしてほしい', 'テスト前は図書室の座席が足りないので、机を増やしてほしいです。');
+  });
+
+  test('folds katakana, hiragana, half-width and punctuation to the same text', async () => {
+    for (const q of ['エアコン', 'えあこん', 'ｴｱｺﾝ', 'エア・コン']) {
+      const { hits } = await search(q);
+      assert.deepEqual(hits.map(h => h.proposal.id), [aircon.id], q);
+    }
+  });
+
+  test('marks the matched span in the original text', async () => {
+    const { hits } = await search('ｴｱｺﾝ');
+    const [start, end] = hits[0].highlights.title![0];
+    assert.equal(aircon.title.slice(start, end), 'エアコン');
+  });
+
+  test('requires every term', async () => {
+    assert.equal((await search('図書室 エアコン')).total, 0);
+    assert.equal((await search('図書室 座席')).total, 1);
+  });
+
+  test('rejects a date that does not exist', async () => {
+    const api = await signIn('reader@example.com');
+    assert.equal((await api('GET', '/proposals/search?from=2026-02-30')).status, 400);
+  });
+});
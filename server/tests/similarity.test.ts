@@ -0,0 +1,74 @@
+import './env';
+import assert from 'node:assert/strict';
+import { afterEach, describe, test } from 'node:test';
+import { embedTexts, setEmbedder, type Embedder } from '../embeddings';
+import { findSimilarProposals } from '../similarity';
+import type { Proposal } from '../../types';
+
+// Maps each text to [length, number of 「制服」], and records what it was asked to embed.
+const fakeEmbedder = (): Embedder & { calls: string[][] } => {
+  const calls: string[][] = [];
+  return {
+    name: 'fake',
+    calls,
+    embed: async texts => {
+      calls.push(texts);
+      return texts.map(t => [t.length, t.split('制服').length - 1]);
+    },
+  };
+};
+
+const proposal = (id: number, title: string, content: string) => ({ id, title, content }) as Proposal;
+
+const CANDIDATES = [
+  proposal(1, '制服を選べるようにしてほしい', '夏はポロシャツの制服も選べるようにしてほしいです。'),
+  proposal(2, '図書室の本を増やしてほしい', '漫画や新しい小説を図書室に置いてほしいです。'),
+];
+
+afterEach(() => setEmbedder(null));
+
+describe('embedTexts', () => {
+  test('returns null while embeddings are off', async () => {
+    assert.equal(await embedTexts(['制服']), null);
+  });
+
+  test('fills every slot when a text appears twice', async () => {
+    const embedder = fakeEmbedder();
+    setEmbedder(embedder);
+    const vectors = await embedTexts(['制服', '図書室', '制服']);
+    assert.deepEqual(vectors, [[2, 1], [3, 0], [2, 1]]);
+  });
+
+  test('embeds each text once per process', async () => {
+    const embedder = fakeEmbedder();
+    setEmbedder(embedder);
+    await embedTexts(['制服', '給食']);
+    await embedTexts(['給食', '体育館']);
+    assert.deepEqual(embedder.calls, [['制服', '給食'], ['体育館']]);
+  });
+});
+
+describe('findSimilarProposals', () => {
+  test('finds a proposal with overlapping wording by n-grams alone', async () => {
+    const similar = await findSimilarProposals(
+      { title: '制服を選べるようにしてほしい', content: '冬もジャージで登校できる制服にしてほしいです。' },
+      { candidates: CANDIDATES }
+    );
+    assert.equal(similar[0].proposal.id, 1);
+    assert.ok(similar.every(s => s.proposal.id !== 2 || s.score < similar[0].score));
+  });
+
+  test('leaves out the proposal being edited', async () => {
+    const similar = await findSimilarProposals(CANDIDATES[0], { candidates: CANDIDATES, excludeId: 1 });
+    assert.ok(similar.every(s => s.proposal.id !== 1));
+  });
+
+  test('uses the embeddings when the draft repeats a candidate word for word', async t => {
+    const failures = t.mock.method(console, 'error', () => {});
+    setEmbedder(fakeEmbedder());
+    const similar = await findSimilarProposals(CANDIDATES[0], { candidates: CANDIDATES, threshold: 0 });
+    assert.equal(failures.mock.callCount(), 0, 'no fallback to n-grams only');
+    assert.equal(similar.length, 2);
+    assert.equal(similar[0].proposal.id, 1);
+  });
+});
@@ -0,0 +1,84 @@
+import net from 'net';
+import { after, before } from 'node:test';
+import { SmtpTransport, setMailTransport } from '../mail';
+
+export interface ReceivedMail {
+  to: string[];
+  subject: string;
+  text: string;
+}
+
+// Decodes what nodemailer sends for a plain-text message: one part, base64 or quoted-printable.
+const decode = (raw: string): Omit<ReceivedMail, 'to'> => {
+  const [head, ...rest] = raw.split('\r\n\r\n');
+  const headers = head.replace(/\r\n[ \t]+/g, ' ');
+  const header = (name: string) => headers.match(new RegExp(`^${name}: (.*)$`, 'im'))?.[1] ?? '';
+  const body = rest.join('\r\n\r\n');
+  const encoding = header('Content-Transfer-Encoding').toLowerCase();
+  const text =
+    encoding === 'base64'
+      ? Buffer.from(body, 'base64').toString('utf8')
+      : encoding === 'quoted-printable'
+        ? Buffer.from(
+            body.replace(/=\r\n/g, '').replace(/=([0-9A-F]{2})/gi, (_, hex) => String.fromCharCode(parseInt(hex, 16))),
+            'latin1'
+          ).toString('utf8')
+        : body;
+  const subject = header('Subject').replace(/=\?utf-8\?([BQ])\?(.*?)\?=\s*/gi, (_, kind, data) =>
+    kind.toUpperCase() === 'B'
+      ? Buffer.from(data, 'base64').toString('utf8')
+      : Buffer.from(
+          data.replace(/_/g, ' ').replace(/=([0-9A-F]{2})/gi, (_m: string, hex: string) => String.fromCharCode(parseInt(hex, 16))),
+          'latin1'
+        ).toString('utf8')
+  );
+  return { subject, text: text.replace(/\r\n/g, '\n') };
+};
+
+// A local SMTP server that accepts every message and keeps it in `received`. The app's mail
+// transport points at it for the duration of the test file.
+export const useSmtpStub = () => {
+  const received: ReceivedMail[] = [];
+  const server = net.createServer(socket => {
+    let buffer = '';
+    let to: string[] = [];
+    let data: string[] | null = null;
+    const reply = (line: string) => socket.write(`${line}\r\n`);
+    reply('220 localhost ESMTP stub');
+    socket.on('data', chunk => {
+      buffer += chunk.toString('latin1');
+      for (let end = buffer.indexOf('\r\n'); end >= 0; end = buffer.indexOf('\r\n')) {
+        const line = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+        if (data) {
+          if (line !== '.') {
+            data.push(line.startsWith('.') ? line.slice(1) : line);
+            continue;
+          }
+          received.push({ to, ...decode(data.join('\r\n')) });
+          [to, data] = [[], null];
+          reply('250 OK');
+          continue;
+        }
+        const verb = line.slice(0, 4).toUpperCase();
+        if (verb === 'RCPT') to.push(line.match(/<(.*)>/)?.[1] ?? '');
+        if (verb === 'DATA') {
+          data = [];
+          reply('354 End data with <CR><LF>.<CR><LF>');
+        } else if (verb === 'QUIT') {
+          reply('221 Bye');
+          socket.end();
+        } else {
+          reply('250 OK');
+        }
+      }
+    });
+  });
+  before(async () => {
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as net.AddressInfo;
+    setMailTransport(new SmtpTransport(`smtp://127.0.0.1:${port}`, 'ProPoSal <noreply@example.com>'));
+  });
+  after(() => new Promise<void>(resolve => server.close(() => resolve())));
+  return received;
+};
@@ -0,0 +1,18 @@
+import './env';
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import type { Request, Response } from 'express';
+import { DEFAULT_SCHOOL_ID, currentSchoolId } from '../db';
+import { resolveSchool } from '../tenant';
+
+const schoolFor = (cookie: string) =>
+  new Promise<string>((resolve, reject) =>
+    resolveSchool({ headers: { cookie }, hostname: 'localhost' } as Request, {} as Response, error =>
+      error ? reject(error) : resolve(currentSchoolId())
+    )
+  );
+
+test('a school cookie that does not decode opens the default school', async () => {
+  assert.equal(await schoolFor('proposal_school=%E3%8'), DEFAULT_SCHOOL_ID);
+  assert.equal(await schoolFor('proposal_school=unknown-school'), DEFAULT_SCHOOL_ID);
+});
@@ -0,0 +1,38 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { postProposal, signIn, useServer } from './helpers';
+import type { Proposal, Workflow } from '../../types';
+
+useServer();
+
+const ROSTER = `生徒番号,氏名,学年,組,メールアドレス
+1001,卒業 予定,3,A,leaving@example.com
+2001,一年 生徒,1,A,first@example.com
+2002,二年 生徒,2,B,second@example.com`;
+
+test('moves a proposal on once enough current students support it', async () => {
+  const admin = await signIn('admin@example.com');
+  assert.equal((await admin('POST', '/roster/import', { csv: ROSTER })).status, 200);
+  assert.equal((await admin('POST', '/roster/promote', {})).status, 200, 'the third-year graduates');
+
+  const { body: workflow } = await admin<Workflow>('GET', '/workflow');
+  const next = workflow.statuses.find(s => s.name !== workflow.initial)!.name;
+  const threshold = { from: workflow.initial, to: next, kind: 'count', value: 2, responseDays: 14 };
+  assert.equal((await admin('PUT', '/workflow', { ...workflow, thresholds: [threshold] })).status, 200);
+
+  const author = await signIn('threshold-author@example.com');
+  const { body: proposal } = await postProposal(
+    author,
+    '校庭に日よけを設置してほしい',
+    '夏の体育や部活動で日陰がなく暑いので、校庭に日よけを設置してほしいです。'
+  );
+  const sign = async (email: string) =>
+    (await (await signIn(email))<Proposal>('POST', `/proposals/${proposal.id}/signatures`, {})).body;
+
+  assert.equal((await sign('leaving@example.com')).status, workflow.initial);
+  assert.equal((await sign('first@example.com')).status, workflow.initial, 'a graduate does not count');
+  const reached = await sign('second@example.com');
+  assert.equal(reached.status, next);
+  assert.ok(reached.review?.dueAt, 'the response deadline starts');
+  assert.equal(reached.signatures.length, 3);
+});
@@ -0,0 +1,70 @@
+import './env';
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { parseAndValidate, validateAnalysis } from '../moderation/validate';
+
+const approved = {
+  isAppropriate: true,
+  category: '授業',
+  tags: ['#宿題'],
+  refinedTitle: '宿題の量を調整してほしい',
+  refinedContent: 'テスト前の週は宿題を少なくしてほしいです。',
+};
+
+describe('validateAnalysis', () => {
+  test('accepts a well-formed result as is', () => {
+    const { result, repairs } = validateAnalysis(approved);
+    assert.equal(result?.category, '授業');
+    assert.deepEqual(repairs, []);
+  });
+
+  test('clamps a category that only contains a known one', () => {
+    const { result, repairs } = validateAnalysis({ ...approved, category: '授業について' });
+    assert.equal(result?.category, '授業');
+    assert.equal(repairs.length, 1);
+  });
+
+  test('files a blank category under その他 instead of the first category', () => {
+    for (const category of ['', '   ', '　']) {
+      assert.equal(validateAnalysis({ ...approved, category }).result?.category, 'その他');
+    }
+  });
+
+  test('repairs string booleans and tags', () => {
+    const { result } = validateAnalysis({ ...approved, isAppropriate: 'true', tags: '宿題、 ＃テスト' });
+    assert.equal(result?.isAppropriate, true);
+    assert.deepEqual(result?.tags, ['#宿題', '#テスト']);
+  });
+
+  test('rejects an approval without refined text', () => {
+    const { result, reasons } = validateAnalysis({ ...approved, refinedContent: ' ' });
+    assert.equal(result, null);
+    assert.ok(reasons.length > 0);
+  });
+
+  test('keeps only rule references that exist and quotes the school text', () => {
+    const rules = {
+      version: 1,
+      rules: [
+        {
+          section: 3,
+          title: '服装',
+          body: '- 制服を着用する。\n- 靴下は白とする。',
+          effectiveDate: '2026-04-01',
+          version: 1,
+          updatedAt: '2026-04-01T00:00:00.000Z',
+          updatedBy: '管理者',
+        },
+      ],
+    };
+    const { result } = validateAnalysis(
+      { ...approved, ruleRefs: [{ section: 3, clause: '靴下' }, { section: 9 }, { section: 3, clause: '靴下' }] },
+      rules
+    );
+    assert.deepEqual(result?.ruleRefs, [{ section: 3, title: '服装', clause: '靴下', quote: '靴下は白とする。' }]);
+  });
+
+  test('rejects text that is not JSON', () => {
+    assert.deepEqual(parseAndValidate('not json').reasons, ['response is not valid JSON']);
+  });
+});
@@ -0,0 +1,46 @@
+import { getProposal, signerClasses, startReview, updateProposal } from './models/proposals';
+import { gradeOf } from './models/users';
+import { getWorkflow } from './models/workflow';
+import type { Enrollment, Proposal, SignatureThreshold } from '../types';
+
+const AUTO_ACTOR = { name: '自動（賛同数）' };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Signatures needed to reach `t`; Infinity when a percentage has no enrollment to base it on.
+export const requiredSignatures = (t: SignatureThreshold, enrollment: Enrollment) => {
+  if (t.kind === 'count') return t.value;
+  const base = t.grade === undefined ? enrollment.total : enrollment.grades[String(t.grade)] ?? 0;
+  return base > 0 ? Math.ceil((base * t.value) / 100) : Infinity;
+};
+
+const describe = (t: SignatureThreshold, required: number) => {
+  const scope = t.grade === undefined ? '全校生徒' : `${t.grade}年生`;
+  return t.kind === 'count'
+    ? `${t.grade === undefined ? '' : `${scope}の`}賛同が${required}人に達しました。`
+    : `賛同が${scope}の${t.value}%（${required}人）に達しました。`;
+};
+
+// Moves the proposal along every threshold it now meets (one status at a time, so chained
+// thresholds apply in order) and opens a review with a response deadline on the first one.
+export const applySignatureThresholds = (proposalId: number): Proposal | undefined => {
+  const { thresholds, enrollment, statuses } = getWorkflow();
+  let proposal = getProposal(proposalId);
+  for (let step = 0; proposal && step < statuses.length; step++) {
+    const status = proposal.status;
+    const grades = signerClasses(proposalId).map(gradeOf);
+    const reached = thresholds.find(t => {
+      if (t.from !== status) return false;
+      const count = t.grade === undefined ? grades.length : grades.filter(g => g === t.grade).length;
+      return count >= requiredSignatures(t, enrollment);
+    });
+    if (!reached) break;
+    startReview(proposalId, new Date(Date.now() + reached.responseDays * DAY_MS).toISOString());
+    proposal = updateProposal(
+      proposalId,
+      { status: reached.to, reason: describe(reached, requiredSignatures(reached, enrollment)) },
+      AUTO_ACTOR
+    );
+  }
+  return proposal;
+};
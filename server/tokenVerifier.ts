@@ -0,0 +1,48 @@
+import { OAuth2Client } from 'google-auth-library';
+import { config } from './config';
+import { HttpError } from './http';
+
+export interface VerifiedIdentity {
+  email: string;
+  name: string;
+  // Google Workspace domain ("hd" claim), if the account belongs to one.
+  hostedDomain?: string;
+}
+
+export interface TokenVerifier {
+  // audience: the Google client ID the token must have been issued for (schools may have their own)
+  verify(idToken: string, audience: string): Promise<VerifiedIdentity>;
+}
+
+export class GoogleTokenVerifier implements TokenVerifier {
+  private client = new OAuth2Client();
+
+  async verify(idToken: string, audience: string): Promise<VerifiedIdentity> {
+    const ticket = await this.client.verifyIdToken({ idToken, audience }).catch(() => {
+      throw new HttpError(401, 'Googleの認証情報を確認できませんでした。');
+    });
+    const payload = ticket.getPayload();
+    if (!payload?.email || !payload.email_verified) {
+      throw new HttpError(401, 'メールアドレスが確認されていないアカウントです。');
+    }
+    return { email: payload.email, name: payload.name || payload.email, hostedDomain: payload.hd };
+  }
+}
+
+// Local stand-in for development and tests: accepts "dev:<email>:<name>" without contacting Google.
+export class DevTokenVerifier implements TokenVerifier {
+  async verify(idToken: string): Promise<VerifiedIdentity> {
+    const [prefix, email, name] = idToken.split(':');
+    if (prefix !== 'dev' || !email) throw new HttpError(401, '開発用トークンの形式が不正です。');
+    return { email, name: name || email, hostedDomain: email.split('@')[1] };
+  }
+}
+
+let verifier: TokenVerifier =
+  config.tokenVerifier === 'dev' ? new DevTokenVerifier() : new GoogleTokenVerifier();
+
+export const getTokenVerifier = () => verifier;
+
+export const setTokenVerifier = (next: TokenVerifier) => {
+  verifier = next;
+};
@@ -0,0 +1,96 @@
+import crypto from 'crypto';
+import { config } from './config';
+import { HttpError } from './http';
+import type { AIAnalysisResult, RuleReference } from '../types';
+
+// A verdict is the server's signed statement that this exact title/content passed the AI check.
+interface VerdictPayload {
+  digest: string;
+  userId: string;
+  category: string;
+  tags: string[];
+  rulesVersion?: number;
+  ruleRefs: RuleReference[];
+  expiresAt: number;
+}
+
+const digestOf = (title: string, content: string) =>
+  crypto.createHash('sha256').update(`${title}\u0000${content}`).digest('hex');
+
+const sign = (data: string) => crypto.createHmac('sha256', config.verdictSecret).update(data).digest('base64url');
+
+export const signVerdict = (title: string, content: string, userId: string, result: AIAnalysisResult) => {
+  const payload: VerdictPayload = {
+    digest: digestOf(title, content),
+    userId,
+    category: result.category,
+    tags: result.tags,
+    rulesVersion: result.rulesVersion,
+    ruleRefs: result.ruleRefs ?? [],
+    expiresAt: Date.now() + config.verdictTtlMs,
+  };
+  const data = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${data}.${sign(data)}`;
+};
+
+const verifyToken = <T extends { digest: string; userId: string; expiresAt: number }>(
+  token: unknown,
+  title: string,
+  content: string,
+  userId: string,
+  invalid: HttpError
+): T => {
+  if (typeof token !== 'string') throw invalid;
+  const [data, signature] = token.split('.');
+  if (!data || !signature) throw invalid;
+  const expected = Buffer.from(sign(data));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) throw invalid;
+
+  const payload = JSON.parse(Buffer.from(data, 'base64url').toString()) as T;
+  if (payload.expiresAt < Date.now() || payload.userId !== userId || payload.digest !== digestOf(title, content)) {
+    throw invalid;
+  }
+  return payload;
+};
+
+export const verifyVerdict = (token: unknown, title: string, content: string, userId: string): VerdictPayload =>
+  verifyToken<VerdictPayload>(
+    token,
+    title,
+    content,
+    userId,
+    new HttpError(400, 'AIチェックの結果が確認できません。もう一度チェックしてから投稿してください。')
+  );
+
+// The counterpart for rejections: proves to the appeal endpoint what the AI said about this text.
+interface RejectionPayload {
+  digest: string;
+  userId: string;
+  category: string;
+  advice: string;
+  unavailable: boolean;
+  expiresAt: number;
+}
+
+export const signRejection = (title: string, content: string, userId: string, result: AIAnalysisResult) => {
+  const payload: RejectionPayload = {
+    digest: digestOf(title, content),
+    userId,
+    category: result.category,
+    advice: result.advice ?? '',
+    unavailable: !!result.unavailable,
+    expiresAt: Date.now() + config.verdictTtlMs,
+  };
+  const data = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${data}.${sign(data)}`;
+};
+
+export const verifyRejection = (token: unknown, title: string, content: string, userId: string): RejectionPayload =>
+  verifyToken<RejectionPayload>(
+    token,
+    title,
+    content,
+    userId,
+    new HttpError(400, 'AIチェックの結果が確認できません。もう一度チェックしてから確認を依頼してください。')
+  );
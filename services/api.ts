@@ -0,0 +1,380 @@
+import type {
+  AIAnalysisResult,
+  Analytics,
+  AppNotification,
+  Appeal,
+  Ballot,
+  BallotElectorate,
+  CommentStance,
+  DistrictAdmin,
+  DigestFrequency,
+  ModerationAction,
+  ModerationStat,
+  NewsItem,
+  PetitionVerification,
+  Proposal,
+  ProposalComment,
+  ProposalQuestion,
+  ReportedItem,
+  ReportReason,
+  ReportTargetType,
+  Roster,
+  RosterImportResult,
+  RosterPromotionResult,
+  SearchResponse,
+  SignatureVisibility,
+  ProposalStatus,
+  RuleSet,
+  School,
+  SchoolInfo,
+  SchoolStats,
+  SimilarProposal,
+  User,
+  UserRole,
+  VoteStance,
+  Workflow,
+} from '../types';
+
+export class ApiError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+const request = async <T>(path: string, init: RequestInit = {}): Promise<T> => {
+  const res = await fetch(`/api${path}`, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init.headers },
+  });
+  const body = await res.json().catch(() => null);
+  if (!res.ok) {
+    throw new ApiError(res.status, body?.error || `通信に失敗しました (${res.status})`);
+  }
+  return body as T;
+};
+
+const json = (method: string, data?: unknown): RequestInit => ({
+  method,
+  body: data === undefined ? undefined : JSON.stringify(data),
+});
+
+// Date range (YYYY-MM-DD, both inclusive) as a query string.
+const rangeQuery = (range: { from?: string; to?: string }) => {
+  const params = new URLSearchParams();
+  if (range.from) params.set('from', range.from);
+  if (range.to) params.set('to', range.to);
+  const query = params.toString();
+  return query ? `?${query}` : '';
+};
+
+// --- Schools ---
+
+export const fetchSchool = () => request<SchoolInfo>('/schools/current');
+
+export const fetchSchools = () => request<{ id: string; name: string }[]>('/schools');
+
+// Sessions belong to one school; reload the app after switching.
+export const selectSchool = (id: string) => request<void>('/schools/current', json('PUT', { id }));
+
+// --- District (board of education) ---
+
+export type SchoolSettings = Omit<School, 'createdAt'>;
+
+export const fetchDistrictSession = () =>
+  request<{ admin: DistrictAdmin | null; googleClientId: string }>('/district/session');
+
+export const loginDistrict = (credential: string) =>
+  request<DistrictAdmin>('/district/login', json('POST', { credential }));
+
+export const logoutDistrict = () => request<void>('/district/logout', json('POST'));
+
+export const fetchDistrictSchools = () => request<School[]>('/district/schools');
+
+export const createSchool = (settings: SchoolSettings) =>
+  request<School>('/district/schools', json('POST', settings));
+
+export const updateSchool = (id: string, settings: SchoolSettings) =>
+  request<School>(`/district/schools/${encodeURIComponent(id)}`, json('PUT', settings));
+
+export const fetchDistrictStats = (range: { from?: string; to?: string } = {}) =>
+  request<SchoolStats[]>(`/district/stats${rangeQuery(range)}`);
+
+// --- Auth ---
+
+export const fetchCurrentUser = () => request<User | null>('/auth/me');
+
+export const loginWithGoogleCredential = (credential: string) =>
+  request<User>('/auth/google', json('POST', { credential }));
+
+export const login = (email: string, password: string) =>
+  request<User>('/auth/login', json('POST', { email, password }));
+
+// Emails a confirmation link; the account is created by confirmRegistration once it is opened
+export const register = (input: { name: string; email: string; password: string }) =>
+  request<{ email: string }>('/auth/register', json('POST', input));
+
+export const confirmRegistration = (token: string) =>
+  request<User>('/auth/register/confirm', json('POST', { token }));
+
+export const logout = () => request<void>('/auth/logout', json('POST'));
+
+// --- Proposals ---
+
+export const fetchProposals = () => request<Proposal[]>('/proposals');
+
+// Keyword search with facets; empty parameters are left out so the same query string can be
+// put in a shareable link.
+export const searchProposals = (params: Record<string, string>) => {
+  const query = new URLSearchParams(Object.entries(params).filter(([, v]) => v)).toString();
+  return request<SearchResponse>(`/proposals/search${query ? `?${query}` : ''}`);
+};
+
+// --- AI check ---
+
+export interface AnalysisResponse {
+  result: AIAnalysisResult;
+  // Signed approval required by createProposal; null when the post was judged inappropriate.
+  verdict: string | null;
+  // Signed rejection for requestReview; null when the post was approved.
+  rejection: string | null;
+}
+
+export const analyzeProposal = (title: string, content: string) =>
+  request<AnalysisResponse>('/analyze', json('POST', { title, content }));
+
+export const createProposal = (input: {
+  title: string;
+  content: string;
+  verdict: string;
+  signatureVisibility?: SignatureVisibility;
+}) => request<Proposal>('/proposals', json('POST', input));
+
+// The signed-in user's own proposals, including withdrawn ones
+export const fetchMyProposals = () => request<Proposal[]>('/proposals/mine');
+
+// Authors only; the verdict must come from analyzeProposal for the new text.
+export const editProposal = (id: number, input: { title: string; content: string; verdict: string }) =>
+  request<Proposal>(`/proposals/${id}`, json('PUT', input));
+
+export const withdrawProposal = (id: number, reason?: string) =>
+  request<Proposal>(`/proposals/${id}/withdraw`, json('POST', { reason }));
+
+export const fetchQuestions = (id: number) => request<ProposalQuestion[]>(`/proposals/${id}/questions`);
+
+export const postQuestion = (id: number, body: string) =>
+  request<ProposalQuestion[]>(`/proposals/${id}/questions`, json('POST', { body }));
+
+export const fetchComments = (id: number) => request<ProposalComment[]>(`/proposals/${id}/comments`);
+
+// Rejected by moderation with a 400 whose message explains what to change.
+export const postComment = (id: number, input: { body: string; stance: CommentStance; parentId?: number }) =>
+  request<ProposalComment>(`/proposals/${id}/comments`, json('POST', input));
+
+export const setCommentHelpful = (id: number, commentId: number, helpful: boolean) =>
+  request<ProposalComment>(`/proposals/${id}/comments/${commentId}/helpful`, json(helpful ? 'PUT' : 'DELETE'));
+
+// Admins only; a reason is required when hiding.
+export const setCommentHidden = (id: number, commentId: number, hidden: boolean, reason?: string) =>
+  request<ProposalComment>(`/proposals/${id}/comments/${commentId}`, json('PATCH', { hidden, reason }));
+
+export const updateProposal = (
+  id: number,
+  changes: { status?: ProposalStatus; reason?: string; adminResponse?: string }
+) =>
+  request<Proposal>(`/proposals/${id}`, json('PATCH', changes));
+
+// Author or moderators; names can only be shown more widely while nobody has signed.
+export const setSignatureVisibility = (id: number, signatureVisibility: SignatureVisibility) =>
+  request<Proposal>(`/proposals/${id}/signature-visibility`, json('PUT', { signatureVisibility }));
+
+// Signed JSON list of supporters, for staff who handle the proposal's category
+export const petitionExportUrl = (id: number) => `/api/proposals/${id}/petition`;
+
+// Checks an exported petition file; no sign-in needed.
+export const verifyPetition = (document: unknown) =>
+  request<PetitionVerification>('/petitions/verify', json('POST', document));
+
+export const findSimilarProposals = (title: string, content: string) =>
+  request<SimilarProposal[]>('/proposals/similar', json('POST', { title, content }));
+
+// Returns the target proposal with the combined signatures.
+export const mergeProposal = (sourceId: number, targetId: number) =>
+  request<Proposal>(`/proposals/${sourceId}/merge`, json('POST', { targetId }));
+
+// 'support' is a signature; voting again replaces the previous stance.
+export const voteOnProposal = (id: number, stance: VoteStance) =>
+  request<Proposal>(`/proposals/${id}/signatures`, json('POST', { stance }));
+
+export const withdrawVote = (id: number) => request<Proposal>(`/proposals/${id}/signatures`, json('DELETE'));
+
+// The signed-in user's stance per proposal ID
+export const fetchMyVotes = () => request<Record<number, VoteStance>>('/proposals/votes');
+
+export const followProposal = (id: number) => request<void>(`/proposals/${id}/subscription`, json('PUT'));
+
+export const unfollowProposal = (id: number) => request<void>(`/proposals/${id}/subscription`, json('DELETE'));
+
+// --- Appeals (human review of AI rejections) ---
+
+// title/content must be exactly the text the rejection was issued for.
+export const requestReview = (input: {
+  title: string;
+  content: string;
+  rejection: string;
+  note?: string;
+  signatureVisibility: SignatureVisibility;
+}) =>
+  request<Appeal>('/appeals', json('POST', input));
+
+export const fetchMyAppeals = () => request<Appeal[]>('/appeals/mine');
+
+export const fetchAppeals = () => request<Appeal[]>('/appeals');
+
+export const fetchModerationStats = () => request<ModerationStat[]>('/appeals/stats');
+
+// Edited title/content are published instead of the draft.
+export const approveAppeal = (id: number, input: { title?: string; content?: string; category?: string; reason?: string }) =>
+  request<Appeal>(`/appeals/${id}/approve`, json('POST', input));
+
+export const rejectAppeal = (id: number, reason: string) => request<Appeal>(`/appeals/${id}/reject`, json('POST', { reason }));
+
+// --- Reports ---
+
+export const reportContent = (input: { targetType: ReportTargetType; targetId: number; reason: ReportReason; detail?: string }) =>
+  request<{ ok: true }>('/reports', json('POST', input));
+
+// Admin dashboard; the moderation actions below return the refreshed queue.
+export const fetchReportedItems = () => request<ReportedItem[]>('/reports');
+
+export const fetchModerationLog = () => request<ModerationAction[]>('/reports/log');
+
+export const restoreReported = (type: ReportTargetType, id: number, note?: string) =>
+  request<ReportedItem[]>(`/reports/${type}/${id}/restore`, json('POST', { note }));
+
+export const removeReported = (type: ReportTargetType, id: number, note: string) =>
+  request<ReportedItem[]>(`/reports/${type}/${id}/remove`, json('POST', { note }));
+
+// Proposals take title/content, comments take body.
+export const redactReported = (
+  type: ReportTargetType,
+  id: number,
+  text: { title?: string; content?: string; body?: string; note?: string }
+) => request<ReportedItem[]>(`/reports/${type}/${id}/redact`, json('POST', text));
+
+// --- Ballots ---
+
+export const fetchBallots = (proposalId: number) => request<Ballot[]>(`/ballots?proposalId=${proposalId}`);
+
+// Admins only; opensAt defaults to now.
+export const createBallot = (input: {
+  proposalId: number;
+  question: string;
+  options: string[];
+  electorate: BallotElectorate;
+  secret: boolean;
+  opensAt?: string;
+  closesAt: string;
+}) => request<Ballot>('/ballots', json('POST', input));
+
+export const closeBallot = (id: number) => request<Ballot>(`/ballots/${id}/close`, json('POST'));
+
+// The receipt is returned only here; the voter needs it to check the tally export.
+export const castBallot = (id: number, option: number) =>
+  request<{ ballot: Ballot; receipt: string }>(`/ballots/${id}/votes`, json('POST', { option }));
+
+export const ballotTallyUrl = (id: number) => `/api/ballots/${id}/tally.json`;
+
+// --- Notifications ---
+
+export interface Inbox {
+  items: AppNotification[];
+  unread: number;
+}
+
+export const fetchNotifications = () => request<Inbox>('/notifications');
+
+// Without ids, marks everything read.
+export const markNotificationsRead = (ids?: number[]) => request<Inbox>('/notifications/read', json('POST', { ids }));
+
+// IDs of the proposals the user follows
+export const fetchSubscriptions = () => request<number[]>('/notifications/subscriptions');
+
+export const fetchNotificationSettings = () => request<{ digest: DigestFrequency }>('/notifications/settings');
+
+export const saveNotificationSettings = (settings: { digest: DigestFrequency }) =>
+  request<{ digest: DigestFrequency }>('/notifications/settings', json('PUT', settings));
+
+// --- History ---
+
+// A plain download link (the browser sends the session cookie), so this only builds the URL.
+export const historyExportUrl = (filter: { proposalId?: number; from?: string; to?: string } = {}) => {
+  const params = new URLSearchParams();
+  if (filter.proposalId !== undefined) params.set('proposalId', String(filter.proposalId));
+  if (filter.from) params.set('from', filter.from);
+  if (filter.to) params.set('to', filter.to);
+  const query = params.toString();
+  return `/api/history/export.csv${query ? `?${query}` : ''}`;
+};
+
+// --- Analytics ---
+
+export const fetchAnalytics = (range: { from?: string; to?: string } = {}) =>
+  request<Analytics>(`/analytics${rangeQuery(range)}`);
+
+// Printable A4 PDF of one proposal (counts only, no signer names)
+export const proposalDocumentUrl = (id: number) => `/api/proposals/${id}/document.pdf`;
+
+// 月次報告 PDF; the current month so far when no dates are given
+export const monthlyReportUrl = (range: { from?: string; to?: string } = {}) =>
+  `/api/proposals/monthly-report.pdf${rangeQuery(range)}`;
+
+export const analyticsExportUrl = (range: { from?: string; to?: string } = {}) =>
+  `/api/analytics/export.csv${rangeQuery(range)}`;
+
+// --- Roster ---
+
+export const fetchRoster = () => request<Roster>('/roster');
+
+export const importRoster = (csv: string) => request<RosterImportResult>('/roster/import', json('POST', { csv }));
+
+export const promoteRoster = () => request<RosterPromotionResult>('/roster/promote', json('POST'));
+
+export const removeRosterEntry = (studentId: string) =>
+  request<void>(`/roster/${encodeURIComponent(studentId)}`, json('DELETE'));
+
+// --- Users and roles ---
+
+export const fetchUsers = () => request<User[]>('/users');
+
+export const createUser = (input: { email: string; name: string; role: UserRole }) =>
+  request<User>('/users', json('POST', input));
+
+export const updateUser = (id: string, changes: { role?: UserRole; categories?: string[] }) =>
+  request<User>(`/users/${encodeURIComponent(id)}`, json('PATCH', changes));
+
+// --- School rules ---
+
+export const fetchRules = (version?: number) =>
+  request<RuleSet>(version === undefined ? '/rules' : `/rules?version=${version}`);
+
+export const saveRule = (section: number, input: { title: string; body: string; effectiveDate: string }) =>
+  request<RuleSet>(`/rules/${section}`, json('PUT', input));
+
+export const deleteRule = (section: number) => request<RuleSet>(`/rules/${section}`, json('DELETE'));
+
+// --- Workflow ---
+
+export const fetchWorkflow = () => request<Workflow>('/workflow');
+
+export const saveWorkflow = (
+  definition: Pick<Workflow, 'statuses' | 'initial' | 'transitions' | 'thresholds' | 'enrollment'>
+) =>
+  request<Workflow>('/workflow', json('PUT', definition));
+
+// --- News ---
+
+export const fetchNews = () => request<NewsItem[]>('/news');
+
+export const createNews = (input: { title: string; content: string }) =>
+  request<NewsItem>('/news', json('POST', input));
@@ -0,0 +1,560 @@
+// Shared between the browser app and the API server.
+
+// Roles are assigned by the server; the client only displays them. What each role may do is
+// defined once in permissions.ts.
+export type UserRole = 'student' | 'council' | 'teacher' | 'manager' | 'parent' | 'admin';
+
+export type Permission =
+  | 'participate'
+  | 'changeStatus'
+  | 'respond'
+  | 'postNews'
+  | 'moderate'
+  | 'viewSigners'
+  | 'runBallots'
+  | 'viewAnalytics'
+  | 'manage';
+
+export interface User {
+  id: string;
+  name: string;
+  role: UserRole;
+  class?: string;
+  email?: string;
+  // Categories this staff member handles; empty means all of them
+  categories?: string[];
+}
+
+// A vote on a proposal. Only support votes are public, named signatures; oppose and neutral
+// votes appear in the tally as counts.
+export type VoteStance = 'support' | 'oppose' | 'neutral';
+
+export interface Signature {
+  userId: string;
+  userName: string;
+  timestamp: string;
+}
+
+// Who may see signer names: everyone allowed to see signers, staff only, or nobody (counts only)
+export type SignatureVisibility = 'public' | 'staff' | 'count';
+
+export type VoteCounts = Record<VoteStance, number>;
+
+export interface VoteTally extends VoteCounts {
+  // Keyed by grade number / class name; voters without a class are under ''
+  byGrade: Record<string, VoteCounts>;
+  byClass: Record<string, VoteCounts>;
+}
+
+// A school-rule clause a proposal would change, e.g. section 3 (服装について) / 靴下.
+export interface RuleReference {
+  section: number;
+  title: string;
+  clause?: string;
+  // The rule text being challenged, copied from the rule set at analysis time.
+  quote: string;
+}
+
+// Status names come from the admin-defined Workflow.
+export type ProposalStatus = string;
+
+export type StatusColor = 'blue' | 'yellow' | 'purple' | 'teal' | 'green' | 'orange' | 'red' | 'gray';
+
+export interface WorkflowStatus {
+  name: ProposalStatus;
+  color: StatusColor;
+  // Moving into this status needs a reason that students can see (e.g. 却下)
+  requiresReason: boolean;
+  // Shown as a step of the progress bar; side states such as 保留 are not
+  onMainPath: boolean;
+}
+
+export interface WorkflowTransition {
+  from: ProposalStatus;
+  to: ProposalStatus;
+  roles: UserRole[];
+}
+
+// Support level that moves a proposal on automatically and starts the response deadline.
+export interface SignatureThreshold {
+  from: ProposalStatus;
+  to: ProposalStatus;
+  // 'count': `value` signatures; 'percent': `value`% of the students in scope
+  kind: 'count' | 'percent';
+  value: number;
+  // Only signatures from this grade count (and it is the percentage base); whole school if unset
+  grade?: number;
+  // Days the council has for an official response once the threshold is reached
+  responseDays: number;
+}
+
+// Number of students, the base for percentage thresholds
+export interface Enrollment {
+  total: number;
+  // Keyed by grade number
+  grades: Record<string, number>;
+}
+
+export interface Workflow {
+  version: number;
+  // Also the column order of the kanban
+  statuses: WorkflowStatus[];
+  // Status given to new proposals
+  initial: ProposalStatus;
+  transitions: WorkflowTransition[];
+  thresholds: SignatureThreshold[];
+  enrollment: Enrollment;
+  updatedAt: string;
+  updatedBy: string;
+}
+
+export interface Proposal {
+  id: number;
+  title: string;
+  content: string;
+  category: string;
+  status: ProposalStatus;
+  adminResponse: string;
+  timestamp: string;
+  // Support votes
+  signatures: Signature[];
+  signatureVisibility: SignatureVisibility;
+  votes: VoteTally;
+  // Version of the school rules the AI check ran against.
+  rulesVersion?: number;
+  ruleRefs: RuleReference[];
+  // Set when an admin merged this proposal into another one.
+  mergedInto?: number;
+  // Set when the author withdrew it; withdrawn proposals drop out of listings
+  withdrawnAt?: string;
+  // Hidden pending review after reports (or by an admin); removed for good by an admin.
+  // Both drop out of listings. Only admins and the author still see these proposals.
+  hiddenAt?: string;
+  removedAt?: string;
+  // Set when an admin blacked out part of the text
+  redactedAt?: string;
+  // Oldest first; append-only on the server.
+  history: ProposalEvent[];
+  // Set once a signature threshold was reached: the council owes an official response
+  review?: ProposalReview;
+}
+
+export interface ProposalReview {
+  reachedAt: string;
+  dueAt: string;
+  // Set when an admin posts the official response
+  resolvedAt?: string;
+}
+
+export type ProposalEventType = 'created' | 'status' | 'response' | 'merged' | 'edited' | 'withdrawn' | 'visibility';
+
+export interface ProposalEvent {
+  id: number;
+  type: ProposalEventType;
+  // status: old/new status; response: old/new text; merged: source/target proposal IDs;
+  // edited: old/new title and content; visibility: old/new signature visibility
+  from?: string;
+  to?: string;
+  // Reason given for a status change, when the workflow asks for one
+  note?: string;
+  actorName: string;
+  timestamp: string;
+}
+
+export interface SimilarProposal {
+  proposal: Proposal;
+  // 0–1, higher is more similar
+  score: number;
+}
+
+export interface NewsItem {
+  id: number;
+  title: string;
+  content: string;
+  timestamp: string;
+  author: string;
+}
+
+export type CommentStance = 'pro' | 'con' | 'neutral';
+
+export interface ProposalComment {
+  id: number;
+  proposalId: number;
+  // Replies point at a top-level comment; threads are one level deep
+  parentId?: number;
+  stance: CommentStance;
+  // Empty for hidden comments unless the viewer is an admin
+  body: string;
+  userName: string;
+  timestamp: string;
+  // Number of "参考になった" marks
+  helpful: number;
+  // Whether the viewer marked it helpful / wrote it
+  markedHelpful: boolean;
+  mine: boolean;
+  hidden: boolean;
+  hiddenReason?: string;
+  // Removed comments stay hidden for good
+  removed: boolean;
+  redacted: boolean;
+}
+
+export type ReportTargetType = 'proposal' | 'comment';
+
+export type ReportReason = 'harassment' | 'targeting' | 'personal_info' | 'inappropriate' | 'spam' | 'other';
+
+// A reported proposal or comment with its open reports, for the moderation dashboard.
+export interface ReportedItem {
+  targetType: ReportTargetType;
+  targetId: number;
+  // The proposal itself, or the one the comment belongs to
+  proposalId: number;
+  title?: string;
+  body: string;
+  reportCount: number;
+  reasons: Partial<Record<ReportReason, number>>;
+  details: string[];
+  hidden: boolean;
+  lastReportedAt: string;
+}
+
+export type ModerationActionType = 'auto_hidden' | 'hidden' | 'restored' | 'removed' | 'redacted';
+
+// Audit log entry; before/after hold the text for redactions.
+export interface ModerationAction {
+  id: number;
+  targetType: ReportTargetType;
+  targetId: number;
+  action: ModerationActionType;
+  note?: string;
+  before?: string;
+  after?: string;
+  actorName: string;
+  timestamp: string;
+}
+
+// --- Schools (one deployment hosting several schools) ---
+
+export interface SchoolTheme {
+  // #rrggbb; the shades are derived from primary when not given
+  primary: string;
+  primaryDark?: string;
+  primaryLight?: string;
+  primaryBg?: string;
+  accent: string;
+}
+
+export interface School {
+  // URL-safe slug, e.g. "minami-jhs"
+  id: string;
+  name: string;
+  // Only accounts under this domain may sign in; empty allows any domain
+  loginDomain: string;
+  // Accounts that become admins the first time they sign in
+  adminEmails: string[];
+  categories: string[];
+  theme: SchoolTheme;
+  // Host names that always open this school, e.g. minami.proposal.example.jp
+  hosts: string[];
+  // Empty uses the deployment's Google client
+  googleClientId: string;
+  createdAt: string;
+}
+
+// What any visitor may see of the school they are on.
+export interface SchoolInfo extends Pick<School, 'id' | 'name' | 'loginDomain' | 'categories' | 'theme' | 'googleClientId'> {
+  // Chosen by host name, so the visitor cannot switch to another school
+  pinned: boolean;
+}
+
+export interface DistrictAdmin {
+  email: string;
+  name: string;
+}
+
+// Per-school totals for the district; counts only, never any school's content.
+export interface SchoolStats {
+  schoolId: string;
+  name: string;
+  students: number;
+  // Students who signed, voted in a ballot or commented in the range
+  participants: number;
+  // Posted in the range, not counting withdrawn ones
+  proposals: number;
+  signatures: number;
+  resolved: number;
+  responded: number;
+  firstResponseMedianDays: number;
+  categories: { category: string; count: number }[];
+}
+
+// --- Search ---
+
+export type SearchField = 'title' | 'content' | 'adminResponse';
+
+export interface SearchFilters {
+  category?: string;
+  status?: ProposalStatus;
+  // Hashtag including the leading #, e.g. "#靴下"
+  tag?: string;
+  // ISO instants; from inclusive, to exclusive
+  from?: string;
+  to?: string;
+}
+
+export interface SearchHit {
+  proposal: Proposal;
+  score: number;
+  // [start, end) offsets into the original field text, in order
+  highlights: Partial<Record<SearchField, [number, number][]>>;
+}
+
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+export interface SearchResponse {
+  hits: SearchHit[];
+  total: number;
+  // Counts for the query with every other filter applied; month is YYYY-MM (school time zone)
+  facets: { category: FacetCount[]; status: FacetCount[]; tag: FacetCount[]; month: FacetCount[] };
+}
+
+// --- Analytics (admin dashboard) ---
+
+export interface AnalyticsPoint {
+  // YYYY-MM-DD or YYYY-MM (school time zone), depending on Analytics.bucket
+  period: string;
+  proposals: number;
+  signatures: number;
+}
+
+export interface DurationSummary {
+  count: number;
+  medianDays: number;
+  averageDays: number;
+}
+
+export interface ParticipationRow {
+  // Grade number or class name; '' for students without a class
+  group: string;
+  students: number;
+  // Students who signed, voted in a ballot or commented in the range
+  participants: number;
+}
+
+export interface Analytics {
+  from?: string;
+  to?: string;
+  bucket: 'day' | 'month';
+  timeline: AnalyticsPoint[];
+  // How long proposals stayed in each status before moving on
+  stageDurations: (DurationSummary & { status: string })[];
+  // From posting to the first official response
+  firstResponse: DurationSummary;
+  categories: { category: string; count: number }[];
+  // resolved: in a status with no outgoing transition; responded: has an official response
+  resolution: { total: number; resolved: number; responded: number };
+  participation: { byGrade: ParticipationRow[]; byClass: ParticipationRow[] };
+  topUnresolved: { id: number; title: string; status: string; signatures: number; timestamp: string }[];
+}
+
+// --- Roster ---
+
+export interface RosterEntry {
+  studentId: string;
+  name: string;
+  grade: number;
+  // Full class name as stored on the account, e.g. "3-A"
+  class: string;
+  email: string;
+  graduated: boolean;
+  // Whether this student has signed in yet
+  hasAccount: boolean;
+}
+
+export interface Roster {
+  entries: RosterEntry[];
+  // Student accounts whose email is not on the roster (or only as a graduate)
+  unmatched: User[];
+  // April-to-March school year, named after the year it starts in
+  schoolYear: number;
+  promotedThisYear: boolean;
+}
+
+export interface RosterImportResult {
+  added: number;
+  updated: number;
+  unchanged: number;
+}
+
+export interface RosterPromotionResult {
+  promoted: number;
+  graduated: number;
+}
+
+// Who may vote in a ballot: students in any listed grade or class; every student when both are empty
+export interface BallotElectorate {
+  grades: number[];
+  classes: string[];
+}
+
+export interface BallotResults {
+  // Votes per option, in option order
+  counts: number[];
+  // Eligible students when the ballot closed
+  electorateSize: number;
+  // Open (non-secret) ballots only: voter names per option
+  voters?: string[][];
+}
+
+export interface Ballot {
+  id: number;
+  proposalId: number;
+  question: string;
+  options: string[];
+  electorate: BallotElectorate;
+  // Secret ballots never link a voter to a choice
+  secret: boolean;
+  opensAt: string;
+  closesAt: string;
+  createdBy: string;
+  state: 'scheduled' | 'open' | 'closed';
+  voterCount: number;
+  // For the signed-in viewer
+  eligible: boolean;
+  voted: boolean;
+  // Only after the ballot has closed
+  results?: BallotResults;
+}
+
+export type NotificationType = 'status' | 'response' | 'milestone' | 'news' | 'edited' | 'withdrawn' | 'question' | 'ballot' | 'appeal' | 'report';
+
+// Message in the private thread between the council and a proposal's anonymous author
+export interface ProposalQuestion {
+  id: number;
+  sender: 'council' | 'author';
+  // Council member's name; authors stay anonymous
+  senderName?: string;
+  body: string;
+  timestamp: string;
+}
+
+export interface AppNotification {
+  id: number;
+  type: NotificationType;
+  // Set for proposal events; opens that proposal from the inbox
+  proposalId?: number;
+  title: string;
+  body: string;
+  timestamp: string;
+  read: boolean;
+}
+
+export type DigestFrequency = 'off' | 'daily' | 'weekly';
+
+export interface AIAnalysisResult {
+  isAppropriate: boolean;
+  category: string;
+  tags: string[];
+  refinedTitle?: string;
+  refinedContent?: string;
+  advice?: string;
+  rulesVersion?: number;
+  ruleRefs?: RuleReference[];
+  // Set when no moderation provider could check the text (the result is a fallback rejection)
+  unavailable?: boolean;
+}
+
+export type AppealStatus = 'pending' | 'approved' | 'rejected';
+
+// A post the AI rejected, sent to the admins for a human decision. The student is never named.
+export interface Appeal {
+  id: number;
+  title: string;
+  content: string;
+  // The AI's verdict on the draft
+  aiCategory: string;
+  aiAdvice: string;
+  aiUnavailable: boolean;
+  // The student's explanation of why the rejection is wrong
+  note?: string;
+  status: AppealStatus;
+  timestamp: string;
+  decidedAt?: string;
+  decidedBy?: string;
+  decisionReason?: string;
+  // Set on approval; differs from title/content when the admin edited the draft
+  proposalId?: number;
+  edited?: boolean;
+  // Carried over to the proposal if the appeal is approved
+  signatureVisibility: SignatureVisibility;
+}
+
+// Per AI category: how many posts were rejected and how the appeals against them ended.
+export interface ModerationStat {
+  category: string;
+  rejections: number;
+  appeals: number;
+  approved: number;
+  rejected: number;
+  pending: number;
+}
+
+export interface SchoolRule {
+  section: number;
+  title: string;
+  body: string;
+  effectiveDate: string;
+  // Rule-set version in which this section last changed.
+  version: number;
+  updatedAt: string;
+  updatedBy: string;
+}
+
+export interface RuleSet {
+  version: number;
+  rules: SchoolRule[];
+}
+
+export interface PetitionSigner {
+  // Left out when the proposal's signature visibility hides names from the exporter
+  name?: string;
+  class: string;
+  // The account matches a current (not graduated) student on the school roster
+  verified: boolean;
+  signedAt: string;
+}
+
+// Signature list handed to the staff meeting. `petition` is exactly the signed text, so any
+// change to it after export makes verification fail.
+export interface Petition {
+  format: 'proposal-petition/1';
+  school: string;
+  proposal: { id: number; title: string; category: string; status: ProposalStatus; postedAt: string };
+  signatureVisibility: SignatureVisibility;
+  exportedAt: string;
+  exportedBy: string;
+  total: number;
+  verified: number;
+  byClass: Record<string, number>;
+  signers: PetitionSigner[];
+}
+
+export interface SignedPetition {
+  petition: Petition;
+  // SHA-256 of the petition JSON, hex; quoted on paper copies
+  sha256: string;
+  // Ed25519 signature of the petition JSON, base64
+  signature: string;
+  // Start of the signing key's SHA-256 fingerprint; the full key is at /api/petitions/public-key
+  keyId: string;
+}
+
+export interface PetitionVerification {
+  valid: boolean;
+  sha256: string;
+  // Echoed back when valid, so the checker can compare it with the paper copy
+  petition?: Petition;
+}